@@ -0,0 +1,198 @@
+import {
+  calculateOverdueRatio,
+  countBacklog,
+  estimateRetrievability,
+  selectCatchUpQueue,
+} from '../../src/domain/srs/catch-up';
+import { calculateSm2Review } from '../../src/domain/srs/sm2-engine';
+import { generateCatchUpSession } from '../../src/domain/flashcards/session-generator';
+import type { LanguageProfile, ReviewLogEntry, SrsData, VocabItem } from '../../src/contracts/models';
+
+const now = new Date('2025-02-01T12:00:00.000Z');
+
+const srs = (overrides: Partial<SrsData>): SrsData => ({
+  id: 'srs',
+  algorithm: 'sm2',
+  streak: 3,
+  intervalHours: 24 * 10,
+  easeFactor: 2.5,
+  dueAt: '2025-01-25T12:00:00.000Z',
+  lastReviewedAt: '2025-01-15T12:00:00.000Z',
+  ...overrides,
+});
+
+const createVocab = (id: string, srsData?: SrsData, overrides: Partial<VocabItem> = {}) =>
+  ({
+    id,
+    term: `term-${id}`,
+    meaning: `meaning-${id}`,
+    examples: [],
+    tags: [],
+    folders: [],
+    level: 'A1',
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z',
+    srsData,
+    ...overrides,
+  }) as VocabItem;
+
+const review = (vocabItemId: string, overrides: Partial<ReviewLogEntry> = {}): ReviewLogEntry => ({
+  id: `log-${vocabItemId}`,
+  vocabItemId,
+  reviewedAt: '2025-02-01T08:00:00.000Z',
+  activityType: 'recognition',
+  quality: 4,
+  score: null,
+  elapsedHours: 24,
+  previousIntervalHours: 24,
+  nextIntervalHours: 72,
+  algorithm: 'sm2',
+  ...overrides,
+});
+
+describe('catch-up triage', () => {
+  it('estimates lower retrievability the longer an item has gone unreviewed', () => {
+    const fresh = estimateRetrievability(srs({ lastReviewedAt: '2025-01-31T12:00:00.000Z' }), now);
+    const stale = estimateRetrievability(srs({ lastReviewedAt: '2024-12-01T12:00:00.000Z' }), now);
+
+    expect(fresh).toBeGreaterThan(0.9);
+    expect(stale).toBeLessThan(fresh);
+    expect(calculateOverdueRatio(srs({}), now)).toBeCloseTo(0.7, 5);
+  });
+
+  it('queues the most salvageable items first and respects the daily limit', () => {
+    const items = [
+      // 20-day interval, 2 days overdue
+      createVocab(
+        'long-interval',
+        srs({
+          intervalHours: 24 * 20,
+          lastReviewedAt: '2025-01-10T12:00:00.000Z',
+          dueAt: '2025-01-30T12:00:00.000Z',
+        }),
+      ),
+      // 1-day interval, 10 days overdue
+      createVocab(
+        'short-interval',
+        srs({
+          intervalHours: 24,
+          lastReviewedAt: '2025-01-21T12:00:00.000Z',
+          dueAt: '2025-01-22T12:00:00.000Z',
+        }),
+      ),
+      createVocab('middle', srs({})),
+      createVocab('suspended', srs({}), { suspended: true }),
+      createVocab('not-due', srs({ dueAt: '2025-02-05T12:00:00.000Z' })),
+      createVocab('new'),
+    ];
+
+    expect(countBacklog(items, now)).toBe(3);
+
+    const selection = selectCatchUpQueue(items, { now, dailyLimit: 2 });
+
+    expect(selection.queue.map(candidate => candidate.item.id)).toEqual([
+      'long-interval',
+      'middle',
+    ]);
+    expect(selection.backlogCount).toBe(3);
+    expect(selection.deferredCount).toBe(1);
+  });
+
+  it("counts today's catch-up reviews against the daily limit", () => {
+    const items = [createVocab('overdue-a', srs({})), createVocab('overdue-b', srs({}))];
+    const reviewLog = [
+      review('done', { id: 'log-1', catchUp: true, quality: 1 }),
+      review('done', { id: 'log-2', catchUp: true }),
+      review('earlier', { catchUp: true, reviewedAt: '2025-01-31T08:00:00.000Z' }),
+    ];
+
+    expect(selectCatchUpQueue(items, { now, dailyLimit: 2, reviewLog }).queue).toHaveLength(1);
+  });
+
+  it('leaves the allowance unchanged by new cards and ordinary reviews today', () => {
+    const items = [createVocab('overdue', srs({}))];
+    const reviewLog = [
+      review('new-card', { elapsedHours: null, previousIntervalHours: null }),
+      review('due-card'),
+      review('relearned', { quality: 1 }),
+      review('relearned', { id: 'log-relearned-2' }),
+    ];
+
+    expect(selectCatchUpQueue(items, { now, dailyLimit: 1, reviewLog }).queue).toHaveLength(1);
+  });
+});
+
+describe('overdue credit', () => {
+  const previous = {
+    algorithm: 'sm2',
+    easeFactor: 2.5,
+    intervalHours: 24 * 10,
+    streak: 3,
+    dueAt: '2025-01-25T12:00:00.000Z',
+    lastReviewedAt: '2025-01-15T12:00:00.000Z',
+  };
+
+  it('grows a long-gap success from the time actually remembered', () => {
+    const plain = calculateSm2Review({ quality: 4, reviewDate: now, previous });
+    const credited = calculateSm2Review({
+      quality: 4,
+      reviewDate: now,
+      previous,
+      creditOverdue: true,
+    });
+
+    // 17 days elapsed against a 10-day interval: half the 7 overdue days are credited
+    expect(plain.intervalHours).toBe(600);
+    expect(credited.intervalHours).toBe(Math.round(24 * 13.5 * 2.5));
+    expect(credited.streak).toBe(plain.streak);
+  });
+
+  it('gives no credit for failures', () => {
+    const credited = calculateSm2Review({
+      quality: 2,
+      reviewDate: now,
+      previous,
+      creditOverdue: true,
+    });
+
+    expect(credited.intervalHours).toBe(24);
+  });
+});
+
+describe('generateCatchUpSession', () => {
+  const profile = {
+    profileId: 'profile-1',
+    nativeLanguage: 'en',
+    targetLanguage: 'es',
+    targetRegion: null,
+    preferredDifficulty: 'beginner',
+  } as unknown as LanguageProfile;
+
+  it('builds a flagged review session from the backlog', () => {
+    const result = generateCatchUpSession({
+      profile,
+      bankItems: [createVocab('a', srs({})), createVocab('b', srs({ id: 'srs-b' }))],
+      questionCount: 20,
+      presentationSide: 'term',
+      now,
+    });
+
+    expect(result.type).toBe('ok');
+    if (result.type === 'ok') {
+      expect(result.session.catchUp).toBe(true);
+      expect(result.session.cards.map(card => card.vocabId)).toEqual(['a', 'b']);
+    }
+  });
+
+  it('reports an empty backlog', () => {
+    const result = generateCatchUpSession({
+      profile,
+      bankItems: [createVocab('new')],
+      questionCount: 20,
+      presentationSide: 'term',
+      now,
+    });
+
+    expect(result.type).toBe('empty');
+  });
+});
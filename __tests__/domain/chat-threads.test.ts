@@ -0,0 +1,81 @@
+import {
+  describeThreadTitle,
+  formatThreadContext,
+  searchChatThreads,
+} from '../../src/domain/chat/threads';
+import type { ChatMessage, ChatThread } from '../../src/contracts/models';
+
+const userMessage = (content: string): ChatMessage => ({
+  id: `user-${content}`,
+  role: 'user',
+  mode: 'dictionary',
+  content,
+});
+
+const lookup = (headword: string, translation: string): ChatMessage => ({
+  id: `lookup-${headword}`,
+  role: 'assistant',
+  mode: 'dictionary',
+  headword,
+  translation,
+  definitions: [],
+  examples: [],
+  sourceLanguage: 'es',
+  targetLanguage: 'en',
+  inputLanguage: 'target',
+  folders: [],
+});
+
+const createThread = (id: string, overrides: Partial<ChatThread> = {}): ChatThread => ({
+  id,
+  title: '',
+  mode: 'dictionary',
+  messages: [],
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+describe('chat threads', () => {
+  it('titles threads by name, then by their first message', () => {
+    expect(describeThreadTitle(createThread('a', { title: ' Trip prep ' }))).toBe('Trip prep');
+    expect(describeThreadTitle(createThread('b'))).toBe('New conversation');
+    const long = describeThreadTitle(
+      createThread('c', {
+        messages: [userMessage('How do I ask for directions to the train station politely?')],
+      }),
+    );
+    expect(long).toBe('How do I ask for directions to the trai…');
+  });
+
+  it('searches titles and messages, newest first', () => {
+    const threads = [
+      createThread('old', {
+        title: 'Kitchen words',
+        messages: [lookup('cuchara', 'spoon')],
+        updatedAt: '2025-01-01T00:00:00.000Z',
+      }),
+      createThread('new', {
+        messages: [userMessage('¿Qué significa "año"?')],
+        updatedAt: '2025-01-02T00:00:00.000Z',
+      }),
+    ];
+
+    expect(searchChatThreads(threads, 'spoo').map(thread => thread.id)).toEqual(['old']);
+    expect(searchChatThreads(threads, 'kitchen cuch').map(thread => thread.id)).toEqual(['old']);
+    expect(searchChatThreads(threads, 'ano').map(thread => thread.id)).toEqual(['new']);
+    expect(searchChatThreads(threads, '').map(thread => thread.id)).toEqual(['new', 'old']);
+  });
+
+  it('lists the latest lookups as tutor context', () => {
+    const messages = [lookup('casa', 'house'), userMessage('perro'), lookup('perro', 'dog')];
+
+    expect(formatThreadContext(messages, 1)).toBe(
+      'Words looked up earlier in this conversation: perro → dog',
+    );
+    expect(formatThreadContext(messages)).toBe(
+      'Words looked up earlier in this conversation: casa → house; perro → dog',
+    );
+    expect(formatThreadContext([userMessage('hola')])).toBe('');
+  });
+});
@@ -110,4 +110,36 @@ describe('selectDrillQueue', () => {
     expect(upcomingCount).toBe(2);
     expect(newCount).toBe(1);
   });
+
+  it('orders by the requested scheduling track', () => {
+    const now = new Date('2025-01-10T12:00:00.000Z');
+    const schedule = (id: string, dueAt: string) => ({
+      id,
+      algorithm: 'sm2',
+      streak: 1,
+      intervalHours: 24,
+      easeFactor: 2.5,
+      dueAt,
+      lastReviewedAt: '2025-01-01T00:00:00.000Z',
+    });
+
+    const recognitionDue = createVocab({
+      id: 'recognition-due',
+      srsData: schedule('r1', '2025-01-09T00:00:00.000Z'),
+      productionSrsData: schedule('p1', '2025-02-01T00:00:00.000Z'),
+    });
+    const productionDue = createVocab({
+      id: 'production-due',
+      srsData: schedule('r2', '2025-02-01T00:00:00.000Z'),
+      productionSrsData: schedule('p2', '2025-01-09T00:00:00.000Z'),
+    });
+
+    const production = selectDrillQueue([recognitionDue, productionDue], {
+      now,
+      track: 'production',
+    });
+
+    expect(production.queue.map(item => item.id)).toEqual(['production-due', 'recognition-due']);
+    expect(production.dueCount).toBe(1);
+  });
 });
@@ -0,0 +1,170 @@
+import { evaluateTranslationAnswer } from '../../src/domain/translation/evaluator';
+import {
+  compareTokens,
+  foldDiacritics,
+  tokenize,
+} from '../../src/domain/translation/text-matching';
+import type { TtxItem } from '../../src/contracts/models';
+
+const createItem = (overrides: Partial<TtxItem> = {}): TtxItem => ({
+  itemId: 'item-1',
+  nativeText: 'The library is closed today.',
+  styleTags: [],
+  expectedTranslations: [
+    {
+      text: 'La biblioteca está cerrada hoy.',
+      register: 'neutral',
+      notes: 'Use estar for states.',
+    },
+  ],
+  focusVocabIds: [],
+  commonPitfalls: [{ type: 'false_cognate', explanation: 'Librería is a bookshop.' }],
+  gradingRubric: { mustInclude: [], tolerate: [], reject: [] },
+  insightHook: 'Biblioteca lends books; librería sells them.',
+  history: [],
+  isFlagged: false,
+  ...overrides,
+});
+
+describe('text matching', () => {
+  it('normalises case, punctuation and accent encoding', () => {
+    // "está" written with a combining acute accent
+    expect(tokenize('¡La biblioteca ESTA\u0301 cerrada!')).toEqual([
+      'la',
+      'biblioteca',
+      'está',
+      'cerrada',
+    ]);
+    expect(foldDiacritics('está mañana')).toBe('esta manana');
+  });
+
+  it('separates accent slips from typos and different words', () => {
+    expect(compareTokens('está', 'esta')).toBe('accent');
+    expect(compareTokens('biblioteca', 'bibloteca')).toBe('typo');
+    expect(compareTokens('hoy', 'hay')).toBe('different');
+    expect(compareTokens('biblioteca', 'librería')).toBe('different');
+  });
+});
+
+describe('evaluateTranslationAnswer', () => {
+  it('gives full marks for the expected translation regardless of case and punctuation', () => {
+    const result = evaluateTranslationAnswer(createItem(), 'la biblioteca está cerrada hoy');
+
+    expect(result.score).toBe(1);
+    expect(result.errorTags).toEqual([]);
+    expect(result.issues).toEqual([]);
+  });
+
+  it('flags a missing accent as minor rather than a wrong word', () => {
+    const result = evaluateTranslationAnswer(createItem(), 'La biblioteca esta cerrada hoy.');
+
+    expect(result.score).toBeGreaterThanOrEqual(0.95);
+    expect(result.issues).toEqual([{ kind: 'accent', expected: 'está', received: 'esta' }]);
+    expect(result.errorTags).toEqual([]);
+    expect(result.feedback).toContain('esta → está');
+  });
+
+  it('grades a single typo instead of halving the score', () => {
+    const result = evaluateTranslationAnswer(createItem(), 'La bibloteca está cerrada hoy.');
+
+    expect(result.score).toBe(0.95);
+    expect(result.issues).toEqual([
+      { kind: 'spelling', expected: 'biblioteca', received: 'bibloteca' },
+    ]);
+  });
+
+  it('scores wrong and missing words down and tags the pitfalls', () => {
+    const result = evaluateTranslationAnswer(createItem(), 'La librería está cerrada.');
+
+    expect(result.score).toBe(0.6);
+    expect(result.issues).toEqual([
+      { kind: 'wrong_word', expected: 'biblioteca', received: 'librería' },
+      { kind: 'missing', expected: 'hoy', received: null },
+    ]);
+    expect(result.errorTags).toEqual(['false_cognate']);
+    expect(result.feedback).toBe(
+      'Close! Use estar for states. — Biblioteca lends books; librería sells them.',
+    );
+  });
+
+  it('accepts any expected translation and tolerated variants', () => {
+    const item = createItem({
+      expectedTranslations: [
+        { text: 'La biblioteca está cerrada hoy.', register: 'neutral', notes: 'Neutral.' },
+        { text: 'Hoy la biblioteca está cerrada.', register: 'neutral', notes: 'Fronted.' },
+      ],
+      gradingRubric: { mustInclude: [], tolerate: ['ya'], reject: [] },
+    });
+
+    expect(evaluateTranslationAnswer(item, 'Hoy la biblioteca está cerrada').score).toBe(1);
+    expect(evaluateTranslationAnswer(item, 'Hoy la biblioteca ya está cerrada').score).toBe(1);
+  });
+
+  it('never lets a tolerated word stand in for an expected one', () => {
+    const item = createItem({
+      gradingRubric: { mustInclude: [], tolerate: ['ahora'], reject: [] },
+    });
+
+    const result = evaluateTranslationAnswer(item, 'ahora ahora ahora ahora ahora');
+
+    expect(result.score).toBe(0);
+    expect(result.alignment.some(token => token.status === 'matched')).toBe(false);
+    expect(evaluateTranslationAnswer(item, 'Ahora la biblioteca está cerrada hoy').score).toBe(1);
+  });
+
+  it('still charges wrong words when every required term is present', () => {
+    const item = createItem({
+      gradingRubric: { mustInclude: ['biblioteca'], tolerate: [], reject: [] },
+    });
+
+    const result = evaluateTranslationAnswer(item, 'La biblioteca está abierta hoy.');
+
+    expect(result.score).toBe(0.8);
+    expect(result.issues).toEqual([
+      { kind: 'wrong_word', expected: 'cerrada', received: 'abierta' },
+    ]);
+    expect(result.feedback).not.toContain('exact phrasing');
+  });
+
+  it('keeps full marks when every required term is present', () => {
+    const item = createItem({
+      gradingRubric: { mustInclude: ['biblioteca', 'cerrada'], tolerate: [], reject: [] },
+    });
+
+    const terse = evaluateTranslationAnswer(item, 'Biblioteca cerrada.');
+    expect(terse.score).toBe(1);
+    expect(terse.feedback).toBe(
+      'Correct! The tutor\'s full phrasing: "La biblioteca está cerrada hoy."',
+    );
+
+    const partial = evaluateTranslationAnswer(item, 'Biblioteca abierta.');
+    expect(partial.score).toBe(0.5);
+    expect(partial.issues).toEqual([{ kind: 'missing', expected: 'cerrada', received: null }]);
+  });
+
+  it('aligns the answer word by word with the closest translation', () => {
+    const result = evaluateTranslationAnswer(createItem(), 'La librería esta cerada, ya.');
+
+    expect(result.closestTranslation).toBe('La biblioteca está cerrada hoy.');
+    expect(result.alignment).toEqual([
+      { status: 'matched', text: 'La' },
+      { status: 'extra', text: 'librería' },
+      { status: 'missing', text: 'biblioteca' },
+      { status: 'accent', text: 'esta', expected: 'está' },
+      { status: 'misspelled', text: 'cerada', expected: 'cerrada' },
+      { status: 'extra', text: 'ya' },
+      { status: 'missing', text: 'hoy' },
+    ]);
+  });
+
+  it('scores rejected phrases as zero', () => {
+    const item = createItem({
+      gradingRubric: { mustInclude: [], tolerate: [], reject: ['librería'] },
+    });
+
+    const result = evaluateTranslationAnswer(item, 'La libreria está cerrada hoy.');
+
+    expect(result.score).toBe(0);
+    expect(result.errorTags).toEqual(['false_cognate']);
+  });
+});
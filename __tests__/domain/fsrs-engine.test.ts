@@ -0,0 +1,106 @@
+import {
+  calculateFsrsReview,
+  calculateRetrievability,
+  qualityToFsrsGrade,
+} from '../../src/domain/srs/fsrs-engine';
+
+describe('calculateFsrsReview', () => {
+  it('seeds stability and difficulty from the first grade', () => {
+    const reviewDate = new Date('2025-01-01T00:00:00.000Z');
+
+    const result = calculateFsrsReview({
+      quality: 4,
+      reviewDate,
+    });
+
+    expect(result.algorithm).toBe('fsrs');
+    expect(result.wasSuccessful).toBe(true);
+    expect(result.streak).toBe(1);
+    expect(result.stability).toBeCloseTo(3.7145, 4);
+    expect(result.difficulty).toBeCloseTo(5.1618, 4);
+    expect(result.intervalHours).toBe(96);
+    expect(result.dueAt).toBe('2025-01-05T00:00:00.000Z');
+    expect(result.retrievability).toBeNull();
+  });
+
+  it('gives easy first answers a longer interval than the SM-2 ladder', () => {
+    const result = calculateFsrsReview({
+      quality: 5,
+      reviewDate: new Date('2025-01-01T00:00:00.000Z'),
+    });
+
+    expect(result.intervalHours).toBe(14 * 24);
+    expect(result.difficulty).toBeLessThan(5.1618);
+  });
+
+  it('grows stability on recall and shrinks it on a lapse', () => {
+    const first = calculateFsrsReview({
+      quality: 4,
+      reviewDate: new Date('2025-01-01T00:00:00.000Z'),
+    });
+
+    const second = calculateFsrsReview({
+      quality: 4,
+      reviewDate: new Date('2025-01-05T00:00:00.000Z'),
+      previous: first,
+    });
+
+    expect(second.streak).toBe(2);
+    expect(second.stability).toBeGreaterThan(first.stability);
+    expect(second.intervalHours).toBeGreaterThan(first.intervalHours);
+    expect(second.retrievability).toBeCloseTo(0.9, 1);
+
+    const lapse = calculateFsrsReview({
+      quality: 1,
+      reviewDate: new Date('2025-02-01T00:00:00.000Z'),
+      previous: second,
+    });
+
+    expect(lapse.wasSuccessful).toBe(false);
+    expect(lapse.streak).toBe(0);
+    expect(lapse.stability).toBeLessThan(second.stability);
+    expect(lapse.difficulty).toBeGreaterThan(second.difficulty);
+    expect(lapse.intervalHours).toBe(24);
+  });
+
+  it('schedules shorter intervals for higher requested retention', () => {
+    const first = calculateFsrsReview({
+      quality: 4,
+      reviewDate: new Date('2025-01-01T00:00:00.000Z'),
+    });
+    const relaxed = calculateFsrsReview({
+      quality: 4,
+      reviewDate: new Date('2025-01-05T00:00:00.000Z'),
+      previous: first,
+      requestRetention: 0.8,
+    });
+    const strict = calculateFsrsReview({
+      quality: 4,
+      reviewDate: new Date('2025-01-05T00:00:00.000Z'),
+      previous: first,
+      requestRetention: 0.95,
+    });
+
+    expect(strict.intervalHours).toBeLessThan(relaxed.intervalHours);
+  });
+
+  it('enforces quality bounds', () => {
+    expect(() =>
+      calculateFsrsReview({
+        quality: -1,
+        reviewDate: new Date(),
+      }),
+    ).toThrow(/quality/);
+  });
+});
+
+describe('FSRS helpers', () => {
+  it('maps SM-2 qualities onto the four grades', () => {
+    expect([0, 1, 2, 3, 4, 5].map(qualityToFsrsGrade)).toEqual([1, 1, 1, 2, 3, 4]);
+  });
+
+  it('reaches 90% retrievability when elapsed time equals stability', () => {
+    expect(calculateRetrievability(10, 10)).toBeCloseTo(0.9, 5);
+    expect(calculateRetrievability(0, 10)).toBe(1);
+  });
+});
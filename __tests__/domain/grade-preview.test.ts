@@ -0,0 +1,117 @@
+import {
+  formatIntervalPreview,
+  previewGradeIntervals,
+} from '../../src/domain/srs/grade-preview';
+import { gradeToOutcome, updateVocabSrs } from '../../src/domain/srs/unified-srs-service';
+import type { SrsData, VocabItem } from '../../src/contracts/models';
+
+const reviewDate = new Date('2025-01-01T00:00:00.000Z');
+
+const reviewed: SrsData = {
+  id: 'srs-1',
+  algorithm: 'sm2',
+  streak: 2,
+  intervalHours: 144,
+  easeFactor: 2.5,
+  dueAt: '2025-01-01T00:00:00.000Z',
+  lastReviewedAt: '2024-12-26T00:00:00.000Z',
+  phase: 'review',
+  stepIndex: null,
+};
+
+const vocab: VocabItem = {
+  id: 'vocab-1',
+  term: 'hola',
+  meaning: 'hello',
+  examples: [],
+  tags: [],
+  folders: [],
+  level: 'A1',
+  createdAt: '2024-12-01T00:00:00.000Z',
+  updatedAt: '2024-12-01T00:00:00.000Z',
+  srsData: reviewed,
+};
+
+describe('four-button grading', () => {
+  it('maps grades to distinct qualities and binary outcomes', () => {
+    const qualities = (['again', 'hard', 'good', 'easy'] as const).map(grade =>
+      updateVocabSrs(vocab, {
+        activityType: 'recognition',
+        wasCorrect: gradeToOutcome(grade) === 'correct',
+        grade,
+        attemptedAt: reviewDate,
+      }).quality,
+    );
+
+    expect(qualities).toEqual([1, 3, 4, 5]);
+    expect(gradeToOutcome('again')).toBe('incorrect');
+    expect(gradeToOutcome('hard')).toBe('correct');
+  });
+
+  it('keeps the binary swipe mapping when no grade is given', () => {
+    const result = updateVocabSrs(vocab, {
+      activityType: 'recognition',
+      wasCorrect: true,
+      attemptedAt: reviewDate,
+    });
+
+    expect(result.quality).toBe(4);
+  });
+});
+
+describe('previewGradeIntervals', () => {
+  it('previews longer intervals for better grades', () => {
+    const previews = previewGradeIntervals(reviewed, { algorithm: 'sm2' }, reviewDate);
+
+    expect(previews.again).toBeLessThan(previews.hard);
+    expect(previews.hard).toBeLessThanOrEqual(previews.good);
+    expect(previews.good).toBeLessThan(previews.easy);
+  });
+
+  it('previews learning steps for new items', () => {
+    const previews = previewGradeIntervals(
+      undefined,
+      { algorithm: 'sm2', learningStepsMinutes: [1, 10] },
+      reviewDate,
+    );
+
+    expect(previews.again).toBeCloseTo(1 / 60);
+    expect(previews.good).toBeCloseTo(10 / 60);
+    expect(previews.easy).toBeGreaterThanOrEqual(24);
+  });
+
+  it('previews the overdue credit a catch-up review would give', () => {
+    const lateReview = new Date('2025-01-20T00:00:00.000Z');
+    const previews = previewGradeIntervals(
+      reviewed,
+      { algorithm: 'sm2', creditOverdue: true },
+      lateReview,
+    );
+    const live = updateVocabSrs(
+      vocab,
+      {
+        activityType: 'recognition',
+        wasCorrect: true,
+        grade: 'good',
+        attemptedAt: lateReview,
+        catchUp: true,
+      },
+      { algorithm: 'sm2' },
+    );
+
+    expect(previews.good).toBe(live.srsData.intervalHours);
+    expect(previews.good).toBeGreaterThan(
+      previewGradeIntervals(reviewed, { algorithm: 'sm2' }, lateReview).good,
+    );
+  });
+});
+
+describe('formatIntervalPreview', () => {
+  it('picks a readable unit', () => {
+    expect(formatIntervalPreview(1 / 60)).toBe('1m');
+    expect(formatIntervalPreview(5)).toBe('5h');
+    expect(formatIntervalPreview(72)).toBe('3d');
+    expect(formatIntervalPreview(24 * 75)).toBe('2.5mo');
+    expect(formatIntervalPreview(24 * 730)).toBe('2y');
+  });
+});
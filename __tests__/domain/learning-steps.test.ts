@@ -0,0 +1,68 @@
+import {
+  advanceLearningStep,
+  shouldRequeueInSession,
+} from '../../src/domain/srs/learning-steps';
+import { calculateFsrsReview } from '../../src/domain/srs/fsrs-engine';
+
+describe('advanceLearningStep', () => {
+  it('clamps a stale step index to the configured steps', () => {
+    const transition = advanceLearningStep({
+      previousPhase: 'learning',
+      previousStepIndex: 5,
+      isNew: false,
+      wasSuccessful: true,
+      isEasy: false,
+      learningStepsMinutes: [1, 10],
+    });
+
+    expect(transition).toEqual({ type: 'review', graduated: true });
+  });
+
+  it('leaves review items with the scheduler when no relearning steps exist', () => {
+    const transition = advanceLearningStep({
+      previousPhase: 'review',
+      isNew: false,
+      wasSuccessful: false,
+      isEasy: false,
+      relearningStepsMinutes: [],
+    });
+
+    expect(transition).toEqual({ type: 'review', graduated: false });
+  });
+});
+
+describe('shouldRequeueInSession', () => {
+  const now = new Date('2025-01-01T00:00:00.000Z');
+
+  it('re-queues items due within the learn-ahead window', () => {
+    expect(
+      shouldRequeueInSession({ phase: 'learning', dueAt: '2025-01-01T00:10:00.000Z' }, now),
+    ).toBe(true);
+    expect(
+      shouldRequeueInSession({ phase: 'relearning', dueAt: '2025-01-01T01:00:00.000Z' }, now),
+    ).toBe(false);
+  });
+
+  it('never re-queues items in review', () => {
+    expect(
+      shouldRequeueInSession({ phase: 'review', dueAt: '2025-01-01T00:00:00.000Z' }, now),
+    ).toBe(false);
+    expect(shouldRequeueInSession(undefined, now)).toBe(false);
+  });
+});
+
+describe('FSRS learning steps', () => {
+  it('keeps memory state while overriding the interval with the step', () => {
+    const result = calculateFsrsReview({
+      quality: 2,
+      reviewDate: new Date('2025-01-01T00:00:00.000Z'),
+      learningStepsMinutes: [1, 10],
+    });
+
+    expect(result.phase).toBe('learning');
+    expect(result.stepIndex).toBe(0);
+    expect(result.dueAt).toBe('2025-01-01T00:01:00.000Z');
+    expect(result.stability).toBeGreaterThan(0);
+    expect(result.difficulty).toBeGreaterThan(0);
+  });
+});
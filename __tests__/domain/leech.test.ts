@@ -0,0 +1,124 @@
+import {
+  LEECH_TAG,
+  applyLeechPolicy,
+  isItemReviewable,
+  resolveBuryUntil,
+  resolveLeechPolicy,
+  rewriteAndResetItem,
+} from '../../src/domain/srs/leech';
+import { countLapses } from '../../src/domain/srs/unified-srs-service';
+import { selectDrillQueue } from '../../src/domain/selectors/drill-selector';
+import type { SrsData, VocabItem } from '../../src/contracts/models';
+
+const reviewSrs = (overrides: Partial<SrsData> = {}): SrsData => ({
+  id: 'srs-1',
+  algorithm: 'sm2',
+  streak: 0,
+  intervalHours: 24,
+  easeFactor: 2.3,
+  dueAt: '2025-01-09T00:00:00.000Z',
+  lastReviewedAt: '2025-01-08T00:00:00.000Z',
+  ...overrides,
+});
+
+const createVocab = (overrides: Partial<VocabItem> = {}): VocabItem => ({
+  id: 'vocab-1',
+  term: 'term',
+  meaning: 'meaning',
+  examples: [],
+  tags: [],
+  folders: [],
+  level: 'A1',
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+describe('countLapses', () => {
+  it('counts failures only once an item has graduated to review', () => {
+    expect(countLapses(undefined, false)).toBe(0);
+    expect(countLapses(reviewSrs({ phase: 'learning' }), false)).toBe(0);
+    expect(countLapses(reviewSrs({ lapses: 2 }), false)).toBe(3);
+    expect(countLapses(reviewSrs({ lapses: 2 }), true)).toBe(2);
+  });
+});
+
+describe('applyLeechPolicy', () => {
+  it('tags and suspends an item reaching the threshold', () => {
+    const item = createVocab({ productionSrsData: reviewSrs({ lapses: 4 }) });
+    const result = applyLeechPolicy(item, resolveLeechPolicy({ leechThreshold: 4 }));
+
+    expect(result.tags).toEqual([LEECH_TAG]);
+    expect(result.folders).toEqual([LEECH_TAG]);
+    expect(result.suspended).toBe(true);
+  });
+
+  it('only tags when the profile opts out of suspension', () => {
+    const item = createVocab({ srsData: reviewSrs({ lapses: 8 }) });
+    const result = applyLeechPolicy(item, resolveLeechPolicy({ leechAction: 'tag' }));
+
+    expect(result.tags).toEqual([LEECH_TAG]);
+    expect(result.suspended).toBeUndefined();
+  });
+
+  it('leaves items below the threshold or already tagged untouched', () => {
+    const policy = resolveLeechPolicy();
+    const below = createVocab({ srsData: reviewSrs({ lapses: 7 }) });
+    const tagged = createVocab({
+      tags: [LEECH_TAG],
+      suspended: false,
+      srsData: reviewSrs({ lapses: 9 }),
+    });
+
+    expect(applyLeechPolicy(below, policy)).toBe(below);
+    expect(applyLeechPolicy(tagged, policy)).toBe(tagged);
+  });
+});
+
+describe('isItemReviewable', () => {
+  const now = new Date('2025-01-10T12:00:00.000Z');
+
+  it('excludes suspended items and items buried into the future', () => {
+    expect(isItemReviewable(createVocab(), now)).toBe(true);
+    expect(isItemReviewable(createVocab({ suspended: true }), now)).toBe(false);
+    expect(isItemReviewable(createVocab({ buriedUntil: resolveBuryUntil(now) }), now)).toBe(false);
+    expect(isItemReviewable(createVocab({ buriedUntil: '2025-01-10T00:00:00.000Z' }), now)).toBe(
+      true,
+    );
+  });
+
+  it('keeps suspended and buried items out of the drill queue', () => {
+    const items = [
+      createVocab({ id: 'active', srsData: reviewSrs() }),
+      createVocab({ id: 'suspended', srsData: reviewSrs(), suspended: true }),
+      createVocab({ id: 'buried', srsData: reviewSrs(), buriedUntil: resolveBuryUntil(now) }),
+    ];
+
+    const selection = selectDrillQueue(items, { now });
+    expect(selection.queue.map(item => item.id)).toEqual(['active']);
+  });
+});
+
+describe('rewriteAndResetItem', () => {
+  it('replaces the text and starts both tracks over', () => {
+    const item = createVocab({
+      tags: ['food', LEECH_TAG],
+      folders: ['food', LEECH_TAG],
+      suspended: true,
+      buriedUntil: '2025-01-11T00:00:00.000Z',
+      srsData: reviewSrs({ lapses: 8 }),
+      productionSrsData: reviewSrs({ lapses: 3 }),
+    });
+
+    const result = rewriteAndResetItem(item, { term: ' new term ', meaning: 'new meaning' });
+
+    expect(result.term).toBe('new term');
+    expect(result.meaning).toBe('new meaning');
+    expect(result.tags).toEqual(['food']);
+    expect(result.folders).toEqual(['food']);
+    expect(result.suspended).toBe(false);
+    expect(result.buriedUntil).toBeNull();
+    expect(result.srsData).toBeUndefined();
+    expect(result.productionSrsData).toBeUndefined();
+  });
+});
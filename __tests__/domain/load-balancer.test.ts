@@ -0,0 +1,136 @@
+import { addHours } from 'date-fns';
+import {
+  balanceIntervalHours,
+  resolveFuzzDays,
+  toDueLoadKey,
+} from '../../src/domain/srs/load-balancer';
+import { buildDueLoad, forecastDueCounts } from '../../src/domain/srs/due-forecast';
+import { calculateSm2Review } from '../../src/domain/srs/sm2-engine';
+import type { VocabItem } from '../../src/contracts/models';
+
+const reviewDate = new Date('2025-01-10T12:00:00.000Z');
+
+const createVocab = (
+  id: string,
+  dueAt: string,
+  overrides: Partial<VocabItem> = {},
+): VocabItem => ({
+  id,
+  term: 'term',
+  meaning: 'meaning',
+  examples: [],
+  tags: [],
+  folders: [],
+  level: 'A1',
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+  srsData: {
+    id: `srs-${id}`,
+    algorithm: 'sm2',
+    streak: 2,
+    intervalHours: 144,
+    easeFactor: 2.5,
+    dueAt,
+    lastReviewedAt: '2025-01-04T12:00:00.000Z',
+  },
+  ...overrides,
+});
+
+describe('resolveFuzzDays', () => {
+  it('leaves short intervals exact and widens the window with the interval', () => {
+    expect(resolveFuzzDays(1)).toBe(0);
+    expect(resolveFuzzDays(6)).toBe(2);
+    expect(resolveFuzzDays(30)).toBe(3);
+    expect(resolveFuzzDays(365)).toBe(20);
+  });
+});
+
+describe('balanceIntervalHours', () => {
+  it('moves the review to the least loaded day within the window', () => {
+    const dueLoad = {
+      [toDueLoadKey(addHours(reviewDate, 120))]: 4,
+      [toDueLoadKey(addHours(reviewDate, 144))]: 9,
+      [toDueLoadKey(addHours(reviewDate, 168))]: 1,
+      [toDueLoadKey(addHours(reviewDate, 96))]: 6,
+      [toDueLoadKey(addHours(reviewDate, 192))]: 3,
+    };
+
+    expect(balanceIntervalHours({ reviewDate, intervalHours: 144, dueLoad })).toBe(168);
+  });
+
+  it('keeps intervals too short to fuzz untouched', () => {
+    const dueLoad = { [toDueLoadKey(addHours(reviewDate, 24))]: 50 };
+    expect(balanceIntervalHours({ reviewDate, intervalHours: 24, dueLoad })).toBe(24);
+  });
+
+  it('spreads reviews across an empty calendar using the random source', () => {
+    expect(
+      balanceIntervalHours({ reviewDate, intervalHours: 144, dueLoad: {}, random: () => 0 }),
+    ).toBe(96);
+    expect(
+      balanceIntervalHours({ reviewDate, intervalHours: 144, dueLoad: {}, random: () => 0.99 }),
+    ).toBe(192);
+  });
+});
+
+describe('calculateSm2Review load balancing', () => {
+  const previous = {
+    algorithm: 'sm2',
+    easeFactor: 2.5,
+    intervalHours: 24,
+    streak: 1,
+    dueAt: reviewDate.toISOString(),
+    lastReviewedAt: '2025-01-09T12:00:00.000Z',
+  };
+
+  it('schedules exactly when no due load is supplied', () => {
+    const result = calculateSm2Review({ quality: 4, reviewDate, previous });
+    expect(result.intervalHours).toBe(144);
+  });
+
+  it('places the due date on a quieter day when a due load is supplied', () => {
+    const busy = toDueLoadKey(addHours(reviewDate, 144));
+    const dueLoad = {
+      [toDueLoadKey(addHours(reviewDate, 96))]: 5,
+      [toDueLoadKey(addHours(reviewDate, 120))]: 5,
+      [busy]: 40,
+      [toDueLoadKey(addHours(reviewDate, 192))]: 5,
+    };
+
+    const result = calculateSm2Review({ quality: 4, reviewDate, previous, dueLoad });
+
+    expect(result.intervalHours).toBe(168);
+    expect(result.dueAt).toBe(addHours(reviewDate, 168).toISOString());
+  });
+});
+
+describe('due forecast', () => {
+  const now = new Date('2025-01-10T12:00:00.000Z');
+
+  it('counts reviews per day across tracks and skips suspended items', () => {
+    const items = [
+      createVocab('a', '2025-01-12T12:00:00.000Z'),
+      createVocab('b', '2025-01-12T12:00:00.000Z', { suspended: true }),
+    ];
+
+    expect(buildDueLoad(items)).toEqual({
+      [toDueLoadKey(new Date('2025-01-12T12:00:00.000Z'))]: 1,
+    });
+  });
+
+  it('rolls overdue reviews into today and drops those beyond the horizon', () => {
+    const items = [
+      createVocab('overdue', '2025-01-01T12:00:00.000Z'),
+      createVocab('today', '2025-01-10T13:00:00.000Z'),
+      createVocab('in-two-days', '2025-01-12T12:00:00.000Z'),
+      createVocab('far', '2025-03-01T12:00:00.000Z'),
+    ];
+
+    const forecast = forecastDueCounts(items, { now, days: 30 });
+
+    expect(forecast).toHaveLength(30);
+    expect(forecast[0].count).toBe(2);
+    expect(forecast[2].count).toBe(1);
+    expect(forecast.reduce((sum, day) => sum + day.count, 0)).toBe(3);
+  });
+});
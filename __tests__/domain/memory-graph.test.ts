@@ -0,0 +1,106 @@
+import {
+  formatMemoryContext,
+  linkMemoryEntry,
+  searchMemoryEntries,
+  selectMemoryContext,
+  summariseExchange,
+} from '../../src/domain/memory/memory-graph';
+import type { MemoryEntry, VocabItem } from '../../src/contracts/models';
+
+const createVocab = (id: string, term: string, meaning: string): VocabItem => ({
+  id,
+  term,
+  meaning,
+  examples: [],
+  tags: [],
+  folders: [],
+  level: 'A1',
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+});
+
+const createEntry = (id: string, overrides: Partial<MemoryEntry> = {}): MemoryEntry => ({
+  id,
+  prompt: 'prompt',
+  response: 'response',
+  summary: 'summary',
+  createdAt: '2025-01-01T00:00:00.000Z',
+  vocabItemIds: [],
+  pitfallTypes: [],
+  ...overrides,
+});
+
+const bank = [
+  createVocab('embarazada', 'embarazada', 'pregnant'),
+  createVocab('mesa', 'la mesa', 'table'),
+  createVocab('a', 'a', 'to'),
+];
+
+describe('memory graph', () => {
+  it('links bank terms and pitfalls mentioned in an exchange', () => {
+    const links = linkMemoryEntry(
+      {
+        prompt: 'Does EMBARAZADA mean embarrassed?',
+        response: 'No, it is a false friend. And "la mesa" is feminine.',
+      },
+      bank,
+    );
+
+    expect(links).toEqual({
+      vocabItemIds: ['embarazada', 'mesa'],
+      pitfallTypes: ['false_cognate', 'gender'],
+    });
+  });
+
+  it('summarises an explanation with its first sentence', () => {
+    expect(summariseExchange('Use "ser" for identity.  "Estar" is for states.')).toBe(
+      'Use "ser" for identity.',
+    );
+    const long = summariseExchange(`${'word '.repeat(40)}end.`);
+    expect(long.length).toBeLessThanOrEqual(140);
+    expect(long.endsWith('…')).toBe(true);
+  });
+
+  it('searches exchanges, linked vocabulary and pitfall names', () => {
+    const vocabById = new Map(bank.map(item => [item.id, item]));
+    const entries = [
+      createEntry('old', { prompt: 'ser vs estar', createdAt: '2025-01-01T00:00:00.000Z' }),
+      createEntry('linked', {
+        vocabItemIds: ['embarazada'],
+        pitfallTypes: ['false_cognate'],
+        createdAt: '2025-01-02T00:00:00.000Z',
+      }),
+    ];
+
+    expect(searchMemoryEntries(entries, 'pregn', vocabById).map(entry => entry.id)).toEqual([
+      'linked',
+    ]);
+    expect(searchMemoryEntries(entries, 'false cogn', vocabById).map(entry => entry.id)).toEqual([
+      'linked',
+    ]);
+    expect(searchMemoryEntries(entries, 'Estár').map(entry => entry.id)).toEqual(['old']);
+    expect(searchMemoryEntries(entries, '').map(entry => entry.id)).toEqual(['linked', 'old']);
+  });
+
+  it('picks the entries closest to a question for tutor context', () => {
+    const entries = [
+      createEntry('ser', { prompt: 'When do I use ser?', createdAt: '2025-01-01T00:00:00.000Z' }),
+      createEntry('recent', { prompt: 'Gustar', createdAt: '2025-01-03T00:00:00.000Z' }),
+      createEntry('newer', { prompt: 'Por vs para', createdAt: '2025-01-04T00:00:00.000Z' }),
+    ];
+
+    expect(selectMemoryContext(entries, 'ser or estar?').map(entry => entry.id)).toEqual(['ser']);
+    expect(selectMemoryContext(entries, '', 2).map(entry => entry.id)).toEqual([
+      'newer',
+      'recent',
+    ]);
+    expect(
+      formatMemoryContext([
+        createEntry('ser', { prompt: 'ser?', summary: 'Identity.', pitfallTypes: ['aspect'] }),
+      ]),
+    ).toBe(
+      'The learner has already understood these explanations:\n- "ser?": Identity. (Verb aspect)',
+    );
+    expect(formatMemoryContext([])).toBe('');
+  });
+});
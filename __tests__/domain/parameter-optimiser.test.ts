@@ -0,0 +1,158 @@
+import { addHours } from 'date-fns';
+import {
+  MIN_OPTIMISER_REVIEWS,
+  optimiseSm2Parameters,
+} from '../../src/domain/srs/parameter-optimiser';
+import { DEFAULT_SM2_PARAMETERS, calculateSm2Review } from '../../src/domain/srs/sm2-engine';
+import type { ReviewLogEntry, Sm2Parameters, VocabItem } from '../../src/contracts/models';
+
+const start = new Date('2025-01-01T09:00:00.000Z');
+const now = new Date('2025-06-01T09:00:00.000Z');
+
+/**
+ * Simulates an item reviewed exactly when due with the given outcomes, returning its log.
+ * Failed reviews are answered with quality 1, successful ones with quality 4.
+ */
+const buildHistory = (vocabItemId: string, outcomes: boolean[]): ReviewLogEntry[] => {
+  let reviewDate = start;
+  let previous: ReturnType<typeof calculateSm2Review> | undefined;
+
+  return outcomes.map((recalled, index) => {
+    const quality = recalled ? 4 : 1;
+    const next = calculateSm2Review({ quality, reviewDate, previous });
+    const entry: ReviewLogEntry = {
+      id: `${vocabItemId}-${index}`,
+      vocabItemId,
+      reviewedAt: reviewDate.toISOString(),
+      activityType: 'recognition',
+      quality,
+      score: null,
+      elapsedHours: previous ? previous.intervalHours : null,
+      previousIntervalHours: previous ? previous.intervalHours : null,
+      nextIntervalHours: next.intervalHours,
+      algorithm: 'sm2',
+    };
+    previous = next;
+    reviewDate = addHours(reviewDate, next.intervalHours);
+    return entry;
+  });
+};
+
+const buildLog = (itemCount: number, outcomesFor: (index: number) => boolean[]) =>
+  Array.from({ length: itemCount }, (_, index) => buildHistory(`item-${index}`, outcomesFor(index)))
+    .flat();
+
+const createVocab = (id: string): VocabItem => ({
+  id,
+  term: 'term',
+  meaning: 'meaning',
+  examples: [],
+  tags: [],
+  folders: [],
+  level: 'A1',
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+  srsData: {
+    id: `srs-${id}`,
+    algorithm: 'sm2',
+    streak: 2,
+    intervalHours: 144,
+    easeFactor: 2.5,
+    dueAt: '2025-06-02T09:00:00.000Z',
+    lastReviewedAt: '2025-05-27T09:00:00.000Z',
+  },
+});
+
+describe('calculateSm2Review parameters', () => {
+  it('uses the supplied second step, starting ease and interval modifier', () => {
+    const parameters: Sm2Parameters = {
+      initialEaseFactor: 2,
+      secondIntervalDays: 4,
+      intervalModifier: 1.5,
+    };
+
+    const second = calculateSm2Review({
+      quality: 4,
+      reviewDate: start,
+      previous: { streak: 1, intervalHours: 24, lastReviewedAt: start.toISOString() },
+      parameters,
+    });
+    const third = calculateSm2Review({
+      quality: 4,
+      reviewDate: start,
+      previous: { ...second, easeFactor: undefined },
+      parameters,
+    });
+
+    expect(second.intervalHours).toBe(96);
+    expect(third.easeFactor).toBe(2);
+    expect(third.intervalHours).toBe(Math.round(96 * 2 * 1.5));
+  });
+});
+
+describe('optimiseSm2Parameters', () => {
+  it('keeps the defaults until there is enough history', () => {
+    const result = optimiseSm2Parameters(buildLog(5, () => [true, true, true, true]), { now });
+
+    expect(result).toEqual({
+      type: 'insufficient',
+      reviewCount: 10,
+      required: MIN_OPTIMISER_REVIEWS,
+    });
+  });
+
+  it('lengthens intervals for a learner who rarely forgets', () => {
+    const entries = buildLog(30, () => [true, true, true, true, true, true]);
+    const items = Array.from({ length: 30 }, (_, index) => createVocab(`item-${index}`));
+
+    const result = optimiseSm2Parameters(entries, { now, items });
+
+    expect(result.type).toBe('ok');
+    if (result.type === 'ok') {
+      expect(result.parameters.secondIntervalDays).toBeGreaterThan(
+        DEFAULT_SM2_PARAMETERS.secondIntervalDays,
+      );
+      expect(result.parameters.intervalModifier).toBeGreaterThan(1);
+      expect(result.parameters.targetRetention).toBe(0.9);
+      expect(result.parameters.reviewCount).toBe(120);
+      expect(result.after.retention).toBe(0.9);
+      expect(result.before.retention).toBeGreaterThan(0.9);
+      expect(result.after.reviewsPerDay).toBeLessThan(result.before.reviewsPerDay);
+    }
+  });
+
+  it('shortens intervals for a learner who often forgets', () => {
+    const entries = buildLog(40, index =>
+      index % 2 === 0
+        ? [true, true, false, true, true, false, true, true, true]
+        : [true, true, true, false, true, true, true, false, true],
+    );
+
+    const result = optimiseSm2Parameters(entries, { now });
+
+    expect(result.type).toBe('ok');
+    if (result.type === 'ok') {
+      expect(result.parameters.secondIntervalDays).toBeLessThan(
+        DEFAULT_SM2_PARAMETERS.secondIntervalDays,
+      );
+      expect(result.parameters.intervalModifier).toBeLessThan(1);
+    }
+  });
+
+  it('fits shorter intervals for a higher target and is deterministic', () => {
+    const entries = buildLog(30, index => [true, true, true, index % 4 !== 0, true, true]);
+
+    const relaxed = optimiseSm2Parameters(entries, { now, targetRetention: 0.85 });
+    const strict = optimiseSm2Parameters(entries, { now, targetRetention: 0.95 });
+
+    expect(optimiseSm2Parameters(entries, { now, targetRetention: 0.95 })).toEqual(strict);
+    if (relaxed.type === 'ok' && strict.type === 'ok') {
+      expect(strict.parameters.intervalModifier).toBeLessThan(relaxed.parameters.intervalModifier);
+      expect(strict.parameters.secondIntervalDays).toBeLessThanOrEqual(
+        relaxed.parameters.secondIntervalDays,
+      );
+    } else {
+      throw new Error('Expected both fits to succeed');
+    }
+  });
+});
@@ -0,0 +1,188 @@
+import {
+  DIALOGUE_SCENARIOS,
+  READING_NOTES,
+  SENTENCE_FRAMES,
+  renderReversePrompt,
+  renderTranslationPrompt,
+  resolveLanguagePack,
+} from '../../src/domain/translation/prompt-templates';
+import { generateMockTranslationSession } from '../../src/domain/translation/mock-generator';
+import type { LanguageProfile, VocabItem } from '../../src/contracts/models';
+
+const vocab: VocabItem = {
+  id: 'vocab-1',
+  term: 'la biblioteca',
+  meaning: 'the library; a public reading room',
+  examples: [],
+  tags: [],
+  folders: [],
+  level: 'A1',
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+};
+
+const profile: LanguageProfile = {
+  profileId: 'profile-1',
+  userId: 'user-1',
+  nativeLanguage: 'en',
+  targetLanguage: 'es',
+  targetRegion: 'mx',
+  preferredDifficulty: 'intro',
+  stylePreferences: { slang: 0.4, idioms: 0.5, formal: 0.5 },
+  savedSessions: [],
+  srsState: [],
+  errorLedger: [],
+  lastFlagAsset: 'flag',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+};
+
+const frameTexts = (difficulty: 'intro' | 'expert') =>
+  SENTENCE_FRAMES.filter(frame => frame.difficulties.includes(difficulty)).map(frame =>
+    frame.text.replace('{meaning}', 'the library'),
+  );
+
+describe('renderTranslationPrompt', () => {
+  it('fills a sentence frame for the difficulty and adds the language register', () => {
+    const prompt = renderTranslationPrompt({
+      vocab,
+      targetLanguage: 'es',
+      difficulty: 'intro',
+      styleTags: ['formal'],
+      index: 0,
+      seed: 'session-1',
+    });
+
+    const sentence = prompt.nativeText.replace(/^Translate into Spanish: "(.*)"$/, '$1');
+    expect(frameTexts('intro')).toContain(sentence);
+    expect(prompt.context).toContain('Address the listener as usted.');
+    expect(prompt.context).toContain('Include la biblioteca explicitly.');
+  });
+
+  it('answers dialogue prompts with a scenario at the right level', () => {
+    const prompt = renderTranslationPrompt({
+      vocab,
+      targetLanguage: 'fr',
+      difficulty: 'expert',
+      styleTags: ['business', 'dialogue'],
+      index: 1,
+      seed: 'session-1',
+    });
+
+    const scenario = DIALOGUE_SCENARIOS.find(candidate =>
+      prompt.nativeText.includes(candidate.line),
+    );
+    expect(scenario?.difficulties).toContain('expert');
+    expect(prompt.nativeText).toContain('in French');
+    expect(prompt.context).toContain('Use vous and a professional tone.');
+  });
+
+  it('is stable for a seed and varies across seeds', () => {
+    const render = (seed: string, index: number) =>
+      renderTranslationPrompt({
+        vocab,
+        targetLanguage: 'es',
+        difficulty: 'intermediate',
+        styleTags: ['casual'],
+        index,
+        seed,
+      }).nativeText;
+
+    expect(render('a', 0)).toBe(render('a', 0));
+    const variants = new Set(Array.from({ length: 6 }, (_, index) => render('a', index)));
+    expect(variants.size).toBeGreaterThan(1);
+  });
+
+  it('falls back to generic registers for languages without a pack', () => {
+    expect(resolveLanguagePack('it')).toMatchObject({ name: 'IT', frames: [] });
+    expect(resolveLanguagePack('IT').registers.formal).toBe('Use the polite form of address.');
+  });
+});
+
+describe('renderReversePrompt', () => {
+  const withExample = { ...vocab, examples: ['La biblioteca abre a las nueve.'] };
+
+  it('asks for the term alone at intro level', () => {
+    expect(
+      renderReversePrompt({ vocab: withExample, nativeLanguage: 'en', difficulty: 'intro' }),
+    ).toEqual({
+      nativeText: 'Translate into English: "la biblioteca"',
+      context: READING_NOTES.intro,
+    });
+  });
+
+  it('uses the example sentence as a reading passage from intermediate up', () => {
+    const prompt = renderReversePrompt({
+      vocab: withExample,
+      nativeLanguage: 'en',
+      difficulty: 'advanced',
+      exampleTranslation: 'The library opens at nine.',
+    });
+
+    expect(prompt.nativeText).toBe('Translate into English: "La biblioteca abre a las nueve."');
+    expect(prompt.context).toBe(
+      `Focus on what la biblioteca means here. ${READING_NOTES.advanced}`,
+    );
+    expect(
+      renderReversePrompt({ vocab, nativeLanguage: 'en', difficulty: 'advanced' }).nativeText,
+    ).toBe('Translate into English: "la biblioteca"');
+  });
+
+  it('asks for the term alone when the example has no reference translation', () => {
+    expect(
+      renderReversePrompt({ vocab: withExample, nativeLanguage: 'en', difficulty: 'intermediate' }),
+    ).toEqual({
+      nativeText: 'Translate into English: "la biblioteca"',
+      context: READING_NOTES.intro,
+    });
+  });
+});
+
+describe('generateMockTranslationSession', () => {
+  it('writes prompts for the chosen difficulty', () => {
+    const session = generateMockTranslationSession({
+      profile,
+      vocabPool: [vocab],
+      styleMix: { formal: 0.7, slang: 0.1, idioms: 0.2 },
+      reviewMode: 'review_only',
+      questionCount: 10,
+      difficulty: 'expert',
+    });
+
+    expect(session.difficulty).toBe('expert');
+    const tags = session.items.flatMap(item => item.styleTags);
+    expect(tags).toEqual(expect.arrayContaining(['business', 'narrative', 'dialogue']));
+    session.items
+      .filter(item => !item.styleTags.includes('dialogue'))
+      .forEach(item => {
+        const sentence = item.nativeText.replace(/^Translate into Spanish: "(.*)"$/, '$1');
+        expect(frameTexts('expert')).toContain(sentence);
+      });
+  });
+
+  it('alternates directions and grades reverse prompts on the meaning', () => {
+    const session = generateMockTranslationSession({
+      profile,
+      vocabPool: [vocab],
+      styleMix: { formal: 0.5, slang: 0.2, idioms: 0.3 },
+      reviewMode: 'review_only',
+      questionCount: 5,
+      direction: 'alternating',
+    });
+
+    expect(session.direction).toBe('alternating');
+    expect(session.items.map(item => item.direction)).toEqual([
+      'native_to_target',
+      'target_to_native',
+      'native_to_target',
+      'target_to_native',
+      'native_to_target',
+    ]);
+    const reverse = session.items[1];
+    expect(reverse.nativeText).toBe('Translate into English: "la biblioteca"');
+    expect(reverse.expectedTranslations.map(expected => expected.text)).toEqual([
+      'the library',
+      'the library; a public reading room',
+    ]);
+    expect(reverse.gradingRubric.mustInclude).toEqual(['the library']);
+  });
+});
@@ -0,0 +1,113 @@
+import {
+  findRecurringMistakes,
+  generateRemediationSession,
+  ledgerTagCounts,
+} from '../../src/domain/translation/remediation';
+import type { LanguageProfile, VocabItem } from '../../src/contracts/models';
+
+const createVocab = (id: string): VocabItem => ({
+  id,
+  term: `term-${id}`,
+  meaning: `meaning of ${id}`,
+  examples: [],
+  tags: [],
+  folders: [],
+  level: 'A1',
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+});
+
+const createProfile = (errorLedger: LanguageProfile['errorLedger']): LanguageProfile => ({
+  profileId: 'profile-1',
+  userId: 'user-1',
+  nativeLanguage: 'en',
+  targetLanguage: 'es',
+  targetRegion: 'mx',
+  preferredDifficulty: 'intermediate',
+  stylePreferences: { slang: 0.4, idioms: 0.5, formal: 0.5 },
+  savedSessions: [],
+  srsState: [],
+  errorLedger,
+  lastFlagAsset: 'flag',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+});
+
+const ledger: LanguageProfile['errorLedger'] = [
+  { vocabId: 'mesa', errorTags: ['gender'], count: 4, tagCounts: { gender: 4 } },
+  {
+    vocabId: 'usted',
+    errorTags: ['register', 'politeness'],
+    count: 3,
+    tagCounts: { register: 2, politeness: 1 },
+  },
+  {
+    vocabId: 'agua',
+    errorTags: ['gender', 'register'],
+    count: 3,
+    tagCounts: { gender: 1, register: 2 },
+  },
+  { vocabId: 'legacy', errorTags: ['false_cognate'], count: 2 },
+];
+
+describe('findRecurringMistakes', () => {
+  it('ranks pitfalls by hits and lists the words they occur on', () => {
+    expect(findRecurringMistakes(ledger)).toEqual([
+      { pitfall: 'gender', count: 5, vocabIds: ['mesa', 'agua'] },
+      { pitfall: 'register', count: 4, vocabIds: ['agua', 'usted'] },
+      { pitfall: 'false_cognate', count: 2, vocabIds: ['legacy'] },
+    ]);
+  });
+
+  it('attributes legacy counts to each tag and ignores unknown tags', () => {
+    expect(ledgerTagCounts({ vocabId: 'x', errorTags: ['gender', 'aspect'], count: 2 })).toEqual({
+      gender: 2,
+      aspect: 2,
+    });
+    expect(
+      findRecurringMistakes([{ vocabId: 'x', errorTags: ['spelling'], count: 5 }]),
+    ).toEqual([]);
+  });
+});
+
+describe('generateRemediationSession', () => {
+  const bankItems = ['mesa', 'usted', 'agua', 'legacy'].map(createVocab);
+
+  it('pairs each prompt with a recurring pitfall and the word it was missed on', () => {
+    const result = generateRemediationSession({ profile: createProfile(ledger), bankItems });
+
+    expect(result.type).toBe('ok');
+    if (result.type !== 'ok') {
+      return;
+    }
+    const prompts = result.session.items.map(item => [
+      item.focusVocabIds[0],
+      item.commonPitfalls[0].type,
+    ]);
+    expect(prompts).toEqual([
+      ['mesa', 'gender'],
+      ['agua', 'register'],
+      ['legacy', 'false_cognate'],
+      ['agua', 'gender'],
+      ['usted', 'register'],
+      ['mesa', 'gender'],
+    ]);
+    expect(result.session.topicTags).toEqual([
+      'remediation',
+      'gender',
+      'register',
+      'false_cognate',
+    ]);
+    expect(result.session.items[0].context).toContain('noun gender');
+  });
+
+  it('reports when there is nothing to remediate', () => {
+    const empty = generateRemediationSession({ profile: createProfile([]), bankItems });
+    const missingWords = generateRemediationSession({
+      profile: createProfile(ledger),
+      bankItems: [],
+    });
+
+    expect(empty.type).toBe('empty');
+    expect(missingWords.type).toBe('empty');
+  });
+});
@@ -0,0 +1,124 @@
+import { buildReviewLogEntry, replaySrsData } from '../../src/domain/srs/review-log';
+import { updateVocabSrs } from '../../src/domain/srs/unified-srs-service';
+import type { ReviewLogEntry, Sm2Parameters, VocabItem } from '../../src/contracts/models';
+
+const baseItem: VocabItem = {
+  id: 'vocab-1',
+  term: 'こんにちは',
+  meaning: 'hello',
+  examples: [],
+  tags: [],
+  folders: [],
+  level: 'N5',
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+};
+
+const reviewDates = [
+  new Date('2025-01-01T00:00:00.000Z'),
+  new Date('2025-01-02T00:00:00.000Z'),
+  new Date('2025-01-08T00:00:00.000Z'),
+];
+
+/** Reviews the item live while collecting the log entries the store would append. */
+const reviewAndLog = (
+  results: boolean[],
+  {
+    dates = reviewDates,
+    catchUp,
+    sm2Parameters,
+  }: { dates?: Date[]; catchUp?: boolean; sm2Parameters?: Sm2Parameters } = {},
+) => {
+  let item = baseItem;
+  const entries: ReviewLogEntry[] = [];
+
+  results.forEach((wasCorrect, index) => {
+    const outcome = {
+      activityType: 'recognition' as const,
+      wasCorrect,
+      attemptedAt: dates[index],
+      catchUp,
+    };
+    const update = updateVocabSrs(item, outcome, { algorithm: 'sm2', sm2Parameters });
+    entries.push(
+      buildReviewLogEntry({
+        vocabItemId: item.id,
+        track: update.track,
+        quality: update.quality,
+        reviewedAt: outcome.attemptedAt,
+        previous: item.srsData,
+        next: update.srsData,
+        catchUp,
+        id: `log-${index}`,
+      }),
+    );
+    item = { ...item, srsData: update.srsData };
+  });
+
+  return { item, entries };
+};
+
+describe('buildReviewLogEntry', () => {
+  it('records elapsed time and intervals relative to the previous review', () => {
+    const { entries } = reviewAndLog([true, true]);
+
+    expect(entries[0].elapsedHours).toBeNull();
+    expect(entries[0].previousIntervalHours).toBeNull();
+    expect(entries[1].elapsedHours).toBe(24);
+    expect(entries[1].previousIntervalHours).toBe(entries[0].nextIntervalHours);
+    expect(entries[1].algorithm).toBe('sm2');
+  });
+});
+
+describe('replaySrsData', () => {
+  it('rebuilds the live scheduling state from the log', () => {
+    const { item, entries } = reviewAndLog([true, false, true]);
+
+    const replayed = replaySrsData([...entries].reverse(), {
+      track: 'recognition',
+      id: item.srsData!.id,
+    });
+
+    expect(replayed).toEqual(item.srsData);
+  });
+
+  it('credits overdue time on catch-up reviews as the live review did', () => {
+    const lateDates = [...reviewDates.slice(0, 2), new Date('2025-01-30T00:00:00.000Z')];
+    const { item, entries } = reviewAndLog([true, true, true], { dates: lateDates, catchUp: true });
+    const { item: onTime } = reviewAndLog([true, true, true], { dates: lateDates });
+
+    expect(entries[2].catchUp).toBe(true);
+    expect(item.srsData!.intervalHours).toBeGreaterThan(onTime.srsData!.intervalHours);
+    expect(replaySrsData(entries, { track: 'recognition', id: item.srsData!.id })).toEqual(
+      item.srsData,
+    );
+  });
+
+  it('replays with the profile SM-2 parameters', () => {
+    const sm2Parameters = { initialEaseFactor: 2.1, secondIntervalDays: 4, intervalModifier: 0.8 };
+    const { item, entries } = reviewAndLog([true, true, true], { sm2Parameters });
+
+    expect(
+      replaySrsData(entries, { track: 'recognition', sm2Parameters, id: item.srsData!.id }),
+    ).toEqual(item.srsData);
+    expect(replaySrsData(entries, { track: 'recognition', id: item.srsData!.id })).not.toEqual(
+      item.srsData,
+    );
+  });
+
+  it('ignores other tracks and returns undefined without reviews', () => {
+    const { entries } = reviewAndLog([true]);
+
+    expect(replaySrsData(entries, { track: 'production' })).toBeUndefined();
+  });
+
+  it('replays the same history under a different scheduler', () => {
+    const { entries } = reviewAndLog([true, true, true]);
+
+    const replayed = replaySrsData(entries, { track: 'recognition', algorithm: 'fsrs' });
+
+    expect(replayed?.algorithm).toBe('fsrs');
+    expect(replayed?.stability).toBeGreaterThan(0);
+    expect(replayed?.lastReviewedAt).toBe('2025-01-08T00:00:00.000Z');
+  });
+});
@@ -0,0 +1,177 @@
+import { prioritiseSessionItems } from '../../src/domain/selectors/session-priority';
+import { buildVocabSelection } from '../../src/domain/vocab/selectors';
+import { buildVocabPool } from '../../src/features/translation/utils/session-builder';
+import type { SrsData, VocabItem } from '../../src/contracts/models';
+
+const now = new Date('2025-01-10T12:00:00.000Z');
+
+const createVocab = (overrides: Partial<VocabItem>): VocabItem => ({
+  id: 'id-' + Math.random().toString(36).slice(2),
+  term: 'term',
+  meaning: 'meaning',
+  examples: [],
+  tags: [],
+  folders: [],
+  level: 'A1',
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+const scheduled = (dueAt: string, overrides: Partial<SrsData> = {}): SrsData => ({
+  id: 'srs-' + dueAt,
+  algorithm: 'sm2',
+  streak: 2,
+  intervalHours: 24,
+  easeFactor: 2.5,
+  dueAt,
+  lastReviewedAt: '2025-01-05T12:00:00.000Z',
+  ...overrides,
+});
+
+describe('prioritiseSessionItems', () => {
+  it('groups items as due, upcoming, new and later', () => {
+    const due = createVocab({ id: 'due', srsData: scheduled('2025-01-10T08:00:00.000Z') });
+    const upcoming = createVocab({
+      id: 'upcoming',
+      srsData: scheduled('2025-01-10T18:00:00.000Z'),
+    });
+    const later = createVocab({ id: 'later', srsData: scheduled('2025-01-15T12:00:00.000Z') });
+    const newer = createVocab({ id: 'new', createdAt: '2025-01-09T00:00:00.000Z' });
+    const suspended = createVocab({ id: 'suspended', suspended: true });
+
+    const result = prioritiseSessionItems([later, newer, upcoming, suspended, due], {
+      now,
+      track: 'recognition',
+    });
+
+    expect(result.due.map(item => item.id)).toEqual(['due']);
+    expect(result.upcoming.map(item => item.id)).toEqual(['upcoming']);
+    expect(result.newItems.map(item => item.id)).toEqual(['new']);
+    expect(result.later.map(item => item.id)).toEqual(['later']);
+  });
+
+  it('puts more overdue items first for the same random draw', () => {
+    const slightlyLate = createVocab({
+      id: 'slightly-late',
+      srsData: scheduled('2025-01-10T11:00:00.000Z'),
+    });
+    const veryLate = createVocab({
+      id: 'very-late',
+      srsData: scheduled('2025-01-06T12:00:00.000Z'),
+    });
+
+    const result = prioritiseSessionItems([slightlyLate, veryLate], {
+      now,
+      track: 'recognition',
+      random: () => 0.5,
+    });
+
+    expect(result.due.map(item => item.id)).toEqual(['very-late', 'slightly-late']);
+  });
+
+  it('caps new items by what remains of the daily limit', () => {
+    const introducedToday = createVocab({
+      id: 'introduced',
+      srsData: scheduled('2025-01-10T12:10:00.000Z', {
+        introducedAt: '2025-01-10T11:00:00.000Z',
+        lastReviewedAt: '2025-01-10T11:00:00.000Z',
+      }),
+    });
+    const fresh = ['a', 'b', 'c'].map((id, index) =>
+      createVocab({ id, createdAt: `2025-01-0${index + 1}T00:00:00.000Z` }),
+    );
+
+    const result = prioritiseSessionItems([introducedToday, ...fresh], {
+      now,
+      track: 'recognition',
+      dailyNewCardLimit: 3,
+    });
+
+    expect(result.newItems.map(item => item.id)).toEqual(['a', 'b']);
+    expect(result.heldBackNewCount).toBe(1);
+  });
+
+  it('reads scheduling from the requested track', () => {
+    const item = createVocab({
+      id: 'recognised',
+      srsData: scheduled('2025-01-09T12:00:00.000Z'),
+    });
+
+    const result = prioritiseSessionItems([item], { now, track: 'production' });
+
+    expect(result.due).toHaveLength(0);
+    expect(result.newItems.map(entry => entry.id)).toEqual(['recognised']);
+  });
+});
+
+describe('session builders', () => {
+  const bank = [
+    createVocab({ id: 'new-1' }),
+    createVocab({ id: 'later', srsData: scheduled('2025-01-20T12:00:00.000Z') }),
+    createVocab({ id: 'due', srsData: scheduled('2025-01-09T12:00:00.000Z') }),
+    createVocab({ id: 'new-2' }),
+  ];
+
+  it('fills flashcard sessions with due items before new ones', () => {
+    const result = buildVocabSelection({
+      reviewMode: 'mixed',
+      questionCount: 2,
+      savedVocab: bank,
+      targetLanguage: 'es',
+      difficulty: 'A1',
+      now,
+      dailyNewCardLimit: 1,
+    });
+
+    expect(result.type).toBe('ok');
+    if (result.type === 'ok') {
+      expect(result.items.map(item => item.id)).toEqual(['due', 'new-1']);
+    }
+  });
+
+  it('respects the daily limit when building new-only translation pools', () => {
+    const result = buildVocabPool({
+      reviewMode: 'new_only',
+      questionCount: 2,
+      savedVocab: bank,
+      targetLanguage: 'es',
+      difficulty: 'A1',
+      topics: '',
+      track: 'recognition',
+      now,
+      dailyNewCardLimit: 1,
+    });
+
+    expect(result.type).toBe('ok');
+    if (result.type === 'ok') {
+      expect(result.items[0].id).toBe('new-1');
+      expect(result.items[1].id.startsWith('synthetic-')).toBe(true);
+    }
+  });
+
+  it('blames the daily limit when it leaves a review-only session short', () => {
+    const args = {
+      reviewMode: 'review_only' as const,
+      questionCount: 4,
+      savedVocab: bank,
+      targetLanguage: 'es',
+      difficulty: 'A1',
+      now,
+    };
+
+    const limited = buildVocabSelection({ ...args, dailyNewCardLimit: 1 });
+    expect(limited).toMatchObject({ type: 'insufficient' });
+    if (limited.type === 'insufficient') {
+      expect(limited.message).toContain('the daily new-card limit was reached');
+    }
+
+    const small = buildVocabPool({ ...args, questionCount: 5, topics: '', track: 'recognition' });
+    expect(small).toMatchObject({ type: 'insufficient' });
+    if (small.type === 'insufficient') {
+      expect(small.message).toBe(
+        'Only 4 saved items available. Reduce question count or add more words.',
+      );
+    }
+  });
+});
@@ -59,4 +59,119 @@ describe('calculateSm2Review', () => {
       }),
     ).toThrow(/quality/);
   });
+
+  describe('learning steps', () => {
+    const learningStepsMinutes = [1, 10, 60];
+    const relearningStepsMinutes = [10];
+
+    it('walks a new item through sub-day steps before graduating', () => {
+      const start = new Date('2025-01-01T00:00:00.000Z');
+
+      const first = calculateSm2Review({ quality: 4, reviewDate: start, learningStepsMinutes });
+      expect(first.phase).toBe('learning');
+      expect(first.stepIndex).toBe(1);
+      expect(first.intervalHours).toBeCloseTo(10 / 60, 5);
+      expect(first.dueAt).toBe('2025-01-01T00:10:00.000Z');
+      expect(first.streak).toBe(0);
+      expect(first.easeFactor).toBeCloseTo(2.5, 5);
+
+      const second = calculateSm2Review({
+        quality: 4,
+        reviewDate: new Date(first.dueAt),
+        previous: first,
+        learningStepsMinutes,
+      });
+      expect(second.phase).toBe('learning');
+      expect(second.stepIndex).toBe(2);
+      expect(second.intervalHours).toBe(1);
+
+      const graduated = calculateSm2Review({
+        quality: 4,
+        reviewDate: new Date(second.dueAt),
+        previous: second,
+        learningStepsMinutes,
+      });
+      expect(graduated.phase).toBe('review');
+      expect(graduated.stepIndex).toBeNull();
+      expect(graduated.streak).toBe(1);
+      expect(graduated.intervalHours).toBe(24);
+    });
+
+    it('returns a failed learning item to the first step', () => {
+      const reviewDate = new Date('2025-01-01T00:00:00.000Z');
+
+      const result = calculateSm2Review({
+        quality: 2,
+        reviewDate,
+        previous: {
+          algorithm: 'sm2',
+          phase: 'learning',
+          stepIndex: 2,
+          lastReviewedAt: '2024-12-31T23:00:00.000Z',
+        },
+        learningStepsMinutes,
+      });
+
+      expect(result.wasSuccessful).toBe(false);
+      expect(result.phase).toBe('learning');
+      expect(result.stepIndex).toBe(0);
+      expect(result.dueAt).toBe('2025-01-01T00:01:00.000Z');
+    });
+
+    it('graduates a new item immediately on a perfect answer', () => {
+      const result = calculateSm2Review({
+        quality: 5,
+        reviewDate: new Date('2025-01-01T00:00:00.000Z'),
+        learningStepsMinutes,
+      });
+
+      expect(result.phase).toBe('review');
+      expect(result.intervalHours).toBe(24);
+    });
+
+    it('sends a lapse through relearning steps and back to review', () => {
+      const reviewed = calculateSm2Review({
+        quality: 4,
+        reviewDate: new Date('2025-01-01T00:00:00.000Z'),
+      });
+      const mature = calculateSm2Review({
+        quality: 4,
+        reviewDate: new Date('2025-01-02T00:00:00.000Z'),
+        previous: reviewed,
+      });
+
+      const lapse = calculateSm2Review({
+        quality: 1,
+        reviewDate: new Date('2025-01-10T00:00:00.000Z'),
+        previous: mature,
+        relearningStepsMinutes,
+      });
+      expect(lapse.phase).toBe('relearning');
+      expect(lapse.stepIndex).toBe(0);
+      expect(lapse.streak).toBe(0);
+      expect(lapse.dueAt).toBe('2025-01-10T00:10:00.000Z');
+      expect(lapse.easeFactor).toBeLessThan(mature.easeFactor);
+
+      const relearned = calculateSm2Review({
+        quality: 4,
+        reviewDate: new Date(lapse.dueAt),
+        previous: lapse,
+        relearningStepsMinutes,
+      });
+      expect(relearned.phase).toBe('review');
+      expect(relearned.streak).toBe(1);
+      expect(relearned.intervalHours).toBe(24);
+      expect(relearned.easeFactor).toBeCloseTo(lapse.easeFactor, 5);
+    });
+
+    it('keeps the day-based schedule when no steps are configured', () => {
+      const result = calculateSm2Review({
+        quality: 2,
+        reviewDate: new Date('2025-01-01T00:00:00.000Z'),
+      });
+
+      expect(result.phase).toBe('review');
+      expect(result.intervalHours).toBe(24);
+    });
+  });
 });
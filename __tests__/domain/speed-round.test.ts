@@ -0,0 +1,122 @@
+import {
+  addSpeedRoundBest,
+  createSpeedRound,
+  describeSpeedRound,
+  isSlowAnswer,
+  scoreSpeedRoundAnswer,
+  speedRoundTimeLeft,
+  summariseSpeedRound,
+} from '../../src/domain/practice/speed-round';
+import type { SpeedRoundResult } from '../../src/contracts/models';
+
+const createResult = (overrides: Partial<SpeedRoundResult>): SpeedRoundResult => ({
+  sessionId: 'session-1',
+  activity: 'flashcards',
+  timer: 'per_item',
+  points: 500,
+  accuracy: 0.8,
+  averageSeconds: 3,
+  completedAt: '2025-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+describe('speed round clock', () => {
+  it('sizes the countdown per item or for the whole session', () => {
+    const perItem = createSpeedRound('flashcards', 'per_item', 10);
+    const perSession = createSpeedRound('translation', 'per_session', 10);
+
+    expect(perItem).toEqual({ timer: 'per_item', limitSeconds: 8 });
+    expect(perSession).toEqual({ timer: 'per_session', limitSeconds: 300 });
+    expect(describeSpeedRound(perItem, 'card')).toBe('8s per card');
+    expect(describeSpeedRound(perSession, 'prompt')).toBe('5:00 for the session');
+  });
+
+  it('only charges earlier items against a session-wide clock', () => {
+    const perItem = createSpeedRound('flashcards', 'per_item', 10);
+    const perSession = createSpeedRound('flashcards', 'per_session', 10);
+
+    expect(speedRoundTimeLeft(perItem, 3, 40)).toBe(5);
+    expect(speedRoundTimeLeft(perSession, 3, 40)).toBe(7);
+    expect(speedRoundTimeLeft(perSession, 3, 60)).toBe(0);
+  });
+});
+
+describe('scoreSpeedRoundAnswer', () => {
+  it('rewards fast correct answers and keeps base points for slow ones', () => {
+    expect(scoreSpeedRoundAnswer({ score: 1, seconds: 0 }, 10)).toBe(200);
+    expect(scoreSpeedRoundAnswer({ score: 1, seconds: 5 }, 10)).toBe(150);
+    expect(scoreSpeedRoundAnswer({ score: 1, seconds: 20 }, 10)).toBe(100);
+    expect(scoreSpeedRoundAnswer({ score: 0.8, seconds: 5 }, 10)).toBe(120);
+    expect(scoreSpeedRoundAnswer({ score: 0.4, seconds: 1 }, 10)).toBe(0);
+  });
+
+  it('flags answers that used more than half their budget as slow', () => {
+    const round = createSpeedRound('flashcards', 'per_session', 10);
+
+    expect(isSlowAnswer(round, 10, 2)).toBe(false);
+    expect(isSlowAnswer(round, 10, 3)).toBe(true);
+  });
+});
+
+describe('summariseSpeedRound', () => {
+  it('counts unanswered items as misses', () => {
+    const result = summariseSpeedRound({
+      sessionId: 'session-1',
+      activity: 'flashcards',
+      round: createSpeedRound('flashcards', 'per_item', 4),
+      itemCount: 4,
+      answers: [
+        { score: 1, seconds: 2 },
+        { score: 0, seconds: 8 },
+        { score: 1, seconds: 4 },
+      ],
+      completedAt: new Date('2025-01-02T00:00:00.000Z'),
+    });
+
+    expect(result).toEqual({
+      sessionId: 'session-1',
+      activity: 'flashcards',
+      timer: 'per_item',
+      points: 325,
+      accuracy: 0.5,
+      averageSeconds: 4.7,
+      completedAt: '2025-01-02T00:00:00.000Z',
+    });
+  });
+});
+
+describe('addSpeedRoundBest', () => {
+  const bests = [
+    createResult({ sessionId: 'a', points: 900 }),
+    createResult({ sessionId: 'b', points: 700 }),
+    createResult({ sessionId: 'c', points: 600, activity: 'translation' }),
+  ];
+
+  it('ranks a result within its activity and keeps the board to size', () => {
+    const placed = addSpeedRoundBest(bests, createResult({ sessionId: 'd', points: 800 }), 2);
+
+    expect(placed.rank).toBe(2);
+    expect(placed.bests.map(entry => entry.sessionId)).toEqual(['c', 'a', 'd']);
+  });
+
+  it('reports results that miss the board', () => {
+    const missed = addSpeedRoundBest(bests, createResult({ sessionId: 'd', points: 100 }), 2);
+
+    expect(missed.rank).toBeNull();
+    expect(missed.bests.map(entry => entry.sessionId)).toEqual(['c', 'a', 'b']);
+  });
+
+  it('breaks ties on accuracy, then on who got there first', () => {
+    const tied = addSpeedRoundBest(
+      [createResult({ sessionId: 'a', points: 900, accuracy: 0.9 })],
+      createResult({
+        sessionId: 'b',
+        points: 900,
+        accuracy: 0.9,
+        completedAt: '2025-02-01T00:00:00.000Z',
+      }),
+    );
+
+    expect(tied.rank).toBe(2);
+  });
+});
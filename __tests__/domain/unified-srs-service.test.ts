@@ -4,9 +4,12 @@ import {
   isItemMastered,
   getDaysUntilDue,
   isItemDue,
+  migrateSrsData,
+  migrateLegacySrsTracks,
+  calculateTrackMastery,
   type ActivityOutcome,
 } from '../../src/domain/srs/unified-srs-service';
-import type { VocabItem } from '../../src/contracts/models';
+import type { SrsData, VocabItem } from '../../src/contracts/models';
 
 const createMockVocabItem = (overrides?: Partial<VocabItem>): VocabItem => ({
   id: 'test-vocab-1',
@@ -127,6 +130,82 @@ describe('updateVocabSrs', () => {
   });
 });
 
+describe('scheduler dispatch', () => {
+  const sm2History: SrsData = {
+    id: 'srs-1',
+    algorithm: 'sm2',
+    streak: 3,
+    intervalHours: 240,
+    easeFactor: 2.5,
+    dueAt: '2025-01-11T00:00:00.000Z',
+    lastReviewedAt: '2025-01-01T00:00:00.000Z',
+  };
+
+  it('keeps SM-2 scheduling when no preference is supplied', () => {
+    const vocab = createMockVocabItem({ srsData: sm2History });
+    const result = updateVocabSrs(vocab, {
+      activityType: 'recognition',
+      wasCorrect: true,
+      attemptedAt: new Date('2025-01-11T00:00:00.000Z'),
+    });
+
+    expect(result.srsData.algorithm).toBe('sm2');
+    expect(result.srsData.stability).toBeUndefined();
+    expect(result.srsData.intervalHours).toBe(600);
+  });
+
+  it('dispatches on the stored algorithm', () => {
+    const vocab = createMockVocabItem({
+      srsData: { ...migrateSrsData(sm2History, 'fsrs') },
+    });
+    const result = updateVocabSrs(vocab, {
+      activityType: 'recognition',
+      wasCorrect: true,
+      attemptedAt: new Date('2025-01-11T00:00:00.000Z'),
+    });
+
+    expect(result.srsData.algorithm).toBe('fsrs');
+    expect(result.srsData.stability).toBeGreaterThan(10);
+    expect(result.srsData.id).toBe('srs-1');
+  });
+
+  it('migrates SM-2 history when the profile prefers FSRS', () => {
+    const vocab = createMockVocabItem({ srsData: sm2History });
+    const result = updateVocabSrs(
+      vocab,
+      {
+        activityType: 'recognition',
+        wasCorrect: true,
+        attemptedAt: new Date('2025-01-11T00:00:00.000Z'),
+      },
+      { algorithm: 'fsrs' },
+    );
+
+    expect(result.srsData.algorithm).toBe('fsrs');
+    expect(result.srsData.streak).toBe(4);
+    expect(result.srsData.difficulty).toBeDefined();
+  });
+
+  it('maps SM-2 state onto FSRS memory state and back', () => {
+    const fsrs = migrateSrsData(sm2History, 'fsrs');
+
+    expect(fsrs.algorithm).toBe('fsrs');
+    expect(fsrs.stability).toBe(10);
+    expect(fsrs.difficulty).toBe(5);
+    expect(fsrs.dueAt).toBe(sm2History.dueAt);
+    expect(fsrs.streak).toBe(sm2History.streak);
+
+    const back = migrateSrsData(fsrs, 'sm2');
+    expect(back).toEqual(sm2History);
+  });
+
+  it('treats never-reviewed items as new when migrating to FSRS', () => {
+    const fsrs = migrateSrsData({ ...sm2History, lastReviewedAt: null }, 'fsrs');
+    expect(fsrs.stability).toBeUndefined();
+    expect(fsrs.difficulty).toBeUndefined();
+  });
+});
+
 describe('calculateMasteryLevel', () => {
   it('returns null when no performance data exists', () => {
     const vocab = createMockVocabItem();
@@ -338,3 +417,133 @@ describe('isItemDue', () => {
     expect(isItemDue(vocab)).toBe(false);
   });
 });
+
+describe('recognition and production tracks', () => {
+  const reviewed: SrsData = {
+    id: 'srs-1',
+    algorithm: 'sm2',
+    streak: 4,
+    intervalHours: 720,
+    easeFactor: 2.6,
+    dueAt: '2025-02-01T00:00:00.000Z',
+    lastReviewedAt: '2025-01-01T00:00:00.000Z',
+  };
+
+  it('schedules production outcomes without touching the recognition track', () => {
+    const vocab = createMockVocabItem({ srsData: reviewed });
+
+    const result = updateVocabSrs(vocab, {
+      activityType: 'production',
+      wasCorrect: false,
+      score: 0.2,
+      attemptedAt: new Date('2025-01-05T00:00:00.000Z'),
+    });
+
+    expect(result.track).toBe('production');
+    expect(result.srsData.id).not.toBe(reviewed.id);
+    expect(result.srsData.streak).toBe(0);
+    expect(result.srsData.dueAt).toBe('2025-01-06T00:00:00.000Z');
+  });
+
+  it('continues the production track from its own state', () => {
+    const vocab = createMockVocabItem({
+      srsData: reviewed,
+      productionSrsData: { ...reviewed, id: 'srs-2', streak: 1, intervalHours: 24 },
+    });
+
+    const result = updateVocabSrs(vocab, {
+      activityType: 'production',
+      wasCorrect: true,
+      score: 0.8,
+      attemptedAt: new Date('2025-01-05T00:00:00.000Z'),
+    });
+
+    expect(result.srsData.id).toBe('srs-2');
+    expect(result.srsData.streak).toBe(2);
+    expect(result.srsData.intervalHours).toBe(144);
+  });
+
+  it('schedules scored reverse translations on the recognition track, capped below perfect', () => {
+    const vocab = createMockVocabItem({ srsData: reviewed });
+    const attemptedAt = new Date('2025-01-05T00:00:00.000Z');
+
+    const reverse = updateVocabSrs(vocab, {
+      activityType: 'recognition',
+      wasCorrect: true,
+      score: 1,
+      attemptedAt,
+    });
+    const forward = updateVocabSrs(vocab, {
+      activityType: 'production',
+      wasCorrect: true,
+      score: 1,
+      attemptedAt,
+    });
+    const poor = updateVocabSrs(vocab, {
+      activityType: 'recognition',
+      wasCorrect: false,
+      score: 0.1,
+      attemptedAt,
+    });
+
+    expect(reverse.track).toBe('recognition');
+    expect(reverse.quality).toBe(4);
+    expect(forward.quality).toBe(5);
+    expect(poor.quality).toBe(1);
+  });
+
+  it('caps slow speed-round answers at a passing quality', () => {
+    const vocab = createMockVocabItem({ srsData: reviewed });
+
+    const slow = updateVocabSrs(vocab, {
+      activityType: 'recognition',
+      wasCorrect: true,
+      grade: 'easy',
+      slow: true,
+      attemptedAt: new Date('2025-01-05T00:00:00.000Z'),
+    });
+    const slowMiss = updateVocabSrs(vocab, {
+      activityType: 'recognition',
+      wasCorrect: false,
+      slow: true,
+      attemptedAt: new Date('2025-01-05T00:00:00.000Z'),
+    });
+
+    expect(slow.quality).toBe(3);
+    expect(slow.srsData.streak).toBe(reviewed.streak + 1);
+    expect(slowMiss.quality).toBe(2);
+  });
+
+  it('reports accuracy per track', () => {
+    const vocab = createMockVocabItem({
+      performanceData: {
+        recognition: { correctCount: 3, incorrectCount: 1, lastAttemptAt: null },
+        production: { correctCount: 0, incorrectCount: 0, lastAttemptAt: null },
+      },
+    });
+
+    expect(calculateTrackMastery(vocab)).toEqual({ recognition: 0.75, production: null });
+  });
+
+  it('seeds the production track from legacy data only when production was practised', () => {
+    const recognitionOnly = createMockVocabItem({ srsData: reviewed });
+    expect(migrateLegacySrsTracks(recognitionOnly)).toBe(recognitionOnly);
+
+    const practised = createMockVocabItem({
+      srsData: reviewed,
+      performanceData: {
+        recognition: { correctCount: 2, incorrectCount: 0, lastAttemptAt: null },
+        production: { correctCount: 1, incorrectCount: 1, lastAttemptAt: null },
+      },
+    });
+    const migrated = migrateLegacySrsTracks(practised);
+
+    expect(migrated.srsData).toEqual(reviewed);
+    expect(migrated.productionSrsData).toMatchObject({
+      streak: reviewed.streak,
+      dueAt: reviewed.dueAt,
+    });
+    expect(migrated.productionSrsData?.id).not.toBe(reviewed.id);
+    expect(migrateLegacySrsTracks(migrated)).toBe(migrated);
+  });
+});
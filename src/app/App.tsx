@@ -9,6 +9,7 @@ import { SafeAreaProvider } from 'react-native-safe-area-context';
 import { ThemeProvider, useTheme } from '@/shared/theme/theme';
 import { fontFamilies } from '@/shared/theme/tokens';
 import { offlineController } from '@/services/container';
+import { useAiOutboxStore } from '@/state/ai-outbox.store';
 import { setOfflineState } from '@/state/offline.store';
 import RootNavigator from './navigation/RootNavigator';
 import { navigationRef } from './navigation/navigationRef';
@@ -35,17 +36,29 @@ const AppContent: React.FC = () => {
 
   useEffect(() => {
     let unsubscribe: (() => void) | undefined;
+    const removeOutboxTask = offlineController.addSyncTask(() =>
+      useAiOutboxStore.getState().replay(),
+    );
+
+    const handleConnectivityChange = (offline: boolean) => {
+      setOfflineState(offline);
+      if (!offline) {
+        offlineController.syncPendingChanges().catch(() => undefined);
+      }
+    };
 
     const initialise = async () => {
+      await useAiOutboxStore.getState().loadOutbox();
       const offline = await offlineController.isOffline();
-      setOfflineState(offline);
-      unsubscribe = offlineController.onConnectivityChange(setOfflineState);
+      handleConnectivityChange(offline);
+      unsubscribe = offlineController.onConnectivityChange(handleConnectivityChange);
     };
 
     initialise().catch(() => undefined);
 
     return () => {
       unsubscribe?.();
+      removeOutboxTask();
     };
   }, []);
 
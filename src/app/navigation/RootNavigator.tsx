@@ -9,6 +9,7 @@ import type { RootStackParamList, MainTabsParamList } from '@/navigation/types';
 import OfflineBanner from '@/shared/components/OfflineBanner';
 import HomeScreen from '@/features/home/screens/HomeScreen';
 import ChatScreen from '@/features/chat/screens/ChatScreen';
+import MemoryGraphScreen from '@/features/chat/screens/MemoryGraphScreen';
 import WordBankScreen from '@/features/word-bank/screens/WordBankScreen';
 import ActivitiesScreen from '@/features/activities/screens/ActivitiesScreen';
 import NativeNotesScreen from '@/features/native-notes/screens/NativeNotesScreen';
@@ -153,6 +154,11 @@ const RootNavigator: React.FC = () => {
           component={ProgressDashboardScreen}
           options={createDetailOptions('Progress Dashboard')}
         />
+        <RootStack.Screen
+          name="MemoryGraph"
+          component={MemoryGraphScreen}
+          options={createDetailOptions('Memory Graph')}
+        />
         <RootStack.Screen
           name="WordDetail"
           component={WordDetailScreen}
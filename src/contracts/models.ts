@@ -1,5 +1,23 @@
 import { z } from 'zod';
 
+/** Scheduling algorithms understood by the spaced repetition services. */
+export const SrsAlgorithmSchema = z.enum(['sm2', 'fsrs']);
+
+/** Type describing a supported scheduling algorithm. */
+export type SrsAlgorithm = z.infer<typeof SrsAlgorithmSchema>;
+
+/** Scheduling phases: sub-day learning steps, day-based review, or relearning after a lapse. */
+export const SrsPhaseSchema = z.enum(['learning', 'review', 'relearning']);
+
+/** Type describing a scheduling phase. */
+export type SrsPhase = z.infer<typeof SrsPhaseSchema>;
+
+/** Scheduling tracks kept per item: recognition (flashcards) and production (translation). */
+export const SrsTrackSchema = z.enum(['recognition', 'production']);
+
+/** Type describing a scheduling track. */
+export type SrsTrack = z.infer<typeof SrsTrackSchema>;
+
 /** Schema describing spaced repetition metadata for a study item. */
 export const SrsDataSchema = z.object({
   /** Unique identifier for the spaced repetition record. */
@@ -16,11 +34,49 @@ export const SrsDataSchema = z.object({
   dueAt: z.string().datetime(),
   /** ISO timestamp for the most recent completed review, if any. */
   lastReviewedAt: z.string().datetime().nullable(),
+  /** FSRS memory stability in days; only present once the item is scheduled by FSRS. */
+  stability: z.number().positive().optional(),
+  /** FSRS item difficulty from 1 (easy) to 10 (hard); only present for FSRS items. */
+  difficulty: z.number().min(1).max(10).optional(),
+  /** Scheduling phase; records predating learning steps are treated as in review. */
+  phase: SrsPhaseSchema.optional(),
+  /** Index of the current learning or relearning step; null once the item is in review. */
+  stepIndex: z.number().int().nonnegative().nullable().optional(),
+  /** Number of times the item was forgotten after graduating to review. */
+  lapses: z.number().int().nonnegative().optional(),
+  /** ISO timestamp of the first review on this track; absent on records predating it. */
+  introducedAt: z.string().datetime().optional(),
 });
 
 /** Type describing spaced repetition metadata for a study item. */
 export type SrsData = z.infer<typeof SrsDataSchema>;
 
+/** Schema describing the tunable SM-2 scheduler parameters. */
+export const Sm2ParametersSchema = z.object({
+  /** Ease factor assigned to items on their first review. */
+  initialEaseFactor: z.number().min(1.3),
+  /** Interval in days scheduled after the second successful review. */
+  secondIntervalDays: z.number().positive(),
+  /** Multiplier applied to every ease-based interval. */
+  intervalModifier: z.number().positive(),
+});
+
+/** Type describing the tunable SM-2 scheduler parameters. */
+export type Sm2Parameters = z.infer<typeof Sm2ParametersSchema>;
+
+/** Schema describing SM-2 parameters fitted to a profile's own review history. */
+export const FittedSm2ParametersSchema = Sm2ParametersSchema.extend({
+  /** Probability of recall the parameters were fitted to hit. */
+  targetRetention: z.number().gt(0).lt(1),
+  /** Number of logged reviews the fit was based on. */
+  reviewCount: z.number().int().nonnegative(),
+  /** Timestamp of the fit. */
+  fittedAt: z.string().datetime(),
+});
+
+/** Type describing SM-2 parameters fitted to a profile's review history. */
+export type FittedSm2Parameters = z.infer<typeof FittedSm2ParametersSchema>;
+
 /** Schema describing performance tracking for recognition-based practice. */
 export const RecognitionPerformanceSchema = z.object({
   /** Number of correct recognition attempts (e.g., flashcard correct swipes). */
@@ -95,6 +151,29 @@ export const FrequencyLevelSchema = z.enum(['common', 'uncommon', 'rare']);
 /** Type describing frequency level. */
 export type FrequencyLevel = z.infer<typeof FrequencyLevelSchema>;
 
+/** Part of speech of a headword or vocabulary item. */
+export const PartOfSpeechSchema = z.enum([
+  'noun',
+  'verb',
+  'adjective',
+  'adverb',
+  'pronoun',
+  'preposition',
+  'conjunction',
+  'determiner',
+  'interjection',
+  'phrase',
+]);
+
+/** Type describing a part of speech. */
+export type PartOfSpeech = z.infer<typeof PartOfSpeechSchema>;
+
+/** Grammatical gender of a noun or adjective form. */
+export const GrammaticalGenderSchema = z.enum(['masculine', 'feminine', 'neuter', 'common']);
+
+/** Type describing grammatical gender. */
+export type GrammaticalGender = z.infer<typeof GrammaticalGenderSchema>;
+
 /** Schema describing additional linguistic metadata for vocabulary items. */
 export const VocabMetadataSchema = z.object({
   /** Formality level of the vocabulary item. */
@@ -111,6 +190,12 @@ export const VocabMetadataSchema = z.object({
   sourceLanguage: z.string().min(2).max(8).optional(),
   /** Target language code used when this entry was created. */
   targetLanguage: z.string().min(2).max(8).optional(),
+  /** Part of speech, when the entry came from a dictionary. */
+  partOfSpeech: PartOfSpeechSchema.optional(),
+  /** Grammatical gender, when the entry came from a dictionary. */
+  gender: GrammaticalGenderSchema.optional(),
+  /** Dictionary sense the learner saved, when the headword has several. */
+  sense: z.string().min(1).optional(),
 });
 
 /** Type describing additional linguistic metadata. */
@@ -138,17 +223,135 @@ export const VocabItemSchema = z.object({
   createdAt: z.string().datetime(),
   /** Timestamp indicating when the vocabulary item was last updated. */
   updatedAt: z.string().datetime(),
-  /** Spaced repetition scheduling information for the vocabulary item. */
+  /**
+   * Recognition-track scheduling (flashcards, recognition drills). Records saved before
+   * tracks were split hold the blended schedule here.
+   */
   srsData: SrsDataSchema.optional(),
+  /** Production-track scheduling (translation, recall drills). */
+  productionSrsData: SrsDataSchema.optional(),
   /** Performance tracking across recognition and production activities. */
   performanceData: PerformanceDataSchema.optional(),
   /** Additional linguistic metadata for the vocabulary item. */
   metadata: VocabMetadataSchema.optional(),
+  /** Suspended items are left out of every review queue until unsuspended. */
+  suspended: z.boolean().optional(),
+  /** Buried items are left out of review queues until this timestamp. */
+  buriedUntil: z.string().datetime().nullable().optional(),
 });
 
 /** Type describing a vocabulary item available to learners. */
 export type VocabItem = z.infer<typeof VocabItemSchema>;
 
+/** Schema describing a bilingual usage example in a dictionary sense. */
+export const DictionaryExampleSchema = z.object({
+  /** Example sentence in the dictionary's source language. */
+  source: z.string().min(1),
+  /** Translation of the example in the dictionary's target language. */
+  target: z.string().min(1),
+});
+
+/** Type describing a bilingual dictionary example. */
+export type DictionaryExample = z.infer<typeof DictionaryExampleSchema>;
+
+/** Schema describing one meaning of a dictionary headword. */
+export const DictionarySenseSchema = z.object({
+  /** Translation or gloss of the sense in the target language. */
+  gloss: z.string().min(1),
+  /** Example usages of the sense. */
+  examples: z.array(DictionaryExampleSchema),
+});
+
+/** Type describing a dictionary sense. */
+export type DictionarySense = z.infer<typeof DictionarySenseSchema>;
+
+/** Schema describing a headword in an offline bilingual dictionary. */
+export const DictionaryEntrySchema = z.object({
+  /** Dictionary form of the word, such as the infinitive or the singular. */
+  headword: z.string().min(1),
+  /** Part of speech of the headword. */
+  partOfSpeech: PartOfSpeechSchema,
+  /** Grammatical gender, for languages and parts of speech that have one. */
+  gender: GrammaticalGenderSchema.optional(),
+  /** Inflected forms that should resolve to this headword. */
+  forms: z.array(z.string().min(1)),
+  /** Meanings of the headword, most common first. */
+  senses: z.array(DictionarySenseSchema).min(1),
+});
+
+/** Type describing a dictionary entry. */
+export type DictionaryEntry = z.infer<typeof DictionaryEntrySchema>;
+
+/** Abbreviations used for parts of speech in compact dictionary packs. */
+export const COMPACT_PART_OF_SPEECH: Record<string, PartOfSpeech> = {
+  n: 'noun',
+  v: 'verb',
+  adj: 'adjective',
+  adv: 'adverb',
+  pron: 'pronoun',
+  prep: 'preposition',
+  conj: 'conjunction',
+  det: 'determiner',
+  interj: 'interjection',
+  phr: 'phrase',
+};
+
+/** Abbreviations used for grammatical gender in compact dictionary packs. */
+export const COMPACT_GENDER: Record<string, GrammaticalGender> = {
+  m: 'masculine',
+  f: 'feminine',
+  nt: 'neuter',
+  c: 'common',
+};
+
+/** Pads a tuple whose trailing elements were left out with empty lists. */
+const padCompactTuple = (length: number) => (value: unknown) =>
+  Array.isArray(value) && value.length < length
+    ? [...value, ...Array.from({ length: length - value.length }, () => [])]
+    : value;
+
+/**
+ * Schema describing a sense in a compact dictionary pack: the gloss, optionally followed by
+ * examples as `[source, target]` pairs.
+ */
+export const CompactDictionarySenseSchema = z.preprocess(
+  padCompactTuple(2),
+  z.tuple([z.string().min(1), z.array(z.tuple([z.string().min(1), z.string().min(1)]))]),
+);
+
+/**
+ * Schema describing an entry in a compact dictionary pack:
+ * `[headword, partOfSpeech, gender, senses, forms?]`, with abbreviated part of speech and
+ * gender and an empty gender for words without one.
+ */
+export const CompactDictionaryEntrySchema = z.preprocess(
+  padCompactTuple(5),
+  z.tuple([
+    z.string().min(1),
+    z.enum(Object.keys(COMPACT_PART_OF_SPEECH) as [string, ...string[]]),
+    z.union([z.enum(Object.keys(COMPACT_GENDER) as [string, ...string[]]), z.literal('')]),
+    z.array(CompactDictionarySenseSchema).min(1),
+    z.array(z.string().min(1)),
+  ]),
+);
+
+/** Schema describing the importable compact format of a dictionary for one language pair. */
+export const CompactDictionaryPackSchema = z.object({
+  /** Format version; bumped whenever the entry layout changes. */
+  version: z.literal(1),
+  /** Display name of the dictionary. */
+  name: z.string().min(1),
+  /** Language code of the headwords. */
+  sourceLanguage: z.string().min(2).max(8),
+  /** Language code of the glosses and example translations. */
+  targetLanguage: z.string().min(2).max(8),
+  /** Entries in compact tuple form. */
+  entries: z.array(CompactDictionaryEntrySchema).min(1),
+});
+
+/** Type describing a compact dictionary pack. */
+export type CompactDictionaryPack = z.infer<typeof CompactDictionaryPackSchema>;
+
 /** Schema describing learner-authored notes for a vocabulary item. */
 export const NativeNoteSchema = z.object({
   /** Unique identifier for the note. */
@@ -224,6 +427,35 @@ export const DrillSessionSchema = z.object({
 /** Type describing a drill session completed by a learner. */
 export type DrillSession = z.infer<typeof DrillSessionSchema>;
 
+/** Schema describing one entry in the append-only review log. */
+export const ReviewLogEntrySchema = z.object({
+  /** Unique identifier for the log entry. */
+  id: z.string().min(1),
+  /** Identifier of the vocabulary item that was reviewed. */
+  vocabItemId: z.string().min(1),
+  /** Timestamp of the review. */
+  reviewedAt: z.string().datetime(),
+  /** Activity type, which is also the scheduling track the review applied to. */
+  activityType: SrsTrackSchema,
+  /** Quality (0-5) fed to the scheduler. */
+  quality: z.number().int().min(0).max(5),
+  /** Graded score (0-1) for production activities, if any. */
+  score: z.number().min(0).max(1).nullable(),
+  /** Hours since the previous review on the same track; null for the first review. */
+  elapsedHours: z.number().nonnegative().nullable(),
+  /** Interval in hours before the review; null for the first review. */
+  previousIntervalHours: z.number().nonnegative().nullable(),
+  /** Interval in hours scheduled by the review. */
+  nextIntervalHours: z.number().nonnegative(),
+  /** Scheduler that produced the next interval. */
+  algorithm: z.string().min(1),
+  /** Whether the review was part of a catch-up session and SM-2 credited its overdue time. */
+  catchUp: z.boolean().optional(),
+});
+
+/** Type describing one entry in the append-only review log. */
+export type ReviewLogEntry = z.infer<typeof ReviewLogEntrySchema>;
+
 /** Schema describing aggregate progress statistics for a learner. */
 export const ProgressStatsSchema = z.object({
   /** Unique identifier for the learner the statistics belong to. */
@@ -253,6 +485,48 @@ export const TranslationDifficultySchema = z.enum([
 
 export type TranslationDifficulty = z.infer<typeof TranslationDifficultySchema>;
 
+/** How flashcard answers are graded: a binary swipe or four Again/Hard/Good/Easy buttons. */
+export const FlashcardGradingModeSchema = z.enum(['swipe', 'grades']);
+
+export type FlashcardGradingMode = z.infer<typeof FlashcardGradingModeSchema>;
+
+/** What happens when an item reaches the leech threshold; the `leech` tag is always applied. */
+export const LeechActionSchema = z.enum(['suspend', 'tag']);
+
+export type LeechAction = z.infer<typeof LeechActionSchema>;
+
+/** Activities that offer a timed speed round. */
+export const SpeedRoundActivitySchema = z.enum(['translation', 'flashcards']);
+
+export type SpeedRoundActivity = z.infer<typeof SpeedRoundActivitySchema>;
+
+/** Whether the speed-round countdown restarts for every item or runs across the session. */
+export const SpeedRoundTimerSchema = z.enum(['per_item', 'per_session']);
+
+export type SpeedRoundTimer = z.infer<typeof SpeedRoundTimerSchema>;
+
+/** Countdown settings for a session played as a speed round. */
+export const SpeedRoundSchema = z.object({
+  timer: SpeedRoundTimerSchema,
+  /** Seconds per item, or for the whole session, depending on the timer. */
+  limitSeconds: z.number().positive(),
+});
+
+export type SpeedRound = z.infer<typeof SpeedRoundSchema>;
+
+/** A finished speed round as kept on the personal-best leaderboard. */
+export const SpeedRoundResultSchema = z.object({
+  sessionId: z.string().min(1),
+  activity: SpeedRoundActivitySchema,
+  timer: SpeedRoundTimerSchema,
+  points: z.number().int().nonnegative(),
+  accuracy: z.number().min(0).max(1),
+  averageSeconds: z.number().nonnegative(),
+  completedAt: z.string().datetime(),
+});
+
+export type SpeedRoundResult = z.infer<typeof SpeedRoundResultSchema>;
+
 /** Schema describing learner-specific preferences per target language. */
 export const LanguageProfileSchema = z.object({
   /** Generated key scoped to (user, target language, region). */
@@ -277,12 +551,32 @@ export const LanguageProfileSchema = z.object({
   savedSessions: z.array(z.string().min(1)),
   /** Spaced repetition state scoped to this language profile. */
   srsState: z.array(SrsDataSchema),
+  /** Scheduler used for reviews in this profile; SM-2 when unset. */
+  srsAlgorithm: SrsAlgorithmSchema.optional(),
+  /** Learning steps in minutes for new items; defaults apply when unset. */
+  learningStepsMinutes: z.array(z.number().positive()).optional(),
+  /** Relearning steps in minutes for lapsed items; defaults apply when unset. */
+  relearningStepsMinutes: z.array(z.number().positive()).optional(),
+  /** Flashcard grading mode; swipe when unset. */
+  flashcardGradingMode: FlashcardGradingModeSchema.optional(),
+  /** Lapses on one track after which an item is treated as a leech; defaults apply when unset. */
+  leechThreshold: z.number().int().positive().optional(),
+  /** Action taken when an item becomes a leech; suspend when unset. */
+  leechAction: LeechActionSchema.optional(),
+  /** Maximum new items introduced per day and track; defaults apply when unset. */
+  dailyNewCardLimit: z.number().int().nonnegative().optional(),
+  /** SM-2 parameters fitted to this profile's reviews; built-in defaults apply when unset. */
+  sm2Parameters: FittedSm2ParametersSchema.optional(),
+  /** Best speed rounds per activity, highest points first. */
+  speedRoundBests: z.array(SpeedRoundResultSchema).optional(),
   /** Aggregated learner mistakes for targeting future prompts. */
   errorLedger: z.array(
     z.object({
       vocabId: z.string().min(1),
       errorTags: z.array(z.string().min(1)),
       count: z.number().int().nonnegative(),
+      /** Hits per error tag; older entries only carry the combined count. */
+      tagCounts: z.record(z.string(), z.number().int().nonnegative()).optional(),
     }),
   ),
   /** Asset key for rendering the flag icon on the home screen. */
@@ -319,10 +613,137 @@ export const TranslationPitfallTypeSchema = z.enum([
 
 export type TranslationPitfallType = z.infer<typeof TranslationPitfallTypeSchema>;
 
+/** Schema describing a tutor explanation the learner marked as understood. */
+export const MemoryEntrySchema = z.object({
+  /** Unique identifier for the memory entry. */
+  id: z.string().min(1),
+  /** Language profile the entry belongs to; entries logged without a profile belong to all. */
+  profileId: z.string().min(1).optional(),
+  /** Learner question or stimulus that was understood. */
+  prompt: z.string(),
+  /** Tutor explanation the learner acknowledged. */
+  response: z.string(),
+  /** Short recap of the explanation, used when recalling it. */
+  summary: z.string(),
+  /** Timestamp recording when the learner marked the explanation understood. */
+  createdAt: z.string().datetime(),
+  /** Word bank items mentioned in the exchange. */
+  vocabItemIds: z.array(z.string().min(1)).default([]),
+  /** Translation pitfalls the exchange was about. */
+  pitfallTypes: z.array(TranslationPitfallTypeSchema).default([]),
+});
+
+export type MemoryEntry = z.infer<typeof MemoryEntrySchema>;
+
+/** Chat screen modes: dictionary lookups or open questions to the tutor. */
+export const ChatModeSchema = z.enum(['dictionary', 'tutor']);
+
+export type ChatMode = z.infer<typeof ChatModeSchema>;
+
+/** Schema describing something the learner typed into a chat thread. */
+export const UserChatMessageSchema = z.object({
+  id: z.string().min(1),
+  role: z.literal('user'),
+  /** Mode the thread was in when the message was sent. */
+  mode: ChatModeSchema,
+  content: z.string(),
+});
+
+export type UserChatMessage = z.infer<typeof UserChatMessageSchema>;
+
+/** Schema describing a meaning offered on a dictionary card. */
+export const DictionaryChatSenseSchema = z.object({
+  text: z.string(),
+  partOfSpeech: PartOfSpeechSchema,
+  gender: GrammaticalGenderSchema.optional(),
+});
+
+export type DictionaryChatSense = z.infer<typeof DictionaryChatSenseSchema>;
+
+/** Schema describing a dictionary card answering a lookup. */
+export const DictionaryChatMessageSchema = z.object({
+  id: z.string().min(1),
+  role: z.literal('assistant'),
+  mode: z.literal('dictionary'),
+  headword: z.string(),
+  translation: z.string(),
+  definitions: z.array(z.string()),
+  examples: z.array(z.string()),
+  sourceLanguage: z.string().min(1),
+  targetLanguage: z.string().min(1),
+  /** Which of the profile's languages the lookup was written in. */
+  inputLanguage: z.enum(['native', 'target']),
+  /** Word bank item saved from the card, if any. */
+  bankItemId: z.string().min(1).optional(),
+  savedToNotes: z.boolean().optional(),
+  folders: z.array(z.string()),
+  /** Meanings from the offline dictionary; the selected one is what gets saved to the bank. */
+  senses: z.array(DictionaryChatSenseSchema).optional(),
+  selectedSense: z.number().int().nonnegative().optional(),
+});
+
+export type DictionaryChatMessage = z.infer<typeof DictionaryChatMessageSchema>;
+
+/** Schema describing a tutor reply. */
+export const TutorChatMessageSchema = z.object({
+  id: z.string().min(1),
+  role: z.literal('assistant'),
+  mode: z.literal('tutor'),
+  content: z.string(),
+  /** Whether the learner logged the reply to the memory graph. */
+  understood: z.boolean(),
+  /** Set while the reply is still arriving. */
+  isStreaming: z.boolean().optional(),
+  /** Set while the request waits in the offline outbox; the reply replaces this message. */
+  isQueued: z.boolean().optional(),
+});
+
+export type TutorChatMessage = z.infer<typeof TutorChatMessageSchema>;
+
+export const ChatMessageSchema = z.union([
+  UserChatMessageSchema,
+  DictionaryChatMessageSchema,
+  TutorChatMessageSchema,
+]);
+
+export type ChatMessage = z.infer<typeof ChatMessageSchema>;
+
+/** Schema describing a saved chat conversation. */
+export const ChatThreadSchema = z.object({
+  /** Unique identifier for the thread. */
+  id: z.string().min(1),
+  /** Language profile the thread belongs to; threads without one are shown for every profile. */
+  profileId: z.string().min(1).optional(),
+  /** Name chosen by the learner; empty until the thread is renamed. */
+  title: z.string(),
+  /** Mode the thread was last used in. */
+  mode: ChatModeSchema,
+  /** Messages in the order they were sent. */
+  messages: z.array(ChatMessageSchema),
+  /** Timestamp indicating when the thread was started. */
+  createdAt: z.string().datetime(),
+  /** Timestamp of the last message or change to the thread. */
+  updatedAt: z.string().datetime(),
+});
+
+export type ChatThread = z.infer<typeof ChatThreadSchema>;
+
 /** Modes for mixing review vs. new vocabulary. */
 export const ReviewModeSchema = z.enum(['review_only', 'mixed', 'new_only']);
 export type ReviewMode = z.infer<typeof ReviewModeSchema>;
 
+/** Which way a translation prompt goes between the learner's two languages. */
+export const TranslationDirectionSchema = z.enum(['native_to_target', 'target_to_native']);
+export type TranslationDirection = z.infer<typeof TranslationDirectionSchema>;
+
+/** Direction setting for a translation session; `alternating` switches every prompt. */
+export const TranslationDirectionModeSchema = z.enum([
+  'native_to_target',
+  'target_to_native',
+  'alternating',
+]);
+export type TranslationDirectionMode = z.infer<typeof TranslationDirectionModeSchema>;
+
 /** Schema describing a single learner attempt within a translation item. */
 export const TtxItemHistorySchema = z.object({
   attemptId: z.string().min(1),
@@ -335,6 +756,15 @@ export const TtxItemHistorySchema = z.object({
 
 export type TtxItemHistory = z.infer<typeof TtxItemHistorySchema>;
 
+/** Schema describing a question asked about a prompt and the tutor's answer. */
+export const TtxTutorExchangeSchema = z.object({
+  question: z.string().min(1),
+  answer: z.string().min(1),
+  answeredAt: z.string().datetime(),
+});
+
+export type TtxTutorExchange = z.infer<typeof TtxTutorExchangeSchema>;
+
 /** Schema describing the grading rubric and metadata for one prompt. */
 export const TtxItemSchema = z.object({
   itemId: z.string().min(1),
@@ -363,8 +793,12 @@ export const TtxItemSchema = z.object({
     reject: z.array(z.string().min(1)).default([]),
   }),
   insightHook: z.string().min(1),
+  /** Direction of this prompt; native → target when unset. */
+  direction: TranslationDirectionSchema.optional(),
   history: z.array(TtxItemHistorySchema).default([]),
   isFlagged: z.boolean().default(false),
+  /** Questions asked about this prompt in the tutor chat, oldest first. */
+  tutorExchanges: z.array(TtxTutorExchangeSchema).optional(),
 });
 
 export type TtxItem = z.infer<typeof TtxItemSchema>;
@@ -407,6 +841,10 @@ export const TtxSessionSchema = z.object({
   }),
   reviewMode: ReviewModeSchema,
   questionCount: z.number().int().min(5).max(25),
+  /** Direction setting the session was generated with; native → target when unset. */
+  direction: TranslationDirectionModeSchema.optional(),
+  /** Countdown settings when the session is played as a speed round. */
+  speedRound: SpeedRoundSchema.optional(),
   topicTags: z.array(z.string().min(1)).default([]),
   vocabPool: z.array(VocabItemSchema),
   createdAt: z.string().datetime(),
@@ -423,9 +861,16 @@ export const FlashcardOutcomeSchema = z.enum(['correct', 'incorrect']);
 
 export type FlashcardOutcome = z.infer<typeof FlashcardOutcomeSchema>;
 
+/** Four-button grades; "again" counts as incorrect, the others as correct. */
+export const FlashcardGradeSchema = z.enum(['again', 'hard', 'good', 'easy']);
+
+export type FlashcardGrade = z.infer<typeof FlashcardGradeSchema>;
+
 export const FlashcardHistorySchema = z.object({
   attemptId: z.string().min(1),
   outcome: FlashcardOutcomeSchema,
+  /** Grade chosen in four-button mode; absent for swipes. */
+  grade: FlashcardGradeSchema.optional(),
   timestamp: z.string().datetime(),
 });
 
@@ -443,6 +888,8 @@ export const FtxCardSchema = z.object({
   example: z.string().min(1).nullable().optional(),
   isFlagged: z.boolean().default(false),
   history: z.array(FlashcardHistorySchema).default([]),
+  /** Original card this one repeats when a learning step brought it back mid-session. */
+  requeuedFromCardId: z.string().min(1).nullable().optional(),
 });
 
 export type FtxCard = z.infer<typeof FtxCardSchema>;
@@ -477,6 +924,10 @@ export const FtxSessionSchema = z.object({
   progress: TtxSessionProgressSchema,
   recap: FtxRecapSchema.nullable().optional(),
   presentationSide: FlashcardPresentationSideSchema.default('term'),
+  /** Backlog triage session; successes after long gaps earn extra interval credit. */
+  catchUp: z.boolean().optional(),
+  /** Countdown settings when the session is played as a speed round. */
+  speedRound: SpeedRoundSchema.optional(),
 });
 
 export type FtxSession = z.infer<typeof FtxSessionSchema>;
@@ -1,8 +1,11 @@
 import type {
+  ChatThread,
   DrillSession,
   NativeNote,
   ProgressStats,
+  ReviewLogEntry,
   SrsData,
+  SrsTrack,
   VocabItem,
   YouTubeVideo,
 } from './models';
@@ -42,14 +45,16 @@ export interface BankRepository {
    * Updates the spaced repetition metadata for a vocabulary item.
    * @param itemId Identifier of the vocabulary item being updated.
    * @param data Latest spaced repetition metadata to apply.
+   * @param track Scheduling track to update; recognition when omitted.
    */
-  updateSrsData(itemId: string, data: SrsData): Promise<void>;
+  updateSrsData(itemId: string, data: SrsData, track?: SrsTrack): Promise<void>;
 
   /**
    * Removes any spaced repetition metadata associated with a vocabulary item.
    * @param itemId Identifier of the vocabulary item being cleared.
+   * @param track Scheduling track to clear; recognition when omitted.
    */
-  clearSrsData(itemId: string): Promise<void>;
+  clearSrsData(itemId: string, track?: SrsTrack): Promise<void>;
 }
 
 /** Contract describing persistence for learner-authored notes. */
@@ -98,6 +103,14 @@ export interface NotesRepository {
   /** Updates the answered state metadata for a note. */
   updateNoteStatus(noteId: string, answeredAt: string | null): Promise<void>;
 
+  /**
+   * Stores an answer for a note and marks it answered.
+   * @param noteId Identifier of the note that was answered.
+   * @param answer Answer text, such as a reply from the AI tutor.
+   * @param answeredAt Timestamp recording when the answer arrived.
+   */
+  updateNoteAnswer(noteId: string, answer: string, answeredAt: string): Promise<void>;
+
   /**
    * Removes a note from the persistence layer.
    * @param noteId Identifier of the note that should be deleted.
@@ -168,3 +181,55 @@ export interface ProgressRepository {
    */
   listAllSessions(): Promise<DrillSession[]>;
 }
+
+/** Contract describing the append-only log of individual reviews. */
+export interface ReviewLogRepository {
+  /**
+   * Appends a review to the log. Entries are never updated once written.
+   * @param entry Review details to store.
+   */
+  appendReview(entry: ReviewLogEntry): Promise<void>;
+
+  /**
+   * Removes a review the learner took back with undo, so replays and parameter fitting skip it.
+   * @param id Identifier of the log entry to remove.
+   */
+  removeReview(id: string): Promise<void>;
+
+  /**
+   * Lists every review of a vocabulary item in chronological order.
+   * @param vocabItemId Identifier of the vocabulary item.
+   */
+  listReviewsForItem(vocabItemId: string): Promise<ReviewLogEntry[]>;
+
+  /**
+   * Lists every logged review in chronological order.
+   */
+  listAllReviews(): Promise<ReviewLogEntry[]>;
+}
+
+/** Contract describing persistence for saved chat conversations. */
+export interface ChatThreadRepository {
+  /**
+   * Retrieves a thread by its unique identifier.
+   * @param threadId Identifier of the thread that should be retrieved.
+   */
+  getThreadById(threadId: string): Promise<ChatThread | null>;
+
+  /**
+   * Retrieves every stored thread, most recently updated first.
+   */
+  listAllThreads(): Promise<ChatThread[]>;
+
+  /**
+   * Creates or replaces a thread.
+   * @param thread Complete thread, including its messages.
+   */
+  saveThread(thread: ChatThread): Promise<void>;
+
+  /**
+   * Removes a thread and its messages.
+   * @param threadId Identifier of the thread that should be deleted.
+   */
+  deleteThread(threadId: string): Promise<void>;
+}
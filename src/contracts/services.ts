@@ -1,6 +1,9 @@
 import type {
+  DictionaryEntry,
   DrillSession,
   ProgressStats,
+  TranslationPitfallType,
+  TtxItem,
   VocabItem,
   YouTubeVideo,
 } from './models';
@@ -33,8 +36,42 @@ export interface AiTutorService {
   /**
    * Drafts a personalized study plan based on current progress.
    * @param stats Aggregated learner progress metrics.
+   * @param context Optional notes on what the learner already understands.
    */
-  createStudyPlan(stats: ProgressStats): Promise<string>;
+  createStudyPlan(stats: ProgressStats, context?: string): Promise<string>;
+
+  /**
+   * Grades a learner's translation of a practice prompt. Rejects when no grader is reachable,
+   * so callers can fall back to the rule-based evaluator.
+   * @param params Prompt and answer to grade.
+   */
+  gradeTranslation(params: GradeTranslationParams): Promise<TranslationGrade>;
+
+  /**
+   * Streams the tutor's reply to a chat conversation, delivering text as it arrives. Resolves
+   * with the full reply; rejects once the request's signal is aborted.
+   * @param params Conversation to continue.
+   * @param options Receives partial text and allows cancellation.
+   */
+  streamChat(params: TutorChatParams, options: TutorChatStreamOptions): Promise<string>;
+
+  /** Reports how much of its size budget the translation cache is using. */
+  getTranslationCacheUsage(): TranslationCacheUsage;
+
+  /** Removes every cached translation. */
+  clearTranslationCache(): void;
+}
+
+/** Size of the translation cache against its limits. */
+export interface TranslationCacheUsage {
+  /** Cached translations. */
+  entries: number;
+  /** Bytes used by cached keys and translations. */
+  bytes: number;
+  /** Most translations kept. */
+  maxEntries: number;
+  /** Most bytes kept. */
+  maxBytes: number;
 }
 
 /** Parameters describing a translation request. */
@@ -49,6 +86,165 @@ export interface TranslateTextParams {
   context?: string;
 }
 
+/** Parameters describing a translation grading request. */
+export interface GradeTranslationParams {
+  /** Practice prompt with its expected translations and rubric. */
+  item: TtxItem;
+  /** Learner's translation attempt. */
+  answer: string;
+  /** Target language code using ISO 639 format, when known. */
+  targetLanguage?: string;
+}
+
+/** One message of a tutor chat conversation. */
+export interface TutorChatTurn {
+  /** Who wrote the message. */
+  role: 'learner' | 'tutor';
+  /** Message text. */
+  content: string;
+}
+
+/** Parameters describing a tutor chat request. */
+export interface TutorChatParams {
+  /** Conversation so far, oldest first, ending with the learner's latest message. */
+  turns: TutorChatTurn[];
+  /** Background the tutor should take into account, such as the prompt being discussed. */
+  context?: string;
+  /** Reply to show instead when no tutor can be reached. */
+  offlineReply?: string;
+}
+
+/** Callbacks and cancellation for a streamed tutor reply. */
+export interface TutorChatStreamOptions {
+  /**
+   * Called whenever more of the reply arrives.
+   * @param delta Newly received text.
+   * @param text Reply received so far.
+   */
+  onDelta: (delta: string, text: string) => void;
+  /** Aborting stops the stream and rejects the pending reply. */
+  signal?: AbortSignal;
+}
+
+/** An AI tutor request held back while offline, to be replayed on reconnect. */
+export type AiOutboxRequest =
+  | { kind: 'translate'; params: TranslateTextParams }
+  | { kind: 'hint'; params: { item: VocabItem; learnerAnswer: string } }
+  | { kind: 'chat'; params: TutorChatParams };
+
+/** Where the result of a queued AI request belongs. */
+export type AiOutboxTarget =
+  /** A placeholder message in the chat thread. */
+  | { type: 'chat_message'; messageId: string }
+  /** The answer of a native note. */
+  | { type: 'note'; noteId: string }
+  /** A question asked about a translation prompt. */
+  | { type: 'session_item'; sessionId: string; itemId: string; question: string };
+
+/** A queued AI request with the place its result should go. */
+export interface AiOutboxEntry {
+  /** Unique identifier of the queued request. */
+  id: string;
+  /** Request to replay. */
+  request: AiOutboxRequest;
+  /** Destination of the result. */
+  target: AiOutboxTarget;
+  /** Timestamp recording when the request was queued. */
+  createdAt: string;
+}
+
+/** Outcome of replaying a queued request; exactly one of `result` and `error` is set. */
+export interface AiOutboxDelivery {
+  /** Request that was replayed. */
+  entry: AiOutboxEntry;
+  /** Text returned by the tutor. */
+  result?: string;
+  /** Reason the request could not be completed. */
+  error?: string;
+}
+
+/** Verdict returned by a translation grader. */
+export interface TranslationGrade {
+  /** Score between 0 and 1. */
+  score: number;
+  /** Pitfalls the answer fell into. */
+  errorTags: TranslationPitfallType[];
+  /** The learner's sentence with its mistakes fixed. */
+  correctedSentence: string;
+  /** Short explanation of what was wrong and why. */
+  explanation: string;
+}
+
+/** Arguments for looking a word up in the offline dictionary. */
+export interface DictionaryLookupParams {
+  /** Word or phrase to look up. */
+  text: string;
+  /** Language code of the text. */
+  sourceLanguage: string;
+  /** Language code the learner wants it in. */
+  targetLanguage: string;
+}
+
+/**
+ * How a lookup matched: the headword itself, a headword reached through an inflected form or
+ * a stripped ending, or headwords beginning with the text.
+ */
+export type DictionaryMatchType = 'exact' | 'lemma' | 'prefix';
+
+/** Entries found for a lookup, best first. */
+export interface DictionaryLookupResult {
+  /** How the entries matched the text. */
+  match: DictionaryMatchType;
+  /**
+   * Matching entries. When `reversed` is set, the text matched a gloss and each headword is
+   * the translation.
+   */
+  entries: DictionaryEntry[];
+  /** Whether the entries come from a pack for the opposite direction. */
+  reversed: boolean;
+}
+
+/** Summary of an installed dictionary pack. */
+export interface DictionaryPackInfo {
+  /** Display name of the dictionary. */
+  name: string;
+  /** Language code of the headwords. */
+  sourceLanguage: string;
+  /** Language code of the glosses. */
+  targetLanguage: string;
+  /** Number of headwords in the pack. */
+  entryCount: number;
+  /** Whether the pack ships with the app and cannot be removed. */
+  bundled: boolean;
+}
+
+/** Contract describing the offline bilingual dictionary. */
+export interface DictionaryService {
+  /**
+   * Looks a word up in the installed packs for the language pair, in either direction.
+   * @param params Word and language pair to look up.
+   * @returns Matching entries, or null when no pack knows the word.
+   */
+  lookup(params: DictionaryLookupParams): DictionaryLookupResult | null;
+
+  /**
+   * Installs a pack in the compact dictionary format, replacing any imported pack for the same
+   * language pair. Throws when the pack is malformed.
+   * @param pack Parsed JSON of the pack.
+   */
+  importPack(pack: unknown): DictionaryPackInfo;
+
+  /** Lists the installed packs, bundled packs first. */
+  listPacks(): DictionaryPackInfo[];
+
+  /**
+   * Removes an imported pack; bundled packs stay installed.
+   * @param sourceLanguage Language code of the pack's headwords.
+   * @param targetLanguage Language code of the pack's glosses.
+   */
+  removePack(sourceLanguage: string, targetLanguage: string): void;
+}
+
 /** Contract describing text-to-speech synthesis capabilities. */
 export interface TtsService {
   /**
@@ -210,6 +406,13 @@ export interface OfflineController {
   /** Initiates a synchronization cycle to upload offline progress. */
   syncPendingChanges(): Promise<void>;
 
+  /**
+   * Registers work to run, in registration order, on every synchronization cycle.
+   * @param task Function that uploads or replays one kind of offline change.
+   * @returns Function that unregisters the task.
+   */
+  addSyncTask(task: () => Promise<void>): () => void;
+
   /**
    * Registers a callback that runs whenever connectivity status changes.
    * @param callback Function invoked with the offline state when connectivity changes.
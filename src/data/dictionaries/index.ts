@@ -0,0 +1,7 @@
+import esEn from './es-en.json';
+
+/**
+ * Dictionary packs shipped with the app, in the same compact format as imported packs. They
+ * are validated when the dictionary first loads.
+ */
+export const BUNDLED_DICTIONARY_PACKS: unknown[] = [esEn];
@@ -1,2 +1,4 @@
 export * from './language-library';
 export * from './repositories';
+export * from './dictionaries';
+export * from './language-samples';
@@ -0,0 +1,171 @@
+/**
+ * Everyday sentences the offline language identifier learns character patterns from, keyed by
+ * `LANGUAGE_LIBRARY` code. Adding a language to the library needs a sample set here too.
+ */
+export const LANGUAGE_SAMPLES: Record<string, string[]> = {
+  en: [
+    'The weather is nice today, so we are going for a walk in the park.',
+    'I would like a cup of coffee with milk and no sugar, please.',
+    'Where is the nearest train station from here?',
+    'She has been working at the hospital for three years.',
+    'We should leave early because the traffic is always heavy in the morning.',
+    'Could you tell me what this word means?',
+    'My brother and his wife bought a small house near the beach.',
+    'They were watching a movie when the phone rang.',
+    'It is important to drink enough water every day.',
+    'I think that the children are already asleep upstairs.',
+    'How much does this shirt cost, and do you have it in blue?',
+    'What time does the shop open on Sunday?',
+    'He forgot his keys at work and had to wait outside.',
+    'The teacher explained the lesson again because nobody understood it.',
+    'If it rains tomorrow, we will stay at home and cook dinner together.',
+    'Thank you very much for your help with the move.',
+    'Which way should I go to get to the museum?',
+    'Our neighbours have a friendly dog that barks at every bird.',
+    'Although the book was long, I finished it in two weeks.',
+    'Have you ever travelled abroad on your own?',
+    'Please write your name and address on this form.',
+    'Something smells good in the kitchen, what are you making?',
+    'The meeting was moved to Thursday afternoon.',
+    'I need to buy bread, cheese, apples and some eggs.',
+    'Why did you not call me when you arrived?',
+    'The old bridge over the river was built a hundred years ago.',
+    'Nothing is more relaxing than sitting by the fire with a good story.',
+    'You should see a doctor if the pain does not go away.',
+    'Happy birthday! I hope all your wishes come true.',
+    'Excuse me, is this seat taken?',
+    'What is your name and where are you from?',
+  ],
+  es: [
+    'Hace buen tiempo hoy, así que vamos a dar un paseo por el parque.',
+    'Quisiera un café con leche y sin azúcar, por favor.',
+    '¿Dónde está la estación de tren más cercana?',
+    'Ella lleva tres años trabajando en el hospital.',
+    'Deberíamos salir temprano porque siempre hay mucho tráfico por la mañana.',
+    '¿Me puedes decir qué significa esta palabra?',
+    'Mi hermano y su mujer compraron una casa pequeña cerca de la playa.',
+    'Estaban viendo una película cuando sonó el teléfono.',
+    'Es importante beber suficiente agua todos los días.',
+    'Creo que los niños ya están dormidos arriba.',
+    '¿Cuánto cuesta esta camisa y la tienen en azul?',
+    '¿A qué hora abre la tienda el domingo?',
+    'Se olvidó las llaves en el trabajo y tuvo que esperar fuera.',
+    'La profesora explicó la lección otra vez porque nadie la entendió.',
+    'Si llueve mañana, nos quedaremos en casa y cocinaremos juntos.',
+    'Muchas gracias por tu ayuda con la mudanza.',
+    '¿Por dónde tengo que ir para llegar al museo?',
+    'Nuestros vecinos tienen un perro simpático que le ladra a todos los pájaros.',
+    'Aunque el libro era largo, lo terminé en dos semanas.',
+    '¿Alguna vez has viajado solo al extranjero?',
+    'Por favor, escribe tu nombre y tu dirección en este formulario.',
+    'Algo huele muy bien en la cocina, ¿qué estás preparando?',
+    'La reunión se cambió al jueves por la tarde.',
+    'Tengo que comprar pan, queso, manzanas y unos huevos.',
+    '¿Por qué no me llamaste cuando llegaste?',
+    'El puente viejo sobre el río se construyó hace cien años.',
+    'No hay nada más relajante que sentarse junto al fuego con una buena historia.',
+    'Deberías ir al médico si el dolor no se quita.',
+    '¡Feliz cumpleaños! Espero que se cumplan todos tus deseos.',
+    'Perdone, ¿está ocupado este asiento?',
+    '¿Cómo te llamas y de dónde eres?',
+  ],
+  pt: [
+    'O tempo está bom hoje, então vamos dar um passeio no parque.',
+    'Eu queria um café com leite e sem açúcar, por favor.',
+    'Onde fica a estação de trem mais próxima daqui?',
+    'Ela trabalha no hospital há três anos.',
+    'Devemos sair cedo porque o trânsito é sempre pesado de manhã.',
+    'Você pode me dizer o que significa esta palavra?',
+    'Meu irmão e a mulher dele compraram uma casa pequena perto da praia.',
+    'Eles estavam vendo um filme quando o telefone tocou.',
+    'É importante beber bastante água todos os dias.',
+    'Acho que as crianças já estão dormindo lá em cima.',
+    'Quanto custa esta camisa e vocês têm em azul?',
+    'A que horas a loja abre no domingo?',
+    'Ele esqueceu as chaves no trabalho e teve que esperar lá fora.',
+    'A professora explicou a lição de novo porque ninguém entendeu.',
+    'Se chover amanhã, vamos ficar em casa e cozinhar juntos.',
+    'Muito obrigado pela sua ajuda com a mudança.',
+    'Por onde eu vou para chegar ao museu?',
+    'Nossos vizinhos têm um cachorro simpático que late para todos os pássaros.',
+    'Embora o livro fosse longo, eu terminei em duas semanas.',
+    'Você já viajou sozinho para o exterior?',
+    'Por favor, escreva o seu nome e o seu endereço neste formulário.',
+    'Alguma coisa está cheirando bem na cozinha, o que você está fazendo?',
+    'A reunião foi transferida para quinta-feira à tarde.',
+    'Preciso comprar pão, queijo, maçãs e alguns ovos.',
+    'Por que você não me ligou quando chegou?',
+    'A ponte velha sobre o rio foi construída há cem anos.',
+    'Não há nada mais relaxante do que sentar perto da lareira com uma boa história.',
+    'Você deveria ir ao médico se a dor não passar.',
+    'Feliz aniversário! Espero que todos os seus desejos se realizem.',
+    'Com licença, este lugar está ocupado?',
+    'Como você se chama e de onde você é?',
+  ],
+  fr: [
+    'Il fait beau aujourd’hui, alors nous allons nous promener dans le parc.',
+    'Je voudrais un café au lait sans sucre, s’il vous plaît.',
+    'Où se trouve la gare la plus proche d’ici ?',
+    'Elle travaille à l’hôpital depuis trois ans.',
+    'Nous devrions partir tôt parce qu’il y a toujours beaucoup de circulation le matin.',
+    'Pouvez-vous me dire ce que signifie ce mot ?',
+    'Mon frère et sa femme ont acheté une petite maison près de la plage.',
+    'Ils regardaient un film quand le téléphone a sonné.',
+    'Il est important de boire assez d’eau chaque jour.',
+    'Je crois que les enfants dorment déjà en haut.',
+    'Combien coûte cette chemise, et l’avez-vous en bleu ?',
+    'À quelle heure le magasin ouvre-t-il le dimanche ?',
+    'Il a oublié ses clés au travail et a dû attendre dehors.',
+    'La professeure a expliqué la leçon encore une fois parce que personne ne l’avait comprise.',
+    'S’il pleut demain, nous resterons à la maison pour cuisiner ensemble.',
+    'Merci beaucoup pour ton aide avec le déménagement.',
+    'Par où dois-je passer pour aller au musée ?',
+    'Nos voisins ont un chien gentil qui aboie après chaque oiseau.',
+    'Bien que le livre soit long, je l’ai fini en deux semaines.',
+    'As-tu déjà voyagé seul à l’étranger ?',
+    'Veuillez écrire votre nom et votre adresse sur ce formulaire.',
+    'Ça sent bon dans la cuisine, qu’est-ce que tu prépares ?',
+    'La réunion a été déplacée à jeudi après-midi.',
+    'Je dois acheter du pain, du fromage, des pommes et quelques œufs.',
+    'Pourquoi ne m’as-tu pas appelé quand tu es arrivé ?',
+    'Le vieux pont sur la rivière a été construit il y a cent ans.',
+    'Rien n’est plus reposant que de s’asseoir près du feu avec une bonne histoire.',
+    'Tu devrais voir un médecin si la douleur ne passe pas.',
+    'Joyeux anniversaire ! J’espère que tous tes vœux se réaliseront.',
+    'Excusez-moi, cette place est-elle libre ?',
+    'Comment tu t’appelles et d’où viens-tu ?',
+  ],
+  de: [
+    'Heute ist schönes Wetter, also gehen wir im Park spazieren.',
+    'Ich hätte gern einen Kaffee mit Milch und ohne Zucker, bitte.',
+    'Wo ist der nächste Bahnhof von hier aus?',
+    'Sie arbeitet seit drei Jahren im Krankenhaus.',
+    'Wir sollten früh losfahren, weil morgens immer viel Verkehr ist.',
+    'Kannst du mir sagen, was dieses Wort bedeutet?',
+    'Mein Bruder und seine Frau haben ein kleines Haus in der Nähe vom Strand gekauft.',
+    'Sie sahen gerade einen Film, als das Telefon klingelte.',
+    'Es ist wichtig, jeden Tag genug Wasser zu trinken.',
+    'Ich glaube, dass die Kinder oben schon schlafen.',
+    'Wie viel kostet dieses Hemd, und haben Sie es auch in Blau?',
+    'Um wie viel Uhr öffnet der Laden am Sonntag?',
+    'Er hat seine Schlüssel bei der Arbeit vergessen und musste draußen warten.',
+    'Die Lehrerin hat die Stunde noch einmal erklärt, weil niemand sie verstanden hat.',
+    'Wenn es morgen regnet, bleiben wir zu Hause und kochen zusammen.',
+    'Vielen Dank für deine Hilfe beim Umzug.',
+    'Wie komme ich am besten zum Museum?',
+    'Unsere Nachbarn haben einen freundlichen Hund, der jeden Vogel anbellt.',
+    'Obwohl das Buch lang war, habe ich es in zwei Wochen gelesen.',
+    'Bist du schon einmal allein ins Ausland gereist?',
+    'Bitte schreiben Sie Ihren Namen und Ihre Adresse auf dieses Formular.',
+    'In der Küche riecht es gut, was kochst du gerade?',
+    'Die Besprechung wurde auf Donnerstagnachmittag verschoben.',
+    'Ich muss Brot, Käse, Äpfel und ein paar Eier kaufen.',
+    'Warum hast du mich nicht angerufen, als du angekommen bist?',
+    'Die alte Brücke über den Fluss wurde vor hundert Jahren gebaut.',
+    'Nichts ist entspannender, als mit einer guten Geschichte am Feuer zu sitzen.',
+    'Du solltest zum Arzt gehen, wenn die Schmerzen nicht weggehen.',
+    'Alles Gute zum Geburtstag! Ich hoffe, all deine Wünsche gehen in Erfüllung.',
+    'Entschuldigung, ist dieser Platz noch frei?',
+    'Wie heißt du und woher kommst du?',
+  ],
+};
@@ -1,7 +1,8 @@
 import { createMMKV } from 'react-native-mmkv';
 import type { MMKV } from 'react-native-mmkv';
 import type { BankRepository } from '../../contracts/repositories';
-import type { VocabItem, SrsData } from '../../contracts/models';
+import type { VocabItem, SrsData, SrsTrack } from '../../contracts/models';
+import { migrateLegacySrsTracks } from '../../domain/srs/unified-srs-service';
 
 const STORAGE_ID = 'mmkv_bank_repository_v1';
 const ITEMS_KEY = 'vocab_items';
@@ -32,9 +33,13 @@ const cloneItem = (item: VocabItem): VocabItem => {
     tags: [...folders],
     folders: [...folders],
     srsData: item.srsData ? { ...item.srsData } : undefined,
+    productionSrsData: item.productionSrsData ? { ...item.productionSrsData } : undefined,
   };
 };
 
+const trackKey = (track: SrsTrack = 'recognition') =>
+  track === 'production' ? 'productionSrsData' : 'srsData';
+
 export class MmkvBankRepository implements BankRepository {
   private readonly storage: MMKV;
 
@@ -67,6 +72,7 @@ export class MmkvBankRepository implements BankRepository {
       folders,
       examples: [...item.examples],
       srsData: item.srsData ? { ...item.srsData } : undefined,
+      productionSrsData: item.productionSrsData ? { ...item.productionSrsData } : undefined,
     };
 
     if (index >= 0) {
@@ -83,7 +89,7 @@ export class MmkvBankRepository implements BankRepository {
     this.writeItems(items);
   }
 
-  async updateSrsData(itemId: string, data: SrsData): Promise<void> {
+  async updateSrsData(itemId: string, data: SrsData, track?: SrsTrack): Promise<void> {
     const items = this.readItems();
     const index = items.findIndex(item => item.id === itemId);
     if (index === -1) {
@@ -92,14 +98,14 @@ export class MmkvBankRepository implements BankRepository {
 
     items[index] = {
       ...items[index],
-      srsData: { ...data },
+      [trackKey(track)]: { ...data },
       updatedAt: new Date().toISOString(),
     };
 
     this.writeItems(items);
   }
 
-  async clearSrsData(itemId: string): Promise<void> {
+  async clearSrsData(itemId: string, track?: SrsTrack): Promise<void> {
     const items = this.readItems();
     const index = items.findIndex(item => item.id === itemId);
     if (index === -1) {
@@ -107,7 +113,7 @@ export class MmkvBankRepository implements BankRepository {
     }
     items[index] = {
       ...items[index],
-      srsData: undefined,
+      [trackKey(track)]: undefined,
       updatedAt: new Date().toISOString(),
     };
     this.writeItems(items);
@@ -124,23 +130,36 @@ export class MmkvBankRepository implements BankRepository {
       return [];
     }
 
+    let parsed: VocabItem[];
     try {
-      const parsed = JSON.parse(raw) as VocabItem[];
-      return parsed.map(entry => {
-        const rawFolders = Array.isArray(entry.folders) ? entry.folders : [];
-        const rawTags = Array.isArray(entry.tags) ? entry.tags : [];
-        const folders = normalizeStringList([...rawFolders, ...rawTags]);
-        return {
-          ...entry,
-          examples: Array.isArray(entry.examples) ? entry.examples : [],
-          tags: folders,
-          folders,
-          srsData: entry.srsData ? { ...entry.srsData } : undefined,
-        };
-      });
+      parsed = JSON.parse(raw) as VocabItem[];
     } catch {
       return [];
     }
+
+    let migrated = false;
+    const items = parsed.map(entry => {
+      const rawFolders = Array.isArray(entry.folders) ? entry.folders : [];
+      const rawTags = Array.isArray(entry.tags) ? entry.tags : [];
+      const folders = normalizeStringList([...rawFolders, ...rawTags]);
+      const normalised: VocabItem = {
+        ...entry,
+        examples: Array.isArray(entry.examples) ? entry.examples : [],
+        tags: folders,
+        folders,
+        srsData: entry.srsData ? { ...entry.srsData } : undefined,
+        productionSrsData: entry.productionSrsData ? { ...entry.productionSrsData } : undefined,
+      };
+      // Entries written before recognition/production tracks were split
+      const split = migrateLegacySrsTracks(normalised);
+      migrated = migrated || split !== normalised;
+      return split;
+    });
+
+    if (migrated) {
+      this.writeItems(items);
+    }
+    return items;
   }
 
   private writeItems(items: VocabItem[]) {
@@ -0,0 +1,56 @@
+import { createMMKV } from 'react-native-mmkv';
+import type { MMKV } from 'react-native-mmkv';
+import type { ChatThread } from '../../contracts/models';
+import { ChatThreadSchema } from '../../contracts/models';
+import type { ChatThreadRepository } from '../../contracts/repositories';
+
+const STORAGE_ID = 'mmkv_chat_thread_repository_v1';
+/** Each thread is stored under its own key so saving one message rewrites one thread. */
+const THREAD_KEY_PREFIX = 'chat_thread:';
+
+const threadKey = (threadId: string) => `${THREAD_KEY_PREFIX}${threadId}`;
+
+const byUpdatedAtDesc = (a: ChatThread, b: ChatThread) => b.updatedAt.localeCompare(a.updatedAt);
+
+export class MmkvChatThreadRepository implements ChatThreadRepository {
+  private readonly storage: MMKV;
+
+  constructor(storage?: MMKV) {
+    this.storage = storage ?? createMMKV({ id: STORAGE_ID });
+  }
+
+  async getThreadById(threadId: string): Promise<ChatThread | null> {
+    return this.readThread(threadKey(threadId));
+  }
+
+  async listAllThreads(): Promise<ChatThread[]> {
+    return this.storage
+      .getAllKeys()
+      .filter(key => key.startsWith(THREAD_KEY_PREFIX))
+      .map(key => this.readThread(key))
+      .filter((thread): thread is ChatThread => thread !== null)
+      .sort(byUpdatedAtDesc);
+  }
+
+  async saveThread(thread: ChatThread): Promise<void> {
+    this.storage.set(threadKey(thread.id), JSON.stringify(thread));
+  }
+
+  async deleteThread(threadId: string): Promise<void> {
+    this.storage.remove(threadKey(threadId));
+  }
+
+  private readThread(key: string): ChatThread | null {
+    const raw = this.storage.getString(key);
+    if (!raw) {
+      return null;
+    }
+
+    try {
+      const parsed = ChatThreadSchema.safeParse(JSON.parse(raw));
+      return parsed.success ? parsed.data : null;
+    } catch {
+      return null;
+    }
+  }
+}
@@ -100,6 +100,23 @@ export class MmkvNotesRepository implements NotesRepository {
     this.writeNotes(notes);
   }
 
+  async updateNoteAnswer(noteId: string, answer: string, answeredAt: string): Promise<void> {
+    const notes = this.readNotes();
+    const index = notes.findIndex(note => note.id === noteId);
+    if (index === -1) {
+      return;
+    }
+
+    notes[index] = {
+      ...notes[index],
+      answer,
+      answeredAt,
+      updatedAt: new Date().toISOString(),
+    };
+
+    this.writeNotes(notes);
+  }
+
   async deleteNote(noteId: string): Promise<void> {
     const notes = this.readNotes().filter(note => note.id !== noteId);
     this.writeNotes(notes);
@@ -0,0 +1,65 @@
+import { createMMKV } from 'react-native-mmkv';
+import type { MMKV } from 'react-native-mmkv';
+import type { ReviewLogEntry } from '../../contracts/models';
+import type { ReviewLogRepository } from '../../contracts/repositories';
+
+const STORAGE_ID = 'mmkv_review_log_repository_v1';
+const ENTRIES_KEY = 'review_log_entries';
+
+const byReviewedAt = (a: ReviewLogEntry, b: ReviewLogEntry) =>
+  a.reviewedAt.localeCompare(b.reviewedAt);
+
+export class MmkvReviewLogRepository implements ReviewLogRepository {
+  private readonly storage: MMKV;
+
+  constructor(storage?: MMKV) {
+    this.storage = storage ?? createMMKV({ id: STORAGE_ID });
+  }
+
+  async appendReview(entry: ReviewLogEntry): Promise<void> {
+    const entries = this.readEntries();
+    if (entries.some(existing => existing.id === entry.id)) {
+      return;
+    }
+    entries.push({ ...entry });
+    this.writeEntries(entries);
+  }
+
+  async removeReview(id: string): Promise<void> {
+    const entries = this.readEntries();
+    const remaining = entries.filter(entry => entry.id !== id);
+    if (remaining.length !== entries.length) {
+      this.writeEntries(remaining);
+    }
+  }
+
+  async listReviewsForItem(vocabItemId: string): Promise<ReviewLogEntry[]> {
+    return this.readEntries()
+      .filter(entry => entry.vocabItemId === vocabItemId)
+      .sort(byReviewedAt);
+  }
+
+  async listAllReviews(): Promise<ReviewLogEntry[]> {
+    return this.readEntries().sort(byReviewedAt);
+  }
+
+  private readEntries(): ReviewLogEntry[] {
+    const raw = this.storage.getString(ENTRIES_KEY);
+    if (!raw) {
+      return [];
+    }
+
+    try {
+      const parsed = JSON.parse(raw) as ReviewLogEntry[];
+      return Array.isArray(parsed) ? parsed : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private writeEntries(entries: ReviewLogEntry[]) {
+    this.storage.set(ENTRIES_KEY, JSON.stringify(entries));
+  }
+}
+
+export const mmkvReviewLogRepository = new MmkvReviewLogRepository();
@@ -0,0 +1 @@
+export * from '../mmkv/chat-thread-repository';
@@ -2,3 +2,5 @@ export * from './bank-repository';
 export * from './notes-repository';
 export * from './video-repository';
 export * from './progress-repository';
+export * from './review-log-repository';
+export * from './chat-thread-repository';
@@ -0,0 +1 @@
+export * from '../resilient/review-log-repository';
@@ -1,5 +1,5 @@
 import type { BankRepository } from '../../contracts/repositories';
-import type { VocabItem, SrsData } from '../../contracts/models';
+import type { VocabItem, SrsData, SrsTrack } from '../../contracts/models';
 import { WatermelonBankRepository } from '../watermelon/bank-repository';
 import { MmkvBankRepository } from '../mmkv/bank-repository';
 
@@ -80,40 +80,40 @@ export class ResilientBankRepository implements BankRepository {
     await this.fallback.deleteVocabItem(id).catch(() => undefined);
   }
 
-  async updateSrsData(itemId: string, data: SrsData): Promise<void> {
+  async updateSrsData(itemId: string, data: SrsData, track?: SrsTrack): Promise<void> {
     if (this.useFallback) {
-      await this.fallback.updateSrsData(itemId, data);
+      await this.fallback.updateSrsData(itemId, data, track);
       return;
     }
 
     try {
-      await this.primary.updateSrsData(itemId, data);
+      await this.primary.updateSrsData(itemId, data, track);
     } catch (error) {
       console.warn('[ResilientBankRepository] Falling back to MMKV storage.', error);
       this.useFallback = true;
-      await this.fallback.updateSrsData(itemId, data);
+      await this.fallback.updateSrsData(itemId, data, track);
       return;
     }
 
-    await this.fallback.updateSrsData(itemId, data).catch(() => undefined);
+    await this.fallback.updateSrsData(itemId, data, track).catch(() => undefined);
   }
 
-  async clearSrsData(itemId: string): Promise<void> {
+  async clearSrsData(itemId: string, track?: SrsTrack): Promise<void> {
     if (this.useFallback) {
-      await this.fallback.clearSrsData(itemId);
+      await this.fallback.clearSrsData(itemId, track);
       return;
     }
 
     try {
-      await this.primary.clearSrsData(itemId);
+      await this.primary.clearSrsData(itemId, track);
     } catch (error) {
       console.warn('[ResilientBankRepository] Falling back to MMKV storage.', error);
       this.useFallback = true;
-      await this.fallback.clearSrsData(itemId);
+      await this.fallback.clearSrsData(itemId, track);
       return;
     }
 
-    await this.fallback.clearSrsData(itemId).catch(() => undefined);
+    await this.fallback.clearSrsData(itemId, track).catch(() => undefined);
   }
 
   private async execute<T>(
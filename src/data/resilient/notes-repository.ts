@@ -81,6 +81,13 @@ export class ResilientNotesRepository implements NotesRepository {
     );
   }
 
+  async updateNoteAnswer(noteId: string, answer: string, answeredAt: string): Promise<void> {
+    await this.execute(
+      () => this.primary.updateNoteAnswer(noteId, answer, answeredAt),
+      () => this.fallback.updateNoteAnswer(noteId, answer, answeredAt),
+    );
+  }
+
   async deleteNote(noteId: string): Promise<void> {
     await this.execute(
       () => this.primary.deleteNote(noteId),
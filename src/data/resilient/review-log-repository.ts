@@ -0,0 +1,65 @@
+import type { ReviewLogRepository } from '../../contracts/repositories';
+import type { ReviewLogEntry } from '../../contracts/models';
+import { WatermelonReviewLogRepository } from '../watermelon/review-log-repository';
+import { MmkvReviewLogRepository } from '../mmkv/review-log-repository';
+
+type ReviewLogOperation<T> = () => Promise<T>;
+
+/** Wraps the Watermelon review log and falls back to MMKV storage if needed. */
+export class ResilientReviewLogRepository implements ReviewLogRepository {
+  private readonly primary: WatermelonReviewLogRepository;
+  private readonly fallback: MmkvReviewLogRepository;
+  private useFallback = false;
+
+  constructor() {
+    this.primary = new WatermelonReviewLogRepository();
+    this.fallback = new MmkvReviewLogRepository();
+  }
+
+  async appendReview(entry: ReviewLogEntry): Promise<void> {
+    await this.execute(
+      () => this.primary.appendReview(entry),
+      () => this.fallback.appendReview(entry),
+    );
+  }
+
+  async removeReview(id: string): Promise<void> {
+    await this.execute(
+      () => this.primary.removeReview(id),
+      () => this.fallback.removeReview(id),
+    );
+  }
+
+  async listReviewsForItem(vocabItemId: string): Promise<ReviewLogEntry[]> {
+    return this.execute(
+      () => this.primary.listReviewsForItem(vocabItemId),
+      () => this.fallback.listReviewsForItem(vocabItemId),
+    );
+  }
+
+  async listAllReviews(): Promise<ReviewLogEntry[]> {
+    return this.execute(
+      () => this.primary.listAllReviews(),
+      () => this.fallback.listAllReviews(),
+    );
+  }
+
+  private async execute<T>(
+    primaryOp: ReviewLogOperation<T>,
+    fallbackOp: ReviewLogOperation<T>,
+  ): Promise<T> {
+    if (this.useFallback) {
+      return fallbackOp();
+    }
+
+    try {
+      return await primaryOp();
+    } catch (error) {
+      console.warn('[ResilientReviewLogRepository] Falling back to MMKV storage.', error);
+      this.useFallback = true;
+      return fallbackOp();
+    }
+  }
+}
+
+export const reviewLogRepository = new ResilientReviewLogRepository();
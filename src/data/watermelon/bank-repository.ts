@@ -2,7 +2,16 @@ import { Q } from '@nozbe/watermelondb';
 import type { Collection } from '@nozbe/watermelondb';
 import { getBankDatabase } from './database';
 import type { BankRepository } from '../../contracts/repositories';
-import type { VocabItem, SrsData } from '../../contracts/models';
+import {
+  PerformanceDataSchema,
+  VocabMetadataSchema,
+  type PerformanceData,
+  type VocabItem,
+  type VocabMetadata,
+  type SrsData,
+  type SrsTrack,
+} from '../../contracts/models';
+import { migrateLegacySrsTracks } from '../../domain/srs/unified-srs-service';
 import { BankItemModel } from './models/bank-item';
 
 const normaliseList = (values?: string[]): string[] => {
@@ -41,9 +50,47 @@ const serializeItem = (item: VocabItem) => {
     created_at: isoToEpoch(item.createdAt),
     updated_at: isoToEpoch(item.updatedAt),
     srs_data: item.srsData ? JSON.stringify(item.srsData) : null,
+    production_srs_data: item.productionSrsData ? JSON.stringify(item.productionSrsData) : null,
+    suspended: item.suspended ?? false,
+    buried_until: item.buriedUntil ? isoToEpoch(item.buriedUntil) : null,
+    metadata: item.metadata ? JSON.stringify(item.metadata) : null,
+    performance_data: item.performanceData ? JSON.stringify(item.performanceData) : null,
   };
 };
 
+/** Column holding the scheduling data for a track. */
+const trackColumn = (track: SrsTrack = 'recognition') =>
+  track === 'production' ? 'production_srs_data' : 'srs_data';
+
+const parseSrsColumn = (json: string | null | undefined): SrsData | undefined =>
+  json ? (JSON.parse(json) as SrsData) : undefined;
+
+/** Reads the metadata column; rows written before it existed have none. */
+const parseMetadataColumn = (json: string | null | undefined): VocabMetadata | undefined => {
+  if (!json) {
+    return undefined;
+  }
+  try {
+    const parsed = VocabMetadataSchema.safeParse(JSON.parse(json));
+    return parsed.success ? parsed.data : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/** Reads the performance column; rows written before it existed have none. */
+const parsePerformanceColumn = (json: string | null | undefined): PerformanceData | undefined => {
+  if (!json) {
+    return undefined;
+  }
+  try {
+    const parsed = PerformanceDataSchema.safeParse(JSON.parse(json));
+    return parsed.success ? parsed.data : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
 /** Deserialises a WatermelonDB record into a vocabulary item structure. */
 const deserializeItem = (record: BankItemModel): VocabItem => {
   const getValue = <TValue = unknown>(key: string): TValue =>
@@ -69,7 +116,7 @@ const deserializeItem = (record: BankItemModel): VocabItem => {
     })()),
   ]);
 
-  return {
+  return migrateLegacySrsTracks({
     id: record.id,
     term: getValue<string>('term'),
     reading: getValue<string | null>('reading') ?? undefined,
@@ -86,11 +133,16 @@ const deserializeItem = (record: BankItemModel): VocabItem => {
     level: getValue<string>('level'),
     createdAt: epochToIso(getValue<number>('created_at')),
     updatedAt: epochToIso(getValue<number>('updated_at')),
-    srsData: (() => {
-      const json = getValue<string | null>('srs_data');
-      return json ? (JSON.parse(json) as SrsData) : undefined;
+    srsData: parseSrsColumn(getValue<string | null>('srs_data')),
+    productionSrsData: parseSrsColumn(getValue<string | null>('production_srs_data')),
+    suspended: Boolean(getValue<boolean | null>('suspended')),
+    buriedUntil: (() => {
+      const buriedUntil = getValue<number | null>('buried_until');
+      return buriedUntil ? epochToIso(buriedUntil) : null;
     })(),
-  };
+    metadata: parseMetadataColumn(getValue<string | null>('metadata')),
+    performanceData: parsePerformanceColumn(getValue<string | null>('performance_data')),
+  });
 };
 
 /** Applies vocabulary values to a WatermelonDB record. */
@@ -184,25 +236,25 @@ export class WatermelonBankRepository implements BankRepository {
     });
   }
 
-  async updateSrsData(itemId: string, data: SrsData): Promise<void> {
+  async updateSrsData(itemId: string, data: SrsData, track?: SrsTrack): Promise<void> {
     const collection = getBankCollection();
 
     await getBankDatabase().write(async () => {
       const record = await collection.find(itemId);
       await record.update(rec => {
-        rec._setRaw('srs_data', JSON.stringify(data));
+        rec._setRaw(trackColumn(track), JSON.stringify(data));
         rec._setRaw('updated_at', Date.now());
       });
     });
   }
 
-  async clearSrsData(itemId: string): Promise<void> {
+  async clearSrsData(itemId: string, track?: SrsTrack): Promise<void> {
     const collection = getBankCollection();
 
     await getBankDatabase().write(async () => {
       const record = await collection.find(itemId);
       await record.update(rec => {
-        rec._setRaw('srs_data', null);
+        rec._setRaw(trackColumn(track), null);
         rec._setRaw('updated_at', Date.now());
       });
     });
@@ -2,6 +2,7 @@ import { Database } from '@nozbe/watermelondb';
 import SQLiteAdapter from '@nozbe/watermelondb/adapters/sqlite';
 import { BankItemModel } from './models/bank-item';
 import { NoteModel } from './models/note';
+import { ReviewLogModel } from './models/review-log';
 import { VideoModel } from './models/video';
 import { vocabularyBankSchema } from './schema';
 import { vocabularyMigrations } from './migrations';
@@ -27,7 +28,7 @@ export const getBankDatabase = (): Database => {
 
   databaseInstance = new Database({
     adapter,
-    modelClasses: [BankItemModel, NoteModel, VideoModel],
+    modelClasses: [BankItemModel, NoteModel, VideoModel, ReviewLogModel],
   });
 
   return databaseInstance;
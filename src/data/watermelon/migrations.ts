@@ -1,4 +1,8 @@
-import { addColumns, schemaMigrations } from '@nozbe/watermelondb/Schema/migrations';
+import {
+  addColumns,
+  createTable,
+  schemaMigrations,
+} from '@nozbe/watermelondb/Schema/migrations';
 
 export const vocabularyMigrations = schemaMigrations({
   migrations: [
@@ -20,5 +24,74 @@ export const vocabularyMigrations = schemaMigrations({
         }),
       ],
     },
+    {
+      // Existing srs_data rows become the recognition track. Performance data was not stored
+      // yet, so migrated rows have no production attempts and production starts empty.
+      toVersion: 7,
+      steps: [
+        addColumns({
+          table: 'bank_items',
+          columns: [{ name: 'production_srs_data', type: 'string', isOptional: true }],
+        }),
+      ],
+    },
+    {
+      toVersion: 8,
+      steps: [
+        createTable({
+          name: 'review_logs',
+          columns: [
+            { name: 'vocab_item_id', type: 'string', isIndexed: true },
+            { name: 'reviewed_at', type: 'number' },
+            { name: 'activity_type', type: 'string' },
+            { name: 'quality', type: 'number' },
+            { name: 'score', type: 'number', isOptional: true },
+            { name: 'elapsed_hours', type: 'number', isOptional: true },
+            { name: 'previous_interval_hours', type: 'number', isOptional: true },
+            { name: 'next_interval_hours', type: 'number' },
+            { name: 'algorithm', type: 'string' },
+          ],
+        }),
+      ],
+    },
+    {
+      toVersion: 9,
+      steps: [
+        addColumns({
+          table: 'bank_items',
+          columns: [
+            { name: 'suspended', type: 'boolean', isOptional: true },
+            { name: 'buried_until', type: 'number', isOptional: true },
+          ],
+        }),
+      ],
+    },
+    {
+      toVersion: 10,
+      steps: [
+        addColumns({
+          table: 'bank_items',
+          columns: [{ name: 'metadata', type: 'string', isOptional: true }],
+        }),
+      ],
+    },
+    {
+      toVersion: 11,
+      steps: [
+        addColumns({
+          table: 'review_logs',
+          columns: [{ name: 'catch_up', type: 'boolean', isOptional: true }],
+        }),
+      ],
+    },
+    {
+      toVersion: 12,
+      steps: [
+        addColumns({
+          table: 'bank_items',
+          columns: [{ name: 'performance_data', type: 'string', isOptional: true }],
+        }),
+      ],
+    },
   ],
 });
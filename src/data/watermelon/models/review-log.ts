@@ -0,0 +1,11 @@
+import { Model } from '@nozbe/watermelondb';
+
+/** WatermelonDB model representing one append-only review log entry. */
+export class ReviewLogModel extends Model {
+  static table = 'review_logs';
+
+  getRawValue<TValue = unknown>(key: string): TValue {
+    const rawRecord = this._raw as unknown as Record<string, TValue>;
+    return rawRecord[key];
+  }
+}
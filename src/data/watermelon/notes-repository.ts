@@ -156,6 +156,19 @@ export class WatermelonNotesRepository implements NotesRepository {
     });
   }
 
+  async updateNoteAnswer(noteId: string, answer: string, answeredAt: string): Promise<void> {
+    const collection = getNotesCollection();
+
+    await getBankDatabase().write(async () => {
+      const record = await collection.find(noteId);
+      await record.update(rec => {
+        rec._setRaw('answer', answer);
+        rec._setRaw('answered_at', isoToEpoch(answeredAt));
+        rec._setRaw('updated_at', Date.now());
+      });
+    });
+  }
+
   async deleteNote(noteId: string): Promise<void> {
     const collection = getNotesCollection();
 
@@ -0,0 +1,97 @@
+import { Q } from '@nozbe/watermelondb';
+import type { Collection } from '@nozbe/watermelondb';
+import { getBankDatabase } from './database';
+import type { ReviewLogEntry, SrsTrack } from '../../contracts/models';
+import type { ReviewLogRepository } from '../../contracts/repositories';
+import { ReviewLogModel } from './models/review-log';
+
+const isoToEpoch = (value: string): number => new Date(value).getTime();
+
+const epochToIso = (value: number | string): string => new Date(Number(value)).toISOString();
+
+/** Serialises a review log entry into WatermelonDB column values. */
+const serializeEntry = (entry: ReviewLogEntry) => ({
+  vocab_item_id: entry.vocabItemId,
+  reviewed_at: isoToEpoch(entry.reviewedAt),
+  activity_type: entry.activityType,
+  quality: entry.quality,
+  score: entry.score,
+  elapsed_hours: entry.elapsedHours,
+  previous_interval_hours: entry.previousIntervalHours,
+  next_interval_hours: entry.nextIntervalHours,
+  algorithm: entry.algorithm,
+  catch_up: entry.catchUp ?? false,
+});
+
+/** Deserialises a WatermelonDB record back into a review log entry. */
+const deserializeEntry = (record: ReviewLogModel): ReviewLogEntry => {
+  const getValue = <TValue = unknown>(key: string): TValue => record.getRawValue<TValue>(key);
+
+  return {
+    id: record.id,
+    vocabItemId: getValue<string>('vocab_item_id'),
+    reviewedAt: epochToIso(getValue<number>('reviewed_at')),
+    activityType: getValue<SrsTrack>('activity_type'),
+    quality: getValue<number>('quality'),
+    score: getValue<number | null>('score') ?? null,
+    elapsedHours: getValue<number | null>('elapsed_hours') ?? null,
+    previousIntervalHours: getValue<number | null>('previous_interval_hours') ?? null,
+    nextIntervalHours: getValue<number>('next_interval_hours'),
+    algorithm: getValue<string>('algorithm'),
+    ...(getValue<boolean | null>('catch_up') ? { catchUp: true } : {}),
+  };
+};
+
+const isNotFoundError = (error: unknown): boolean =>
+  error instanceof Error && /Record ID .* was not found/.test(error.message);
+
+const getReviewLogCollection = (): Collection<ReviewLogModel> =>
+  getBankDatabase().collections.get<ReviewLogModel>('review_logs');
+
+const byReviewedAt = (a: ReviewLogEntry, b: ReviewLogEntry) =>
+  a.reviewedAt.localeCompare(b.reviewedAt);
+
+/** WatermelonDB-backed review log repository. */
+export class WatermelonReviewLogRepository implements ReviewLogRepository {
+  async appendReview(entry: ReviewLogEntry): Promise<void> {
+    const collection = getReviewLogCollection();
+
+    await getBankDatabase().write(async () => {
+      await collection.create(record => {
+        record._raw.id = entry.id;
+        Object.entries(serializeEntry(entry)).forEach(([key, value]) => {
+          record._setRaw(key, value);
+        });
+      });
+    });
+  }
+
+  async removeReview(id: string): Promise<void> {
+    const collection = getReviewLogCollection();
+
+    await getBankDatabase().write(async () => {
+      try {
+        const record = await collection.find(id);
+        await record.destroyPermanently();
+      } catch (error) {
+        if (!isNotFoundError(error)) {
+          throw error;
+        }
+      }
+    });
+  }
+
+  async listReviewsForItem(vocabItemId: string): Promise<ReviewLogEntry[]> {
+    const collection = getReviewLogCollection();
+    const records = await collection.query(Q.where('vocab_item_id', vocabItemId)).fetch();
+    return records.map(deserializeEntry).sort(byReviewedAt);
+  }
+
+  async listAllReviews(): Promise<ReviewLogEntry[]> {
+    const collection = getReviewLogCollection();
+    const records = await collection.query().fetch();
+    return records.map(deserializeEntry).sort(byReviewedAt);
+  }
+}
+
+export const reviewLogRepository = new WatermelonReviewLogRepository();
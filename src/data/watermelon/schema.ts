@@ -2,7 +2,7 @@ import { appSchema, tableSchema } from '@nozbe/watermelondb';
 
 /** Schema describing the vocabulary bank storage. */
 export const vocabularyBankSchema = appSchema({
-  version: 6,
+  version: 12,
   tables: [
     tableSchema({
       name: 'bank_items',
@@ -17,6 +17,11 @@ export const vocabularyBankSchema = appSchema({
         { name: 'created_at', type: 'number' },
         { name: 'updated_at', type: 'number' },
         { name: 'srs_data', type: 'string', isOptional: true },
+        { name: 'production_srs_data', type: 'string', isOptional: true },
+        { name: 'suspended', type: 'boolean', isOptional: true },
+        { name: 'buried_until', type: 'number', isOptional: true },
+        { name: 'metadata', type: 'string', isOptional: true },
+        { name: 'performance_data', type: 'string', isOptional: true },
       ],
     }),
     tableSchema({
@@ -34,6 +39,21 @@ export const vocabularyBankSchema = appSchema({
         { name: 'timestamp_seconds', type: 'number', isOptional: true },
       ],
     }),
+    tableSchema({
+      name: 'review_logs',
+      columns: [
+        { name: 'vocab_item_id', type: 'string', isIndexed: true },
+        { name: 'reviewed_at', type: 'number' },
+        { name: 'activity_type', type: 'string' },
+        { name: 'quality', type: 'number' },
+        { name: 'score', type: 'number', isOptional: true },
+        { name: 'elapsed_hours', type: 'number', isOptional: true },
+        { name: 'previous_interval_hours', type: 'number', isOptional: true },
+        { name: 'next_interval_hours', type: 'number' },
+        { name: 'algorithm', type: 'string' },
+        { name: 'catch_up', type: 'boolean', isOptional: true },
+      ],
+    }),
     tableSchema({
       name: 'videos',
       columns: [
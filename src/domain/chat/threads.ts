@@ -0,0 +1,144 @@
+import type {
+  ChatMessage,
+  ChatThread,
+  DictionaryChatMessage,
+  LanguageProfile,
+  UserChatMessage,
+  VocabItem,
+} from '../../contracts/models';
+import type { AiOutboxDelivery } from '../../contracts/services';
+import { foldDiacritics, tokenize } from '../translation/text-matching';
+
+/** Title shown for a thread that has neither a name nor a message yet. */
+export const DEFAULT_THREAD_TITLE = 'New conversation';
+/** Longest title derived from a thread's first message. */
+export const THREAD_TITLE_LENGTH = 40;
+/** Earlier lookups from a thread sent to the tutor as context. */
+export const THREAD_CONTEXT_LOOKUPS = 8;
+
+const foldedTokens = (value: string): string[] => tokenize(foldDiacritics(value));
+
+const isDictionaryMessage = (message: ChatMessage): message is DictionaryChatMessage =>
+  message.role === 'assistant' && message.mode === 'dictionary';
+
+const messageText = (message: ChatMessage): string =>
+  isDictionaryMessage(message) ? `${message.headword} ${message.translation}` : message.content;
+
+/** The learner's name for a thread, or its first message shortened to fit a list row. */
+export const describeThreadTitle = (thread: ChatThread): string => {
+  if (thread.title.trim()) {
+    return thread.title.trim();
+  }
+  const first = thread.messages.find(
+    (message): message is UserChatMessage => message.role === 'user',
+  );
+  if (!first) {
+    return DEFAULT_THREAD_TITLE;
+  }
+  const text = first.content.replace(/\s+/g, ' ').trim();
+  return text.length <= THREAD_TITLE_LENGTH
+    ? text
+    : `${text.slice(0, THREAD_TITLE_LENGTH - 1).trimEnd()}…`;
+};
+
+/**
+ * Threads matching every word of a query, most recently updated first. Words match the start of
+ * a word in the title or any message, including dictionary headwords and translations.
+ */
+export const searchChatThreads = (threads: ChatThread[], query: string): ChatThread[] => {
+  const queryTokens = foldedTokens(query);
+  return threads
+    .filter(thread => {
+      if (queryTokens.length === 0) {
+        return true;
+      }
+      const tokens = foldedTokens(
+        [describeThreadTitle(thread), ...thread.messages.map(messageText)].join(' '),
+      );
+      return queryTokens.every(queryToken => tokens.some(token => token.startsWith(queryToken)));
+    })
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+/**
+ * Lists the words looked up earlier in a thread for the tutor, most recent last, or returns an
+ * empty string when there were none. Tutor-mode messages travel as turns instead.
+ */
+export const formatThreadContext = (
+  messages: ChatMessage[],
+  limit = THREAD_CONTEXT_LOOKUPS,
+): string => {
+  const lookups = messages
+    .filter(isDictionaryMessage)
+    .slice(-limit)
+    .map(message => `${message.headword} → ${message.translation}`);
+  return lookups.length === 0
+    ? ''
+    : `Words looked up earlier in this conversation: ${lookups.join('; ')}`;
+};
+
+/** Which way a lookup went between the profile's languages. */
+export type LookupDirections = Pick<
+  DictionaryChatMessage,
+  'sourceLanguage' | 'targetLanguage' | 'inputLanguage'
+>;
+
+/** Dictionary card for a lookup the tutor translated, linked to its bank item if saved. */
+export const buildDictionaryMessage = (
+  id: string,
+  headword: string,
+  translation: string,
+  directions: LookupDirections,
+  existing?: VocabItem,
+): DictionaryChatMessage => {
+  const { sourceLanguage, targetLanguage } = directions;
+  return {
+    id,
+    role: 'assistant',
+    mode: 'dictionary',
+    headword,
+    translation,
+    definitions: [
+      `Meaning in ${targetLanguage.toUpperCase()}: ${translation}`,
+      `Usage: ${headword} → ${translation}`,
+    ],
+    examples: [
+      `Example (${sourceLanguage}): ${headword}`,
+      `Example (${targetLanguage}): ${translation}`,
+    ],
+    ...directions,
+    bankItemId: existing?.id,
+    folders: existing?.folders ?? [],
+  };
+};
+
+/**
+ * Message that takes the place of a queued request's placeholder once the request has been
+ * replayed: a dictionary card for an answered lookup, otherwise the tutor's reply or the error.
+ */
+export const buildQueuedReply = (
+  { entry, result, error }: AiOutboxDelivery,
+  messageId: string,
+  profile?: Pick<LanguageProfile, 'targetLanguage'> | null,
+  existing?: VocabItem,
+): ChatMessage => {
+  const { request } = entry;
+  if (request.kind === 'translate' && result) {
+    const { text, sourceLanguage, targetLanguage } = request.params;
+    const inputLanguage = profile && sourceLanguage === profile.targetLanguage ? 'target' : 'native';
+    return buildDictionaryMessage(
+      messageId,
+      text,
+      result,
+      { sourceLanguage, targetLanguage, inputLanguage },
+      existing,
+    );
+  }
+  return {
+    id: messageId,
+    role: 'assistant',
+    mode: 'tutor',
+    content: result ?? error ?? 'Unable to reach the tutor.',
+    understood: false,
+  };
+};
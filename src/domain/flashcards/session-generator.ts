@@ -3,11 +3,15 @@ import type {
   FtxCard,
   FtxSession,
   LanguageProfile,
+  ReviewLogEntry,
   ReviewMode,
   VocabItem,
 } from '../../contracts/models';
 import { STYLE_PRESETS, type StylePresetKey } from '../translation/style-presets';
 import { buildVocabSelection } from '../vocab/selectors';
+import { countNewIntroducedToday, resolveDailyNewCardLimit } from '../selectors/session-priority';
+import { isItemReviewable } from '../srs/leech';
+import { selectCatchUpQueue } from '../srs/catch-up';
 export type FlashcardPresentationSide = 'term' | 'definition';
 
 export type GenerateFlashcardSessionResult =
@@ -35,6 +39,8 @@ export const generateFlashcardSession = ({
   presentationSide,
 }: GenerateFlashcardSessionArgs): GenerateFlashcardSessionResult => {
   const topic = topicTags[0];
+  const now = new Date();
+  const dailyNewCardLimit = resolveDailyNewCardLimit(profile);
   const selection = buildVocabSelection({
     reviewMode,
     questionCount,
@@ -42,6 +48,9 @@ export const generateFlashcardSession = ({
     targetLanguage: profile.targetLanguage,
     difficulty: profile.preferredDifficulty,
     topic,
+    track: 'recognition',
+    now,
+    dailyNewCardLimit,
   });
 
   if (selection.type !== 'ok') {
@@ -52,6 +61,8 @@ export const generateFlashcardSession = ({
     items: selection.items,
     reviewMode,
     bankItems,
+    now,
+    canIntroduceNew: countNewIntroducedToday(bankItems, 'recognition', now) < dailyNewCardLimit,
   });
 
   const stylised = styliseSyntheticItems({
@@ -86,20 +97,94 @@ export const generateFlashcardSession = ({
   return { type: 'ok', session };
 };
 
+interface GenerateCatchUpSessionArgs {
+  profile: LanguageProfile;
+  bankItems: VocabItem[];
+  /** Maximum cards in this session; the daily backlog limit may allow fewer. */
+  questionCount: number;
+  /** Backlog reviews allowed per day. */
+  dailyLimit?: number;
+  /** Review log, so today's catch-up reviews count against the daily limit. */
+  reviewLog?: readonly ReviewLogEntry[];
+  presentationSide: FlashcardPresentationSide;
+  now?: Date;
+}
+
+/**
+ * Builds a catch-up session from the overdue backlog, triaged by {@link selectCatchUpQueue}.
+ */
+export const generateCatchUpSession = ({
+  profile,
+  bankItems,
+  questionCount,
+  dailyLimit,
+  reviewLog,
+  presentationSide,
+  now = new Date(),
+}: GenerateCatchUpSessionArgs): GenerateFlashcardSessionResult => {
+  const { queue, backlogCount } = selectCatchUpQueue(bankItems, {
+    now,
+    track: 'recognition',
+    dailyLimit,
+    reviewLog,
+  });
+
+  if (backlogCount === 0) {
+    return { type: 'empty', message: 'Nothing is overdue. You are all caught up.' };
+  }
+  if (queue.length === 0) {
+    return {
+      type: 'insufficient',
+      message: `You reached today's catch-up limit. ${backlogCount} overdue reviews will wait until tomorrow.`,
+    };
+  }
+
+  const cards = queue
+    .slice(0, questionCount)
+    .map((candidate, index) => toFlashcard(candidate.item, index));
+
+  const session: FtxSession = {
+    sessionId: `ftx-${nanoid(10)}`,
+    profileId: profile.profileId,
+    nativeLanguage: profile.nativeLanguage,
+    targetLanguage: profile.targetLanguage,
+    targetRegion: profile.targetRegion,
+    difficulty: profile.preferredDifficulty,
+    reviewMode: 'review_only',
+    questionCount: cards.length,
+    topicTags: [],
+    cards,
+    createdAt: now.toISOString(),
+    progress: {
+      currentIndex: 0,
+      isComplete: false,
+    },
+    presentationSide,
+    catchUp: true,
+  };
+
+  return { type: 'ok', session };
+};
+
 const ensureLatestUnreviewed = ({
   items,
   reviewMode,
   bankItems,
+  now,
+  canIntroduceNew,
 }: {
   items: VocabItem[];
   reviewMode: ReviewMode;
   bankItems: VocabItem[];
+  now: Date;
+  /** False once today's new-card limit is used up. */
+  canIntroduceNew: boolean;
 }): VocabItem[] => {
-  if (reviewMode === 'review_only') {
+  if (reviewMode === 'review_only' || !canIntroduceNew) {
     return items;
   }
   const latest = [...bankItems]
-    .filter(vocab => !vocab.srsData?.lastReviewedAt)
+    .filter(vocab => !vocab.srsData?.lastReviewedAt && isItemReviewable(vocab, now))
     .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())[0];
 
   if (!latest) {
@@ -1,10 +1,25 @@
+export * from './chat/threads';
 export * from './flashcards/session-generator';
+export * from './memory/memory-graph';
+export * from './practice/speed-round';
 export * from './selectors/drill-selector';
 export * from './selectors/progress-calculator';
+export * from './selectors/session-priority';
+export * from './srs/catch-up';
+export * from './srs/due-forecast';
+export * from './srs/fsrs-engine';
+export * from './srs/grade-preview';
+export * from './srs/learning-steps';
+export * from './srs/leech';
+export * from './srs/load-balancer';
+export * from './srs/parameter-optimiser';
+export * from './srs/review-log';
 export * from './srs/sm2-engine';
 export * from './srs/unified-srs-service';
 export * from './translation/evaluator';
 export * from './translation/mock-generator';
+export * from './translation/prompt-templates';
+export * from './translation/remediation';
 export * from './translation/style-presets';
 export * from './user/constants';
 export * from './vocab/selectors';
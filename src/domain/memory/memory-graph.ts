@@ -0,0 +1,135 @@
+import type { MemoryEntry, TranslationPitfallType, VocabItem } from '../../contracts/models';
+import { PITFALL_LABELS } from '../translation/remediation';
+import { foldDiacritics, tokenize } from '../translation/text-matching';
+
+/** Entries handed to the tutor as context for one question. */
+export const DEFAULT_MEMORY_CONTEXT_SIZE = 5;
+/** Longest summary derived from a tutor explanation. */
+export const MEMORY_SUMMARY_LENGTH = 140;
+/** Single-word terms shorter than this are too common to link ("a", "de", "la"...). */
+const MIN_LINKED_TERM_LENGTH = 3;
+
+/** Phrases that show an explanation is about a pitfall, folded and lowercased. */
+export const PITFALL_KEYWORDS: Record<TranslationPitfallType, string[]> = {
+  false_cognate: ['false cognate', 'false friend', 'cognate'],
+  gender: ['masculine', 'feminine', 'gender', 'neuter'],
+  aspect: ['preterite', 'imperfect', 'perfective', 'imperfective', 'aspect', 'ongoing action'],
+  register: ['register', 'formal', 'informal', 'colloquial', 'slang'],
+  agreement: ['agreement', 'agree with', 'plural', 'singular'],
+  word_order: ['word order', 'comes before', 'comes after', 'placement'],
+  politeness: ['polite', 'politeness', 'usted', 'tu form', 'honorific'],
+};
+
+/** Word bank items and pitfalls an exchange is about. */
+export type MemoryLinks = Pick<MemoryEntry, 'vocabItemIds' | 'pitfallTypes'>;
+
+const foldedTokens = (value: string): string[] => tokenize(foldDiacritics(value));
+
+const containsPhrase = (tokens: string[], phrase: string[]): boolean =>
+  phrase.length > 0 &&
+  tokens.some((_, start) => phrase.every((token, offset) => tokens[start + offset] === token));
+
+/** Links an exchange to the bank items whose term it mentions and the pitfalls it explains. */
+export const linkMemoryEntry = (
+  exchange: Pick<MemoryEntry, 'prompt' | 'response'>,
+  bankItems: VocabItem[],
+): MemoryLinks => {
+  const tokens = foldedTokens(`${exchange.prompt} ${exchange.response}`);
+  const vocabItemIds = bankItems
+    .filter(item => {
+      const term = foldedTokens(item.term);
+      if (term.length === 1 && term[0].length < MIN_LINKED_TERM_LENGTH) {
+        return false;
+      }
+      return containsPhrase(tokens, term);
+    })
+    .map(item => item.id);
+  const pitfallTypes = (Object.keys(PITFALL_KEYWORDS) as TranslationPitfallType[]).filter(
+    pitfall =>
+      PITFALL_KEYWORDS[pitfall].some(keyword => containsPhrase(tokens, keyword.split(' '))),
+  );
+  return { vocabItemIds, pitfallTypes };
+};
+
+/** First sentence of a tutor explanation, shortened to fit a list row. */
+export const summariseExchange = (response: string): string => {
+  const text = response.replace(/\s+/g, ' ').trim();
+  const sentence = text.match(/^.+?[.!?](?=\s|$)/)?.[0] ?? text;
+  if (sentence.length <= MEMORY_SUMMARY_LENGTH) {
+    return sentence;
+  }
+  const cut = sentence.slice(0, MEMORY_SUMMARY_LENGTH - 1);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${lastSpace > 0 ? cut.slice(0, lastSpace) : cut}…`;
+};
+
+const searchableTokens = (entry: MemoryEntry, vocabById: Map<string, VocabItem>): string[] =>
+  foldedTokens(
+    [
+      entry.prompt,
+      entry.response,
+      entry.summary,
+      ...entry.vocabItemIds.flatMap(id => {
+        const item = vocabById.get(id);
+        return item ? [item.term, item.meaning] : [];
+      }),
+      ...entry.pitfallTypes.map(pitfall => PITFALL_LABELS[pitfall]),
+    ].join(' '),
+  );
+
+/**
+ * Entries matching every word of a query, newest first. Words match the start of a word in the
+ * exchange, a linked item's term or meaning, or a linked pitfall's name.
+ */
+export const searchMemoryEntries = (
+  entries: MemoryEntry[],
+  query: string,
+  vocabById: Map<string, VocabItem> = new Map(),
+): MemoryEntry[] => {
+  const queryTokens = foldedTokens(query);
+  return entries
+    .filter(entry => {
+      if (queryTokens.length === 0) {
+        return true;
+      }
+      const tokens = searchableTokens(entry, vocabById);
+      return queryTokens.every(queryToken => tokens.some(token => token.startsWith(queryToken)));
+    })
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+/**
+ * Entries most relevant to a question: those sharing the most words with it, then the most
+ * recent. Without a question the most recent entries are returned.
+ */
+export const selectMemoryContext = (
+  entries: MemoryEntry[],
+  question = '',
+  limit = DEFAULT_MEMORY_CONTEXT_SIZE,
+): MemoryEntry[] => {
+  const questionTokens = new Set(foldedTokens(question));
+  const scored = entries.map(entry => {
+    const tokens = new Set(foldedTokens(`${entry.prompt} ${entry.summary}`));
+    const overlap = Array.from(questionTokens).filter(token => tokens.has(token)).length;
+    return { entry, overlap };
+  });
+  const hasOverlap = scored.some(({ overlap }) => overlap > 0);
+  return scored
+    .filter(({ overlap }) => !hasOverlap || overlap > 0)
+    .sort((a, b) => b.overlap - a.overlap || b.entry.createdAt.localeCompare(a.entry.createdAt))
+    .slice(0, limit)
+    .map(({ entry }) => entry);
+};
+
+/** Renders entries as tutor context, or an empty string when there are none. */
+export const formatMemoryContext = (entries: MemoryEntry[]): string =>
+  entries.length === 0
+    ? ''
+    : [
+        'The learner has already understood these explanations:',
+        ...entries.map(entry => {
+          const pitfalls = entry.pitfallTypes.map(pitfall => PITFALL_LABELS[pitfall]);
+          const suffix = pitfalls.length > 0 ? ` (${pitfalls.join(', ')})` : '';
+          return `- "${entry.prompt}": ${entry.summary}${suffix}`;
+        }),
+      ].join('\n');
@@ -0,0 +1,165 @@
+import type {
+  SpeedRound,
+  SpeedRoundActivity,
+  SpeedRoundResult,
+  SpeedRoundTimer,
+} from '../../contracts/models';
+
+/**
+ * Default countdowns in seconds per item. A session-wide timer gets the per-session figure for
+ * every item in the session.
+ */
+export const SPEED_ROUND_LIMITS: Record<SpeedRoundActivity, Record<SpeedRoundTimer, number>> = {
+  translation: { per_item: 45, per_session: 30 },
+  flashcards: { per_item: 8, per_session: 5 },
+};
+/** Results kept per activity on a profile's leaderboard. */
+export const SPEED_ROUND_LEADERBOARD_SIZE = 5;
+/** Points for a fully correct answer before the speed bonus. */
+export const SPEED_ROUND_BASE_POINTS = 100;
+/** Share of an item's time budget after which a correct answer counts as slow. */
+export const SLOW_ANSWER_FRACTION = 0.5;
+/** Score from which an answer counts as correct. */
+const PASSING_SCORE = 0.5;
+
+/** One answered item: its 0-1 score and the seconds it took. */
+export interface SpeedRoundAnswer {
+  score: number;
+  seconds: number;
+}
+
+/** A finished round with its place on the leaderboard, as shown once the session ends. */
+export interface SpeedRoundStanding {
+  result: SpeedRoundResult;
+  /** 1-based place, or null when the round did not make the leaderboard. */
+  rank: number | null;
+  leaderboard: SpeedRoundResult[];
+}
+
+export type SummariseSpeedRoundArgs = {
+  sessionId: string;
+  activity: SpeedRoundActivity;
+  round: SpeedRound;
+  /** Items in the session, answered or not. */
+  itemCount: number;
+  answers: SpeedRoundAnswer[];
+  completedAt: Date;
+};
+
+/** Countdown settings for a new speed round with the default limits. */
+export const createSpeedRound = (
+  activity: SpeedRoundActivity,
+  timer: SpeedRoundTimer,
+  itemCount: number,
+): SpeedRound => ({
+  timer,
+  limitSeconds:
+    timer === 'per_item'
+      ? SPEED_ROUND_LIMITS[activity].per_item
+      : SPEED_ROUND_LIMITS[activity].per_session * itemCount,
+});
+
+/** Seconds one item is expected to take: the per-item limit, or an even share of the session's. */
+export const speedRoundItemBudget = (round: SpeedRound, itemCount: number): number =>
+  round.timer === 'per_item' ? round.limitSeconds : round.limitSeconds / Math.max(itemCount, 1);
+
+/**
+ * Seconds left on the countdown for the current item. Time spent on earlier items only counts
+ * against a session-wide timer.
+ */
+export const speedRoundTimeLeft = (
+  round: SpeedRound,
+  elapsedSeconds: number,
+  spentSeconds = 0,
+): number =>
+  Math.max(
+    0,
+    round.limitSeconds - elapsedSeconds - (round.timer === 'per_session' ? spentSeconds : 0),
+  );
+
+/** Whether an answer used more than its share of the time budget. */
+export const isSlowAnswer = (round: SpeedRound, itemCount: number, seconds: number): boolean =>
+  seconds > speedRoundItemBudget(round, itemCount) * SLOW_ANSWER_FRACTION;
+
+/**
+ * Points for one answer. Correct answers earn the base points scaled by their score, plus a
+ * speed bonus of up to as much again that shrinks to nothing as the item's time budget runs
+ * out. Wrong answers earn nothing however fast they were.
+ */
+export const scoreSpeedRoundAnswer = (answer: SpeedRoundAnswer, budgetSeconds: number): number => {
+  if (answer.score < PASSING_SCORE) {
+    return 0;
+  }
+  const speed =
+    budgetSeconds > 0 ? Math.min(1, Math.max(0, 1 - answer.seconds / budgetSeconds)) : 0;
+  return Math.round(SPEED_ROUND_BASE_POINTS * answer.score * (1 + speed));
+};
+
+/** Totals a finished speed round. Items left when the time ran out count as misses. */
+export const summariseSpeedRound = ({
+  sessionId,
+  activity,
+  round,
+  itemCount,
+  answers,
+  completedAt,
+}: SummariseSpeedRoundArgs): SpeedRoundResult => {
+  const budget = speedRoundItemBudget(round, itemCount);
+  const points = answers.reduce((sum, answer) => sum + scoreSpeedRoundAnswer(answer, budget), 0);
+  const correct = answers.filter(answer => answer.score >= PASSING_SCORE).length;
+  const totalSeconds = answers.reduce((sum, answer) => sum + answer.seconds, 0);
+
+  return {
+    sessionId,
+    activity,
+    timer: round.timer,
+    points,
+    accuracy: itemCount > 0 ? correct / itemCount : 0,
+    averageSeconds:
+      answers.length > 0 ? Number((totalSeconds / answers.length).toFixed(1)) : 0,
+    completedAt: completedAt.toISOString(),
+  };
+};
+
+/** Most points first; accuracy breaks ties, then whoever got there first. */
+const compareResults = (a: SpeedRoundResult, b: SpeedRoundResult) =>
+  b.points - a.points || b.accuracy - a.accuracy || a.completedAt.localeCompare(b.completedAt);
+
+/** A profile's leaderboard for one activity, best first. */
+export const getSpeedRoundLeaderboard = (
+  bests: SpeedRoundResult[] | undefined,
+  activity: SpeedRoundActivity,
+): SpeedRoundResult[] =>
+  (bests ?? []).filter(entry => entry.activity === activity).sort(compareResults);
+
+/**
+ * Adds a result to a profile's personal bests, keeping the top `size` per activity. The rank is
+ * the result's 1-based place on its activity's leaderboard, or null when it did not make it.
+ */
+export const addSpeedRoundBest = (
+  bests: SpeedRoundResult[] | undefined,
+  result: SpeedRoundResult,
+  size = SPEED_ROUND_LEADERBOARD_SIZE,
+): { bests: SpeedRoundResult[]; rank: number | null } => {
+  const leaderboard = [...getSpeedRoundLeaderboard(bests, result.activity), result]
+    .sort(compareResults)
+    .slice(0, size);
+  const index = leaderboard.indexOf(result);
+  return {
+    bests: [
+      ...(bests ?? []).filter(entry => entry.activity !== result.activity),
+      ...leaderboard,
+    ],
+    rank: index >= 0 ? index + 1 : null,
+  };
+};
+
+/** Short description of a countdown, e.g. "45s per prompt" or "2:30 for the session". */
+export const describeSpeedRound = (round: SpeedRound, itemLabel: string): string => {
+  if (round.timer === 'per_item') {
+    return `${round.limitSeconds}s per ${itemLabel}`;
+  }
+  const minutes = Math.floor(round.limitSeconds / 60);
+  const seconds = Math.round(round.limitSeconds % 60);
+  return `${minutes}:${String(seconds).padStart(2, '0')} for the session`;
+};
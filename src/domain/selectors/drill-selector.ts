@@ -1,5 +1,7 @@
 import { differenceInHours, parseISO } from 'date-fns';
-import type { VocabItem } from '../../contracts/models';
+import type { SrsTrack, VocabItem } from '../../contracts/models';
+import { getTrackSrsData } from '../srs/unified-srs-service';
+import { isItemReviewable } from '../srs/leech';
 
 /** Options controlling drill queue creation. */
 export interface DrillSelectorOptions {
@@ -9,6 +11,8 @@ export interface DrillSelectorOptions {
   limit?: number;
   /** Window in hours considered "upcoming" after the due threshold. */
   upcomingWindowHours?: number;
+  /** Scheduling track the drill trains; recognition by default. */
+  track?: SrsTrack;
 }
 
 /** Selection result describing queue composition and counts. */
@@ -23,12 +27,15 @@ export interface DrillSelection {
   newCount: number;
 }
 
-/** Derives a drill queue prioritising due items, then upcoming, then new entries. */
+/**
+ * Derives a drill queue prioritising due items, then upcoming, then new entries.
+ * Suspended and buried items are skipped.
+ */
 export const selectDrillQueue = (
   items: VocabItem[],
   options: DrillSelectorOptions,
 ): DrillSelection => {
-  const { now, limit = items.length, upcomingWindowHours = 12 } = options;
+  const { now, limit = items.length, upcomingWindowHours = 12, track = 'recognition' } = options;
 
   const due: VocabItem[] = [];
   const upcoming: VocabItem[] = [];
@@ -36,7 +43,11 @@ export const selectDrillQueue = (
   const later: VocabItem[] = [];
 
   items.forEach(item => {
-    const srs = item.srsData;
+    if (!isItemReviewable(item, now)) {
+      return;
+    }
+
+    const srs = getTrackSrsData(item, track);
     if (!srs) {
       newItems.push(item);
       return;
@@ -59,7 +70,8 @@ export const selectDrillQueue = (
   });
 
   const compareByDue = (a: VocabItem, b: VocabItem) =>
-    parseISO(a.srsData!.dueAt).getTime() - parseISO(b.srsData!.dueAt).getTime();
+    parseISO(getTrackSrsData(a, track)!.dueAt).getTime() -
+    parseISO(getTrackSrsData(b, track)!.dueAt).getTime();
 
   due.sort(compareByDue);
   upcoming.sort(compareByDue);
@@ -0,0 +1,140 @@
+import { differenceInMinutes, isSameDay, parseISO } from 'date-fns';
+import type { LanguageProfile, SrsTrack, VocabItem } from '../../contracts/models';
+import { getTrackSrsData } from '../srs/unified-srs-service';
+import { isItemReviewable } from '../srs/leech';
+
+/** New items introduced per day and track when the profile does not set a limit. */
+export const DEFAULT_DAILY_NEW_CARD_LIMIT = 20;
+
+/** Options controlling how session candidates are prioritised. */
+export interface SessionPriorityOptions {
+  /** Timestamp representing the current moment for due comparisons. */
+  now: Date;
+  /** Scheduling track the session trains. */
+  track: SrsTrack;
+  /** Window in hours considered "upcoming" after the due threshold. */
+  upcomingWindowHours?: number;
+  /** Maximum new items introduced per day on this track. */
+  dailyNewCardLimit?: number;
+  /** Random source used to weight overdue items; injectable for tests. */
+  random?: () => number;
+}
+
+/** Session candidates grouped by scheduling state, each group in presentation order. */
+export interface SessionPriority {
+  /** Items due or overdue, more overdue items first on average. */
+  due: VocabItem[];
+  /** Items scheduled within the upcoming window, soonest first. */
+  upcoming: VocabItem[];
+  /** Never-reviewed items allowed today, oldest first. */
+  newItems: VocabItem[];
+  /** Never-reviewed items held back because today's new-card allowance is used up. */
+  heldBackNewCount: number;
+  /** Reviewed items scheduled beyond the upcoming window, soonest first. */
+  later: VocabItem[];
+}
+
+/** Resolves the daily new-card limit for a profile. */
+export const resolveDailyNewCardLimit = (
+  profile?: Pick<LanguageProfile, 'dailyNewCardLimit'>,
+): number => profile?.dailyNewCardLimit ?? DEFAULT_DAILY_NEW_CARD_LIMIT;
+
+/** Counts items whose first review on the track happened on the same calendar day as `now`. */
+export const countNewIntroducedToday = (
+  items: VocabItem[],
+  track: SrsTrack,
+  now: Date,
+): number =>
+  items.filter(item => {
+    const introducedAt = getTrackSrsData(item, track)?.introducedAt;
+    return introducedAt ? isSameDay(parseISO(introducedAt), now) : false;
+  }).length;
+
+/**
+ * Weight of a due item: one plus the overdue time measured in scheduled intervals,
+ * so an item a full interval late is twice as likely to be picked early.
+ */
+const overdueWeight = (item: VocabItem, track: SrsTrack, now: Date): number => {
+  const srs = getTrackSrsData(item, track)!;
+  const overdueHours = Math.max(0, differenceInMinutes(now, parseISO(srs.dueAt)) / 60);
+  return 1 + overdueHours / Math.max(srs.intervalHours, 1);
+};
+
+/** Efraimidis–Spirakis weighted shuffle: heavier items usually lead, lighter ones still surface. */
+const weightedShuffle = <T,>(
+  items: T[],
+  weightOf: (item: T) => number,
+  random: () => number,
+): T[] =>
+  items
+    .map(item => ({ item, key: Math.pow(random(), 1 / weightOf(item)) }))
+    .sort((a, b) => b.key - a.key)
+    .map(entry => entry.item);
+
+/**
+ * Groups reviewable items for a practice session by scheduling state.
+ * Due items are ordered by a weighted shuffle favouring the most overdue; new items are capped
+ * by what remains of the daily new-card limit. Suspended and buried items are skipped.
+ */
+export const prioritiseSessionItems = (
+  items: VocabItem[],
+  {
+    now,
+    track,
+    upcomingWindowHours = 12,
+    dailyNewCardLimit = DEFAULT_DAILY_NEW_CARD_LIMIT,
+    random = Math.random,
+  }: SessionPriorityOptions,
+): SessionPriority => {
+  const due: VocabItem[] = [];
+  const upcoming: VocabItem[] = [];
+  const newItems: VocabItem[] = [];
+  const later: VocabItem[] = [];
+
+  items.forEach(item => {
+    if (!isItemReviewable(item, now)) {
+      return;
+    }
+
+    const srs = getTrackSrsData(item, track);
+    if (!srs?.lastReviewedAt) {
+      newItems.push(item);
+      return;
+    }
+
+    const minutesUntilDue = differenceInMinutes(parseISO(srs.dueAt), now);
+    if (minutesUntilDue <= 0) {
+      due.push(item);
+    } else if (minutesUntilDue <= upcomingWindowHours * 60) {
+      upcoming.push(item);
+    } else {
+      later.push(item);
+    }
+  });
+
+  const compareByDue = (a: VocabItem, b: VocabItem) =>
+    parseISO(getTrackSrsData(a, track)!.dueAt).getTime() -
+    parseISO(getTrackSrsData(b, track)!.dueAt).getTime();
+  const compareByCreated = (a: VocabItem, b: VocabItem) =>
+    parseISO(a.createdAt).getTime() - parseISO(b.createdAt).getTime();
+
+  const allowance = Math.max(0, dailyNewCardLimit - countNewIntroducedToday(items, track, now));
+
+  return {
+    due: weightedShuffle(due, item => overdueWeight(item, track, now), random),
+    upcoming: upcoming.sort(compareByDue),
+    newItems: newItems.sort(compareByCreated).slice(0, allowance),
+    heldBackNewCount: Math.max(0, newItems.length - allowance),
+    later: later.sort(compareByDue),
+  };
+};
+
+/**
+ * Explains why a review-only session is short of items: the daily new-card limit when it kept
+ * unseen items out, otherwise a bank too small for the question count.
+ */
+export const describeShortReviewPool = (available: number, heldBackNewCount: number): string =>
+  heldBackNewCount > 0
+    ? `Only ${available} saved items available today: the daily new-card limit was reached. ` +
+      'Reduce question count or come back tomorrow.'
+    : `Only ${available} saved items available. Reduce question count or add more words.`;
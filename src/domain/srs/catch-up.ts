@@ -0,0 +1,134 @@
+import { differenceInMinutes, isSameDay, parseISO } from 'date-fns';
+import type { ReviewLogEntry, SrsData, SrsTrack, VocabItem } from '../../contracts/models';
+import { calculateRetrievability } from './fsrs-engine';
+import { getTrackSrsData } from './unified-srs-service';
+import { isItemReviewable } from './leech';
+
+/** Overdue reviews at which catch-up mode is offered. */
+export const DEFAULT_CATCH_UP_THRESHOLD = 50;
+/** Backlog reviews worked through per day in catch-up mode. */
+export const DEFAULT_CATCH_UP_DAILY_LIMIT = 60;
+
+/** A backlog item with the figures it was triaged on. */
+export interface CatchUpCandidate {
+  item: VocabItem;
+  /** Estimated probability (0-1) the learner still recalls the item. */
+  retrievability: number;
+  /** Time overdue measured in scheduled intervals. */
+  overdueRatio: number;
+}
+
+/** Options controlling catch-up triage. */
+export interface CatchUpOptions {
+  /** Timestamp representing the current moment. */
+  now: Date;
+  /** Scheduling track being caught up; recognition by default. */
+  track?: SrsTrack;
+  /** Backlog reviews allowed per day. */
+  dailyLimit?: number;
+  /** Review log, read for the catch-up reviews already done today. */
+  reviewLog?: readonly ReviewLogEntry[];
+}
+
+/** Result of catch-up triage. */
+export interface CatchUpSelection {
+  /** Items to review now, most salvageable first. */
+  queue: CatchUpCandidate[];
+  /** Overdue items on the track. */
+  backlogCount: number;
+  /** Overdue items held back by today's limit. */
+  deferredCount: number;
+}
+
+/**
+ * Estimates current recall probability. FSRS items use their stability; SM-2 intervals
+ * target roughly 90% recall, so the interval stands in for stability.
+ */
+export const estimateRetrievability = (srs: SrsData, now: Date): number => {
+  if (!srs.lastReviewedAt) {
+    return 0;
+  }
+  const elapsedDays = Math.max(0, differenceInMinutes(now, parseISO(srs.lastReviewedAt)) / 1440);
+  const stabilityDays = srs.stability ?? Math.max(srs.intervalHours / 24, 1 / 24);
+  return calculateRetrievability(elapsedDays, stabilityDays);
+};
+
+/** Time past the due date measured in scheduled intervals; zero when not yet due. */
+export const calculateOverdueRatio = (srs: SrsData, now: Date): number => {
+  const overdueHours = differenceInMinutes(now, parseISO(srs.dueAt)) / 60;
+  return overdueHours <= 0 ? 0 : overdueHours / Math.max(srs.intervalHours, 1);
+};
+
+const isOverdue = (item: VocabItem, track: SrsTrack, now: Date): boolean => {
+  const srs = getTrackSrsData(item, track);
+  return Boolean(srs?.lastReviewedAt) && parseISO(srs!.dueAt).getTime() <= now.getTime();
+};
+
+/** Counts reviewable items overdue on the track. */
+export const countBacklog = (
+  items: VocabItem[],
+  now: Date = new Date(),
+  track: SrsTrack = 'recognition',
+): number => items.filter(item => isItemReviewable(item, now) && isOverdue(item, track, now)).length;
+
+/**
+ * Counts items given a catch-up review on the track today, which use up the daily limit.
+ * New cards and ordinary reviews do not count, and a relearned item counts once.
+ */
+export const countCatchUpReviewsToday = (
+  reviewLog: readonly ReviewLogEntry[],
+  now: Date,
+  track: SrsTrack,
+): number =>
+  new Set(
+    reviewLog
+      .filter(
+        entry =>
+          entry.catchUp &&
+          entry.activityType === track &&
+          isSameDay(parseISO(entry.reviewedAt), now),
+      )
+      .map(entry => entry.vocabItemId),
+  ).size;
+
+/**
+ * Triages an overdue backlog. Items most likely still remembered come first so they are
+ * saved before they decay further; among equals the less overdue (relative to its interval)
+ * wins. Items already likely forgotten are relearned last, and the queue is capped by what
+ * remains of the daily limit.
+ */
+export const selectCatchUpQueue = (
+  items: VocabItem[],
+  {
+    now,
+    track = 'recognition',
+    dailyLimit = DEFAULT_CATCH_UP_DAILY_LIMIT,
+    reviewLog = [],
+  }: CatchUpOptions,
+): CatchUpSelection => {
+  const backlog: CatchUpCandidate[] = items
+    .filter(item => isItemReviewable(item, now) && isOverdue(item, track, now))
+    .map(item => {
+      const srs = getTrackSrsData(item, track)!;
+      return {
+        item,
+        retrievability: estimateRetrievability(srs, now),
+        overdueRatio: calculateOverdueRatio(srs, now),
+      };
+    })
+    .sort(
+      (a, b) =>
+        b.retrievability - a.retrievability ||
+        a.overdueRatio - b.overdueRatio ||
+        a.item.id.localeCompare(b.item.id),
+    );
+
+  const remaining = Math.max(0, dailyLimit - countCatchUpReviewsToday(reviewLog, now, track));
+  const queue = backlog.slice(0, remaining);
+
+  return {
+    queue,
+    backlogCount: backlog.length,
+    deferredCount: backlog.length - queue.length,
+  };
+};
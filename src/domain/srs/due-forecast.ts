@@ -0,0 +1,70 @@
+import { addDays, differenceInCalendarDays, parseISO, startOfDay } from 'date-fns';
+import type { SrsTrack, VocabItem } from '../../contracts/models';
+import { SRS_TRACKS, getTrackSrsData } from './unified-srs-service';
+import { toDueLoadKey, type DueLoad } from './load-balancer';
+
+/**
+ * Counts reviews scheduled per day across the bank.
+ * @param items Vocabulary items to count; suspended items are ignored.
+ * @param tracks Tracks to include; both by default.
+ */
+export const buildDueLoad = (
+  items: VocabItem[],
+  tracks: readonly SrsTrack[] = SRS_TRACKS,
+): DueLoad =>
+  items.reduce<DueLoad>((load, item) => {
+    if (item.suspended) {
+      return load;
+    }
+    tracks.forEach(track => {
+      const dueAt = getTrackSrsData(item, track)?.dueAt;
+      if (dueAt) {
+        const key = toDueLoadKey(parseISO(dueAt));
+        load[key] = (load[key] ?? 0) + 1;
+      }
+    });
+    return load;
+  }, {});
+
+/** Reviews due on one upcoming day. */
+export interface DueForecastDay {
+  /** Local start of the day. */
+  date: Date;
+  /** Reviews due that day; the first day also includes everything overdue. */
+  count: number;
+}
+
+/**
+ * Forecasts reviews due per day, starting today.
+ * Overdue reviews count towards today, buried items towards the day their bury expires,
+ * and suspended items are left out.
+ */
+export const forecastDueCounts = (
+  items: VocabItem[],
+  { now = new Date(), days = 30 }: { now?: Date; days?: number } = {},
+): DueForecastDay[] => {
+  const today = startOfDay(now);
+  const counts = Array.from({ length: days }, () => 0);
+
+  items.forEach(item => {
+    if (item.suspended) {
+      return;
+    }
+    SRS_TRACKS.forEach(track => {
+      const dueAt = getTrackSrsData(item, track)?.dueAt;
+      if (!dueAt) {
+        return;
+      }
+      // A buried item is not offered again before its bury expires.
+      const effectiveDue = item.buriedUntil
+        ? new Date(Math.max(parseISO(dueAt).getTime(), parseISO(item.buriedUntil).getTime()))
+        : parseISO(dueAt);
+      const dayIndex = Math.max(0, differenceInCalendarDays(effectiveDue, today));
+      if (dayIndex < days) {
+        counts[dayIndex] += 1;
+      }
+    });
+  });
+
+  return counts.map((count, index) => ({ date: addDays(today, index), count }));
+};
@@ -0,0 +1,261 @@
+import { addHours, differenceInHours } from 'date-fns';
+import type { SrsData } from '../../contracts/models';
+import { advanceLearningStep, resolveStepDueAt } from './learning-steps';
+
+/** Default FSRS-4.5 model weights. */
+export const DEFAULT_FSRS_WEIGHTS: readonly number[] = [
+  0.4872, 1.4003, 3.7145, 13.8206, 5.1618, 1.2298, 0.8975, 0.031, 1.6474, 0.1367, 1.0461,
+  2.1072, 0.0793, 0.3246, 1.587, 0.2272, 2.8755,
+];
+/** Power-law decay exponent of the forgetting curve. */
+const DECAY = -0.5;
+/** Scaling factor chosen so that retrievability is 90% when elapsed time equals stability. */
+const FACTOR = 19 / 81;
+/** Default probability of recall targeted when scheduling the next review. */
+const DEFAULT_REQUEST_RETENTION = 0.9;
+/** Default minimum interval applied in hours. */
+const DEFAULT_MIN_INTERVAL_HOURS = 24;
+/** Upper bound for scheduled intervals in days. */
+const MAXIMUM_INTERVAL_DAYS = 36500;
+/** Ease factor carried on FSRS records that never went through SM-2. */
+const INITIAL_EASE_FACTOR = 2.5;
+
+/** FSRS grades: 1 = again, 2 = hard, 3 = good, 4 = easy. */
+export type FsrsGrade = 1 | 2 | 3 | 4;
+
+/** Shape describing the relevant portion of spaced repetition state. */
+export type FsrsState = Pick<
+  SrsData,
+  | 'easeFactor'
+  | 'intervalHours'
+  | 'streak'
+  | 'dueAt'
+  | 'lastReviewedAt'
+  | 'algorithm'
+  | 'stability'
+  | 'difficulty'
+  | 'phase'
+  | 'stepIndex'
+>;
+
+/** Configuration supplied to the FSRS review calculation. */
+export interface FsrsReviewOptions {
+  /** Learner quality response scored from 0 (failed) to 5 (perfect). */
+  quality: number;
+  /** Timestamp representing when the review took place. */
+  reviewDate: Date;
+  /** Prior spaced repetition state to evolve, if available. */
+  previous?: Partial<FsrsState>;
+  /** Lower bound applied to the computed interval in hours. */
+  minimumIntervalHours?: number;
+  /** Probability of recall the next interval should target (0-1). */
+  requestRetention?: number;
+  /** Model weights overriding {@link DEFAULT_FSRS_WEIGHTS}. */
+  weights?: readonly number[];
+  /** Sub-day steps (minutes) a new item passes through before graduating; none by default. */
+  learningStepsMinutes?: readonly number[];
+  /** Sub-day steps (minutes) a lapsed item passes through before returning to review. */
+  relearningStepsMinutes?: readonly number[];
+}
+
+/** Result emitted from an FSRS review calculation. */
+export interface FsrsReviewResult extends FsrsState {
+  /** Indicates whether the learner response met the success threshold. */
+  wasSuccessful: boolean;
+  /** Memory stability in days after the review. */
+  stability: number;
+  /** Item difficulty on a 1 (easy) to 10 (hard) scale after the review. */
+  difficulty: number;
+  /** Probability of recall at the moment of the review, or null for new items. */
+  retrievability: number | null;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/** Maps an SM-2 style quality score (0-5) onto the four FSRS grades. */
+export const qualityToFsrsGrade = (quality: number): FsrsGrade => {
+  if (quality < 3) {
+    return 1;
+  }
+  if (quality < 4) {
+    return 2;
+  }
+  if (quality < 5) {
+    return 3;
+  }
+  return 4;
+};
+
+/**
+ * Probability of recalling an item after the elapsed time given its stability.
+ * @param elapsedDays Days since the last review.
+ * @param stability Memory stability in days.
+ */
+export const calculateRetrievability = (elapsedDays: number, stability: number): number =>
+  Math.pow(1 + (FACTOR * Math.max(elapsedDays, 0)) / Math.max(stability, 0.01), DECAY);
+
+/**
+ * Converts a stability into the interval (in days) that hits the requested retention.
+ * @param stability Memory stability in days.
+ * @param requestRetention Target probability of recall.
+ */
+export const stabilityToIntervalDays = (
+  stability: number,
+  requestRetention = DEFAULT_REQUEST_RETENTION,
+): number =>
+  clamp(
+    (stability / FACTOR) * (Math.pow(requestRetention, 1 / DECAY) - 1),
+    0,
+    MAXIMUM_INTERVAL_DAYS,
+  );
+
+const initialDifficulty = (grade: FsrsGrade, w: readonly number[]) =>
+  clamp(w[4] - (grade - 3) * w[5], 1, 10);
+
+const nextDifficulty = (difficulty: number, grade: FsrsGrade, w: readonly number[]) => {
+  const updated = difficulty - w[6] * (grade - 3);
+  const reverted = w[7] * initialDifficulty(3, w) + (1 - w[7]) * updated;
+  return clamp(reverted, 1, 10);
+};
+
+const nextRecallStability = (
+  difficulty: number,
+  stability: number,
+  retrievability: number,
+  grade: FsrsGrade,
+  w: readonly number[],
+) => {
+  const hardPenalty = grade === 2 ? w[15] : 1;
+  const easyBonus = grade === 4 ? w[16] : 1;
+  return (
+    stability *
+    (1 +
+      Math.exp(w[8]) *
+        (11 - difficulty) *
+        Math.pow(stability, -w[9]) *
+        (Math.exp((1 - retrievability) * w[10]) - 1) *
+        hardPenalty *
+        easyBonus)
+  );
+};
+
+const nextForgetStability = (
+  difficulty: number,
+  stability: number,
+  retrievability: number,
+  w: readonly number[],
+) =>
+  Math.min(
+    stability,
+    w[11] *
+      Math.pow(difficulty, -w[12]) *
+      (Math.pow(stability + 1, w[13]) - 1) *
+      Math.exp((1 - retrievability) * w[14]),
+  );
+
+/**
+ * Applies the FSRS (stability/difficulty/retrievability) scheduling model to the provided review.
+ * @param options Configuration describing the review outcome and prior state.
+ */
+export const calculateFsrsReview = (options: FsrsReviewOptions): FsrsReviewResult => {
+  const {
+    quality,
+    reviewDate,
+    previous,
+    minimumIntervalHours,
+    requestRetention = DEFAULT_REQUEST_RETENTION,
+    weights = DEFAULT_FSRS_WEIGHTS,
+    learningStepsMinutes,
+    relearningStepsMinutes,
+  } = options;
+
+  if (!Number.isFinite(quality) || quality < 0 || quality > 5) {
+    throw new RangeError('quality must be a number between 0 and 5 inclusive');
+  }
+  if (!(requestRetention > 0 && requestRetention < 1)) {
+    throw new RangeError('requestRetention must be between 0 and 1 exclusive');
+  }
+
+  const minimumInterval = Math.max(
+    DEFAULT_MIN_INTERVAL_HOURS,
+    minimumIntervalHours ?? DEFAULT_MIN_INTERVAL_HOURS,
+  );
+
+  const grade = qualityToFsrsGrade(quality);
+  const wasSuccessful = grade > 1;
+  const previousStreak = previous?.streak ?? 0;
+  const hasMemoryState =
+    previous?.stability !== undefined &&
+    previous?.difficulty !== undefined &&
+    Boolean(previous?.lastReviewedAt);
+
+  let stability: number;
+  let difficulty: number;
+  let retrievability: number | null = null;
+
+  if (!hasMemoryState) {
+    stability = weights[grade - 1];
+    difficulty = initialDifficulty(grade, weights);
+  } else {
+    const elapsedDays =
+      differenceInHours(reviewDate, new Date(previous!.lastReviewedAt as string)) / 24;
+    retrievability = calculateRetrievability(elapsedDays, previous!.stability as number);
+    const priorDifficulty = previous!.difficulty as number;
+    const priorStability = previous!.stability as number;
+    difficulty = nextDifficulty(priorDifficulty, grade, weights);
+    stability = wasSuccessful
+      ? nextRecallStability(priorDifficulty, priorStability, retrievability, grade, weights)
+      : nextForgetStability(priorDifficulty, priorStability, retrievability, weights);
+  }
+
+  const memoryState = {
+    stability: Number(stability.toFixed(4)),
+    difficulty: Number(difficulty.toFixed(4)),
+    retrievability: retrievability === null ? null : Number(retrievability.toFixed(4)),
+  };
+
+  const isNew = !previous?.lastReviewedAt;
+  const transition = advanceLearningStep({
+    previousPhase: previous?.phase,
+    previousStepIndex: previous?.stepIndex,
+    isNew,
+    wasSuccessful,
+    isEasy: grade === 4,
+    learningStepsMinutes,
+    relearningStepsMinutes,
+  });
+
+  if (transition.type === 'step') {
+    // Memory state keeps evolving during steps; only the interval is overridden.
+    return {
+      algorithm: 'fsrs',
+      easeFactor: previous?.easeFactor ?? INITIAL_EASE_FACTOR,
+      intervalHours: transition.intervalMinutes / 60,
+      streak: 0,
+      dueAt: resolveStepDueAt(reviewDate, transition.intervalMinutes),
+      lastReviewedAt: reviewDate.toISOString(),
+      phase: transition.phase,
+      stepIndex: transition.stepIndex,
+      ...memoryState,
+      wasSuccessful,
+    };
+  }
+
+  const intervalDays = Math.round(stabilityToIntervalDays(stability, requestRetention));
+  const nextIntervalHours = wasSuccessful
+    ? Math.max(minimumInterval, intervalDays * 24)
+    : minimumInterval;
+
+  return {
+    algorithm: 'fsrs',
+    easeFactor: previous?.easeFactor ?? INITIAL_EASE_FACTOR,
+    intervalHours: nextIntervalHours,
+    streak: wasSuccessful ? previousStreak + 1 : 0,
+    dueAt: addHours(reviewDate, nextIntervalHours).toISOString(),
+    lastReviewedAt: reviewDate.toISOString(),
+    phase: 'review',
+    stepIndex: null,
+    ...memoryState,
+    wasSuccessful,
+  };
+};
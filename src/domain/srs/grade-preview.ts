@@ -0,0 +1,82 @@
+import type { FlashcardGrade, SrsData } from '../../contracts/models';
+import {
+  FLASHCARD_GRADE_QUALITY,
+  calculateSrsReview,
+  resolveSrsAlgorithm,
+  type SrsUpdateOptions,
+} from './unified-srs-service';
+
+/** Grades in the order the buttons are shown. */
+export const FLASHCARD_GRADES: readonly FlashcardGrade[] = ['again', 'hard', 'good', 'easy'];
+
+/** Scheduling options a preview needs to match the review it stands in for. */
+export interface GradePreviewOptions extends SrsUpdateOptions {
+  /** Whether the review would credit overdue time, as in catch-up sessions. */
+  creditOverdue?: boolean;
+}
+
+/**
+ * Computes the interval (in hours) each grade would schedule without committing the review.
+ * Pass the same due load and catch-up flag the review will use; load balancing breaks ties
+ * between equally quiet days at random, so a balanced interval may still land a day apart.
+ * @param previous Current recognition-track scheduling data, if any.
+ * @param options Profile-level scheduling preferences (see `resolveSrsUpdateOptions`).
+ * @param now Moment the review would take place.
+ */
+export const previewGradeIntervals = (
+  previous: SrsData | undefined,
+  options: GradePreviewOptions = {},
+  now: Date = new Date(),
+): Record<FlashcardGrade, number> => {
+  const algorithm = options.algorithm ?? resolveSrsAlgorithm(previous?.algorithm);
+
+  return FLASHCARD_GRADES.reduce(
+    (acc, grade) => {
+      const result = calculateSrsReview({
+        algorithm,
+        quality: FLASHCARD_GRADE_QUALITY[grade],
+        reviewDate: now,
+        previous,
+        learningStepsMinutes: options.learningStepsMinutes,
+        relearningStepsMinutes: options.relearningStepsMinutes,
+        sm2Parameters: options.sm2Parameters,
+        dueLoad: options.dueLoad,
+        creditOverdue: options.creditOverdue,
+      });
+      acc[grade] = result.intervalHours;
+      return acc;
+    },
+    {} as Record<FlashcardGrade, number>,
+  );
+};
+
+/** Formats an interval for a grade button label, e.g. "10m", "4h", "3d", "2.5mo", "1.2y". */
+export const formatIntervalPreview = (intervalHours: number): string => {
+  const minutes = Math.round(intervalHours * 60);
+  if (minutes < 60) {
+    return `${Math.max(minutes, 1)}m`;
+  }
+  if (intervalHours < 24) {
+    return `${Math.round(intervalHours)}h`;
+  }
+  const days = intervalHours / 24;
+  if (days < 30) {
+    return `${Math.round(days)}d`;
+  }
+  if (days < 365) {
+    return `${Number((days / 30).toFixed(1))}mo`;
+  }
+  return `${Number((days / 365).toFixed(1))}y`;
+};
+
+/** Formats every grade's interval from {@link previewGradeIntervals} for display. */
+export const formatGradePreviews = (
+  intervals: Record<FlashcardGrade, number>,
+): Record<FlashcardGrade, string> =>
+  FLASHCARD_GRADES.reduce(
+    (acc, grade) => {
+      acc[grade] = formatIntervalPreview(intervals[grade]);
+      return acc;
+    },
+    {} as Record<FlashcardGrade, string>,
+  );
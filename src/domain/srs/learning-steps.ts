@@ -0,0 +1,117 @@
+import { addMinutes, differenceInMinutes, parseISO } from 'date-fns';
+import type { SrsData, SrsPhase } from '../../contracts/models';
+
+/** Learning steps (in minutes) applied to new items before they graduate to day intervals. */
+export const DEFAULT_LEARNING_STEPS_MINUTES: readonly number[] = [1, 10, 60];
+/** Relearning steps (in minutes) applied after a lapse before the item returns to review. */
+export const DEFAULT_RELEARNING_STEPS_MINUTES: readonly number[] = [10];
+/** Items due within this many minutes are shown again in the running session. */
+export const DEFAULT_LEARN_AHEAD_MINUTES = 20;
+
+/** Inputs describing where an item sits in its learning steps before a review. */
+export interface LearningStepInput {
+  /** Phase recorded on the previous review, if any. */
+  previousPhase?: SrsPhase;
+  /** Step index recorded on the previous review, if any. */
+  previousStepIndex?: number | null;
+  /** Indicates whether the item has never been reviewed. */
+  isNew: boolean;
+  /** Indicates whether the learner response met the success threshold. */
+  wasSuccessful: boolean;
+  /** Indicates whether the learner marked the item as easy (quality 5). */
+  isEasy: boolean;
+  /** Learning steps in minutes for new items. */
+  learningStepsMinutes?: readonly number[];
+  /** Relearning steps in minutes for lapsed items. */
+  relearningStepsMinutes?: readonly number[];
+}
+
+/** Outcome of applying learning steps to a review. */
+export type LearningStepTransition =
+  | {
+      /** The item remains in (or enters) a sub-day step. */
+      type: 'step';
+      phase: Exclude<SrsPhase, 'review'>;
+      stepIndex: number;
+      intervalMinutes: number;
+    }
+  | {
+      /** The item is (or stays) in review and the scheduler's own interval applies. */
+      type: 'review';
+      /** Indicates whether this review moved the item out of a step phase. */
+      graduated: boolean;
+    };
+
+const resolveStep = (
+  phase: Exclude<SrsPhase, 'review'>,
+  steps: readonly number[],
+  index: number,
+): LearningStepTransition => ({
+  type: 'step',
+  phase,
+  stepIndex: index,
+  intervalMinutes: steps[index],
+});
+
+/**
+ * Determines whether a review keeps an item in sub-day steps or hands it back to the scheduler.
+ *
+ * - New items start at learning step 0. A pass advances one step; a fail returns to step 0.
+ *   Passing the last step, or answering "easy", graduates the item.
+ * - A lapse in review enters relearning step 0 when relearning steps are configured.
+ * - Without configured steps every review is handled by the scheduler directly.
+ */
+export const advanceLearningStep = ({
+  previousPhase,
+  previousStepIndex,
+  isNew,
+  wasSuccessful,
+  isEasy,
+  learningStepsMinutes = [],
+  relearningStepsMinutes = [],
+}: LearningStepInput): LearningStepTransition => {
+  const phase: SrsPhase = previousPhase ?? (isNew ? 'learning' : 'review');
+
+  if (phase === 'review') {
+    if (!wasSuccessful && relearningStepsMinutes.length > 0) {
+      return resolveStep('relearning', relearningStepsMinutes, 0);
+    }
+    return { type: 'review', graduated: false };
+  }
+
+  const steps = phase === 'learning' ? learningStepsMinutes : relearningStepsMinutes;
+  if (steps.length === 0 || isEasy) {
+    return { type: 'review', graduated: true };
+  }
+
+  if (!wasSuccessful) {
+    return resolveStep(phase, steps, 0);
+  }
+
+  const nextIndex = Math.min(previousStepIndex ?? 0, steps.length - 1) + 1;
+  if (nextIndex >= steps.length) {
+    return { type: 'review', graduated: true };
+  }
+  return resolveStep(phase, steps, nextIndex);
+};
+
+/** Computes the due timestamp for a sub-day step. */
+export const resolveStepDueAt = (reviewDate: Date, intervalMinutes: number): string =>
+  addMinutes(reviewDate, intervalMinutes).toISOString();
+
+/**
+ * Reports whether an item should be shown again before the current session ends.
+ * @param srsData Scheduling data produced by the latest review.
+ * @param now Current moment.
+ * @param learnAheadMinutes Window within which due items are re-queued.
+ */
+export const shouldRequeueInSession = (
+  srsData: Pick<SrsData, 'dueAt' | 'phase'> | undefined,
+  now: Date,
+  learnAheadMinutes = DEFAULT_LEARN_AHEAD_MINUTES,
+): boolean => {
+  if (!srsData || (srsData.phase !== 'learning' && srsData.phase !== 'relearning')) {
+    return false;
+  }
+  return differenceInMinutes(parseISO(srsData.dueAt), now) <= learnAheadMinutes;
+};
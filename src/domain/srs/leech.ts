@@ -0,0 +1,90 @@
+import { addDays, parseISO, startOfDay } from 'date-fns';
+import type { LanguageProfile, LeechAction, VocabItem } from '../../contracts/models';
+import { SRS_TRACKS, getTrackSrsData } from './unified-srs-service';
+
+/** Lapses on a single track after which an item is treated as a leech. */
+export const DEFAULT_LEECH_THRESHOLD = 8;
+/** Action applied to new leeches when the profile does not choose one. */
+export const DEFAULT_LEECH_ACTION: LeechAction = 'suspend';
+/** Tag auto-applied to leeches. */
+export const LEECH_TAG = 'leech';
+
+/** Resolved leech configuration for a profile. */
+export interface LeechPolicy {
+  threshold: number;
+  action: LeechAction;
+}
+
+/** Applies leech defaults to the profile's preferences. */
+export const resolveLeechPolicy = (
+  profile?: Pick<LanguageProfile, 'leechThreshold' | 'leechAction'>,
+): LeechPolicy => ({
+  threshold: profile?.leechThreshold ?? DEFAULT_LEECH_THRESHOLD,
+  action: profile?.leechAction ?? DEFAULT_LEECH_ACTION,
+});
+
+/** Highest lapse count across the item's scheduling tracks. */
+export const getMaxLapses = (item: VocabItem): number =>
+  Math.max(0, ...SRS_TRACKS.map(track => getTrackSrsData(item, track)?.lapses ?? 0));
+
+/** Reports whether the item carries the leech tag. */
+export const hasLeechTag = (item: Pick<VocabItem, 'tags'>): boolean =>
+  item.tags.some(tag => tag.toLowerCase() === LEECH_TAG);
+
+/**
+ * Tags (and, depending on the policy, suspends) an item that has just reached the leech threshold.
+ * Items already tagged are returned unchanged so a manual unsuspend sticks.
+ * @returns The same item instance when nothing changed.
+ */
+export const applyLeechPolicy = (item: VocabItem, policy: LeechPolicy): VocabItem => {
+  if (hasLeechTag(item) || getMaxLapses(item) < policy.threshold) {
+    return item;
+  }
+
+  // Tags and folders are kept in sync across the bank.
+  return {
+    ...item,
+    tags: [...item.tags, LEECH_TAG],
+    folders: [...item.folders, LEECH_TAG],
+    suspended: policy.action === 'suspend' ? true : item.suspended,
+  };
+};
+
+/** Reports whether an item may be offered for review: neither suspended nor buried. */
+export const isItemReviewable = (item: VocabItem, now: Date = new Date()): boolean => {
+  if (item.suspended) {
+    return false;
+  }
+  return !item.buriedUntil || parseISO(item.buriedUntil).getTime() <= now.getTime();
+};
+
+/** Buried items come back at the start of the next day. */
+export const resolveBuryUntil = (now: Date = new Date()): string =>
+  startOfDay(addDays(now, 1)).toISOString();
+
+/** Replacement text supplied when a leech is rewritten. */
+export interface LeechRewrite {
+  term: string;
+  meaning: string;
+}
+
+/**
+ * Rewrites a leech and starts it over: both tracks lose their schedule and lapse history,
+ * the leech tag is removed, and the item is unsuspended and unburied.
+ */
+export const rewriteAndResetItem = (item: VocabItem, rewrite: LeechRewrite): VocabItem => {
+  const withoutLeech = (values: string[]) =>
+    values.filter(value => value.toLowerCase() !== LEECH_TAG);
+
+  return {
+    ...item,
+    term: rewrite.term.trim() || item.term,
+    meaning: rewrite.meaning.trim() || item.meaning,
+    tags: withoutLeech(item.tags),
+    folders: withoutLeech(item.folders),
+    srsData: undefined,
+    productionSrsData: undefined,
+    suspended: false,
+    buriedUntil: null,
+  };
+};
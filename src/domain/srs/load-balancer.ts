@@ -0,0 +1,78 @@
+import { addHours, format } from 'date-fns';
+
+/** Number of reviews already scheduled per local calendar day, keyed `yyyy-MM-dd`. */
+export type DueLoad = Record<string, number>;
+
+/** Intervals shorter than this (in days) are scheduled exactly. */
+const MIN_FUZZ_INTERVAL_DAYS = 2.5;
+
+/** Fraction of the interval added to the fuzz window for each interval band, as in Anki. */
+const FUZZ_BANDS: ReadonlyArray<{ from: number; to: number; factor: number }> = [
+  { from: 2.5, to: 7, factor: 0.15 },
+  { from: 7, to: 20, factor: 0.1 },
+  { from: 20, to: Number.POSITIVE_INFINITY, factor: 0.05 },
+];
+
+/** Formats the day key used by {@link DueLoad}. */
+export const toDueLoadKey = (date: Date): string => format(date, 'yyyy-MM-dd');
+
+/**
+ * Returns how many whole days an interval may move either way.
+ * Zero for intervals too short to fuzz.
+ */
+export const resolveFuzzDays = (intervalDays: number): number => {
+  if (intervalDays < MIN_FUZZ_INTERVAL_DAYS) {
+    return 0;
+  }
+  const delta = FUZZ_BANDS.reduce(
+    (sum, band) =>
+      sum + band.factor * Math.max(0, Math.min(intervalDays, band.to) - band.from),
+    1,
+  );
+  return Math.round(delta);
+};
+
+/** Inputs for {@link balanceIntervalHours}. */
+export interface LoadBalanceOptions {
+  /** Timestamp of the review being scheduled. */
+  reviewDate: Date;
+  /** Interval chosen by the scheduler, in hours. */
+  intervalHours: number;
+  /** Reviews already scheduled per day. */
+  dueLoad: DueLoad;
+  /** Random source used to break ties; injectable for tests. */
+  random?: () => number;
+}
+
+/**
+ * Moves a review interval by whole days within its fuzz window so due dates spread out.
+ * The least loaded day in the window wins; ties are broken at random, which also fuzzes
+ * items scheduled into an empty calendar.
+ * @returns The adjusted interval in hours, never shorter than one day.
+ */
+export const balanceIntervalHours = ({
+  reviewDate,
+  intervalHours,
+  dueLoad,
+  random = Math.random,
+}: LoadBalanceOptions): number => {
+  const fuzzDays = resolveFuzzDays(intervalHours / 24);
+  if (fuzzDays === 0) {
+    return intervalHours;
+  }
+
+  const candidates: Array<{ offset: number; load: number }> = [];
+  for (let offset = -fuzzDays; offset <= fuzzDays; offset += 1) {
+    if (intervalHours + offset * 24 < 24) {
+      continue;
+    }
+    const due = addHours(reviewDate, intervalHours + offset * 24);
+    candidates.push({ offset, load: dueLoad[toDueLoadKey(due)] ?? 0 });
+  }
+
+  const lowestLoad = Math.min(...candidates.map(candidate => candidate.load));
+  const quietest = candidates.filter(candidate => candidate.load === lowestLoad);
+  const chosen = quietest[Math.min(quietest.length - 1, Math.floor(random() * quietest.length))];
+
+  return intervalHours + chosen.offset * 24;
+};
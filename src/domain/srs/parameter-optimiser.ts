@@ -0,0 +1,295 @@
+import { addDays, parseISO } from 'date-fns';
+import type {
+  FittedSm2Parameters,
+  ReviewLogEntry,
+  Sm2Parameters,
+  SrsData,
+  VocabItem,
+} from '../../contracts/models';
+import { calculateRetrievability, stabilityToIntervalDays } from './fsrs-engine';
+import { DEFAULT_SM2_PARAMETERS, calculateSm2Review } from './sm2-engine';
+import { SRS_TRACKS, getTrackSrsData } from './unified-srs-service';
+
+/** Probability of recall targeted when the learner does not choose one. */
+export const DEFAULT_TARGET_RETENTION = 0.9;
+/** Day-scale reviews needed before the history is trusted over the defaults. */
+export const MIN_OPTIMISER_REVIEWS = 100;
+/** Reviews needed to fit a stage on its own; sparser stages share the pooled fit. */
+const MIN_STAGE_REVIEWS = 20;
+/** Days ahead the workload forecast covers. */
+const WORKLOAD_HORIZON_DAYS = 30;
+/** Spread of the prior on the log memory scale, pulling sparse fits towards the defaults. */
+const PRIOR_SIGMA = 1;
+/** Search range for the memory scale. */
+const MIN_MEMORY_SCALE = 0.1;
+const MAX_MEMORY_SCALE = 10;
+
+/** Bounds keeping fitted parameters within a sensible scheduler. */
+const PARAMETER_BOUNDS = {
+  initialEaseFactor: { min: 1.3, max: 4 },
+  secondIntervalDays: { min: 1, max: 21 },
+  intervalModifier: { min: 0.5, max: 2.5 },
+} as const;
+
+/** Predicted review load for a set of parameters. */
+export interface WorkloadForecast {
+  /** Expected reviews per day over the forecast horizon, lapses included. */
+  reviewsPerDay: number;
+  /** Expected share of reviews answered correctly. */
+  retention: number;
+}
+
+/** Options for {@link optimiseSm2Parameters}. */
+export interface Sm2OptimiserOptions {
+  /** Timestamp representing the current moment. */
+  now: Date;
+  /** Probability of recall the fitted intervals should hit (0-1). */
+  targetRetention?: number;
+  /** Parameters the history was scheduled with; defaults when the profile has none. */
+  current?: Sm2Parameters;
+  /** Items whose schedules drive the workload forecast. */
+  items?: VocabItem[];
+}
+
+/** Result of {@link optimiseSm2Parameters}. */
+export type Sm2OptimiserResult =
+  | {
+      type: 'ok';
+      parameters: FittedSm2Parameters;
+      /** Forecast under the current parameters. */
+      before: WorkloadForecast;
+      /** Forecast under the fitted parameters. */
+      after: WorkloadForecast;
+    }
+  | { type: 'insufficient'; reviewCount: number; required: number };
+
+/** One day-scale review: how long the item waited against its interval, and the result. */
+interface RecallObservation {
+  elapsedDays: number;
+  intervalDays: number;
+  recalled: boolean;
+  /** Consecutive successes before the review, as SM-2 counts them. */
+  streak: number;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const round = (value: number, digits: number) => Number(value.toFixed(digits));
+
+/**
+ * Turns the log into recall observations, replaying each item's streak per track.
+ * Sub-day learning steps reset the streak, as they do in the scheduler, and are not observed.
+ */
+const collectObservations = (entries: readonly ReviewLogEntry[]): RecallObservation[] => {
+  const byItemTrack = new Map<string, ReviewLogEntry[]>();
+  entries.forEach(entry => {
+    const key = `${entry.vocabItemId}:${entry.activityType}`;
+    byItemTrack.set(key, [...(byItemTrack.get(key) ?? []), entry]);
+  });
+
+  const observations: RecallObservation[] = [];
+  byItemTrack.forEach(itemEntries => {
+    let streak = 0;
+    itemEntries
+      .slice()
+      .sort((a, b) => a.reviewedAt.localeCompare(b.reviewedAt))
+      .forEach(entry => {
+        const recalled = entry.quality >= 3;
+        if (
+          entry.algorithm === 'sm2' &&
+          entry.elapsedHours !== null &&
+          entry.previousIntervalHours !== null &&
+          entry.previousIntervalHours >= 24
+        ) {
+          observations.push({
+            elapsedDays: entry.elapsedHours / 24,
+            intervalDays: entry.previousIntervalHours / 24,
+            recalled,
+            streak,
+          });
+        }
+        streak = recalled && entry.nextIntervalHours >= 24 ? streak + 1 : 0;
+      });
+  });
+
+  return observations;
+};
+
+const logLikelihood = (observations: readonly RecallObservation[], memoryScale: number) =>
+  observations.reduce((sum, observation) => {
+    const recall = clamp(
+      calculateRetrievability(observation.elapsedDays, memoryScale * observation.intervalDays),
+      1e-6,
+      1 - 1e-6,
+    );
+    return sum + Math.log(observation.recalled ? recall : 1 - recall);
+  }, 0);
+
+/**
+ * Fits how much longer (or shorter) than its scheduled interval the learner's memory lasts.
+ * A scale of 1 means the interval matched stability, i.e. about 90% recall at the due date.
+ * Maximises the likelihood with a log-normal prior centred on 1 using golden-section search.
+ */
+const fitMemoryScale = (observations: readonly RecallObservation[]): number => {
+  const objective = (logScale: number) =>
+    logLikelihood(observations, Math.exp(logScale)) -
+    (logScale * logScale) / (2 * PRIOR_SIGMA * PRIOR_SIGMA);
+
+  const ratio = (Math.sqrt(5) - 1) / 2;
+  let low = Math.log(MIN_MEMORY_SCALE);
+  let high = Math.log(MAX_MEMORY_SCALE);
+  for (let iteration = 0; iteration < 60; iteration += 1) {
+    const left = high - ratio * (high - low);
+    const right = low + ratio * (high - low);
+    if (objective(left) < objective(right)) {
+      low = left;
+    } else {
+      high = right;
+    }
+  }
+  return Math.exp((low + high) / 2);
+};
+
+/** Factor to stretch an interval by so recall at the due date hits the target. */
+const toIntervalScale = (memoryScale: number, targetRetention: number) =>
+  stabilityToIntervalDays(memoryScale, targetRetention);
+
+/**
+ * Counts reviews each item would get in the horizon if every review succeeded,
+ * then adds one relearning review per expected lapse.
+ */
+const forecastWorkload = (
+  items: readonly VocabItem[],
+  parameters: Sm2Parameters,
+  retention: number,
+  now: Date,
+): WorkloadForecast => {
+  const horizonEnd = addDays(now, WORKLOAD_HORIZON_DAYS).getTime();
+
+  const reviewsFor = (srs: SrsData) => {
+    let state: Partial<SrsData> = srs;
+    let due = Math.max(parseISO(srs.dueAt).getTime(), now.getTime());
+    let count = 0;
+    while (due < horizonEnd) {
+      count += 1;
+      const next = calculateSm2Review({
+        quality: 4,
+        reviewDate: new Date(due),
+        previous: state,
+        parameters,
+      });
+      state = next;
+      due = parseISO(next.dueAt).getTime();
+    }
+    return count;
+  };
+
+  const reviews = items.reduce(
+    (sum, item) =>
+      sum +
+      SRS_TRACKS.reduce((trackSum, track) => {
+        const srs = getTrackSrsData(item, track);
+        const isScheduledBySm2 = srs?.lastReviewedAt && srs.algorithm !== 'fsrs';
+        return isScheduledBySm2 && !item.suspended ? trackSum + reviewsFor(srs) : trackSum;
+      }, 0),
+    0,
+  );
+
+  return {
+    reviewsPerDay: round((reviews * (2 - retention)) / WORKLOAD_HORIZON_DAYS, 1),
+    retention: round(retention, 3),
+  };
+};
+
+/**
+ * Fits SM-2 parameters to a profile's review history so reviews land at the target retention.
+ *
+ * Reviews are grouped by the streak they were made at: the review after the second step fits
+ * `secondIntervalDays`, the one after the first ease-based interval fits `initialEaseFactor`,
+ * and later reviews fit `intervalModifier`. For each group, a memory scale is fitted under the
+ * FSRS forgetting curve, and the parameter is stretched by the factor that moves recall at the
+ * due date to the target. Purely arithmetic, so the same log always yields the same parameters.
+ *
+ * @param entries Review log entries for the profile's items.
+ * @param options Target retention, current parameters and the items to forecast workload for.
+ */
+export const optimiseSm2Parameters = (
+  entries: readonly ReviewLogEntry[],
+  {
+    now,
+    targetRetention = DEFAULT_TARGET_RETENTION,
+    current = DEFAULT_SM2_PARAMETERS,
+    items = [],
+  }: Sm2OptimiserOptions,
+): Sm2OptimiserResult => {
+  if (!(targetRetention > 0 && targetRetention < 1)) {
+    throw new RangeError('targetRetention must be between 0 and 1 exclusive');
+  }
+
+  // The review after the fixed one-day first interval says nothing about the parameters.
+  const observations = collectObservations(entries).filter(observation => observation.streak >= 2);
+  if (observations.length < MIN_OPTIMISER_REVIEWS) {
+    return {
+      type: 'insufficient',
+      reviewCount: observations.length,
+      required: MIN_OPTIMISER_REVIEWS,
+    };
+  }
+
+  const pooledScale = fitMemoryScale(observations);
+  const stageScale = (stage: readonly RecallObservation[]) =>
+    toIntervalScale(
+      stage.length >= MIN_STAGE_REVIEWS ? fitMemoryScale(stage) : pooledScale,
+      targetRetention,
+    );
+
+  const secondStepScale = stageScale(observations.filter(observation => observation.streak === 2));
+  const firstEaseScale = stageScale(observations.filter(observation => observation.streak === 3));
+  const matureScale = stageScale(observations.filter(observation => observation.streak >= 4));
+
+  const secondIntervalDays = Math.round(
+    clamp(
+      current.secondIntervalDays * secondStepScale,
+      PARAMETER_BOUNDS.secondIntervalDays.min,
+      PARAMETER_BOUNDS.secondIntervalDays.max,
+    ),
+  );
+  const intervalModifier = round(
+    clamp(
+      current.intervalModifier * matureScale,
+      PARAMETER_BOUNDS.intervalModifier.min,
+      PARAMETER_BOUNDS.intervalModifier.max,
+    ),
+    2,
+  );
+  // The first ease-based interval is second step × ease × modifier; the ease makes up the rest.
+  const firstEaseIntervalDays =
+    current.secondIntervalDays * current.initialEaseFactor * current.intervalModifier;
+  const initialEaseFactor = round(
+    clamp(
+      (firstEaseIntervalDays * firstEaseScale) / (secondIntervalDays * intervalModifier),
+      PARAMETER_BOUNDS.initialEaseFactor.min,
+      PARAMETER_BOUNDS.initialEaseFactor.max,
+    ),
+    2,
+  );
+
+  const parameters: FittedSm2Parameters = {
+    initialEaseFactor,
+    secondIntervalDays,
+    intervalModifier,
+    targetRetention,
+    reviewCount: observations.length,
+    fittedAt: now.toISOString(),
+  };
+
+  // Under the current parameters, recall at the due date follows from the pooled memory scale.
+  const currentRetention = calculateRetrievability(1, pooledScale);
+
+  return {
+    type: 'ok',
+    parameters,
+    before: forecastWorkload(items, current, currentRetention, now),
+    after: forecastWorkload(items, parameters, targetRetention, now),
+  };
+};
@@ -0,0 +1,128 @@
+import { differenceInMinutes, parseISO } from 'date-fns';
+import { nanoid } from 'nanoid/non-secure';
+import type {
+  ReviewLogEntry,
+  Sm2Parameters,
+  SrsAlgorithm,
+  SrsData,
+  SrsTrack,
+} from '../../contracts/models';
+import { buildTrackSrsData, calculateSrsReview, resolveSrsAlgorithm } from './unified-srs-service';
+
+/** Inputs describing a completed review that should be appended to the log. */
+export interface BuildReviewLogEntryInput {
+  /** Identifier of the reviewed vocabulary item. */
+  vocabItemId: string;
+  /** Track (activity type) the review was scheduled on. */
+  track: SrsTrack;
+  /** Quality (0-5) fed to the scheduler. */
+  quality: number;
+  /** Graded score (0-1) for production activities, if any. */
+  score?: number;
+  /** Timestamp of the review. */
+  reviewedAt: Date;
+  /** Track scheduling data before the review, if any. */
+  previous?: SrsData;
+  /** Track scheduling data produced by the review. */
+  next: SrsData;
+  /** Whether the review credited overdue time (catch-up sessions). */
+  catchUp?: boolean;
+  /** Optional identifier; generated when omitted. */
+  id?: string;
+}
+
+/**
+ * Builds a log entry describing a single review.
+ * Elapsed time is measured from the previous review on the same track.
+ */
+export const buildReviewLogEntry = ({
+  vocabItemId,
+  track,
+  quality,
+  score,
+  reviewedAt,
+  previous,
+  next,
+  catchUp,
+  id,
+}: BuildReviewLogEntryInput): ReviewLogEntry => {
+  const lastReviewedAt = previous?.lastReviewedAt;
+  const elapsedHours = lastReviewedAt
+    ? Math.max(0, differenceInMinutes(reviewedAt, parseISO(lastReviewedAt)) / 60)
+    : null;
+
+  return {
+    id: id ?? nanoid(),
+    vocabItemId,
+    reviewedAt: reviewedAt.toISOString(),
+    activityType: track,
+    quality,
+    score: score ?? null,
+    elapsedHours,
+    previousIntervalHours: previous ? previous.intervalHours : null,
+    nextIntervalHours: next.intervalHours,
+    algorithm: next.algorithm,
+    ...(catchUp ? { catchUp: true } : {}),
+  };
+};
+
+/** Options controlling how a review log is replayed. */
+export interface ReplaySrsOptions {
+  /** Track to rebuild; entries for other tracks are ignored. */
+  track: SrsTrack;
+  /** Scheduler to replay with; defaults to the scheduler recorded on each entry. */
+  algorithm?: SrsAlgorithm;
+  /** Sub-day steps (minutes) for new items. */
+  learningStepsMinutes?: readonly number[];
+  /** Sub-day steps (minutes) after a lapse. */
+  relearningStepsMinutes?: readonly number[];
+  /** SM-2 parameters fitted to the profile; built-in defaults apply when omitted. */
+  sm2Parameters?: Sm2Parameters;
+  /** Identifier for the rebuilt record; generated when omitted. */
+  id?: string;
+}
+
+/**
+ * Rebuilds a track's scheduling state by replaying its review log in chronological order.
+ *
+ * Replaying with a different `algorithm` answers "what would this item look like under the
+ * other scheduler", which is what the log exists for. Catch-up reviews are replayed with the
+ * overdue credit they were scheduled with.
+ *
+ * @param entries Review log entries for a single vocabulary item.
+ * @param options Track and scheduler configuration to replay with.
+ * @returns The rebuilt scheduling data, or undefined when the track has no reviews.
+ */
+export const replaySrsData = (
+  entries: readonly ReviewLogEntry[],
+  {
+    track,
+    algorithm,
+    learningStepsMinutes,
+    relearningStepsMinutes,
+    sm2Parameters,
+    id,
+  }: ReplaySrsOptions,
+): SrsData | undefined => {
+  const ordered = entries
+    .filter(entry => entry.activityType === track)
+    .slice()
+    .sort((a, b) => a.reviewedAt.localeCompare(b.reviewedAt));
+
+  const recordId = id ?? nanoid();
+
+  return ordered.reduce<SrsData | undefined>((previous, entry) => {
+    const result = calculateSrsReview({
+      algorithm: algorithm ?? resolveSrsAlgorithm(entry.algorithm),
+      quality: entry.quality,
+      reviewDate: parseISO(entry.reviewedAt),
+      previous,
+      learningStepsMinutes,
+      relearningStepsMinutes,
+      creditOverdue: entry.catchUp,
+      sm2Parameters,
+    });
+
+    return buildTrackSrsData(previous, result, recordId);
+  }, undefined);
+};
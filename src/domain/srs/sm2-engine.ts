@@ -1,5 +1,7 @@
-import { addHours } from 'date-fns';
-import type { SrsData } from '../../contracts/models';
+import { addHours, differenceInMinutes, parseISO } from 'date-fns';
+import type { Sm2Parameters, SrsData } from '../../contracts/models';
+import { advanceLearningStep, resolveStepDueAt } from './learning-steps';
+import { balanceIntervalHours, type DueLoad } from './load-balancer';
 
 /** Minimum ease factor allowed by the SM-2 algorithm. */
 const MIN_EASE_FACTOR = 1.3;
@@ -8,10 +10,24 @@ const INITIAL_EASE_FACTOR = 2.5;
 /** Default minimum interval applied in hours. */
 const DEFAULT_MIN_INTERVAL_HOURS = 24;
 
+/** Parameters used when a profile has not fitted its own. */
+export const DEFAULT_SM2_PARAMETERS: Readonly<Sm2Parameters> = {
+  initialEaseFactor: INITIAL_EASE_FACTOR,
+  secondIntervalDays: 6,
+  intervalModifier: 1,
+};
+
 /** Shape describing the relevant portion of spaced repetition state. */
 export type Sm2State = Pick<
   SrsData,
-  'easeFactor' | 'intervalHours' | 'streak' | 'dueAt' | 'lastReviewedAt' | 'algorithm'
+  | 'easeFactor'
+  | 'intervalHours'
+  | 'streak'
+  | 'dueAt'
+  | 'lastReviewedAt'
+  | 'algorithm'
+  | 'phase'
+  | 'stepIndex'
 >;
 
 /** Configuration supplied to the SM-2 review calculation. */
@@ -24,8 +40,29 @@ export interface Sm2ReviewOptions {
   previous?: Partial<Sm2State>;
   /** Lower bound applied to the computed interval in hours. */
   minimumIntervalHours?: number;
+  /** Sub-day steps (minutes) a new item passes through before graduating; none by default. */
+  learningStepsMinutes?: readonly number[];
+  /** Sub-day steps (minutes) a lapsed item passes through before returning to review. */
+  relearningStepsMinutes?: readonly number[];
+  /**
+   * Reviews already scheduled per day. When supplied, day intervals are fuzzed and placed on
+   * the least loaded day of their window; without it scheduling stays exact.
+   */
+  dueLoad?: DueLoad;
+  /** Random source for fuzz tie-breaks; injectable for tests. */
+  random?: () => number;
+  /**
+   * Credits the extra time an overdue item was remembered for: a success after a long gap grows
+   * from part of the actual elapsed time instead of only the scheduled interval.
+   */
+  creditOverdue?: boolean;
+  /** Scheduler parameters overriding {@link DEFAULT_SM2_PARAMETERS}. */
+  parameters?: Sm2Parameters;
 }
 
+/** Share of the overdue time credited on success, by quality (3 = hard … 5 = easy). */
+const OVERDUE_CREDIT_BY_QUALITY: Record<number, number> = { 3: 0.25, 4: 0.5, 5: 1 };
+
 /** Result emitted from an SM-2 review calculation. */
 export interface Sm2ReviewResult extends Sm2State {
   /** Indicates whether the learner response met the success threshold. */
@@ -37,7 +74,18 @@ export interface Sm2ReviewResult extends Sm2State {
  * @param options Configuration describing the review outcome and prior state.
  */
 export const calculateSm2Review = (options: Sm2ReviewOptions): Sm2ReviewResult => {
-  const { quality, reviewDate, previous, minimumIntervalHours } = options;
+  const {
+    quality,
+    reviewDate,
+    previous,
+    minimumIntervalHours,
+    learningStepsMinutes,
+    relearningStepsMinutes,
+    dueLoad,
+    random,
+    creditOverdue = false,
+    parameters = DEFAULT_SM2_PARAMETERS,
+  } = options;
 
   if (!Number.isFinite(quality) || quality < 0 || quality > 5) {
     throw new RangeError('quality must be a number between 0 and 5 inclusive');
@@ -48,7 +96,7 @@ export const calculateSm2Review = (options: Sm2ReviewOptions): Sm2ReviewResult =
     minimumIntervalHours ?? DEFAULT_MIN_INTERVAL_HOURS,
   );
 
-  const previousEase = previous?.easeFactor ?? INITIAL_EASE_FACTOR;
+  const previousEase = previous?.easeFactor ?? parameters.initialEaseFactor;
   const previousStreak = previous?.streak ?? 0;
   const previousInterval = previous?.intervalHours ?? 0;
   const previousAlgorithm = previous?.algorithm ?? 'sm2';
@@ -58,6 +106,34 @@ export const calculateSm2Review = (options: Sm2ReviewOptions): Sm2ReviewResult =
   const nextEaseFactor = Math.max(MIN_EASE_FACTOR, previousEase + easeAdjustment);
 
   const wasSuccessful = quality >= 3;
+  const isNew = !previous?.lastReviewedAt;
+  const previousPhase = previous?.phase ?? (isNew ? 'learning' : 'review');
+  const transition = advanceLearningStep({
+    previousPhase,
+    previousStepIndex: previous?.stepIndex,
+    isNew,
+    wasSuccessful,
+    isEasy: quality >= 5,
+    learningStepsMinutes,
+    relearningStepsMinutes,
+  });
+
+  if (transition.type === 'step') {
+    // Ease only moves on the lapse itself, not while stepping through (re)learning.
+    const isLapse = previousPhase === 'review';
+    return {
+      algorithm: previousAlgorithm,
+      easeFactor: Number((isLapse ? nextEaseFactor : previousEase).toFixed(4)),
+      intervalHours: transition.intervalMinutes / 60,
+      streak: 0,
+      dueAt: resolveStepDueAt(reviewDate, transition.intervalMinutes),
+      lastReviewedAt: reviewDate.toISOString(),
+      phase: transition.phase,
+      stepIndex: transition.stepIndex,
+      wasSuccessful,
+    };
+  }
+
   let nextIntervalHours = minimumInterval;
   let nextStreak = wasSuccessful ? previousStreak + 1 : 0;
 
@@ -65,17 +141,43 @@ export const calculateSm2Review = (options: Sm2ReviewOptions): Sm2ReviewResult =
     if (previousStreak === 0) {
       nextIntervalHours = minimumInterval;
     } else if (previousStreak === 1) {
-      nextIntervalHours = 6 * DEFAULT_MIN_INTERVAL_HOURS;
+      nextIntervalHours = Math.max(
+        minimumInterval,
+        Math.round(parameters.secondIntervalDays * DEFAULT_MIN_INTERVAL_HOURS),
+      );
     } else {
+      const growth = nextEaseFactor * parameters.intervalModifier;
       const computedInterval =
-        previousInterval > 0 ? Math.round(previousInterval * nextEaseFactor) : minimumInterval;
+        previousInterval > 0 ? Math.round(previousInterval * growth) : minimumInterval;
       nextIntervalHours = Math.max(minimumInterval, computedInterval);
     }
+
+    if (creditOverdue && previousStreak > 0 && previous?.lastReviewedAt) {
+      const elapsedHours = differenceInMinutes(reviewDate, parseISO(previous.lastReviewedAt)) / 60;
+      const overdueHours = elapsedHours - previousInterval;
+      if (overdueHours > 0) {
+        const creditedBase =
+          previousInterval + overdueHours * (OVERDUE_CREDIT_BY_QUALITY[Math.round(quality)] ?? 0);
+        nextIntervalHours = Math.max(
+          nextIntervalHours,
+          Math.round(creditedBase * nextEaseFactor * parameters.intervalModifier),
+        );
+      }
+    }
   } else {
     nextIntervalHours = minimumInterval;
     nextStreak = 0;
   }
 
+  if (dueLoad) {
+    nextIntervalHours = balanceIntervalHours({
+      reviewDate,
+      intervalHours: nextIntervalHours,
+      dueLoad,
+      random,
+    });
+  }
+
   const dueAtDate = addHours(reviewDate, nextIntervalHours);
 
   return {
@@ -85,6 +187,8 @@ export const calculateSm2Review = (options: Sm2ReviewOptions): Sm2ReviewResult =
     streak: nextStreak,
     dueAt: dueAtDate.toISOString(),
     lastReviewedAt: reviewDate.toISOString(),
+    phase: 'review',
+    stepIndex: null,
     wasSuccessful,
   };
 };
@@ -1,13 +1,35 @@
 import { nanoid } from 'nanoid/non-secure';
-import { calculateSm2Review } from './sm2-engine';
-import type { VocabItem, SrsData, PerformanceData } from '../../contracts/models';
+import { calculateSm2Review, type Sm2State } from './sm2-engine';
+import { calculateFsrsReview } from './fsrs-engine';
+import {
+  DEFAULT_LEARNING_STEPS_MINUTES,
+  DEFAULT_RELEARNING_STEPS_MINUTES,
+} from './learning-steps';
+import type { DueLoad } from './load-balancer';
+import type {
+  FlashcardGrade,
+  FlashcardOutcome,
+  VocabItem,
+  SrsData,
+  SrsAlgorithm,
+  PerformanceData,
+  LanguageProfile,
+  Sm2Parameters,
+  SrsTrack,
+} from '../../contracts/models';
+
+/** Scheduler applied when neither the item nor the profile names one. */
+export const DEFAULT_SRS_ALGORITHM: SrsAlgorithm = 'sm2';
 
 /**
- * Activity type for SRS updates.
+ * Activity type for SRS updates. Each activity type schedules its own track.
  * Recognition = passive recall (flashcards)
  * Production = active recall (translation, writing)
  */
-export type ActivityType = 'recognition' | 'production';
+export type ActivityType = SrsTrack;
+
+/** Every scheduling track kept on a vocabulary item. */
+export const SRS_TRACKS: readonly SrsTrack[] = ['recognition', 'production'];
 
 /**
  * Outcome of a learning activity attempt.
@@ -19,6 +41,12 @@ export interface ActivityOutcome {
   wasCorrect: boolean;
   /** Optional score (0-1) for graded activities like translation. */
   score?: number;
+  /** Optional four-button grade for recognition; overrides the binary mapping. */
+  grade?: FlashcardGrade;
+  /** Set for reviews made in catch-up mode, where long-gap successes earn extra credit. */
+  catchUp?: boolean;
+  /** Set for speed-round answers that used more than their share of the clock. */
+  slow?: boolean;
   /** Timestamp when the activity was performed. */
   attemptedAt: Date;
 }
@@ -27,31 +55,295 @@ export interface ActivityOutcome {
  * Result of updating SRS data for a vocabulary item.
  */
 export interface SrsUpdateResult {
-  /** Updated SRS scheduling data. */
+  /** Track the outcome was scheduled on. */
+  track: SrsTrack;
+  /** Quality (0-5) the outcome was mapped to before scheduling. */
+  quality: number;
+  /** Updated SRS scheduling data for that track. */
   srsData: SrsData;
   /** Updated performance tracking data. */
   performanceData: PerformanceData;
 }
 
 /**
- * Maps an activity outcome to an SM-2 quality score (0-5).
+ * Options controlling how an activity outcome is scheduled.
+ */
+export interface SrsUpdateOptions {
+  /**
+   * Scheduler preferred by the learner's language profile. Items stored under a
+   * different algorithm are migrated before the review is applied.
+   */
+  algorithm?: SrsAlgorithm;
+  /** Sub-day steps (minutes) for new items; items graduate straight to day intervals when omitted. */
+  learningStepsMinutes?: readonly number[];
+  /** Sub-day steps (minutes) after a lapse; lapses go straight to day intervals when omitted. */
+  relearningStepsMinutes?: readonly number[];
+  /** Reviews already scheduled per day; enables SM-2 load balancing when supplied. */
+  dueLoad?: DueLoad;
+  /** SM-2 parameters fitted to the profile; built-in defaults apply when omitted. */
+  sm2Parameters?: Sm2Parameters;
+}
+
+/** Configuration supplied to {@link calculateSrsReview}. */
+export interface SrsReviewOptions {
+  /** Scheduler used to compute the next interval. */
+  algorithm: SrsAlgorithm;
+  /** Learner quality response scored from 0 (failed) to 5 (perfect). */
+  quality: number;
+  /** Timestamp representing when the review took place. */
+  reviewDate: Date;
+  /** Prior spaced repetition state to evolve, if available. */
+  previous?: SrsData;
+  /** Sub-day steps (minutes) for new items. */
+  learningStepsMinutes?: readonly number[];
+  /** Sub-day steps (minutes) after a lapse. */
+  relearningStepsMinutes?: readonly number[];
+  /** Reviews already scheduled per day; SM-2 fuzzes and balances day intervals against it. */
+  dueLoad?: DueLoad;
+  /** Random source for fuzz tie-breaks; injectable for tests. */
+  random?: () => number;
+  /** Lets SM-2 credit time an overdue item was remembered for; FSRS always accounts for it. */
+  creditOverdue?: boolean;
+  /** SM-2 parameters; ignored by FSRS. */
+  sm2Parameters?: Sm2Parameters;
+}
+
+/** Result emitted from {@link calculateSrsReview}, independent of the scheduler used. */
+export interface SrsReviewResult extends Sm2State {
+  /** Indicates whether the learner response met the success threshold. */
+  wasSuccessful: boolean;
+  /** FSRS memory stability in days, when scheduled by FSRS. */
+  stability?: number;
+  /** FSRS item difficulty, when scheduled by FSRS. */
+  difficulty?: number;
+}
+
+/**
+ * Normalises the free-form `SrsData.algorithm` string into a supported scheduler.
+ * Unknown or missing values fall back to SM-2 so legacy records keep their behaviour.
+ */
+export const resolveSrsAlgorithm = (value?: string | null): SrsAlgorithm =>
+  value === 'fsrs' ? 'fsrs' : DEFAULT_SRS_ALGORITHM;
+
+/**
+ * Builds the scheduling options for a language profile, applying the default
+ * learning and relearning steps when the profile does not configure its own.
+ */
+export const resolveSrsUpdateOptions = (
+  profile?: Pick<
+    LanguageProfile,
+    'srsAlgorithm' | 'learningStepsMinutes' | 'relearningStepsMinutes' | 'sm2Parameters'
+  > | null,
+): SrsUpdateOptions => ({
+  algorithm: profile?.srsAlgorithm,
+  learningStepsMinutes: profile?.learningStepsMinutes ?? DEFAULT_LEARNING_STEPS_MINUTES,
+  relearningStepsMinutes: profile?.relearningStepsMinutes ?? DEFAULT_RELEARNING_STEPS_MINUTES,
+  sm2Parameters: profile?.sm2Parameters,
+});
+
+/** Returns the scheduling data an item holds for the given track. */
+export const getTrackSrsData = (vocabItem: VocabItem, track: SrsTrack): SrsData | undefined =>
+  track === 'production' ? vocabItem.productionSrsData : vocabItem.srsData;
+
+/** Returns a copy of the item with one track's scheduling data replaced. */
+export const withTrackSrsData = (
+  vocabItem: VocabItem,
+  track: SrsTrack,
+  srsData: SrsData | undefined,
+): VocabItem =>
+  track === 'production'
+    ? { ...vocabItem, productionSrsData: srsData }
+    : { ...vocabItem, srsData };
+
+/**
+ * Splits the single schedule stored before recognition and production were tracked apart.
  *
- * Recognition (Flashcards):
- * - Correct → 4 (good recall)
- * - Incorrect → 2 (failed recall)
+ * The legacy `srsData` stays in place as the recognition track. When the item has
+ * production attempts on record, those reviews shaped the legacy schedule too, so the
+ * production track is seeded from a copy of it; otherwise production starts unscheduled.
+ * Items that already carry a production track are returned unchanged.
+ */
+export const migrateLegacySrsTracks = (vocabItem: VocabItem): VocabItem => {
+  if (vocabItem.productionSrsData || !vocabItem.srsData) {
+    return vocabItem;
+  }
+  const production = vocabItem.performanceData?.production;
+  const productionAttempts = (production?.correctCount ?? 0) + (production?.incorrectCount ?? 0);
+  if (productionAttempts === 0) {
+    return vocabItem;
+  }
+  return {
+    ...vocabItem,
+    productionSrsData: { ...vocabItem.srsData, id: nanoid() },
+  };
+};
+
+/**
+ * Converts spaced repetition data from one scheduler to another.
  *
- * Production (Translation):
- * - Score ≥ 0.9 → 5 (perfect, indicates deep mastery)
- * - Score ≥ 0.7 → 4 (good)
- * - Score ≥ 0.5 → 3 (passing, needs reinforcement)
- * - Score ≥ 0.3 → 2 (poor, significant gaps)
- * - Score < 0.3 → 1 (very poor)
+ * SM-2 → FSRS:
+ * - Stability (days) is seeded from the current interval, since SM-2 intervals
+ *   approximate the point where recall probability drops to ~90%.
+ * - Difficulty is derived from the ease factor (2.5 → 5, 1.3 → ~10, higher ease → easier).
+ * - Items never reviewed keep no memory state and are treated as new by FSRS.
  *
- * Rationale: Production is harder than recognition, so successful production
- * indicates stronger mastery and should accelerate SRS scheduling more.
+ * FSRS → SM-2:
+ * - Stability and difficulty are dropped; the ease factor, which FSRS carries
+ *   through untouched, resumes driving interval growth.
+ *
+ * Streak, interval, due date and last review timestamp are preserved in both
+ * directions so switching schedulers never reshuffles the current queue.
+ *
+ * @param srsData Stored scheduling data for an item.
+ * @param target Scheduler the data should be expressed in.
+ * @returns Scheduling data tagged with the target algorithm.
  */
-const mapOutcomeToQuality = (outcome: ActivityOutcome): number => {
+export const migrateSrsData = (srsData: SrsData, target: SrsAlgorithm): SrsData => {
+  const source = resolveSrsAlgorithm(srsData.algorithm);
+  if (source === target) {
+    return srsData;
+  }
+
+  if (target === 'fsrs') {
+    if (!srsData.lastReviewedAt) {
+      const unreviewed: SrsData = { ...srsData, algorithm: 'fsrs' };
+      delete unreviewed.stability;
+      delete unreviewed.difficulty;
+      return unreviewed;
+    }
+    const stability = Math.max(srsData.intervalHours / 24, 0.1);
+    const difficulty = Math.min(10, Math.max(1, 5 + (2.5 - srsData.easeFactor) * 4));
+    return {
+      ...srsData,
+      algorithm: 'fsrs',
+      stability: Number(stability.toFixed(4)),
+      difficulty: Number(difficulty.toFixed(4)),
+    };
+  }
+
+  const migrated: SrsData = { ...srsData, algorithm: 'sm2' };
+  delete migrated.stability;
+  delete migrated.difficulty;
+  return migrated;
+};
+
+/**
+ * Computes the next schedule for an item using the requested algorithm.
+ * Prior state recorded by another scheduler is migrated first.
+ */
+export const calculateSrsReview = ({
+  algorithm,
+  quality,
+  reviewDate,
+  previous,
+  learningStepsMinutes,
+  relearningStepsMinutes,
+  dueLoad,
+  random,
+  creditOverdue,
+  sm2Parameters,
+}: SrsReviewOptions): SrsReviewResult => {
+  const migrated = previous ? migrateSrsData(previous, algorithm) : undefined;
+
+  if (algorithm === 'fsrs') {
+    return calculateFsrsReview({
+      quality,
+      reviewDate,
+      previous: migrated,
+      learningStepsMinutes,
+      relearningStepsMinutes,
+    });
+  }
+
+  return calculateSm2Review({
+    quality,
+    reviewDate,
+    previous: migrated ?? { algorithm: 'sm2' },
+    learningStepsMinutes,
+    relearningStepsMinutes,
+    dueLoad,
+    random,
+    creditOverdue,
+    parameters: sm2Parameters,
+  });
+};
+
+/**
+ * Counts lapses after a review. A lapse is a failed review of an item that had graduated
+ * to review; failures during learning or relearning steps do not count.
+ */
+export const countLapses = (previous: SrsData | undefined, wasSuccessful: boolean): number => {
+  const lapses = previous?.lapses ?? 0;
+  const wasInReview = previous !== undefined && (previous.phase ?? 'review') === 'review';
+  return wasInReview && !wasSuccessful ? lapses + 1 : lapses;
+};
+
+/**
+ * Builds the stored scheduling record for a track from a review result.
+ * @param previous Track scheduling data before the review, if any.
+ * @param result Output of {@link calculateSrsReview}.
+ * @param id Record identifier; the previous record's id is kept when omitted.
+ */
+export const buildTrackSrsData = (
+  previous: SrsData | undefined,
+  result: SrsReviewResult,
+  id: string = previous?.id ?? nanoid(),
+): SrsData => {
+  // Items first reviewed before introduction dates were recorded stay without one.
+  const introducedAt = previous?.lastReviewedAt
+    ? previous.introducedAt
+    : result.lastReviewedAt ?? undefined;
+
+  return {
+    id,
+    algorithm: result.algorithm,
+    easeFactor: result.easeFactor,
+    intervalHours: result.intervalHours,
+    streak: result.streak,
+    dueAt: result.dueAt,
+    lastReviewedAt: result.lastReviewedAt,
+    phase: result.phase,
+    stepIndex: result.stepIndex,
+    lapses: countLapses(previous, result.wasSuccessful),
+    ...(introducedAt ? { introducedAt } : {}),
+    ...(result.stability !== undefined
+      ? { stability: result.stability, difficulty: result.difficulty }
+      : {}),
+  };
+};
+
+/** SM-2 quality assigned to each four-button flashcard grade. */
+export const FLASHCARD_GRADE_QUALITY: Readonly<Record<FlashcardGrade, number>> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5,
+};
+
+/** Binary outcome recorded for a four-button grade; only "again" counts as a miss. */
+export const gradeToOutcome = (grade: FlashcardGrade): FlashcardOutcome =>
+  grade === 'again' ? 'incorrect' : 'correct';
+
+/** Highest quality a slow speed-round answer can earn. */
+const SLOW_ANSWER_QUALITY = 3;
+
+/** Graduated quality for a 0-1 translation score. */
+const mapScoreToQuality = (score: number): number => {
+  if (score >= 0.9) return 5;
+  if (score >= 0.7) return 4;
+  if (score >= 0.5) return 3;
+  if (score >= 0.3) return 2;
+  return 1;
+};
+
+const mapActivityQuality = (outcome: ActivityOutcome): number => {
   if (outcome.activityType === 'recognition') {
+    if (outcome.grade) {
+      return FLASHCARD_GRADE_QUALITY[outcome.grade];
+    }
+    if (outcome.score !== undefined) {
+      return Math.min(4, mapScoreToQuality(outcome.score));
+    }
     // Flashcard recognition: binary correct/incorrect
     return outcome.wasCorrect ? 4 : 2;
   }
@@ -62,12 +354,35 @@ const mapOutcomeToQuality = (outcome: ActivityOutcome): number => {
     return outcome.wasCorrect ? 4 : 2;
   }
 
-  const score = outcome.score;
-  if (score >= 0.9) return 5;
-  if (score >= 0.7) return 4;
-  if (score >= 0.5) return 3;
-  if (score >= 0.3) return 2;
-  return 1;
+  return mapScoreToQuality(outcome.score);
+};
+
+/**
+ * Maps an activity outcome to an SM-2 quality score (0-5).
+ *
+ * Recognition (Flashcards, target → native translation):
+ * - Graded → {@link FLASHCARD_GRADE_QUALITY} (again 1, hard 3, good 4, easy 5)
+ * - Scored → the production mapping below, capped at 4
+ * - Correct → 4 (good recall)
+ * - Incorrect → 2 (failed recall)
+ *
+ * Production (Translation):
+ * - Score ≥ 0.9 → 5 (perfect, indicates deep mastery)
+ * - Score ≥ 0.7 → 4 (good)
+ * - Score ≥ 0.5 → 3 (passing, needs reinforcement)
+ * - Score ≥ 0.3 → 2 (poor, significant gaps)
+ * - Score < 0.3 → 1 (very poor)
+ *
+ * Slow speed-round answers are capped at 3 (passing), so hesitant recall still
+ * counts without accelerating the schedule.
+ *
+ * Rationale: Production is harder than recognition, so successful production
+ * indicates stronger mastery and should accelerate SRS scheduling more. A perfect
+ * reverse translation shows the word was understood, not that it can be produced.
+ */
+const mapOutcomeToQuality = (outcome: ActivityOutcome): number => {
+  const quality = mapActivityQuality(outcome);
+  return outcome.slow ? Math.min(quality, SLOW_ANSWER_QUALITY) : quality;
 };
 
 /**
@@ -118,48 +433,87 @@ const updatePerformanceData = (
  * This is the unified entry point for both recognition (flashcards) and production (translation)
  * activities. It ensures consistent SRS scheduling while tracking activity-specific performance.
  *
+ * The outcome's activity type selects the track (`srsData` for recognition,
+ * `productionSrsData` for production); the other track is left untouched.
+ *
+ * Scheduling dispatches on the track's `algorithm`. When the profile prefers a different
+ * algorithm, the stored data is migrated with {@link migrateSrsData} before the review.
+ *
  * @param vocabItem The vocabulary item being practiced.
  * @param outcome The outcome of the practice attempt.
+ * @param options Optional profile-level scheduling preferences.
  * @returns Updated SRS and performance data.
  */
 export const updateVocabSrs = (
   vocabItem: VocabItem,
   outcome: ActivityOutcome,
+  options: SrsUpdateOptions = {},
 ): SrsUpdateResult => {
   // Map outcome to quality score based on activity type
   const quality = mapOutcomeToQuality(outcome);
 
-  // Calculate new SRS schedule using SM-2 algorithm
-  const reviewResult = calculateSm2Review({
+  // Only the track trained by this activity is rescheduled
+  const track = outcome.activityType;
+  const previous = getTrackSrsData(vocabItem, track);
+
+  // Profile preference wins; otherwise keep whatever scheduler the item already uses
+  const algorithm = options.algorithm ?? resolveSrsAlgorithm(previous?.algorithm);
+
+  const reviewResult = calculateSrsReview({
+    algorithm,
     quality,
     reviewDate: outcome.attemptedAt,
-    previous: vocabItem.srsData,
+    previous,
+    learningStepsMinutes: options.learningStepsMinutes,
+    relearningStepsMinutes: options.relearningStepsMinutes,
+    dueLoad: options.dueLoad,
+    creditOverdue: outcome.catchUp,
+    sm2Parameters: options.sm2Parameters,
   });
 
   // Update performance tracking
   const performanceData = updatePerformanceData(vocabItem.performanceData, outcome);
 
   // Build complete SRS data
-  const srsData: SrsData = {
-    id: vocabItem.srsData?.id ?? nanoid(),
-    algorithm: reviewResult.algorithm,
-    easeFactor: reviewResult.easeFactor,
-    intervalHours: reviewResult.intervalHours,
-    streak: reviewResult.streak,
-    dueAt: reviewResult.dueAt,
-    lastReviewedAt: reviewResult.lastReviewedAt,
-  };
+  const srsData = buildTrackSrsData(previous, reviewResult);
 
   return {
+    track,
+    quality,
     srsData,
     performanceData,
   };
 };
 
+/** Per-track accuracy for a vocabulary item; null for a track without attempts. */
+export interface TrackMastery {
+  recognition: number | null;
+  production: number | null;
+}
+
+/**
+ * Calculates recognition and production accuracy separately.
+ *
+ * @param vocabItem The vocabulary item to evaluate.
+ * @returns Accuracy between 0 and 1 for each track, or null where no attempts exist.
+ */
+export const calculateTrackMastery = (vocabItem: VocabItem): TrackMastery => {
+  const perf = vocabItem.performanceData;
+  const accuracy = (track: SrsTrack): number | null => {
+    const counts = perf?.[track];
+    const total = (counts?.correctCount ?? 0) + (counts?.incorrectCount ?? 0);
+    return total > 0 ? counts!.correctCount / total : null;
+  };
+  return {
+    recognition: accuracy('recognition'),
+    production: accuracy('production'),
+  };
+};
+
 /**
  * Calculates overall mastery level for a vocabulary item.
  *
- * Mastery is computed by combining:
+ * Mastery is computed by combining the per-track accuracies from {@link calculateTrackMastery}:
  * - Recognition accuracy (weighted 40%)
  * - Production accuracy (weighted 60%)
  *
@@ -169,28 +523,19 @@ export const updateVocabSrs = (
  * @returns Mastery score between 0 and 1, or null if no practice data exists.
  */
 export const calculateMasteryLevel = (vocabItem: VocabItem): number | null => {
-  const perf = vocabItem.performanceData;
-  if (!perf) return null;
-
-  const recognitionTotal = perf.recognition.correctCount + perf.recognition.incorrectCount;
-  const productionTotal = perf.production.correctCount + perf.production.incorrectCount;
+  const { recognition, production } = calculateTrackMastery(vocabItem);
 
   // Need at least one attempt to calculate mastery
-  if (recognitionTotal === 0 && productionTotal === 0) {
+  if (recognition === null && production === null) {
     return null;
   }
 
-  const recognitionAccuracy =
-    recognitionTotal > 0 ? perf.recognition.correctCount / recognitionTotal : 0;
-  const productionAccuracy =
-    productionTotal > 0 ? perf.production.correctCount / productionTotal : 0;
-
   // Weighted combination: 40% recognition, 60% production
-  // If only one type has data, use that exclusively
-  if (recognitionTotal === 0) return productionAccuracy;
-  if (productionTotal === 0) return recognitionAccuracy;
+  // If only one track has data, use that exclusively
+  if (recognition === null) return production;
+  if (production === null) return recognition;
 
-  return recognitionAccuracy * 0.4 + productionAccuracy * 0.6;
+  return recognition * 0.4 + production * 0.6;
 };
 
 /**
@@ -199,7 +544,7 @@ export const calculateMasteryLevel = (vocabItem: VocabItem): number | null => {
  * Mastery criteria:
  * - Mastery level ≥ 0.8 (80% accuracy)
  * - At least 3 successful reviews in total
- * - Current SRS streak ≥ 2
+ * - SRS streak ≥ 2 on every track that has been scheduled
  *
  * @param vocabItem The vocabulary item to evaluate.
  * @returns True if the item is considered mastered.
@@ -214,20 +559,27 @@ export const isItemMastered = (vocabItem: VocabItem): boolean => {
   const totalCorrect = perf.recognition.correctCount + perf.production.correctCount;
   if (totalCorrect < 3) return false;
 
-  const currentStreak = vocabItem.srsData?.streak ?? 0;
-  return currentStreak >= 2;
+  const streaks = SRS_TRACKS.map(track => getTrackSrsData(vocabItem, track)?.streak).filter(
+    (streak): streak is number => streak !== undefined,
+  );
+  return streaks.length > 0 && Math.min(...streaks) >= 2;
 };
 
 /**
  * Gets the number of days until the next review is due.
  *
  * @param vocabItem The vocabulary item to check.
+ * @param track Scheduling track to read; recognition by default.
  * @returns Number of days until due (negative if overdue), or null if no SRS data.
  */
-export const getDaysUntilDue = (vocabItem: VocabItem): number | null => {
-  if (!vocabItem.srsData?.dueAt) return null;
+export const getDaysUntilDue = (
+  vocabItem: VocabItem,
+  track: SrsTrack = 'recognition',
+): number | null => {
+  const srsData = getTrackSrsData(vocabItem, track);
+  if (!srsData?.dueAt) return null;
 
-  const dueDate = new Date(vocabItem.srsData.dueAt);
+  const dueDate = new Date(srsData.dueAt);
   const now = new Date();
   const diffMs = dueDate.getTime() - now.getTime();
   const diffDays = diffMs / (1000 * 60 * 60 * 24);
@@ -239,12 +591,14 @@ export const getDaysUntilDue = (vocabItem: VocabItem): number | null => {
  * Determines if a vocabulary item is due for review.
  *
  * @param vocabItem The vocabulary item to check.
+ * @param track Scheduling track to read; recognition by default.
  * @returns True if the item is due for review (or overdue).
  */
-export const isItemDue = (vocabItem: VocabItem): boolean => {
-  if (!vocabItem.srsData?.dueAt) return false;
+export const isItemDue = (vocabItem: VocabItem, track: SrsTrack = 'recognition'): boolean => {
+  const srsData = getTrackSrsData(vocabItem, track);
+  if (!srsData?.dueAt) return false;
 
-  const dueDate = new Date(vocabItem.srsData.dueAt);
+  const dueDate = new Date(srsData.dueAt);
   const now = new Date();
 
   return now >= dueDate;
@@ -259,7 +613,11 @@ export const isItemDue = (vocabItem: VocabItem): boolean => {
 export const getPerformanceSummary = (vocabItem: VocabItem) => {
   const perf = vocabItem.performanceData;
   const mastery = calculateMasteryLevel(vocabItem);
-  const daysUntilDue = getDaysUntilDue(vocabItem);
+  // Overall due state follows whichever track comes due first
+  const trackDueDays = SRS_TRACKS.map(track => getDaysUntilDue(vocabItem, track)).filter(
+    (days): days is number => days !== null,
+  );
+  const daysUntilDue = trackDueDays.length > 0 ? Math.min(...trackDueDays) : null;
   const isMastered = isItemMastered(vocabItem);
 
   return {
@@ -272,6 +630,9 @@ export const getPerformanceSummary = (vocabItem: VocabItem) => {
           ? (perf?.recognition.correctCount ?? 0) /
             ((perf?.recognition.correctCount ?? 0) + (perf?.recognition.incorrectCount ?? 0))
           : null,
+      streak: vocabItem.srsData?.streak ?? 0,
+      daysUntilDue: getDaysUntilDue(vocabItem, 'recognition'),
+      isDue: isItemDue(vocabItem, 'recognition'),
     },
     production: {
       correct: perf?.production.correctCount ?? 0,
@@ -282,13 +643,16 @@ export const getPerformanceSummary = (vocabItem: VocabItem) => {
           ? (perf?.production.correctCount ?? 0) /
             ((perf?.production.correctCount ?? 0) + (perf?.production.incorrectCount ?? 0))
           : null,
+      streak: vocabItem.productionSrsData?.streak ?? 0,
+      daysUntilDue: getDaysUntilDue(vocabItem, 'production'),
+      isDue: isItemDue(vocabItem, 'production'),
     },
     overall: {
       mastery,
       isMastered,
       streak: vocabItem.srsData?.streak ?? 0,
       daysUntilDue,
-      isDue: isItemDue(vocabItem),
+      isDue: SRS_TRACKS.some(track => isItemDue(vocabItem, track)),
     },
   };
 };
@@ -1,43 +1,320 @@
 import type { TtxItem, TranslationPitfallType } from '../../contracts/models';
+import { compareTokens, splitWords, tokenize, type TokenMatch, type Word } from './text-matching';
+
+/**
+ * A word-level problem behind a score. Accent slips are minor and reported apart from
+ * misspelled, wrong or missing words.
+ */
+export type EvaluationIssue = {
+  kind: 'accent' | 'spelling' | 'wrong_word' | 'missing';
+  /** Expected word or phrase. */
+  expected: string;
+  /** What the learner wrote instead; null when it was left out. */
+  received: string | null;
+};
+
+/** How one word of the answer lines up with the closest expected translation. */
+export type AlignedTokenStatus = 'matched' | 'accent' | 'misspelled' | 'missing' | 'extra';
+
+/**
+ * One word of the answer-to-translation alignment, in reading order. A wrong word shows up
+ * as the learner's word marked `extra` followed by the expected word marked `missing`.
+ */
+export type AlignedToken = {
+  status: AlignedTokenStatus;
+  /** The learner's word, or the expected word when it is `missing`. */
+  text: string;
+  /** Correct spelling for `accent` and `misspelled` words. */
+  expected?: string;
+};
 
 export type EvaluationResult = {
   score: number;
   feedback: string;
   errorTags: TranslationPitfallType[];
+  issues: EvaluationIssue[];
+  /** Word-by-word comparison with the closest expected translation. */
+  alignment: AlignedToken[];
+  /** Expected translation the alignment was made against. */
+  closestTranslation: string;
+};
+
+/** Alignment cost of a learner token standing in for an expected one. */
+const MATCH_COST: Record<TokenMatch, number> = {
+  exact: 0,
+  accent: 0.05,
+  typo: 0.25,
+  different: 1,
+};
+
+/** Credit for a required rubric term, by how well the learner wrote it. */
+const TERM_CREDIT: Record<TokenMatch, number> = {
+  exact: 1,
+  accent: 0.95,
+  typo: 0.8,
+  different: 0,
+};
+
+type AlignmentStep =
+  | { type: 'match'; match: TokenMatch; expected: Word; received: Word }
+  | { type: 'missing'; expected: Word }
+  | { type: 'extra'; received: Word };
+
+type Alignment = {
+  steps: AlignmentStep[];
+  similarity: number;
+};
+
+/**
+ * Aligns learner tokens to expected tokens with a word-level edit distance. Substitutions
+ * cost less the closer the words are; tolerated words are free as extras but never stand in
+ * for an expected word.
+ */
+const alignWords = (
+  expected: Word[],
+  received: Word[],
+  isTolerated: (token: string) => boolean,
+): Alignment => {
+  const matchAt = (i: number, j: number): TokenMatch =>
+    compareTokens(expected[i].token, received[j].token);
+  const substitutionCost = (i: number, j: number) => MATCH_COST[matchAt(i, j)];
+  const insertionCost = (j: number) => (isTolerated(received[j].token) ? 0 : 1);
+
+  const cost: number[][] = Array.from({ length: expected.length + 1 }, () =>
+    new Array<number>(received.length + 1).fill(0),
+  );
+  for (let i = 1; i <= expected.length; i += 1) {
+    cost[i][0] = i;
+  }
+  for (let j = 1; j <= received.length; j += 1) {
+    cost[0][j] = cost[0][j - 1] + insertionCost(j - 1);
+  }
+  for (let i = 1; i <= expected.length; i += 1) {
+    for (let j = 1; j <= received.length; j += 1) {
+      cost[i][j] = Math.min(
+        cost[i - 1][j - 1] + substitutionCost(i - 1, j - 1),
+        cost[i - 1][j] + 1,
+        cost[i][j - 1] + insertionCost(j - 1),
+      );
+    }
+  }
+
+  const steps: AlignmentStep[] = [];
+  let i = expected.length;
+  let j = received.length;
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0 && cost[i][j] === cost[i - 1][j - 1] + substitutionCost(i - 1, j - 1)) {
+      steps.unshift({
+        type: 'match',
+        match: matchAt(i - 1, j - 1),
+        expected: expected[i - 1],
+        received: received[j - 1],
+      });
+      i -= 1;
+      j -= 1;
+    } else if (i > 0 && cost[i][j] === cost[i - 1][j] + 1) {
+      steps.unshift({ type: 'missing', expected: expected[i - 1] });
+      i -= 1;
+    } else {
+      steps.unshift({ type: 'extra', received: received[j - 1] });
+      j -= 1;
+    }
+  }
+
+  const length = Math.max(expected.length, received.length, 1);
+  return {
+    steps,
+    similarity: Math.max(0, 1 - cost[expected.length][received.length] / length),
+  };
+};
+
+/** Best match of a (possibly multi-word) term anywhere in the answer; the weakest word decides. */
+const findTerm = (term: string[], answer: string[]): { match: TokenMatch; received: string } => {
+  let best: { match: TokenMatch; received: string } = { match: 'different', received: '' };
+  for (let start = 0; start + term.length <= answer.length; start += 1) {
+    const window = answer.slice(start, start + term.length);
+    const matches = term.map((token, index) => compareTokens(token, window[index]));
+    const weakest = matches.reduce((worst, match) =>
+      TERM_CREDIT[match] < TERM_CREDIT[worst] ? match : worst,
+    );
+    if (TERM_CREDIT[weakest] > TERM_CREDIT[best.match]) {
+      best = { match: weakest, received: window.join(' ') };
+    }
+  }
+  return best;
 };
 
-const normalise = (value: string) => value.trim().toLowerCase();
+const containsPhrase = (phrase: string[], answer: string[]) =>
+  phrase.length > 0 &&
+  answer.some((_, start) =>
+    phrase.every((token, index) => {
+      const received = answer[start + index];
+      return received !== undefined && compareTokens(token, received) !== 'different';
+    }),
+  );
+
+const ISSUE_KIND: Record<Exclude<TokenMatch, 'exact'>, EvaluationIssue['kind']> = {
+  accent: 'accent',
+  typo: 'spelling',
+  different: 'wrong_word',
+};
 
+const toIssue = (step: AlignmentStep): EvaluationIssue | null => {
+  if (step.type === 'missing') {
+    return { kind: 'missing', expected: step.expected.token, received: null };
+  }
+  if (step.type === 'extra' || step.match === 'exact') {
+    return null;
+  }
+  return {
+    kind: ISSUE_KIND[step.match],
+    expected: step.expected.token,
+    received: step.received.token,
+  };
+};
+
+const toAlignedTokens = (step: AlignmentStep): AlignedToken[] => {
+  if (step.type === 'missing') {
+    return [{ status: 'missing', text: step.expected.text }];
+  }
+  if (step.type === 'extra') {
+    return [{ status: 'extra', text: step.received.text }];
+  }
+  switch (step.match) {
+    case 'exact':
+      return [{ status: 'matched', text: step.received.text }];
+    case 'accent':
+      return [{ status: 'accent', text: step.received.text, expected: step.expected.text }];
+    case 'typo':
+      return [{ status: 'misspelled', text: step.received.text, expected: step.expected.text }];
+    default:
+      return [
+        { status: 'extra', text: step.received.text },
+        { status: 'missing', text: step.expected.text },
+      ];
+  }
+};
+
+const toTermIssue = ({
+  term,
+  match,
+  received,
+}: {
+  term: string;
+  match: TokenMatch;
+  received: string;
+}): EvaluationIssue | null => {
+  if (match === 'exact') {
+    return null;
+  }
+  if (match === 'different') {
+    return { kind: 'missing', expected: term, received: null };
+  }
+  return { kind: ISSUE_KIND[match], expected: term, received };
+};
+
+const describeAccents = (issues: EvaluationIssue[]) =>
+  issues.map(issue => `${issue.received} → ${issue.expected}`).join(', ');
+
+/**
+ * Grades a translation against the item's expected translations and rubric.
+ *
+ * Text is compared after Unicode normalisation, so case, punctuation and composed vs decomposed
+ * accents never matter. The answer is aligned word by word with each expected translation and
+ * scored on the closest one: accent slips cost little, typos a bit more, wrong or missing words
+ * a full word. Words in the rubric's `tolerate` list may be added anywhere but never replace an
+ * expected word. When the rubric names required terms, finding them all forgives left-out words,
+ * but each wrong word still costs its share of the closest translation. Any `reject` phrase
+ * scores zero.
+ */
 export const evaluateTranslationAnswer = (item: TtxItem, answer: string): EvaluationResult => {
-  const normalizedAnswer = normalise(answer);
+  const answerWords = splitWords(answer);
+  const answerTokens = answerWords.map(word => word.token);
   const rubric = item.gradingRubric;
-  const missing = rubric.mustInclude.filter(token => !normalizedAnswer.includes(token.toLowerCase()));
-  const rejected = rubric.reject.find(token => normalizedAnswer.includes(token.toLowerCase()));
-
-  let score = 0;
-  if (rejected) {
-    score = 0;
-  } else if (missing.length === 0) {
-    score = 1;
-  } else {
-    score = 0.5;
-  }
 
-  const errorTags: TranslationPitfallType[] = score === 1 ? [] : item.commonPitfalls.map(p => p.type);
-  const bestMatch = item.expectedTranslations.find(expected =>
-    normalizedAnswer.includes(normalise(expected.text)),
+  const tolerated = new Set(rubric.tolerate.flatMap(tokenize));
+  const isTolerated = (token: string) =>
+    Array.from(tolerated).some(variant => compareTokens(variant, token) !== 'different');
+
+  const rejected = rubric.reject.some(phrase => containsPhrase(tokenize(phrase), answerTokens));
+
+  const alignments = item.expectedTranslations.map(expected => ({
+    expected,
+    alignment: alignWords(splitWords(expected.text), answerWords, isTolerated),
+  }));
+  const closest = alignments.reduce((best, candidate) =>
+    candidate.alignment.similarity > best.alignment.similarity ? candidate : best,
+  );
+
+  const terms = rubric.mustInclude.map(term => ({
+    term,
+    ...findTerm(tokenize(term), answerTokens),
+  }));
+  const alignmentIssues = closest.alignment.steps
+    .map(toIssue)
+    .filter((issue): issue is EvaluationIssue => issue !== null);
+  // A wrong word written in place of a required term is already charged as the missing term.
+  const missedTermTokens = new Set(
+    terms.filter(term => term.match === 'different').flatMap(term => tokenize(term.term)),
   );
+  const wrongWords = alignmentIssues.filter(issue => issue.kind === 'wrong_word');
+  const unchargedWrongWords = Math.max(0, wrongWords.length - missedTermTokens.size);
+  const expectedLength = Math.max(splitWords(closest.expected.text).length, 1);
+  const rubricScore =
+    terms.length > 0
+      ? Math.max(
+          0,
+          terms.reduce((sum, term) => sum + TERM_CREDIT[term.match], 0) / terms.length -
+            unchargedWrongWords / expectedLength,
+        )
+      : 0;
+  const referenceScore = closest.alignment.similarity;
 
-  const feedback =
-    score === 1
-      ? 'Nice work! You captured the exact phrasing the tutor expected.'
-      : bestMatch
-          ? `Close! ${bestMatch.notes} — ${item.insightHook}`
-          : `Review: ${item.insightHook}`;
+  const score = rejected ? 0 : Number(Math.max(referenceScore, rubricScore).toFixed(2));
+
+  // Explain the score with whichever comparison produced it.
+  const issues: EvaluationIssue[] =
+    referenceScore >= rubricScore
+      ? alignmentIssues
+      : [
+          ...terms.map(toTermIssue).filter((issue): issue is EvaluationIssue => issue !== null),
+          ...(unchargedWrongWords > 0
+            ? wrongWords.filter(issue => !missedTermTokens.has(issue.expected))
+            : []),
+        ];
+
+  const accentIssues = issues.filter(issue => issue.kind === 'accent');
+  const onlyAccents =
+    !rejected && accentIssues.length > 0 && accentIssues.length === issues.length && score >= 0.9;
+
+  // Accent slips alone do not point at any of the item's pitfalls.
+  const errorTags: TranslationPitfallType[] =
+    score === 1 || onlyAccents ? [] : item.commonPitfalls.map(p => p.type);
+
+  const bestMatch = closest.alignment.similarity >= 0.5 ? closest.expected : undefined;
+  const accentNote =
+    accentIssues.length > 0 ? `Check the accents: ${describeAccents(accentIssues)}.` : '';
+
+  let feedback: string;
+  if (score === 1 && alignmentIssues.length === 0) {
+    feedback = 'Nice work! You captured the exact phrasing the tutor expected.';
+  } else if (score === 1) {
+    feedback = `Correct! The tutor's full phrasing: "${closest.expected.text}"`;
+  } else if (onlyAccents) {
+    feedback = `Almost perfect! ${accentNote}`;
+  } else {
+    const review = bestMatch
+      ? `Close! ${bestMatch.notes} — ${item.insightHook}`
+      : `Review: ${item.insightHook}`;
+    feedback = accentNote ? `${review} ${accentNote}` : review;
+  }
 
   return {
     score,
     feedback,
     errorTags,
+    issues,
+    alignment: closest.alignment.steps.flatMap(toAlignedTokens),
+    closestTranslation: closest.expected.text,
   };
 };
@@ -5,9 +5,14 @@ import type {
   TtxItem,
   TtxSession,
   VocabItem,
+  TranslationDifficulty,
+  TranslationDirection,
+  TranslationDirectionMode,
+  TranslationPitfallType,
   TranslationStyleTag,
   TtxSessionProgress,
 } from '../../contracts/models';
+import { renderReversePrompt, renderTranslationPrompt } from './prompt-templates';
 
 type RuntimeCrypto = {
   randomUUID?: () => string;
@@ -33,13 +38,27 @@ type GenerateSessionParams = {
   topicTags?: string[];
   reviewMode: ReviewMode;
   questionCount: number;
+  /** Difficulty the prompts are written for; the profile's preferred difficulty when unset. */
+  difficulty?: TranslationDifficulty;
+  /** Which way prompts go; native → target when unset. */
+  direction?: TranslationDirectionMode;
+  /** Pitfall each prompt should target, cycled by prompt index; rotates the defaults when unset. */
+  focusPitfalls?: TranslationPitfallType[];
 };
 
-const pickStyleTags = (index: number, mix: StyleMix): TranslationStyleTag[] => {
+const pickStyleTags = (
+  index: number,
+  mix: StyleMix,
+  difficulty: TranslationDifficulty,
+): TranslationStyleTag[] => {
   const tags: TranslationStyleTag[] = [];
+  const isAdvanced = difficulty === 'advanced' || difficulty === 'expert';
   if (mix.formal >= 0.4 && index % 3 === 0) {
     tags.push('formal');
   }
+  if (mix.formal >= 0.6 && isAdvanced && index % 4 === 2) {
+    tags.push('business');
+  }
   if (mix.slang >= 0.25 && index % 2 === 0) {
     tags.push('slang');
   }
@@ -49,36 +68,22 @@ const pickStyleTags = (index: number, mix: StyleMix): TranslationStyleTag[] => {
   if (tags.length === 0) {
     tags.push('casual');
   }
+  if (isAdvanced && index % 5 === 3) {
+    tags.push('narrative');
+  }
   if (index % 3 === 1) {
     tags.push('dialogue');
   }
   return Array.from(new Set(tags));
 };
 
-const buildNativePrompt = (
-  vocab: VocabItem,
-  profile: LanguageProfile,
-  tags: TranslationStyleTag[],
-): { nativeText: string; context: string } => {
-  const baseMeaning = vocab.meaning.split(/[.;]/)[0]?.trim() ?? vocab.meaning;
-  const contextTag = tags.includes('slang') ? 'street meetup' : 'daily routine';
-  const dialogue =
-    tags.includes('dialogue') && tags.includes('slang')
-      ? `Roommate: "Can you loan me some cash? I'm totally broke."\nYou: Respond using a ${profile.targetLanguage.toUpperCase()} phrase with ${vocab.term}.`
-      : undefined;
-
-  if (dialogue) {
-    return {
-      nativeText: dialogue,
-      context: 'Two friends chatting with casual slang.',
-    };
-  }
+/** Longest context a translation item accepts. */
+const MAX_CONTEXT_LENGTH = 280;
 
-  return {
-    nativeText: `Translate into ${profile.targetLanguage.toUpperCase()}: "I need to remember how to say ${baseMeaning} when talking to a local."`,
-    context: `Keep the tone ${contextTag}. Include ${vocab.term} explicitly.`,
-  };
-};
+const clampContext = (context: string) =>
+  context.length <= MAX_CONTEXT_LENGTH
+    ? context
+    : `${context.slice(0, MAX_CONTEXT_LENGTH - 1).trimEnd()}…`;
 
 const buildRubric = (vocab: VocabItem) => ({
   mustInclude: [vocab.term.toLowerCase()],
@@ -86,22 +91,71 @@ const buildRubric = (vocab: VocabItem) => ({
   reject: [],
 });
 
-const buildPitfalls = (index: number) => {
-  const options = [
-    {
-      type: 'false_cognate' as const,
-      explanation: 'Avoid English look-alikes that change meaning in the target language.',
-    },
-    {
-      type: 'register' as const,
-      explanation: 'Match the tone (formal vs. slang) requested in the prompt.',
-    },
+/** What to watch for with each pitfall. */
+const PITFALL_EXPLANATIONS: Record<TranslationPitfallType, string> = {
+  false_cognate: 'Avoid English look-alikes that change meaning in the target language.',
+  register: 'Match the tone (formal vs. slang) requested in the prompt.',
+  gender: 'Double-check noun gender and adjective agreement.',
+  aspect: 'Pick the verb aspect or past tense that fits how the action unfolds.',
+  agreement: 'Make verbs agree with their subjects and adjectives with their nouns.',
+  word_order: 'Place adjectives, pronouns and negation where the target language expects them.',
+  politeness: 'Use the polite forms of address the situation calls for.',
+};
+
+const DEFAULT_PITFALL_ROTATION: TranslationPitfallType[] = ['false_cognate', 'register', 'gender'];
+/** Reading into the native language mostly trips over look-alikes and literal word order. */
+const REVERSE_PITFALL_ROTATION: TranslationPitfallType[] = ['false_cognate', 'word_order'];
+
+const buildPitfalls = (
+  index: number,
+  direction: TranslationDirection,
+  focusPitfalls?: TranslationPitfallType[],
+) => {
+  const defaults =
+    direction === 'target_to_native' ? REVERSE_PITFALL_ROTATION : DEFAULT_PITFALL_ROTATION;
+  const options = focusPitfalls?.length ? focusPitfalls : defaults;
+  const type = options[index % options.length];
+  return [{ type, explanation: PITFALL_EXPLANATIONS[type] }];
+};
+
+const baseMeaningOf = (vocab: VocabItem) =>
+  vocab.meaning.split(/[.;]/)[0]?.trim() || vocab.meaning;
+
+/** Reverse prompts are right when the answer carries the meaning, however it is phrased. */
+const buildReverseRubric = (vocab: VocabItem) => ({
+  mustInclude: [baseMeaningOf(vocab).toLowerCase()],
+  tolerate: [],
+  reject: [],
+});
+
+const buildReverseExpected = (vocab: VocabItem) => {
+  const baseMeaning = baseMeaningOf(vocab);
+  const expected = [
     {
-      type: 'gender' as const,
-      explanation: 'Double-check noun gender and adjective agreement.',
+      text: baseMeaning,
+      register: 'neutral',
+      notes: `${vocab.term} means "${baseMeaning}".`,
     },
   ];
-  return [options[index % options.length]];
+  if (vocab.meaning.trim() !== baseMeaning) {
+    expected.push({
+      text: vocab.meaning.trim(),
+      register: 'neutral',
+      notes: 'Full meaning from your word bank.',
+    });
+  }
+  return expected;
+};
+
+/** Direction of one prompt under the session's direction setting. */
+export const resolvePromptDirection = (
+  mode: TranslationDirectionMode,
+  index: number,
+): TranslationDirection => {
+  if (mode === 'alternating') {
+    return index % 2 === 0 ? 'native_to_target' : 'target_to_native';
+  }
+  return mode;
 };
 
 const buildExpected = (vocab: VocabItem) => [
@@ -124,6 +178,9 @@ export const generateMockTranslationSession = ({
   topicTags = [],
   reviewMode,
   questionCount,
+  difficulty = profile.preferredDifficulty,
+  direction = 'native_to_target',
+  focusPitfalls,
 }: GenerateSessionParams): TtxSession => {
   const sessionId = generateId();
   const timestamp = new Date().toISOString();
@@ -131,19 +188,38 @@ export const generateMockTranslationSession = ({
 
   const items: TtxItem[] = Array.from({ length: questionCount }).map((_, index) => {
     const vocab = pool[index % pool.length];
-    const tags = pickStyleTags(index, styleMix);
-    const { nativeText, context } = buildNativePrompt(vocab, profile, tags);
+    const tags = pickStyleTags(index, styleMix, difficulty);
+    const promptDirection = resolvePromptDirection(direction, index);
+    const isReverse = promptDirection === 'target_to_native';
+    // Word bank examples carry no translation, so reverse prompts ask for the term and are
+    // graded against its meaning.
+    const { nativeText, context } = isReverse
+      ? renderReversePrompt({ vocab, nativeLanguage: profile.nativeLanguage, difficulty })
+      : renderTranslationPrompt({
+          vocab,
+          targetLanguage: profile.targetLanguage,
+          difficulty,
+          styleTags: tags,
+          index,
+          seed: sessionId,
+        });
+    const commonPitfalls = buildPitfalls(index, promptDirection, focusPitfalls);
 
     return {
       itemId: `${sessionId}-item-${index}`,
       nativeText,
-      context,
+      context: clampContext(
+        focusPitfalls?.length ? `${context} Watch out: ${commonPitfalls[0].explanation}` : context,
+      ),
       styleTags: tags,
-      expectedTranslations: buildExpected(vocab),
+      expectedTranslations: isReverse ? buildReverseExpected(vocab) : buildExpected(vocab),
       focusVocabIds: [vocab.id],
-      commonPitfalls: buildPitfalls(index),
-      gradingRubric: buildRubric(vocab),
-      insightHook: `Remind the learner why "${vocab.term}" is the precise fit for "${vocab.meaning}".`,
+      commonPitfalls,
+      gradingRubric: isReverse ? buildReverseRubric(vocab) : buildRubric(vocab),
+      insightHook: isReverse
+        ? `"${vocab.term}" means "${vocab.meaning}"; read it in context, not word by word.`
+        : `Remind the learner why "${vocab.term}" is the precise fit for "${vocab.meaning}".`,
+      direction: promptDirection,
       history: [],
       isFlagged: false,
     };
@@ -155,7 +231,7 @@ export const generateMockTranslationSession = ({
     nativeLanguage: profile.nativeLanguage,
     targetLanguage: profile.targetLanguage,
     targetRegion: profile.targetRegion ?? null,
-    difficulty: profile.preferredDifficulty,
+    difficulty,
     styleMix,
     topicTags,
     vocabPool: pool,
@@ -165,6 +241,7 @@ export const generateMockTranslationSession = ({
     recap: null,
     reviewMode,
     questionCount,
+    direction,
     progress: buildInitialProgress(questionCount),
   };
 };
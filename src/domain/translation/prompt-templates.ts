@@ -0,0 +1,435 @@
+import type {
+  TranslationDifficulty,
+  TranslationStyleTag,
+  VocabItem,
+} from '../../contracts/models';
+
+/** A sentence to translate; `{meaning}`, `{term}` and `{language}` are filled in. */
+export interface SentenceFrame {
+  id: string;
+  /** Difficulty tiers the sentence suits. */
+  difficulties: TranslationDifficulty[];
+  /** Style tags the sentence suits; any one match is enough. */
+  styles: TranslationStyleTag[];
+  text: string;
+  /** Situation or grammar point shown with the prompt. */
+  setting: string;
+}
+
+/** A line of dialogue the learner has to answer. */
+export interface DialogueScenario {
+  id: string;
+  difficulties: TranslationDifficulty[];
+  styles: TranslationStyleTag[];
+  setting: string;
+  speaker: string;
+  line: string;
+  /** What the learner's reply should do. */
+  task: string;
+}
+
+/** Target-language specifics layered over the shared catalogue. */
+export interface LanguagePack {
+  /** Language name used in prompts. */
+  name: string;
+  /** How each register is expressed in the language. */
+  registers: Partial<Record<TranslationStyleTag, string>>;
+  /** Extra sentences that exercise the language's own grammar. */
+  frames: SentenceFrame[];
+}
+
+export type RenderPromptArgs = {
+  vocab: VocabItem;
+  targetLanguage: string;
+  difficulty: TranslationDifficulty;
+  styleTags: TranslationStyleTag[];
+  /** Prompt position in the session. */
+  index: number;
+  /** Varies the picks between sessions; the same seed always renders the same prompt. */
+  seed: string;
+};
+
+export type RenderReversePromptArgs = {
+  vocab: VocabItem;
+  /** Language the learner translates into. */
+  nativeLanguage: string;
+  difficulty: TranslationDifficulty;
+  /** Reference rendering of the item's first example; the passage is only used with one. */
+  exampleTranslation?: string;
+};
+
+export type RenderedPrompt = {
+  nativeText: string;
+  context: string;
+};
+
+export const SENTENCE_FRAMES: SentenceFrame[] = [
+  {
+    id: 'forget-word',
+    difficulties: ['intro'],
+    styles: ['casual'],
+    text: 'I always forget how to say {meaning}.',
+    setting: 'Chatting with a classmate.',
+  },
+  {
+    id: 'ask-help',
+    difficulties: ['intro'],
+    styles: ['casual', 'formal'],
+    text: 'Can you help me with {meaning}, please?',
+    setting: 'Asking someone for help.',
+  },
+  {
+    id: 'excuse-me',
+    difficulties: ['intro', 'intermediate'],
+    styles: ['formal'],
+    text: 'Excuse me, could you tell me about {meaning}?',
+    setting: 'Speaking to a stranger in the street.',
+  },
+  {
+    id: 'no-way',
+    difficulties: ['intro', 'intermediate'],
+    styles: ['slang'],
+    text: '{meaning}? No way, that is amazing!',
+    setting: 'Reacting to a friend’s news.',
+  },
+  {
+    id: 'talked-yesterday',
+    difficulties: ['intermediate'],
+    styles: ['casual', 'narrative'],
+    text: 'Yesterday my friend and I talked about {meaning} for an hour.',
+    setting: 'Telling someone about your day.',
+  },
+  {
+    id: 'polite-question',
+    difficulties: ['intermediate'],
+    styles: ['formal', 'business'],
+    text: 'I would like to ask you a question about {meaning}.',
+    setting: 'Writing to a teacher or colleague.',
+  },
+  {
+    id: 'big-deal',
+    difficulties: ['intermediate', 'advanced'],
+    styles: ['slang'],
+    text: 'Honestly, {meaning} is a really big deal around here.',
+    setting: 'Hanging out with local friends.',
+  },
+  {
+    id: 'learning-ropes',
+    difficulties: ['intermediate', 'advanced'],
+    styles: ['idiom'],
+    text: 'When it comes to {meaning}, I am still learning the ropes.',
+    setting: 'Admitting you are new to something.',
+  },
+  {
+    id: 'meeting-agree',
+    difficulties: ['advanced'],
+    styles: ['business', 'formal'],
+    text: 'Before the meeting ends, we should agree on how to handle {meaning}.',
+    setting: 'Wrapping up a work meeting.',
+  },
+  {
+    id: 'arrived-noticed',
+    difficulties: ['advanced'],
+    styles: ['narrative'],
+    text: 'When she finally arrived in town, the first thing she noticed was {meaning}.',
+    setting: 'Telling a story in the past.',
+  },
+  {
+    id: 'had-known',
+    difficulties: ['advanced'],
+    styles: ['casual', 'narrative'],
+    text: 'If I had known about {meaning} sooner, I would have planned differently.',
+    setting: 'Looking back on a decision.',
+  },
+  {
+    id: 'advisable',
+    difficulties: ['advanced', 'expert'],
+    styles: ['formal'],
+    text: 'It would be advisable to consider {meaning} before making a decision.',
+    setting: 'Giving formal advice.',
+  },
+  {
+    id: 'beat-around-bush',
+    difficulties: ['expert'],
+    styles: ['idiom', 'casual'],
+    text:
+      'Everyone kept beating around the bush, but it was clear that {meaning} was the real issue.',
+    setting: 'Describing an awkward conversation.',
+  },
+  {
+    id: 'years-later',
+    difficulties: ['expert'],
+    styles: ['narrative'],
+    text: 'Years later, he still remembered how {meaning} had changed everything that summer.',
+    setting: 'Narrating a memory.',
+  },
+  {
+    id: 'committee',
+    difficulties: ['expert'],
+    styles: ['business', 'formal'],
+    text:
+      'Despite the delays, the board expects {meaning} to be settled by the end of the quarter.',
+    setting: 'Drafting a status report.',
+  },
+  {
+    id: 'informed-earlier',
+    difficulties: ['expert'],
+    styles: ['formal', 'casual'],
+    text: 'Had we been told about {meaning} earlier, we would not have had to redo everything.',
+    setting: 'Voicing a complaint.',
+  },
+];
+
+export const DIALOGUE_SCENARIOS: DialogueScenario[] = [
+  {
+    id: 'cafe',
+    difficulties: ['intro', 'intermediate'],
+    styles: ['casual'],
+    setting: 'Ordering at a café.',
+    speaker: 'Waiter',
+    line: 'What can I get you today?',
+    task: 'Answer with a short {language} sentence using {term}.',
+  },
+  {
+    id: 'hotel',
+    difficulties: ['intro', 'intermediate'],
+    styles: ['formal'],
+    setting: 'Checking in at a hotel.',
+    speaker: 'Receptionist',
+    line: 'Good evening, how may I help you?',
+    task: 'Reply politely in {language}, using {term}.',
+  },
+  {
+    id: 'roommate',
+    difficulties: ['intermediate', 'advanced'],
+    styles: ['slang', 'casual'],
+    setting: 'Two friends chatting with casual slang.',
+    speaker: 'Roommate',
+    line: 'Can you loan me some cash? I’m totally broke.',
+    task: 'Respond using a {language} phrase with {term}.',
+  },
+  {
+    id: 'old-friend',
+    difficulties: ['intermediate', 'advanced'],
+    styles: ['idiom', 'casual'],
+    setting: 'Bumping into an old friend.',
+    speaker: 'Friend',
+    line: 'Long time no see! What have you been up to?',
+    task: 'Catch them up in {language}, working in {term}.',
+  },
+  {
+    id: 'client-call',
+    difficulties: ['advanced', 'expert'],
+    styles: ['business', 'formal'],
+    setting: 'A video call with a new client.',
+    speaker: 'Client',
+    line: 'Could you walk me through the next steps?',
+    task: 'Answer professionally in {language}, using {term}.',
+  },
+  {
+    id: 'council',
+    difficulties: ['expert'],
+    styles: ['formal', 'idiom', 'slang'],
+    setting: 'A heated neighbourhood meeting.',
+    speaker: 'Neighbour',
+    line: 'With all due respect, I don’t think you have considered the consequences.',
+    task: 'Push back diplomatically in {language}, using {term}.',
+  },
+];
+
+/** Reading guidance for target → native prompts, by difficulty. */
+export const READING_NOTES: Record<TranslationDifficulty, string> = {
+  intro: 'Give the meaning in your own words.',
+  intermediate: 'Translate the whole sentence, not just the word.',
+  advanced: 'Aim for natural phrasing rather than word for word.',
+  expert: 'Keep the tone and nuance of the original.',
+};
+
+const DEFAULT_REGISTERS: LanguagePack['registers'] = {
+  formal: 'Use the polite form of address.',
+  casual: 'Use the familiar form of address.',
+  slang: 'Colloquial phrasing is welcome.',
+  idiom: 'An idiomatic turn of phrase is welcome.',
+  business: 'Keep a professional tone.',
+  narrative: 'Keep the tenses consistent.',
+};
+
+export const LANGUAGE_PACKS: Record<string, LanguagePack> = {
+  en: {
+    name: 'English',
+    registers: {
+      ...DEFAULT_REGISTERS,
+      formal: 'Avoid contractions and slang.',
+      casual: 'Contractions are fine.',
+    },
+    frames: [],
+  },
+  es: {
+    name: 'Spanish',
+    registers: {
+      ...DEFAULT_REGISTERS,
+      formal: 'Address the listener as usted.',
+      casual: 'Use tú with the listener.',
+      slang: 'Regional slang is welcome.',
+      business: 'Use usted and a professional tone.',
+    },
+    frames: [
+      {
+        id: 'es-ser-estar',
+        difficulties: ['intermediate', 'advanced'],
+        styles: ['casual', 'narrative'],
+        text: 'I was at home when I heard about {meaning}, and I am still surprised.',
+        setting: 'Mind ser vs. estar and the preterite vs. the imperfect.',
+      },
+    ],
+  },
+  pt: {
+    name: 'Portuguese',
+    registers: {
+      ...DEFAULT_REGISTERS,
+      formal: 'Address the listener as o senhor or a senhora.',
+      casual: 'Use você, or tu where that is usual.',
+      business: 'Use o senhor or a senhora and a professional tone.',
+    },
+    frames: [
+      {
+        id: 'pt-future-subjunctive',
+        difficulties: ['advanced', 'expert'],
+        styles: ['casual', 'formal'],
+        text: 'When I have time, I will tell you everything about {meaning}.',
+        setting: 'Quando takes the future subjunctive here.',
+      },
+    ],
+  },
+  fr: {
+    name: 'French',
+    registers: {
+      ...DEFAULT_REGISTERS,
+      formal: 'Use vous.',
+      casual: 'Use tu.',
+      slang: 'Familiar French (on, ça) is welcome.',
+      business: 'Use vous and a professional tone.',
+    },
+    frames: [
+      {
+        id: 'fr-doubt-subjunctive',
+        difficulties: ['advanced', 'expert'],
+        styles: ['formal', 'casual'],
+        text: 'I think {meaning} matters, but I doubt that everyone agrees.',
+        setting: 'Douter que takes the subjunctive.',
+      },
+    ],
+  },
+  de: {
+    name: 'German',
+    registers: {
+      ...DEFAULT_REGISTERS,
+      formal: 'Use Sie.',
+      casual: 'Use du.',
+      business: 'Use Sie and a professional tone.',
+    },
+    frames: [
+      {
+        id: 'de-weil',
+        difficulties: ['intermediate', 'advanced'],
+        styles: ['casual', 'narrative'],
+        text: 'We stayed at home because {meaning} was too much for us.',
+        setting: 'After weil the verb goes to the end.',
+      },
+    ],
+  },
+};
+
+/** Pack for a language, falling back to generic registers for languages without one. */
+export const resolveLanguagePack = (languageCode: string): LanguagePack =>
+  LANGUAGE_PACKS[languageCode.toLowerCase()] ?? {
+    name: languageCode.toUpperCase(),
+    registers: DEFAULT_REGISTERS,
+    frames: [],
+  };
+
+const fill = (template: string, values: Record<string, string>) =>
+  template.replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match);
+
+/** Small stable string hash so picks depend on the seed, not on call order. */
+const hashString = (value: string): number =>
+  Array.from(value).reduce((hash, char) => (hash * 31 + char.charCodeAt(0)) % 2147483647, 7);
+
+type Template = { difficulties: TranslationDifficulty[]; styles: TranslationStyleTag[] };
+
+/**
+ * Narrows candidates to the difficulty tier, then to those sharing a style tag, relaxing each
+ * filter in turn when it would leave nothing.
+ */
+const selectCandidates = <T extends Template>(
+  candidates: T[],
+  difficulty: TranslationDifficulty,
+  styleTags: TranslationStyleTag[],
+): T[] => {
+  const atLevel = candidates.filter(candidate => candidate.difficulties.includes(difficulty));
+  const pool = atLevel.length > 0 ? atLevel : candidates;
+  const styled = pool.filter(candidate => candidate.styles.some(tag => styleTags.includes(tag)));
+  return styled.length > 0 ? styled : pool;
+};
+
+/**
+ * Renders the native-language prompt for one vocabulary item from the template catalogue.
+ * Dialogue-tagged prompts use a scenario the learner replies to; the rest use a sentence frame.
+ * Frames come from the shared catalogue plus the target language's pack, filtered by the
+ * session difficulty and the prompt's style tags; the register note for the first tag the
+ * language has one for is added to the context.
+ */
+export const renderTranslationPrompt = ({
+  vocab,
+  targetLanguage,
+  difficulty,
+  styleTags,
+  index,
+  seed,
+}: RenderPromptArgs): RenderedPrompt => {
+  const pack = resolveLanguagePack(targetLanguage);
+  const meaning = vocab.meaning.split(/[.;]/)[0]?.trim() || vocab.meaning;
+  const values = { meaning, term: vocab.term, language: pack.name };
+  const pick = <T>(candidates: T[]): T =>
+    candidates[(hashString(`${seed}:${vocab.id}`) + index) % candidates.length];
+
+  const registerNote = styleTags.map(tag => pack.registers[tag]).find(Boolean);
+  const buildContext = (setting: string) =>
+    [setting, registerNote, `Include ${vocab.term} explicitly.`].filter(Boolean).join(' ');
+
+  if (styleTags.includes('dialogue')) {
+    const scenario = pick(selectCandidates(DIALOGUE_SCENARIOS, difficulty, styleTags));
+    return {
+      nativeText: `${scenario.speaker}: "${scenario.line}"\nYou: ${fill(scenario.task, values)}`,
+      context: buildContext(scenario.setting),
+    };
+  }
+
+  const frame = pick(selectCandidates([...pack.frames, ...SENTENCE_FRAMES], difficulty, styleTags));
+  return {
+    nativeText: `Translate into ${pack.name}: "${fill(frame.text, values)}"`,
+    context: buildContext(frame.setting),
+  };
+};
+
+/**
+ * Renders a target → native prompt. From intermediate up, the item's first example sentence is
+ * the passage to read when a reference translation comes with it, so the answer can be graded
+ * against the whole sentence; otherwise the prompt asks for the term on its own.
+ */
+export const renderReversePrompt = ({
+  vocab,
+  nativeLanguage,
+  difficulty,
+  exampleTranslation,
+}: RenderReversePromptArgs): RenderedPrompt => {
+  const example = vocab.examples?.[0]?.trim();
+  const usePassage =
+    difficulty !== 'intro' && Boolean(example) && Boolean(exampleTranslation?.trim());
+  const passage = usePassage && example ? example : vocab.term;
+  const focus = usePassage ? `Focus on what ${vocab.term} means here.` : '';
+  return {
+    nativeText: `Translate into ${resolveLanguagePack(nativeLanguage).name}: "${passage}"`,
+    context: [focus, READING_NOTES[usePassage ? difficulty : 'intro']].filter(Boolean).join(' '),
+  };
+};
@@ -0,0 +1,138 @@
+import type {
+  LanguageProfile,
+  TranslationPitfallType,
+  TtxSession,
+  VocabItem,
+} from '../../contracts/models';
+import { TranslationPitfallTypeSchema } from '../../contracts/models';
+import { generateMockTranslationSession } from './mock-generator';
+
+type ErrorLedgerEntry = LanguageProfile['errorLedger'][number];
+
+/** Pitfalls a remediation session concentrates on. */
+export const DEFAULT_REMEDIATION_PITFALLS = 3;
+/** Prompts in a remediation session; translation sessions need at least five. */
+export const DEFAULT_REMEDIATION_SIZE = 6;
+
+/** Learner-facing names for each pitfall. */
+export const PITFALL_LABELS: Record<TranslationPitfallType, string> = {
+  false_cognate: 'False cognates',
+  gender: 'Noun gender',
+  aspect: 'Verb aspect',
+  register: 'Register',
+  agreement: 'Agreement',
+  word_order: 'Word order',
+  politeness: 'Politeness',
+};
+
+/** A pitfall the learner keeps running into, with the vocabulary it shows up on. */
+export interface RecurringMistake {
+  pitfall: TranslationPitfallType;
+  /** Times the pitfall was recorded across the ledger. */
+  count: number;
+  /** Affected vocabulary, most frequent first. */
+  vocabIds: string[];
+}
+
+export type GenerateRemediationSessionArgs = {
+  profile: LanguageProfile;
+  bankItems: VocabItem[];
+  questionCount?: number;
+  maxPitfalls?: number;
+};
+
+export type GenerateRemediationSessionResult =
+  | { type: 'ok'; session: TtxSession; mistakes: RecurringMistake[] }
+  | { type: 'empty'; message: string };
+
+const isPitfallType = (tag: string): tag is TranslationPitfallType =>
+  TranslationPitfallTypeSchema.safeParse(tag).success;
+
+/**
+ * Hits per tag for one ledger entry. Entries written before per-tag counts were kept only have
+ * the combined count, which is attributed to each of their tags.
+ */
+export const ledgerTagCounts = (entry: ErrorLedgerEntry): Record<string, number> =>
+  entry.tagCounts ?? Object.fromEntries(entry.errorTags.map(tag => [tag, entry.count]));
+
+/** Ranks the pitfalls in an error ledger by how often they were recorded. */
+export const findRecurringMistakes = (
+  ledger: ErrorLedgerEntry[],
+  limit = DEFAULT_REMEDIATION_PITFALLS,
+): RecurringMistake[] => {
+  const byPitfall = new Map<TranslationPitfallType, Map<string, number>>();
+  ledger.forEach(entry => {
+    Object.entries(ledgerTagCounts(entry)).forEach(([tag, count]) => {
+      if (!isPitfallType(tag) || count <= 0) {
+        return;
+      }
+      const vocab = byPitfall.get(tag) ?? new Map<string, number>();
+      vocab.set(entry.vocabId, (vocab.get(entry.vocabId) ?? 0) + count);
+      byPitfall.set(tag, vocab);
+    });
+  });
+
+  return Array.from(byPitfall.entries())
+    .map(([pitfall, vocab]) => ({
+      pitfall,
+      count: Array.from(vocab.values()).reduce((sum, count) => sum + count, 0),
+      vocabIds: Array.from(vocab.entries())
+        .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+        .map(([vocabId]) => vocabId),
+    }))
+    .sort((a, b) => b.count - a.count || a.pitfall.localeCompare(b.pitfall))
+    .slice(0, limit);
+};
+
+/**
+ * Builds a translation session that drills the learner's most frequent pitfalls on the words
+ * they were made on. Prompts rotate through the pitfalls so each gets its share, and every
+ * prompt pairs a word with the pitfall it was missed on. With fewer affected words than
+ * prompts, the words come round again.
+ */
+export const generateRemediationSession = ({
+  profile,
+  bankItems,
+  questionCount = DEFAULT_REMEDIATION_SIZE,
+  maxPitfalls = DEFAULT_REMEDIATION_PITFALLS,
+}: GenerateRemediationSessionArgs): GenerateRemediationSessionResult => {
+  const bankById = new Map(bankItems.map(item => [item.id, item]));
+  const mistakes = findRecurringMistakes(profile.errorLedger, maxPitfalls)
+    .map(mistake => ({
+      ...mistake,
+      vocabIds: mistake.vocabIds.filter(vocabId => bankById.has(vocabId)),
+    }))
+    .filter(mistake => mistake.vocabIds.length > 0);
+
+  if (mistakes.length === 0) {
+    return {
+      type: 'empty',
+      message: 'No recurring mistakes yet. Keep practicing translations to build up a picture.',
+    };
+  }
+
+  const vocabPool: VocabItem[] = [];
+  const focusPitfalls: TranslationPitfallType[] = [];
+  const longest = Math.max(...mistakes.map(mistake => mistake.vocabIds.length));
+  for (let round = 0; round < longest && vocabPool.length < questionCount; round += 1) {
+    for (const mistake of mistakes) {
+      const vocab = bankById.get(mistake.vocabIds[round]);
+      if (vocab && vocabPool.length < questionCount) {
+        vocabPool.push(vocab);
+        focusPitfalls.push(mistake.pitfall);
+      }
+    }
+  }
+
+  const session = generateMockTranslationSession({
+    profile,
+    vocabPool,
+    styleMix: profile.stylePreferences,
+    topicTags: ['remediation', ...mistakes.map(mistake => mistake.pitfall)],
+    reviewMode: 'review_only',
+    questionCount,
+    focusPitfalls,
+  });
+
+  return { type: 'ok', session, mistakes };
+};
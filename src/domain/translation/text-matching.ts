@@ -0,0 +1,96 @@
+/** Combining marks left behind by canonical decomposition (accents, tildes, cedillas...). */
+const COMBINING_MARKS = /[\u0300-\u036f]/g;
+/** Punctuation that never changes whether a translation is right. */
+const PUNCTUATION_CLASS = '[.,!?¡¿;:"“”„«»()\\[\\]{}…–—]';
+const PUNCTUATION = new RegExp(PUNCTUATION_CLASS, 'g');
+/** Punctuation at either end of a word. */
+const EDGE_PUNCTUATION = new RegExp(`^${PUNCTUATION_CLASS}+|${PUNCTUATION_CLASS}+$`, 'g');
+/** Typographic apostrophes folded onto the ASCII one. */
+const APOSTROPHES = /[’‘`´]/g;
+
+/** How closely a learner token matches an expected one, from best to worst. */
+export type TokenMatch = 'exact' | 'accent' | 'typo' | 'different';
+
+/** Lowercases, composes to NFC and strips punctuation so equal words compare equal. */
+export const normaliseText = (value: string): string =>
+  value
+    .normalize('NFC')
+    .toLowerCase()
+    .replace(APOSTROPHES, "'")
+    .replace(PUNCTUATION, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+/** Removes diacritics: "está" → "esta", "ñ" → "n". */
+export const foldDiacritics = (value: string): string =>
+  value.normalize('NFD').replace(COMBINING_MARKS, '').normalize('NFC');
+
+/** Splits text into normalised word tokens. */
+export const tokenize = (value: string): string[] => {
+  const normalised = normaliseText(value);
+  return normalised ? normalised.split(' ') : [];
+};
+
+/** A normalised token with the text the writer actually typed. */
+export type Word = {
+  token: string;
+  /** Original spelling and case, without surrounding punctuation. */
+  text: string;
+};
+
+/** Splits text into normalised tokens, keeping each one's original spelling for display. */
+export const splitWords = (value: string): Word[] =>
+  value
+    .split(/\s+/)
+    .filter(Boolean)
+    .flatMap(chunk => {
+      const tokens = tokenize(chunk);
+      if (tokens.length !== 1) {
+        return tokens.map(token => ({ token, text: token }));
+      }
+      const text = chunk.normalize('NFC').replace(EDGE_PUNCTUATION, '');
+      return [{ token: tokens[0], text: text || tokens[0] }];
+    });
+
+/** Levenshtein distance between two strings. */
+export const editDistance = (a: string, b: string): number => {
+  if (a === b) {
+    return 0;
+  }
+  let previousRow = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i += 1) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j += 1) {
+      const substitution = previousRow[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      row.push(Math.min(previousRow[j] + 1, row[j - 1] + 1, substitution));
+    }
+    previousRow = row;
+  }
+  return previousRow[b.length];
+};
+
+/** Typos forgiven for a word of the given length: none for short words, two for long ones. */
+export const allowedTypos = (length: number): number => {
+  if (length <= 3) {
+    return 0;
+  }
+  return length <= 7 ? 1 : 2;
+};
+
+/**
+ * Compares normalised tokens. Differences only in diacritics are an accent slip; small edit
+ * distances (after folding) are typos; anything else is a different word.
+ */
+export const compareTokens = (expected: string, received: string): TokenMatch => {
+  if (expected === received) {
+    return 'exact';
+  }
+  const foldedExpected = foldDiacritics(expected);
+  const foldedReceived = foldDiacritics(received);
+  if (foldedExpected === foldedReceived) {
+    return 'accent';
+  }
+  return editDistance(foldedExpected, foldedReceived) <= allowedTypos(foldedExpected.length)
+    ? 'typo'
+    : 'different';
+};
@@ -1,4 +1,5 @@
-import type { ReviewMode, VocabItem } from '../../contracts/models';
+import type { ReviewMode, SrsTrack, VocabItem } from '../../contracts/models';
+import { describeShortReviewPool, prioritiseSessionItems } from '../selectors/session-priority';
 
 export type VocabSelectionResult =
   | { type: 'ok'; items: VocabItem[] }
@@ -12,6 +13,14 @@ type BuildParams = {
   targetLanguage: string;
   difficulty: string;
   topic?: string;
+  /** Scheduling track the activity trains; decides which items count as seen. */
+  track?: SrsTrack;
+  /** Current moment; buried items stay out until their bury expires. */
+  now?: Date;
+  /** Maximum new items introduced per day on the track; defaults apply when unset. */
+  dailyNewCardLimit?: number;
+  /** Random source used to weight overdue items; injectable for tests. */
+  random?: () => number;
 };
 
 export const buildVocabSelection = ({
@@ -21,10 +30,19 @@ export const buildVocabSelection = ({
   targetLanguage,
   difficulty,
   topic,
+  track = 'recognition',
+  now = new Date(),
+  dailyNewCardLimit,
+  random,
 }: BuildParams): VocabSelectionResult => {
-  const shuffled = shuffleItems(savedVocab);
-  const unseen = shuffled.filter(item => !item.srsData || !item.srsData.lastReviewedAt);
-  const seen = shuffled.filter(item => item.srsData?.lastReviewedAt);
+  const { due, upcoming, newItems, heldBackNewCount, later } = prioritiseSessionItems(savedVocab, {
+    now,
+    track,
+    dailyNewCardLimit,
+    random,
+  });
+  // Due work first, then upcoming, then today's new items, then everything else
+  const ordered = [...due, ...upcoming, ...newItems, ...later];
 
   const pullFromBank = (source: VocabItem[], count: number, used: Set<string>) => {
     const picked: VocabItem[] = [];
@@ -48,11 +66,10 @@ export const buildVocabSelection = ({
         message: 'No saved vocabulary yet. Add words to your bank or switch to new vocabulary.',
       };
     }
-    const ordered = [...unseen, ...seen];
     if (ordered.length < questionCount) {
       return {
         type: 'insufficient',
-        message: `Only ${ordered.length} saved items available. Reduce question count or add more words.`,
+        message: describeShortReviewPool(ordered.length, heldBackNewCount),
       };
     }
     return { type: 'ok', items: ordered.slice(0, questionCount) };
@@ -61,10 +78,9 @@ export const buildVocabSelection = ({
   if (reviewMode === 'mixed') {
     const half = Math.max(1, Math.floor(questionCount / 2));
     const used = new Set<string>();
-    const pool = [...unseen, ...seen];
-    const reviewItems = pullFromBank(pool, half, used);
+    const reviewItems = pullFromBank(ordered, half, used);
     const remaining = Math.max(questionCount - reviewItems.length, 0);
-    const bankFill = pullFromBank(pool, remaining, used);
+    const bankFill = pullFromBank(ordered, remaining, used);
     if (reviewItems.length + bankFill.length === questionCount) {
       return { type: 'ok', items: [...reviewItems, ...bankFill] };
     }
@@ -74,16 +90,16 @@ export const buildVocabSelection = ({
   }
 
   const used = new Set<string>();
-  const newItems = pullFromBank(unseen, questionCount, used);
-  if (newItems.length === questionCount) {
-    return { type: 'ok', items: newItems };
+  const pickedNew = pullFromBank(newItems, questionCount, used);
+  if (pickedNew.length === questionCount) {
+    return { type: 'ok', items: pickedNew };
   }
-  const synthetic = createSyntheticVocab(questionCount - newItems.length, {
+  const synthetic = createSyntheticVocab(questionCount - pickedNew.length, {
     targetLanguage,
     difficulty,
     topic,
   });
-  return { type: 'ok', items: [...newItems, ...synthetic] };
+  return { type: 'ok', items: [...pickedNew, ...synthetic] };
 };
 
 export const createSyntheticVocab = (
@@ -111,12 +127,3 @@ export const createSyntheticVocab = (
       srsData: undefined,
     };
   });
-
-const shuffleItems = <T,>(items: T[]): T[] => {
-  const copy = [...items];
-  for (let i = copy.length - 1; i > 0; i -= 1) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [copy[i], copy[j]] = [copy[j], copy[i]];
-  }
-  return copy;
-};
@@ -0,0 +1,264 @@
+import React, { useMemo, useState } from 'react';
+import { Alert, FlatList, Modal, Pressable, StyleSheet, Text, TextInput, View } from 'react-native';
+import type { ChatThread } from '@/contracts/models';
+import { describeThreadTitle, searchChatThreads } from '@/domain/chat/threads';
+import { useTheme, type ThemeColors } from '@/shared/theme/theme';
+import { useThemeStyles } from '@/shared/theme/useThemeStyles';
+import { spacing, radii, typography, fontFamilies } from '@/shared/theme/tokens';
+
+interface ChatThreadsModalProps {
+  visible: boolean;
+  threads: ChatThread[];
+  activeThreadId?: string;
+  onSelect: (threadId: string) => void;
+  onNew: () => void;
+  onRename: (threadId: string, title: string) => void;
+  onDelete: (threadId: string) => void;
+  onClose: () => void;
+}
+
+/** Lists a profile's chat threads so the learner can search, reopen, rename or delete them. */
+const ChatThreadsModal: React.FC<ChatThreadsModalProps> = ({
+  visible,
+  threads,
+  activeThreadId,
+  onSelect,
+  onNew,
+  onRename,
+  onDelete,
+  onClose,
+}) => {
+  const styles = useThemeStyles(createStyles);
+  const { colors } = useTheme();
+  const [query, setQuery] = useState('');
+  const [editing, setEditing] = useState<{ threadId: string; title: string } | null>(null);
+
+  const visibleThreads = useMemo(
+    () =>
+      searchChatThreads(
+        threads.filter(thread => thread.messages.length > 0 || thread.id === activeThreadId),
+        query,
+      ),
+    [threads, activeThreadId, query],
+  );
+
+  const saveTitle = () => {
+    if (editing) {
+      onRename(editing.threadId, editing.title);
+      setEditing(null);
+    }
+  };
+
+  const confirmDelete = (thread: ChatThread) => {
+    Alert.alert('Delete conversation?', `"${describeThreadTitle(thread)}" will be removed.`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Delete', style: 'destructive', onPress: () => onDelete(thread.id) },
+    ]);
+  };
+
+  const renderThread = ({ item }: { item: ChatThread }) => {
+    const isActive = item.id === activeThreadId;
+    const isEditing = editing?.threadId === item.id;
+    return (
+      <Pressable
+        onPress={() => {
+          onSelect(item.id);
+          onClose();
+        }}
+        style={[styles.threadCard, isActive && styles.threadCardActive]}
+        accessibilityRole="button"
+      >
+        {isEditing ? (
+          <TextInput
+            value={editing.title}
+            onChangeText={title => setEditing({ threadId: item.id, title })}
+            onSubmitEditing={saveTitle}
+            onBlur={saveTitle}
+            placeholder={describeThreadTitle(item)}
+            placeholderTextColor={colors.textSecondary}
+            style={styles.titleInput}
+            autoFocus
+            returnKeyType="done"
+          />
+        ) : (
+          <Text style={styles.threadTitle} numberOfLines={1}>
+            {describeThreadTitle(item)}
+          </Text>
+        )}
+        <Text style={styles.threadMeta}>
+          {item.mode === 'tutor' ? 'Tutor' : 'Dictionary'} · {item.messages.length} messages ·{' '}
+          {new Date(item.updatedAt).toLocaleDateString()}
+        </Text>
+        <View style={styles.threadActions}>
+          <Pressable
+            onPress={() => setEditing({ threadId: item.id, title: item.title })}
+            accessibilityRole="button"
+          >
+            <Text style={styles.actionLabel}>Rename</Text>
+          </Pressable>
+          {item.messages.length > 0 ? (
+            <Pressable onPress={() => confirmDelete(item)} accessibilityRole="button">
+              <Text style={styles.deleteLabel}>Delete</Text>
+            </Pressable>
+          ) : null}
+        </View>
+      </Pressable>
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.title}>Conversations</Text>
+          <Pressable onPress={onClose} hitSlop={16}>
+            <Text style={styles.closeText}>Done</Text>
+          </Pressable>
+        </View>
+        <View style={styles.toolbar}>
+          <TextInput
+            value={query}
+            onChangeText={setQuery}
+            placeholder="Search conversations…"
+            placeholderTextColor={colors.textSecondary}
+            style={styles.searchInput}
+            accessibilityLabel="Search conversations"
+          />
+          <Pressable
+            onPress={() => {
+              onNew();
+              onClose();
+            }}
+            style={styles.newButton}
+            accessibilityRole="button"
+          >
+            <Text style={styles.newLabel}>New</Text>
+          </Pressable>
+        </View>
+        <FlatList
+          data={visibleThreads}
+          keyExtractor={item => item.id}
+          renderItem={renderThread}
+          contentContainerStyle={styles.listContent}
+          keyboardShouldPersistTaps="handled"
+          ListEmptyComponent={
+            <Text style={styles.emptyText}>
+              {query.trim() ? 'No conversations match your search.' : 'No conversations yet.'}
+            </Text>
+          }
+        />
+      </View>
+    </Modal>
+  );
+};
+
+export default ChatThreadsModal;
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      paddingTop: spacing.block,
+      backgroundColor: colors.background,
+    },
+    header: {
+      paddingHorizontal: spacing.block,
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      marginBottom: spacing.base,
+    },
+    title: {
+      ...typography.title,
+      fontFamily: fontFamilies.plexSerif.semibold,
+      color: colors.textPrimary,
+    },
+    closeText: {
+      ...typography.bodyStrong,
+      fontFamily: fontFamilies.sans.semibold,
+      color: colors.accent,
+    },
+    toolbar: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 12,
+      paddingHorizontal: spacing.block,
+      paddingVertical: spacing.base,
+    },
+    searchInput: {
+      flex: 1,
+      borderRadius: radii.surface,
+      borderWidth: StyleSheet.hairlineWidth,
+      borderColor: colors.border,
+      paddingHorizontal: 16,
+      paddingVertical: 10,
+      ...typography.body,
+      color: colors.textPrimary,
+      backgroundColor: colors.surface,
+    },
+    newButton: {
+      borderRadius: radii.control,
+      paddingHorizontal: 16,
+      paddingVertical: 10,
+      backgroundColor: colors.accent,
+    },
+    newLabel: {
+      ...typography.caption,
+      color: colors.textOnAccent,
+      fontFamily: fontFamilies.sans.medium,
+    },
+    listContent: {
+      paddingHorizontal: spacing.block,
+      paddingBottom: spacing.block,
+      gap: 12,
+    },
+    threadCard: {
+      borderRadius: radii.surface,
+      padding: 16,
+      gap: 6,
+      backgroundColor: colors.surface,
+      borderWidth: StyleSheet.hairlineWidth,
+      borderColor: colors.border,
+    },
+    threadCardActive: {
+      borderColor: colors.accent,
+    },
+    threadTitle: {
+      ...typography.bodyStrong,
+      color: colors.textPrimary,
+    },
+    titleInput: {
+      ...typography.bodyStrong,
+      color: colors.textPrimary,
+      borderBottomWidth: StyleSheet.hairlineWidth,
+      borderBottomColor: colors.accent,
+      paddingVertical: 2,
+    },
+    threadMeta: {
+      ...typography.caption,
+      color: colors.textSecondary,
+    },
+    threadActions: {
+      flexDirection: 'row',
+      gap: 16,
+    },
+    actionLabel: {
+      ...typography.caption,
+      color: colors.accent,
+    },
+    deleteLabel: {
+      ...typography.caption,
+      color: colors.error,
+    },
+    emptyText: {
+      ...typography.body,
+      color: colors.textSecondary,
+      textAlign: 'center',
+      marginTop: spacing.block,
+    },
+  });
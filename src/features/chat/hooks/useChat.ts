@@ -1,75 +1,129 @@
-import { useState, useCallback } from 'react';
-import { v4 as uuidv4 } from 'uuid';
-import { useNavigation } from '@react-navigation/native';
+import { useCallback, useEffect, useMemo } from 'react';
+import type { ChatMessage, ChatMode, ChatThread } from '@/contracts/models';
+import { useChatThreadStore } from '@/state/chat-thread.store';
 
-export const useChat = () => {
-  const navigation = useNavigation();
-  const [messages, setMessages] = useState([]);
-  const [newMessage, setNewMessage] = useState('');
-  const [isSending, setIsSending] = useState(false);
-  const [isRecording, setIsRecording] = useState(false);
-  const [isTyping, setIsTyping] = useState(false);
-  const [showOnboarding, setShowOnboarding] = useState(true);
+const NO_MESSAGES: ChatMessage[] = [];
 
-  const isFirstMessage = messages.length === 0;
+export type ChatController = {
+  /** Thread open in the chat screen; null until threads have loaded. */
+  thread: ChatThread | null;
+  messages: ChatMessage[];
+  mode: ChatMode;
+  setMode: (mode: ChatMode) => void;
+  /**
+   * Updates the messages of the thread that is open when this is called. Replies that arrive
+   * later still land in that thread if the learner has switched to another one.
+   */
+  setMessages: (updater: (messages: ChatMessage[]) => ChatMessage[]) => void;
+  /** Replaces a message in whichever of the saved threads holds it. */
+  replaceMessage: (messageId: string, message: ChatMessage) => void;
+  /** Whether saved threads have loaded. */
+  isLoaded: boolean;
+  /** The profile's threads, most recently updated first. */
+  threads: ChatThread[];
+  startThread: () => void;
+  selectThread: (threadId: string) => void;
+  renameThread: (threadId: string, title: string) => void;
+  deleteThread: (threadId: string) => void;
+};
 
-  const addMessage = (message) => {
-    setMessages((prevMessages) => [...prevMessages, message]);
-  };
+/**
+ * Binds the chat screen to the saved threads of a language profile, opening the profile's most
+ * recent thread once both threads and profiles have loaded.
+ */
+export const useChat = (profileId: string | undefined, isProfileReady: boolean): ChatController => {
+  const allThreads = useChatThreadStore(state => state.threads);
+  const activeThreadId = useChatThreadStore(state => state.activeThreadId);
+  const isLoaded = useChatThreadStore(state => state.isLoaded);
+  const loadThreads = useChatThreadStore(state => state.loadThreads);
+  const openProfileThread = useChatThreadStore(state => state.openProfileThread);
+  const startProfileThread = useChatThreadStore(state => state.startThread);
+  const selectThread = useChatThreadStore(state => state.selectThread);
+  const renameStoredThread = useChatThreadStore(state => state.renameThread);
+  const deleteStoredThread = useChatThreadStore(state => state.deleteThread);
+  const setThreadMode = useChatThreadStore(state => state.setThreadMode);
+  const updateMessages = useChatThreadStore(state => state.updateMessages);
+  const replaceStoredMessage = useChatThreadStore(state => state.replaceMessage);
+
+  useEffect(() => {
+    loadThreads().catch(() => undefined);
+  }, [loadThreads]);
 
-  const handleSend = useCallback(async () => {
-    if (newMessage.trim() === '') {
-      return;
+  // Also reopens a thread after the open one is deleted.
+  useEffect(() => {
+    if (isLoaded && isProfileReady) {
+      openProfileThread(profileId);
     }
-    const userMessage = {
-      id: uuidv4(),
-      text: newMessage,
-      isUser: true,
-      timestamp: new Date().toISOString(),
-    };
-    addMessage(userMessage);
-    setNewMessage('');
-    setIsSending(true);
-    // TODO: Implement the logic to send the message to the backend
-    // and receive the response.
-    // For now, we'll just simulate a response.
-    setTimeout(() => {
-      const botResponse = {
-        id: uuidv4(),
-        text: `I'm a bot. I received your message: "${newMessage}"`,
-        isUser: false,
-        timestamp: new Date().toISOString(),
-      };
-      addMessage(botResponse);
-      setIsSending(false);
-    }, 1000);
-  }, [newMessage, addMessage]);
+  }, [isLoaded, isProfileReady, profileId, activeThreadId, openProfileThread]);
+
+  const thread = useMemo(
+    () => allThreads.find(entry => entry.id === activeThreadId) ?? null,
+    [allThreads, activeThreadId],
+  );
+
+  const threads = useMemo(
+    () => allThreads.filter(entry => !entry.profileId || entry.profileId === profileId),
+    [allThreads, profileId],
+  );
+
+  const threadId = thread?.id;
+  const mode = thread?.mode ?? 'dictionary';
+
+  const setMode = useCallback(
+    (next: ChatMode) => {
+      if (threadId) {
+        setThreadMode(threadId, next).catch(() => undefined);
+      }
+    },
+    [threadId, setThreadMode],
+  );
+
+  const setMessages = useCallback(
+    (updater: (messages: ChatMessage[]) => ChatMessage[]) => {
+      if (threadId) {
+        updateMessages(threadId, updater).catch(() => undefined);
+      }
+    },
+    [threadId, updateMessages],
+  );
+
+  const replaceMessage = useCallback(
+    (messageId: string, message: ChatMessage) => {
+      replaceStoredMessage(messageId, message).catch(() => undefined);
+    },
+    [replaceStoredMessage],
+  );
 
-  const handleRecord = useCallback(() => {
-    setIsRecording(!isRecording);
-    // TODO: Implement the logic to start/stop recording audio.
-  }, [isRecording]);
+  const startThread = useCallback(() => {
+    startProfileThread(profileId, mode);
+  }, [startProfileThread, profileId, mode]);
 
-  const handleTyping = useCallback(() => {
-    setIsTyping(!isTyping);
-  }, [isTyping]);
+  const renameThread = useCallback(
+    (id: string, title: string) => {
+      renameStoredThread(id, title).catch(() => undefined);
+    },
+    [renameStoredThread],
+  );
 
-  const handleCloseOnboarding = useCallback(() => {
-    setShowOnboarding(false);
-  }, []);
+  const deleteThread = useCallback(
+    (id: string) => {
+      deleteStoredThread(id).catch(() => undefined);
+    },
+    [deleteStoredThread],
+  );
 
   return {
-    messages,
-    newMessage,
-    setNewMessage,
-    isSending,
-    isRecording,
-    isTyping,
-    isFirstMessage,
-    showOnboarding,
-    handleSend,
-    handleRecord,
-    handleTyping,
-    handleCloseOnboarding,
+    thread,
+    messages: thread?.messages ?? NO_MESSAGES,
+    mode,
+    setMode,
+    setMessages,
+    replaceMessage,
+    isLoaded,
+    threads,
+    startThread,
+    selectThread,
+    renameThread,
+    deleteThread,
   };
-};
\ No newline at end of file
+};
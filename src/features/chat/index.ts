@@ -1,2 +1,4 @@
 export * from './screens';
+export * from './hooks';
+export * from './components';
 export * from './utils';
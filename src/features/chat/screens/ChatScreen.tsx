@@ -19,68 +19,71 @@ import ScreenHeader from '@/shared/components/ScreenHeader';
 import ScreenContainer from '@/shared/components/ScreenContainer';
 import { spacing, radii, typography, shadows, fontFamilies } from '@/shared/theme/tokens';
 import type { MainTabsParamList, RootStackParamList } from '@/navigation/types';
-import { aiTutorService } from '@/services/container';
+import { aiTutorService, dictionaryService } from '@/services/container';
 import { useOfflineStore } from '@/state/offline.store';
+import { shouldQueueAiRequests, useAiOutboxStore } from '@/state/ai-outbox.store';
 import { useBankStore } from '@/state/bank.store';
 import { useNotesStore } from '@/state/notes.store';
 import { useMemoryStore } from '@/state/memory.store';
+import { summariseExchange } from '@/domain/memory/memory-graph';
+import {
+  buildDictionaryMessage,
+  buildQueuedReply,
+  DEFAULT_THREAD_TITLE,
+  describeThreadTitle,
+  formatThreadContext,
+} from '@/domain/chat/threads';
 import { useFolderStore } from '@/state/folder.store';
 import { useTheme, type ThemeColors } from '@/shared/theme/theme';
 import { useThemeStyles } from '@/shared/theme/useThemeStyles';
 import { useLanguageProfileStore } from '@/state/language-profile.store';
-import type { LanguageProfile } from '@/contracts/models';
+import type {
+  ChatMessage,
+  DictionaryChatMessage,
+  DictionaryChatSense,
+  LanguageProfile,
+  TutorChatMessage,
+  UserChatMessage,
+  VocabItem,
+} from '@/contracts/models';
+import type { DictionaryLookupResult, TutorChatTurn } from '@/contracts/services';
 import LanguageFlagButton from '@/shared/components/LanguageFlagButton';
 import LanguageSwitcherModal from '@/shared/components/LanguageSwitcherModal';
-import { resolveFlagGlyph } from '@/data/language-library';
-import { guessInputLanguage } from '../utils/language-detection';
+import { findLanguageOption, resolveFlagGlyph } from '@/data/language-library';
+import { detectInputLanguage } from '../utils/language-detection';
+import { useChat } from '../hooks/useChat';
+import ChatThreadsModal from '../components/ChatThreadsModal';
 
 type ChatNavigation = CompositeNavigationProp<
   BottomTabNavigationProp<MainTabsParamList, 'Chat'>,
   NativeStackNavigationProp<RootStackParamList>
 >;
 
-type ChatMode = 'dictionary' | 'tutor';
-
-interface UserMessage {
-  id: string;
-  role: 'user';
-  mode: ChatMode;
-  content: string;
-}
-
-interface DictionaryMessage {
-  id: string;
-  role: 'assistant';
-  mode: 'dictionary';
-  headword: string;
-  translation: string;
-  definitions: string[];
-  examples: string[];
-  sourceLanguage: string;
-  targetLanguage: string;
-  inputLanguage: 'native' | 'target';
-  bankItemId?: string;
-  savedToNotes?: boolean;
-  folders: string[];
-}
-
-interface TutorMessage {
-  id: string;
-  role: 'assistant';
-  mode: 'tutor';
-  content: string;
-  understood: boolean;
-}
-
-type ChatMessage = UserMessage | DictionaryMessage | TutorMessage;
-
 const generateId = () => `chat-${Math.random().toString(36).slice(2, 10)}`;
 
+/** Earlier tutor-mode messages sent along with a question, so the tutor can follow up. */
+const MAX_TUTOR_TURNS = 12;
+
+const buildTutorTurns = (messages: ChatMessage[]): TutorChatTurn[] =>
+  messages
+    .filter(
+      (message): message is UserChatMessage | TutorChatMessage =>
+        message.mode === 'tutor' &&
+        !(message.role === 'assistant' && message.isQueued) &&
+        message.content.trim().length > 0,
+    )
+    .slice(-MAX_TUTOR_TURNS)
+    .map(message => ({
+      role: message.role === 'user' ? 'learner' : 'tutor',
+      content: message.content,
+    }));
+
 const normaliseTerm = (value: string): string => value.trim().toLowerCase();
 
 const resolveLanguageDirections = (
   value: string,
   profile?: LanguageProfile,
+  override?: 'native' | 'target',
 ): {
   sourceLanguage: string;
   targetLanguage: string;
@@ -94,7 +97,7 @@ const resolveLanguageDirections = (
     };
   }
 
-  const inputLanguage = guessInputLanguage(value, profile);
+  const inputLanguage = override ?? detectInputLanguage(value, profile).inputLanguage;
   const sourceLanguage =
     inputLanguage === 'target'
       ? profile.targetLanguage
@@ -107,6 +110,65 @@ const resolveLanguageDirections = (
   return { sourceLanguage, targetLanguage, inputLanguage };
 };
 
+/** Most usage examples shown on a card filled from the offline dictionary. */
+const MAX_DICTIONARY_EXAMPLES = 4;
+
+const describeSense = (sense: DictionaryChatSense) =>
+  [sense.partOfSpeech, sense.gender].filter(Boolean).join(', ');
+
+/**
+ * Fills a dictionary card from an offline lookup. A lookup in the pack's own direction shows
+ * the headword with its senses; a reversed lookup lists the headwords whose glosses matched.
+ */
+const buildOfflineDictionaryMessage = (
+  text: string,
+  lookup: DictionaryLookupResult,
+  directions: ReturnType<typeof resolveLanguageDirections>,
+  existingFor: (headword: string) => VocabItem | undefined,
+): DictionaryChatMessage => {
+  const [first] = lookup.entries;
+  const headword = lookup.reversed ? text : first.headword;
+  const senses: DictionaryChatSense[] = lookup.reversed
+    ? lookup.entries.map(entry => ({
+        text: entry.headword,
+        partOfSpeech: entry.partOfSpeech,
+        gender: entry.gender,
+      }))
+    : lookup.entries
+        .filter(entry => entry.headword === first.headword)
+        .flatMap(entry =>
+          entry.senses.map(sense => ({
+            text: sense.gloss,
+            partOfSpeech: entry.partOfSpeech,
+            gender: entry.gender,
+          })),
+        );
+  const examples = lookup.entries
+    .flatMap(entry => entry.senses.flatMap(sense => sense.examples))
+    .slice(0, MAX_DICTIONARY_EXAMPLES)
+    .map(example =>
+      lookup.reversed
+        ? `${example.target} → ${example.source}`
+        : `${example.source} → ${example.target}`,
+    );
+  const existing = existingFor(headword);
+
+  return {
+    id: generateId(),
+    role: 'assistant',
+    mode: 'dictionary',
+    headword,
+    translation: senses[0].text,
+    definitions: senses.map(sense => `${sense.text} (${describeSense(sense)})`),
+    examples,
+    ...directions,
+    bankItemId: existing?.id,
+    folders: existing?.folders ?? [],
+    senses,
+    selectedSense: 0,
+  };
+};
+
 const buildTranslationContext = (profile?: LanguageProfile) => {
   if (!profile) {
     return undefined;
@@ -122,9 +184,7 @@ const ChatScreen: React.FC = () => {
   const navigation = useNavigation<ChatNavigation>();
   const styles = useThemeStyles(createStyles);
   const { colors } = useTheme();
-  const [mode, setMode] = useState<ChatMode>('dictionary');
   const [input, setInput] = useState('');
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
   const [pendingBankIds, setPendingBankIds] = useState<Record<string, boolean>>({});
   const [pendingNoteIds, setPendingNoteIds] = useState<Record<string, boolean>>({});
@@ -135,8 +195,14 @@ const ChatScreen: React.FC = () => {
   const [newFolderName, setNewFolderName] = useState('');
   const [folderError, setFolderError] = useState<string | null>(null);
   const [isSwitcherVisible, setIsSwitcherVisible] = useState(false);
+  const [isThreadListVisible, setIsThreadListVisible] = useState(false);
+  // Set from the direction chip when the detected input language was a low-confidence guess.
+  const [directionOverride, setDirectionOverride] = useState<'native' | 'target' | null>(null);
 
   const isOffline = useOfflineStore(state => state.isOffline);
+  const deliveries = useAiOutboxStore(state => state.deliveries);
+  const enqueueAiRequest = useAiOutboxStore(state => state.enqueue);
+  const acknowledgeDelivery = useAiOutboxStore(state => state.acknowledgeDelivery);
   const bankItems = useBankStore(state => state.items);
   const loadBank = useBankStore(state => state.loadBank);
   const addBankItem = useBankStore(state => state.addBankItem);
@@ -144,6 +210,8 @@ const ChatScreen: React.FC = () => {
   const updateFolders = useBankStore(state => state.updateFolders);
   const createNote = useNotesStore(state => state.createNote);
   const logUnderstanding = useMemoryStore(state => state.logUnderstanding);
+  const loadMemory = useMemoryStore(state => state.loadMemory);
+  const getMemoryContext = useMemoryStore(state => state.getMemoryContext);
   const folders = useFolderStore(state => state.folders);
   const loadFolders = useFolderStore(state => state.loadFolders);
   const addFolder = useFolderStore(state => state.addFolder);
@@ -153,8 +221,23 @@ const ChatScreen: React.FC = () => {
     loadProfiles,
     isLoaded: profilesLoaded,
   } = useLanguageProfileStore();
+  const {
+    thread,
+    messages,
+    mode,
+    setMode,
+    setMessages,
+    replaceMessage,
+    isLoaded: threadsLoaded,
+    threads,
+    startThread,
+    selectThread,
+    renameThread,
+    deleteThread,
+  } = useChat(activeProfileId ?? undefined, profilesLoaded);
   const flatListRef = useRef<FlatList<ChatMessage>>(null);
   const composerInputRef = useRef<TextInput>(null);
+  const tutorReplyRef = useRef<AbortController | null>(null);
 
   useEffect(() => {
     loadBank().catch(() => undefined);
@@ -170,6 +253,10 @@ const ChatScreen: React.FC = () => {
     loadFolders().catch(() => undefined);
   }, [loadFolders]);
 
+  useEffect(() => {
+    loadMemory().catch(() => undefined);
+  }, [loadMemory]);
+
   const activeProfile = useMemo(
     () => (activeProfileId ? profiles[activeProfileId] : undefined),
     [activeProfileId, profiles],
@@ -180,6 +267,19 @@ const ChatScreen: React.FC = () => {
     [activeProfile],
   );
 
+  /**
+   * Profile context, words looked up earlier in the thread, and the understood explanations
+   * closest to the learner's last question.
+   */
+  const buildTutorContext = (conversation: ChatMessage[]) => {
+    const question = [...conversation].reverse().find(entry => entry.role === 'user')?.content;
+    const memoryContext = getMemoryContext(activeProfile?.profileId, question);
+    const threadContext = formatThreadContext(conversation);
+    return (
+      [translationContext, threadContext, memoryContext].filter(Boolean).join('\n\n') || undefined
+    );
+  };
+
   const activeFlag = useMemo(
     () => resolveFlagGlyph(activeProfile?.targetLanguage, activeProfile?.targetRegion),
     [activeProfile?.targetLanguage, activeProfile?.targetRegion],
@@ -234,11 +334,31 @@ const ChatScreen: React.FC = () => {
         };
       }),
     );
-  }, [bankItemsForProfile]);
+  }, [bankItemsForProfile, setMessages]);
+
+  const findBankItem = React.useCallback(
+    (term: string) =>
+      bankItemsForProfile.find(item => item.term.toLowerCase() === term.toLowerCase()),
+    [bankItemsForProfile],
+  );
+
+  const inputDetection = useMemo(
+    () => (input.trim() ? detectInputLanguage(input, activeProfile) : null),
+    [input, activeProfile],
+  );
+  const readingAs = directionOverride ?? inputDetection?.inputLanguage;
+  const showDirectionChip = Boolean(
+    activeProfile && inputDetection && (directionOverride || !inputDetection.isConfident),
+  );
+  const readingAsLabel = activeProfile
+    ? findLanguageOption(
+        readingAs === 'native' ? activeProfile.nativeLanguage : activeProfile.targetLanguage,
+      )?.label
+    : undefined;
 
   const handleSend = async () => {
     const trimmed = input.trim();
-    if (!trimmed || isProcessing) {
+    if (!trimmed || isProcessing || !thread) {
       return;
     }
 
@@ -250,7 +370,7 @@ const ChatScreen: React.FC = () => {
       return;
     }
 
-    const userMessage: UserMessage = {
+    const userMessage: UserChatMessage = {
       id: generateId(),
       role: 'user',
       mode,
@@ -259,69 +379,52 @@ const ChatScreen: React.FC = () => {
 
     setMessages(prev => [...prev, userMessage]);
     setInput('');
-    setIsProcessing(true);
+    setDirectionOverride(null);
+    // Tutor replies stream into their own bubble, and sending again cancels them.
+    setIsProcessing(mode === 'dictionary');
 
     try {
-      const { sourceLanguage, targetLanguage, inputLanguage } = resolveLanguageDirections(
+      const directions = resolveLanguageDirections(
         trimmed,
         activeProfile,
+        directionOverride ?? undefined,
       );
-
-      if (mode === 'dictionary') {
+      const { sourceLanguage, targetLanguage } = directions;
+      const lookup =
+        mode === 'dictionary'
+          ? dictionaryService.lookup({ text: trimmed, sourceLanguage, targetLanguage })
+          : null;
+
+      // Partial words only come from the dictionary when the AI tutor cannot suggest better.
+      if (lookup && (lookup.match !== 'prefix' || isOffline)) {
+        setMessages(prev => [
+          ...prev,
+          buildOfflineDictionaryMessage(trimmed, lookup, directions, findBankItem),
+        ]);
+      } else if (shouldQueueAiRequests()) {
+        await queueRequest(trimmed, directions, [...messages, userMessage]);
+      } else if (mode === 'dictionary') {
         const translation = await aiTutorService.translate({
           text: trimmed,
           sourceLanguage,
           targetLanguage,
           context: translationContext,
         });
-        const definitions = [
-          `Meaning in ${targetLanguage.toUpperCase()}: ${translation}`,
-          `Usage: ${trimmed} → ${translation}`,
-        ];
-        const examples = [
-          `Example (${sourceLanguage}): ${trimmed}`,
-          `Example (${targetLanguage}): ${translation}`,
-        ];
-
-        const existing = bankItemsForProfile.find(item =>
-          item.term.toLowerCase() === trimmed.toLowerCase());
-
-        const dictionaryMessage: DictionaryMessage = {
-          id: generateId(),
-          role: 'assistant',
-          mode: 'dictionary',
-          headword: trimmed,
-          translation,
-          definitions,
-          examples,
-          sourceLanguage,
-          targetLanguage,
-          inputLanguage,
-          bankItemId: existing?.id,
-          folders: existing?.folders ?? [],
-        };
-
-        setMessages(prev => [...prev, dictionaryMessage]);
+        setMessages(prev => [
+          ...prev,
+          buildDictionaryMessage(
+            generateId(),
+            trimmed,
+            translation,
+            directions,
+            findBankItem(trimmed),
+          ),
+        ]);
       } else {
-        const tutorResponse = [
-          `Let's explore "${trimmed}".`,
-          '• Form: highlight tense and grammar usage.',
-          '• Compare with a related structure.',
-          '• Try saying it in a different context.',
-        ].join('\n');
-
-        const tutorMessage: TutorMessage = {
-          id: generateId(),
-          role: 'assistant',
-          mode: 'tutor',
-          content: tutorResponse,
-          understood: false,
-        };
-
-        setMessages(prev => [...prev, tutorMessage]);
+        await streamTutorReply([...messages, userMessage]);
       }
     } catch (error) {
-      const tutorMessage: TutorMessage = {
+      const tutorMessage: TutorChatMessage = {
         id: generateId(),
         role: 'assistant',
         mode: 'tutor',
@@ -334,9 +437,137 @@ const ChatScreen: React.FC = () => {
     }
   };
 
+  const cancelTutorReply = React.useCallback(() => {
+    tutorReplyRef.current?.abort();
+    tutorReplyRef.current = null;
+  }, []);
+
+  const updateTutorMessage = (
+    id: string,
+    updater: (message: TutorChatMessage) => TutorChatMessage | null,
+  ) => {
+    setMessages(prev =>
+      prev.flatMap(message => {
+        if (message.id !== id || message.role !== 'assistant' || message.mode !== 'tutor') {
+          return [message];
+        }
+        const updated = updater(message);
+        return updated ? [updated] : [];
+      }),
+    );
+  };
+
+  /**
+   * Streams the tutor's answer into a new bubble. Sending again cancels a reply that is still
+   * arriving; whatever text it had received stays in the conversation.
+   */
+  const streamTutorReply = async (conversation: ChatMessage[]) => {
+    cancelTutorReply();
+    const controller = new AbortController();
+    tutorReplyRef.current = controller;
+
+    const replyId = generateId();
+    const placeholder: TutorChatMessage = {
+      id: replyId,
+      role: 'assistant',
+      mode: 'tutor',
+      content: '',
+      understood: false,
+      isStreaming: true,
+    };
+    setMessages(prev => [...prev, placeholder]);
+
+    let failure: string | null = null;
+    try {
+      await aiTutorService.streamChat(
+        { turns: buildTutorTurns(conversation), context: buildTutorContext(conversation) },
+        {
+          signal: controller.signal,
+          onDelta: (_delta, text) =>
+            updateTutorMessage(replyId, message => ({ ...message, content: text })),
+        },
+      );
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        failure = error instanceof Error ? error.message : 'Unable to reach the tutor.';
+      }
+    } finally {
+      if (tutorReplyRef.current === controller) {
+        tutorReplyRef.current = null;
+      }
+      updateTutorMessage(replyId, message => {
+        const content = message.content || failure;
+        return content ? { ...message, content, isStreaming: false } : null;
+      });
+    }
+  };
+
+  /**
+   * Holds the request in the offline outbox behind a placeholder bubble, which the reply
+   * replaces once it has been replayed.
+   */
+  const queueRequest = async (
+    text: string,
+    directions: ReturnType<typeof resolveLanguageDirections>,
+    conversation: ChatMessage[],
+  ) => {
+    const placeholder: TutorChatMessage = {
+      id: generateId(),
+      role: 'assistant',
+      mode: 'tutor',
+      content:
+        mode === 'dictionary'
+          ? `You're offline. "${text}" will be looked up when you reconnect.`
+          : "You're offline. The tutor will answer when you reconnect.",
+      understood: false,
+      isQueued: true,
+    };
+    setMessages(prev => [...prev, placeholder]);
+    await enqueueAiRequest(
+      mode === 'dictionary'
+        ? {
+            kind: 'translate',
+            params: {
+              text,
+              sourceLanguage: directions.sourceLanguage,
+              targetLanguage: directions.targetLanguage,
+              context: translationContext,
+            },
+          }
+        : {
+            kind: 'chat',
+            params: {
+              turns: buildTutorTurns(conversation),
+              context: buildTutorContext(conversation),
+            },
+          },
+      { type: 'chat_message', messageId: placeholder.id },
+    );
+  };
+
+  // Replies to queued requests replace their placeholders in whichever thread asked for them.
+  // Replies for a thread that has since been deleted are dropped.
+  useEffect(() => {
+    if (!threadsLoaded) {
+      return;
+    }
+    deliveries.forEach(delivery => {
+      const { target, request } = delivery.entry;
+      if (target.type !== 'chat_message') {
+        return;
+      }
+      const existing = request.kind === 'translate' ? findBankItem(request.params.text) : undefined;
+      replaceMessage(
+        target.messageId,
+        buildQueuedReply(delivery, target.messageId, activeProfile, existing),
+      );
+      acknowledgeDelivery(delivery.entry.id);
+    });
+  }, [threadsLoaded, deliveries, replaceMessage, acknowledgeDelivery, activeProfile, findBankItem]);
+
   const updateDictionaryMessage = (
     id: string,
-    updater: (message: DictionaryMessage) => DictionaryMessage,
+    updater: (message: DictionaryChatMessage) => DictionaryChatMessage,
   ) => {
     setMessages(prev =>
       prev.map(message => {
@@ -376,7 +607,8 @@ const ChatScreen: React.FC = () => {
     });
   };
 
-  const addMessageToBank = async (message: DictionaryMessage) => {
+  const addMessageToBank = async (message: DictionaryChatMessage) => {
+    const sense = message.senses?.[message.selectedSense ?? 0];
     const entry = await addBankItem({
       term: message.headword,
       meaning: message.translation,
@@ -387,10 +619,13 @@ const ChatScreen: React.FC = () => {
         profileId: activeProfile?.profileId,
         sourceLanguage: message.sourceLanguage,
         targetLanguage: message.targetLanguage,
+        partOfSpeech: sense?.partOfSpeech,
+        gender: sense?.gender,
+        sense: sense?.text,
       },
     });
 
-    let updatedMessage: DictionaryMessage | undefined;
+    let updatedMessage: DictionaryChatMessage | undefined;
     updateDictionaryMessage(message.id, prev => {
       updatedMessage = {
         ...prev,
@@ -403,14 +638,14 @@ const ChatScreen: React.FC = () => {
     return updatedMessage ?? { ...message, bankItemId: entry.id, folders: entry.folders };
   };
 
-  const removeMessageFromBank = async (message: DictionaryMessage) => {
+  const removeMessageFromBank = async (message: DictionaryChatMessage) => {
     if (!message.bankItemId) {
       return message;
     }
 
     await removeBankItem(message.bankItemId);
 
-    let updatedMessage: DictionaryMessage | undefined;
+    let updatedMessage: DictionaryChatMessage | undefined;
     updateDictionaryMessage(message.id, prev => {
       updatedMessage = {
         ...prev,
@@ -425,9 +660,9 @@ const ChatScreen: React.FC = () => {
   };
 
   const ensureMessageInBank = async (
-    message: DictionaryMessage,
+    message: DictionaryChatMessage,
     { suppressAlerts = false }: { suppressAlerts?: boolean } = {},
-  ): Promise<DictionaryMessage | undefined> => {
+  ): Promise<DictionaryChatMessage | undefined> => {
     if (message.bankItemId) {
       return message;
     }
@@ -455,7 +690,20 @@ const ChatScreen: React.FC = () => {
     }
   };
 
-  const handleToggleBank = async (message: DictionaryMessage) => {
+  /** Picks the sense saved to the bank; fixed once the word has been added. */
+  const selectSense = (message: DictionaryChatMessage, index: number) => {
+    const sense = message.senses?.[index];
+    if (!sense || message.bankItemId) {
+      return;
+    }
+    updateDictionaryMessage(message.id, prev => ({
+      ...prev,
+      selectedSense: index,
+      translation: sense.text,
+    }));
+  };
+
+  const handleToggleBank = async (message: DictionaryChatMessage) => {
     if (message.bankItemId) {
       setBankPendingState(message.id, true);
       try {
@@ -474,7 +722,7 @@ const ChatScreen: React.FC = () => {
     await ensureMessageInBank(message);
   };
 
-  const handleSaveToNotes = async (message: DictionaryMessage) => {
+  const handleSaveToNotes = async (message: DictionaryChatMessage) => {
     if (message.savedToNotes) {
       return;
     }
@@ -506,7 +754,7 @@ const ChatScreen: React.FC = () => {
     }
   };
 
-  const handleFolderPress = async (message: DictionaryMessage) => {
+  const handleFolderPress = async (message: DictionaryChatMessage) => {
     setFolderError(null);
     setNewFolderName('');
 
@@ -576,7 +824,7 @@ const ChatScreen: React.FC = () => {
         m.id === folderPicker.messageId &&
         m.mode === 'dictionary' &&
         m.role === 'assistant',
-    ) as DictionaryMessage | undefined;
+    ) as DictionaryChatMessage | undefined;
 
     if (!message || !message.bankItemId) {
       setFolderPicker({ visible: false });
@@ -598,19 +846,19 @@ const ChatScreen: React.FC = () => {
     }
   };
 
-  const markUnderstood = (message: TutorMessage) => {
-    if (message.understood) {
+  const markUnderstood = (message: TutorChatMessage) => {
+    if (message.understood || message.isStreaming || message.isQueued) {
       return;
     }
     const recentUserPrompt = [...messages]
       .reverse()
-      .find(entry => entry.role === 'user') as UserMessage | undefined;
+      .find(entry => entry.role === 'user') as UserChatMessage | undefined;
     logUnderstanding({
       prompt: recentUserPrompt?.content ?? 'Tutor reflection',
       response: message.content,
-      summary: `Understood ${new Date().toLocaleTimeString()}`,
+      summary: summariseExchange(message.content),
       profileId: activeProfile?.profileId,
-    });
+    }).catch(() => undefined);
 
     setMessages(prev =>
       prev.map(item =>
@@ -633,9 +881,10 @@ const ChatScreen: React.FC = () => {
     if (item.mode === 'tutor') {
       return (
         <View style={styles.tutorBubble}>
-          <Text style={styles.tutorText}>{item.content}</Text>
+          <Text style={styles.tutorText}>{item.content || '…'}</Text>
           <Pressable
             onPress={() => markUnderstood(item)}
+            disabled={item.isStreaming || item.isQueued}
             style={[
               styles.understoodChip,
               item.understood && styles.understoodChipActive,
@@ -657,22 +906,43 @@ const ChatScreen: React.FC = () => {
     const isBankPending = pendingBankIds[item.id] ?? false;
     const isNotePending = pendingNoteIds[item.id] ?? false;
     const isFolderDisabled = isBankPending || isNotePending;
+    const selectedSense = item.senses?.[item.selectedSense ?? 0];
 
     return (
       <View style={styles.dictionaryCard}>
         <View style={styles.dictionaryHeader}>
           <View>
             <Text style={styles.dictionaryHeadword}>{item.headword}</Text>
-            <Text style={styles.dictionaryMeta}>noun · neutral · global</Text>
+            <Text style={styles.dictionaryMeta}>
+              {selectedSense
+                ? `${describeSense(selectedSense)} · offline dictionary`
+                : 'noun · neutral · global'}
+            </Text>
           </View>
           <Text style={styles.dictionaryTranslation}>{item.translation}</Text>
         </View>
         <View style={styles.dictionaryBody}>
-          {item.definitions.map((definition, index) => (
-            <Text key={definition} style={styles.dictionaryDefinition}>
-              {index + 1}. {definition}
-            </Text>
-          ))}
+          {item.definitions.map((definition, index) =>
+            item.senses ? (
+              <Pressable
+                key={definition}
+                onPress={() => selectSense(item, index)}
+                disabled={Boolean(item.bankItemId)}
+                style={[
+                  styles.dictionarySense,
+                  index === item.selectedSense && styles.dictionarySenseSelected,
+                ]}
+              >
+                <Text style={styles.dictionaryDefinition}>
+                  {index + 1}. {definition}
+                </Text>
+              </Pressable>
+            ) : (
+              <Text key={definition} style={styles.dictionaryDefinition}>
+                {index + 1}. {definition}
+              </Text>
+            ),
+          )}
           <Text style={styles.dictionaryExamplesLabel}>Usage examples</Text>
           {item.examples.map(example => (
             <Text key={example} style={styles.dictionaryExample}>
@@ -766,6 +1036,9 @@ const ChatScreen: React.FC = () => {
 
   const canCreateFolder = newFolderName.trim().length > 0;
 
+  // Leaving the screen stops a reply that is still streaming.
+  useFocusEffect(React.useCallback(() => cancelTutorReply, [cancelTutorReply]));
+
   useFocusEffect(
     React.useCallback(() => {
       const timeout = setTimeout(() => {
@@ -788,6 +1061,28 @@ const ChatScreen: React.FC = () => {
         }
       />
 
+      <View style={styles.threadBar}>
+        <Pressable
+          onPress={() => setIsThreadListVisible(true)}
+          style={styles.threadBarTitleButton}
+          accessibilityRole="button"
+          accessibilityLabel="Browse conversations"
+        >
+          <Text style={styles.threadBarTitle} numberOfLines={1}>
+            {thread ? describeThreadTitle(thread) : DEFAULT_THREAD_TITLE}
+          </Text>
+          <Text style={styles.threadBarHint}>All conversations ›</Text>
+        </Pressable>
+        <Pressable
+          onPress={startThread}
+          disabled={messages.length === 0}
+          style={[styles.threadBarButton, messages.length === 0 && styles.threadBarButtonDisabled]}
+          accessibilityRole="button"
+        >
+          <Text style={styles.threadBarButtonLabel}>New</Text>
+        </Pressable>
+      </View>
+
       <KeyboardAvoidingView
         style={styles.flex}
         behavior={Platform.OS === 'ios' ? 'padding' : undefined}
@@ -844,8 +1139,29 @@ const ChatScreen: React.FC = () => {
                 Tutor
               </Text>
             </Pressable>
+            <Pressable
+              onPress={() => navigation.navigate('MemoryGraph')}
+              style={styles.memoryLink}
+              accessibilityRole="button"
+            >
+              <Text style={styles.memoryLinkLabel}>Memory graph</Text>
+            </Pressable>
           </View>
 
+          {showDirectionChip ? (
+            <Pressable
+              onPress={() => setDirectionOverride(readingAs === 'native' ? 'target' : 'native')}
+              style={styles.directionChip}
+              accessibilityRole="button"
+              accessibilityLabel="Switch input language"
+            >
+              <Text style={styles.directionChipLabel}>
+                Reading as {readingAsLabel ?? 'unknown language'} ·{' '}
+                <Text style={styles.directionChipAction}>Switch</Text>
+              </Text>
+            </Pressable>
+          ) : null}
+
           <View style={styles.inputRow}>
             <TextInput
               ref={composerInputRef}
@@ -977,6 +1293,16 @@ const ChatScreen: React.FC = () => {
         visible={isSwitcherVisible}
         onClose={() => setIsSwitcherVisible(false)}
       />
+      <ChatThreadsModal
+        visible={isThreadListVisible}
+        threads={threads}
+        activeThreadId={thread?.id}
+        onSelect={selectThread}
+        onNew={startThread}
+        onRename={renameThread}
+        onDelete={deleteThread}
+        onClose={() => setIsThreadListVisible(false)}
+      />
     </ScreenContainer>
   );
 };
@@ -992,6 +1318,38 @@ const createStyles = (colors: ThemeColors) =>
     flex: {
       flex: 1,
     },
+    threadBar: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 12,
+      paddingHorizontal: spacing.screenHorizontal,
+      paddingBottom: spacing.base,
+    },
+    threadBarTitleButton: {
+      flex: 1,
+    },
+    threadBarTitle: {
+      ...typography.bodyStrong,
+      color: colors.textPrimary,
+    },
+    threadBarHint: {
+      ...typography.caption,
+      color: colors.textSecondary,
+    },
+    threadBarButton: {
+      borderRadius: radii.control,
+      paddingHorizontal: 14,
+      paddingVertical: 8,
+      backgroundColor: colors.accentSoft,
+    },
+    threadBarButtonDisabled: {
+      opacity: 0.5,
+    },
+    threadBarButtonLabel: {
+      ...typography.caption,
+      color: colors.accent,
+      fontFamily: fontFamilies.sans.medium,
+    },
     listContent: {
       paddingBottom: spacing.block,
       paddingHorizontal: spacing.screenHorizontal,
@@ -1079,6 +1437,14 @@ const createStyles = (colors: ThemeColors) =>
       ...typography.body,
       color: colors.textPrimary,
     },
+    dictionarySense: {
+      borderRadius: radii.control,
+      paddingHorizontal: 6,
+      paddingVertical: 2,
+    },
+    dictionarySenseSelected: {
+      backgroundColor: colors.accentSoft,
+    },
     dictionaryExamplesLabel: {
       ...typography.caption,
       color: colors.textSecondary,
@@ -1188,6 +1554,30 @@ const createStyles = (colors: ThemeColors) =>
       color: colors.textOnAccent,
       fontFamily: fontFamilies.sans.medium,
     },
+    memoryLink: {
+      borderRadius: radii.control,
+      justifyContent: 'center',
+      paddingHorizontal: 12,
+    },
+    memoryLinkLabel: {
+      ...typography.caption,
+      color: colors.accent,
+    },
+    directionChip: {
+      alignSelf: 'flex-start',
+      borderRadius: radii.pill,
+      paddingHorizontal: 12,
+      paddingVertical: 6,
+      backgroundColor: colors.warningSoft,
+    },
+    directionChipLabel: {
+      ...typography.caption,
+      color: colors.textPrimary,
+    },
+    directionChipAction: {
+      fontFamily: fontFamilies.sans.semibold,
+      color: colors.accent,
+    },
     inputRow: {
       flexDirection: 'row',
       alignItems: 'flex-end',
@@ -0,0 +1,248 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Alert, FlatList, Pressable, StyleSheet, Text, TextInput, View } from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import ScreenContainer from '@/shared/components/ScreenContainer';
+import { spacing, radii, typography, fontFamilies } from '@/shared/theme/tokens';
+import { useTheme, type ThemeColors } from '@/shared/theme/theme';
+import { useThemeStyles } from '@/shared/theme/useThemeStyles';
+import type { RootStackParamList } from '@/navigation/types';
+import type { MemoryEntry } from '@/contracts/models';
+import { searchMemoryEntries } from '@/domain/memory/memory-graph';
+import { PITFALL_LABELS } from '@/domain/translation/remediation';
+import { useMemoryStore } from '@/state/memory.store';
+import { useBankStore } from '@/state/bank.store';
+import { useLanguageProfileStore } from '@/state/language-profile.store';
+
+/** Lists the explanations the learner marked as understood, with search and pruning. */
+const MemoryGraphScreen: React.FC = () => {
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+  const styles = useThemeStyles(createStyles);
+  const { colors } = useTheme();
+  const [query, setQuery] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const entries = useMemoryStore(state => state.entries);
+  const loadMemory = useMemoryStore(state => state.loadMemory);
+  const removeEntries = useMemoryStore(state => state.removeEntries);
+  const bankItems = useBankStore(state => state.items);
+  const loadBank = useBankStore(state => state.loadBank);
+  const activeProfileId = useLanguageProfileStore(state => state.activeProfileId);
+
+  useEffect(() => {
+    loadMemory().catch(() => undefined);
+    loadBank().catch(() => undefined);
+  }, [loadMemory, loadBank]);
+
+  const vocabById = useMemo(() => new Map(bankItems.map(item => [item.id, item])), [bankItems]);
+
+  const visibleEntries = useMemo(() => {
+    const profileEntries = entries.filter(
+      entry => !entry.profileId || entry.profileId === activeProfileId,
+    );
+    return searchMemoryEntries(profileEntries, query, vocabById);
+  }, [entries, activeProfileId, query, vocabById]);
+
+  const forgetEntry = (entry: MemoryEntry) => {
+    removeEntries([entry.id]).catch(() => undefined);
+  };
+
+  const forgetVisible = () => {
+    const count = visibleEntries.length;
+    Alert.alert(
+      'Forget these explanations?',
+      `${count} ${count === 1 ? 'entry' : 'entries'} will be removed from the memory graph.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Forget',
+          style: 'destructive',
+          onPress: () => {
+            removeEntries(visibleEntries.map(entry => entry.id)).catch(() => undefined);
+          },
+        },
+      ],
+    );
+  };
+
+  const renderEntry = ({ item }: { item: MemoryEntry }) => {
+    const linkedItems = item.vocabItemIds.flatMap(id => {
+      const vocab = vocabById.get(id);
+      return vocab ? [vocab] : [];
+    });
+    const isExpanded = expandedId === item.id;
+    return (
+      <Pressable
+        onPress={() => setExpandedId(isExpanded ? null : item.id)}
+        style={styles.entryCard}
+        accessibilityRole="button"
+      >
+        <Text style={styles.entryPrompt}>{item.prompt}</Text>
+        <Text style={styles.entrySummary}>{isExpanded ? item.response : item.summary}</Text>
+        {linkedItems.length > 0 || item.pitfallTypes.length > 0 ? (
+          <View style={styles.chipRow}>
+            {linkedItems.map(vocab => (
+              <Pressable
+                key={vocab.id}
+                onPress={() => navigation.navigate('WordDetail', { itemId: vocab.id })}
+                style={styles.vocabChip}
+              >
+                <Text style={styles.vocabChipLabel}>{vocab.term}</Text>
+              </Pressable>
+            ))}
+            {item.pitfallTypes.map(pitfall => (
+              <View key={pitfall} style={styles.pitfallChip}>
+                <Text style={styles.pitfallChipLabel}>{PITFALL_LABELS[pitfall]}</Text>
+              </View>
+            ))}
+          </View>
+        ) : null}
+        <View style={styles.entryFooter}>
+          <Text style={styles.entryDate}>{new Date(item.createdAt).toLocaleDateString()}</Text>
+          <Pressable onPress={() => forgetEntry(item)} accessibilityRole="button">
+            <Text style={styles.forgetLabel}>Forget</Text>
+          </Pressable>
+        </View>
+      </Pressable>
+    );
+  };
+
+  return (
+    <ScreenContainer style={styles.screen}>
+      <View style={styles.toolbar}>
+        <TextInput
+          value={query}
+          onChangeText={setQuery}
+          placeholder="Search explanations, words or pitfalls…"
+          placeholderTextColor={colors.textSecondary}
+          style={styles.searchInput}
+          accessibilityLabel="Search the memory graph"
+        />
+        {visibleEntries.length > 0 ? (
+          <Pressable onPress={forgetVisible} style={styles.pruneButton} accessibilityRole="button">
+            <Text style={styles.pruneLabel}>
+              {query.trim() ? 'Forget matching' : 'Forget all'}
+            </Text>
+          </Pressable>
+        ) : null}
+      </View>
+      <FlatList
+        data={visibleEntries}
+        keyExtractor={item => item.id}
+        renderItem={renderEntry}
+        contentContainerStyle={styles.listContent}
+        keyboardShouldPersistTaps="handled"
+        ListEmptyComponent={
+          <Text style={styles.emptyText}>
+            {query.trim()
+              ? 'No explanations match your search.'
+              : 'Tap "Understood" on a tutor reply to keep it here.'}
+          </Text>
+        }
+      />
+    </ScreenContainer>
+  );
+};
+
+export default MemoryGraphScreen;
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    screen: {
+      backgroundColor: colors.background,
+    },
+    toolbar: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 12,
+      paddingHorizontal: spacing.screenHorizontal,
+      paddingVertical: spacing.base,
+    },
+    searchInput: {
+      flex: 1,
+      borderRadius: radii.surface,
+      borderWidth: StyleSheet.hairlineWidth,
+      borderColor: colors.border,
+      paddingHorizontal: 16,
+      paddingVertical: 10,
+      ...typography.body,
+      color: colors.textPrimary,
+      backgroundColor: colors.surface,
+    },
+    pruneButton: {
+      borderRadius: radii.control,
+      paddingHorizontal: 12,
+      paddingVertical: 10,
+      backgroundColor: colors.errorSoft,
+    },
+    pruneLabel: {
+      ...typography.caption,
+      color: colors.error,
+      fontFamily: fontFamilies.sans.medium,
+    },
+    listContent: {
+      paddingHorizontal: spacing.screenHorizontal,
+      paddingBottom: spacing.block,
+      gap: 12,
+    },
+    entryCard: {
+      borderRadius: radii.surface,
+      padding: 16,
+      gap: 8,
+      backgroundColor: colors.surface,
+      borderWidth: StyleSheet.hairlineWidth,
+      borderColor: colors.border,
+    },
+    entryPrompt: {
+      ...typography.bodyStrong,
+      color: colors.textPrimary,
+    },
+    entrySummary: {
+      ...typography.body,
+      color: colors.textSecondary,
+    },
+    chipRow: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 6,
+    },
+    vocabChip: {
+      borderRadius: radii.control,
+      paddingHorizontal: 10,
+      paddingVertical: 4,
+      backgroundColor: colors.accentSoft,
+    },
+    vocabChipLabel: {
+      ...typography.caption,
+      color: colors.accent,
+    },
+    pitfallChip: {
+      borderRadius: radii.control,
+      paddingHorizontal: 10,
+      paddingVertical: 4,
+      backgroundColor: colors.warningSoft,
+    },
+    pitfallChipLabel: {
+      ...typography.caption,
+      color: colors.warning,
+    },
+    entryFooter: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+    },
+    entryDate: {
+      ...typography.caption,
+      color: colors.textSecondary,
+    },
+    forgetLabel: {
+      ...typography.caption,
+      color: colors.error,
+    },
+    emptyText: {
+      ...typography.body,
+      color: colors.textSecondary,
+      textAlign: 'center',
+      marginTop: spacing.block,
+    },
+  });
@@ -1 +1,2 @@
 export * from './ChatScreen';
+export * from './MemoryGraphScreen';
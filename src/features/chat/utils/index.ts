@@ -1 +1,2 @@
 export * from './language-detection';
+export * from './language-identification';
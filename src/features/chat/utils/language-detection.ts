@@ -1,37 +1,60 @@
 import type { LanguageProfile } from '@/contracts/models';
+import { identifyLanguage } from './language-identification';
 
 export const hasNonAscii = (value: string) => /[\u0080-\uFFFF]/.test(value);
 
 export const containsSpanishMarkers = (value: string) => /[áéíóúüñ¿¡]/i.test(value);
 
-export const guessInputLanguage = (
+/**
+ * Below this probability the chat treats a guessed input language as uncertain and lets the
+ * learner flip the translation direction.
+ */
+export const INPUT_LANGUAGE_CONFIDENCE_THRESHOLD = 0.75;
+
+export type InputLanguageDetection = {
+  inputLanguage: 'native' | 'target';
+  /** Profile language code the input was read as, when known. */
+  language?: string;
+  /** Probability of `language` among every language the identifier knows. */
+  confidence: number;
+  isConfident: boolean;
+};
+
+/**
+ * Reads input as whichever of the profile's two languages the n-gram identifier finds more
+ * likely. Text that looks like neither, such as a third language or a single loanword, keeps a
+ * low confidence so the chat can ask.
+ */
+export const detectInputLanguage = (
   value: string,
   profile?: LanguageProfile,
-): 'native' | 'target' => {
+): InputLanguageDetection => {
   if (!profile) {
-    return 'native';
-  }
-
-  const trimmed = value.trim();
-  const lower = trimmed.toLowerCase();
-
-  if (profile.targetLanguage === 'es' && containsSpanishMarkers(lower)) {
-    return 'target';
-  }
-  if (profile.nativeLanguage === 'es' && containsSpanishMarkers(lower)) {
-    return 'native';
+    return { inputLanguage: 'native', confidence: 0, isConfident: true };
   }
 
-  if (hasNonAscii(lower)) {
-    return 'target';
+  const identification = identifyLanguage(value);
+  if (!identification) {
+    return { inputLanguage: 'target', confidence: 0, isConfident: false };
   }
 
-  if (profile.nativeLanguage === 'en') {
-    const englishPattern = /\b(the|and|of|to|is|in)\b/;
-    if (englishPattern.test(lower)) {
-      return 'native';
-    }
-  }
-
-  return 'target';
+  const nativeScore = identification.scores[profile.nativeLanguage] ?? 0;
+  const targetScore = identification.scores[profile.targetLanguage] ?? 0;
+  const inputLanguage = nativeScore > targetScore ? 'native' : 'target';
+  const confidence = inputLanguage === 'native' ? nativeScore : targetScore;
+
+  return {
+    inputLanguage,
+    language:
+      inputLanguage === 'native'
+        ? profile.nativeLanguage
+        : profile.targetLanguage,
+    confidence,
+    isConfident: confidence >= INPUT_LANGUAGE_CONFIDENCE_THRESHOLD,
+  };
 };
+
+export const guessInputLanguage = (
+  value: string,
+  profile?: LanguageProfile,
+): 'native' | 'target' => detectInputLanguage(value, profile).inputLanguage;
@@ -0,0 +1,138 @@
+import { LANGUAGE_LIBRARY } from '@/data/language-library';
+import { LANGUAGE_SAMPLES } from '@/data/language-samples';
+
+/** Longest character n-gram the classifier counts; words contribute every 1..N gram. */
+export const MAX_NGRAM_LENGTH = 3;
+
+/** Add-alpha smoothing so n-grams unseen in one language's samples do not veto it. */
+const SMOOTHING = 0.5;
+
+export type LanguageModel = {
+  languages: string[];
+  counts: Record<string, Map<string, number>>;
+  totals: Record<string, number>;
+  vocabularySize: number;
+};
+
+export type LanguageIdentification = {
+  /** Most likely `LANGUAGE_LIBRARY` code. */
+  language: string;
+  /** Probability of `language`, between 0 and 1. */
+  confidence: number;
+  /** Probability of every modelled language; the values sum to 1. */
+  scores: Record<string, number>;
+};
+
+const normaliseText = (value: string) =>
+  value
+    .normalize('NFC')
+    .toLowerCase()
+    .replace(/[^a-zà-öø-ÿœæß]+/g, ' ')
+    .trim();
+
+/** Character n-grams of each word, padded with spaces so prefixes and suffixes count. */
+export const extractNgrams = (
+  value: string,
+  maxLength = MAX_NGRAM_LENGTH,
+): string[] => {
+  const normalised = normaliseText(value);
+  if (!normalised) {
+    return [];
+  }
+  const grams: string[] = [];
+  normalised.split(' ').forEach(word => {
+    const padded = ` ${word} `;
+    for (let length = 1; length <= maxLength; length += 1) {
+      for (let start = 0; start + length <= padded.length; start += 1) {
+        const gram = padded.slice(start, start + length);
+        if (gram.trim()) {
+          grams.push(gram);
+        }
+      }
+    }
+  });
+  return grams;
+};
+
+export const trainLanguageModel = (
+  samples: Record<string, string[]>,
+): LanguageModel => {
+  const languages = Object.keys(samples);
+  const counts: LanguageModel['counts'] = {};
+  const totals: LanguageModel['totals'] = {};
+  const vocabulary = new Set<string>();
+
+  languages.forEach(language => {
+    const languageCounts = new Map<string, number>();
+    let total = 0;
+    samples[language].forEach(sample => {
+      extractNgrams(sample).forEach(gram => {
+        languageCounts.set(gram, (languageCounts.get(gram) ?? 0) + 1);
+        vocabulary.add(gram);
+        total += 1;
+      });
+    });
+    counts[language] = languageCounts;
+    totals[language] = total;
+  });
+
+  return { languages, counts, totals, vocabularySize: vocabulary.size };
+};
+
+let defaultModel: LanguageModel | null = null;
+
+/** Model trained on the bundled samples for every language in the library, built on first use. */
+export const getDefaultLanguageModel = (): LanguageModel => {
+  if (!defaultModel) {
+    const samples: Record<string, string[]> = {};
+    LANGUAGE_LIBRARY.forEach(option => {
+      if (LANGUAGE_SAMPLES[option.code]?.length) {
+        samples[option.code] = LANGUAGE_SAMPLES[option.code];
+      }
+    });
+    defaultModel = trainLanguageModel(samples);
+  }
+  return defaultModel;
+};
+
+/**
+ * Scores text against each language with a naive Bayes model over character n-grams. Returns
+ * null when the text has no letters to judge by.
+ */
+export const identifyLanguage = (
+  value: string,
+  model: LanguageModel = getDefaultLanguageModel(),
+): LanguageIdentification | null => {
+  const grams = extractNgrams(value);
+  if (grams.length === 0 || model.languages.length === 0) {
+    return null;
+  }
+
+  const logLikelihoods = model.languages.map(language => {
+    const counts = model.counts[language];
+    const denominator =
+      model.totals[language] + SMOOTHING * model.vocabularySize;
+    const sum = grams.reduce(
+      (total, gram) =>
+        total + Math.log(((counts.get(gram) ?? 0) + SMOOTHING) / denominator),
+      0,
+    );
+    // Overlapping n-grams of one word are far from independent; scaling by the number of
+    // orders keeps short inputs from looking certain.
+    return sum / MAX_NGRAM_LENGTH;
+  });
+
+  const best = Math.max(...logLikelihoods);
+  const weights = logLikelihoods.map(logLikelihood =>
+    Math.exp(logLikelihood - best),
+  );
+  const weightTotal = weights.reduce((total, weight) => total + weight, 0);
+
+  const scores: Record<string, number> = {};
+  model.languages.forEach((language, index) => {
+    scores[language] = weights[index] / weightTotal;
+  });
+  const language = model.languages[logLikelihoods.indexOf(best)];
+
+  return { language, confidence: scores[language], scores };
+};
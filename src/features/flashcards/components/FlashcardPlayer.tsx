@@ -21,8 +21,10 @@ import {
   type FlashcardSessionState,
 } from '../stores/flashcard-session.store';
 import { useBankStore } from '@/state/bank.store';
+import { useLanguageProfileStore } from '@/state/language-profile.store';
 import { resolveFlagGlyph } from '@/data/language-library';
 import type {
+  FlashcardGrade,
   FlashcardOutcome,
   FtxCard,
   FtxSession,
@@ -32,8 +34,18 @@ import type {
   SrsData,
   VocabItem,
 } from '@/contracts/models';
-import { buildRecap, computeOutcomes } from '@/features/flashcards/utils/session-metrics';
+import {
+  buildRecap,
+  collapseRequeuedCards,
+  computeOutcomes,
+} from '@/features/flashcards/utils/session-metrics';
+import { shouldRequeueInSession } from '@/domain/srs/learning-steps';
+import { hasLeechTag } from '@/domain/srs/leech';
 import SessionSummary from '@/features/flashcards/components/SessionSummary';
+import GradeButtons from '@/features/flashcards/components/GradeButtons';
+import { formatGradePreviews, previewGradeIntervals } from '@/domain/srs/grade-preview';
+import { buildDueLoad } from '@/domain/srs/due-forecast';
+import { gradeToOutcome, resolveSrsUpdateOptions } from '@/domain/srs/unified-srs-service';
 import { ActivityOutcome } from '@/contracts/models';
 
 type FlashcardPlayerModalProps = {
@@ -64,6 +76,12 @@ type FlashcardPlayerModalProps = {
     vocabId: string | null;
     previousSrs: SrsData | null;
     previousPerformance: VocabItem['performanceData'] | null;
+    /** Folders and suspension before the answer, which may have tagged the item as a leech. */
+    previousFolders: string[] | null;
+    previousSuspended: boolean;
+    requeuedCardId: string | null;
+    /** Logged review to remove so replays and parameter fitting skip the undone answer. */
+    reviewId: string | null;
   };
   
   const FlashcardPlayerBody: React.FC<FlashcardPlayerBodyProps> = ({
@@ -93,16 +111,26 @@ type FlashcardPlayerModalProps = {
     const session = useFlashcardSessionStore(state =>
       state.sessions[initialSession.sessionId]
     ) ?? initialSession;
+    const activeProfile = useLanguageProfileStore(state =>
+      state.activeProfileId ? state.profiles[state.activeProfileId] : undefined,
+    );
+    const gradingMode = activeProfile?.flashcardGradingMode ?? 'swipe';
 
     const appendHistory = useFlashcardSessionStore(state => state.appendHistory);
     const setProgress = useFlashcardSessionStore(state => state.setProgress);
     const setRecap = useFlashcardSessionStore(state => state.setRecap);
     const toggleFlagged = useFlashcardSessionStore(state => state.toggleFlagged);
     const popHistory = useFlashcardSessionStore(state => state.popHistory);
+    const requeueCard = useFlashcardSessionStore(state => state.requeueCard);
+    const removeCard = useFlashcardSessionStore(state => state.removeCard);
     const saveSession = useFlashcardSessionStore(state => state.saveSession);
+    const bankItems = useBankStore(state => state.items);
     const recordActivityOutcome = useBankStore(state => state.recordActivityOutcome);
+    const removeReview = useBankStore(state => state.removeReview);
     const updateSrsData = useBankStore(state => state.updateSrsData);
     const updatePerformanceData = useBankStore(state => state.updatePerformanceData);
+    const updateFolders = useBankStore(state => state.updateFolders);
+    const setSuspended = useBankStore(state => state.setSuspended);
     const clearSrsData = useBankStore(state => state.clearSrsData);
   
     const maxIndex = Math.max(session.cards.length - 1, 0);
@@ -119,7 +147,9 @@ type FlashcardPlayerModalProps = {
     const isAnimatingRef = useRef(false);
     const srsDueRef = useRef(new Map<string, string>());
     const undoStackRef = useRef<UndoEntry[]>([]);
-    const recordSwipeRef = useRef<(direction: 'left' | 'right') => Promise<void>>(async () => {});
+    const recordSwipeRef = useRef<
+      (direction: 'left' | 'right', grade?: FlashcardGrade) => Promise<void>
+    >(async () => {});
   
     const isComplete = currentIndex >= session.cards.length;
     const safeIndex = isComplete ? maxIndex : Math.min(currentIndex, maxIndex);
@@ -182,7 +212,7 @@ type FlashcardPlayerModalProps = {
     const backText = presentationSide === 'term' ? card?.definition : card?.term;
   
     const handleSwipe = useCallback(
-      (direction: 'left' | 'right') => {
+      (direction: 'left' | 'right', grade?: FlashcardGrade) => {
         if (isAnimatingRef.current) {
           return;
         }
@@ -192,7 +222,7 @@ type FlashcardPlayerModalProps = {
           duration: 200,
           useNativeDriver: true,
         }).start(() => {
-          recordSwipeRef.current(direction).catch(() => undefined);
+          recordSwipeRef.current(direction, grade).catch(() => undefined);
         });
       },
       [contentWidth, translateX],
@@ -267,32 +297,35 @@ type FlashcardPlayerModalProps = {
     };
   
     const applySrsUpdate = useCallback(
-      async (currentCard: FtxCard, outcome: FlashcardOutcome) => {
+      async (currentCard: FtxCard, outcome: FlashcardOutcome, grade?: FlashcardGrade) => {
         if (!currentCard.vocabId) {
-          return;
+          return null;
         }
         const vocab = bankItems.find(item => item.id === currentCard.vocabId);
         if (!vocab) {
-          return;
+          return null;
         }
   
         // Create activity outcome for unified SRS tracking
         const activityOutcome: ActivityOutcome = {
           activityType: 'recognition',
           wasCorrect: outcome === 'correct',
+          grade,
+          catchUp: session.catchUp,
           attemptedAt: new Date(),
         };
   
         // Use unified SRS service to update both SRS and performance data
-        await recordActivityOutcome(vocab.id, activityOutcome);
+        const reviewId = await recordActivityOutcome(vocab.id, activityOutcome);
   
         // Store due date for recap
         const updatedVocab = useBankStore.getState().items.find(item => item.id === vocab.id);
         if (updatedVocab?.srsData?.dueAt) {
           srsDueRef.current.set(vocab.id, updatedVocab.srsData.dueAt);
         }
+        return { srsData: updatedVocab?.srsData ?? null, reviewId };
       },
-      [bankItems, recordActivityOutcome],
+      [bankItems, recordActivityOutcome, session.catchUp],
     );
   
     const resetForReplay = () => {
@@ -316,7 +349,12 @@ type FlashcardPlayerModalProps = {
     };
   
     const restartSessionWithCards = async (cardsToUse: FtxCard[]) => {
-      const resetCards = cardsToUse.map(cardItem => ({ ...cardItem, history: [] }));
+      const resetCards = cardsToUse.map(cardItem => ({
+        ...cardItem,
+        cardId: cardItem.requeuedFromCardId ?? cardItem.cardId,
+        requeuedFromCardId: null,
+        history: [],
+      }));
       const nextSession: FtxSession = {
         ...session,
         cards: resetCards,
@@ -337,7 +375,7 @@ type FlashcardPlayerModalProps = {
     }, [cards, session.sessionId, setRecap]);
   
     const recordSwipe = useCallback(
-      async (direction: 'left' | 'right') => {
+      async (direction: 'left' | 'right', grade?: FlashcardGrade) => {
         if (!card || isAnimatingRef.current) {
           return;
         }
@@ -353,7 +391,14 @@ type FlashcardPlayerModalProps = {
             card.vocabId && bankItems.length > 0
               ? bankItems.find(item => item.id === card.vocabId)?.performanceData ?? null
               : null;
-          const outcome: FlashcardOutcome = direction === 'right' ? 'correct' : 'incorrect';
+          const previousItem = card.vocabId
+            ? bankItems.find(item => item.id === card.vocabId)
+            : undefined;
+          const outcome: FlashcardOutcome = grade
+            ? gradeToOutcome(grade)
+            : direction === 'right'
+              ? 'correct'
+              : 'incorrect';
           const undoEntry: UndoEntry = {
             cardId: card.cardId,
             previousProgress,
@@ -361,26 +406,40 @@ type FlashcardPlayerModalProps = {
             vocabId: card.vocabId ?? null,
             previousSrs,
             previousPerformance,
+            previousFolders: previousItem?.folders ?? null,
+            previousSuspended: Boolean(previousItem?.suspended),
+            requeuedCardId: null,
+            reviewId: null,
           };
   
           await appendHistory({
             sessionId: session.sessionId,
             cardId: card.cardId,
             outcome,
+            grade,
           });
-          await applySrsUpdate(card, outcome).catch(error => {
+          const update = await applySrsUpdate(card, outcome, grade).catch(error => {
             console.warn('Failed to update SRS for flashcard', error);
+            return null;
           });
+          undoEntry.reviewId = update?.reviewId ?? null;
+          // Cards left in a short learning step come back at the end of this session
+          if (update?.srsData && shouldRequeueInSession(update.srsData, new Date())) {
+            undoEntry.requeuedCardId = await requeueCard(session.sessionId, card.cardId);
+          }
+          const cardCount = session.cards.length + (undoEntry.requeuedCardId ? 1 : 0);
           const nextProgressIndex = currentIndexRef.current + 1;
-          const isSessionComplete = nextProgressIndex >= session.cards.length;
+          const isSessionComplete = nextProgressIndex >= cardCount;
           await setProgress(session.sessionId, {
-            currentIndex: isSessionComplete ? session.cards.length : nextProgressIndex,
+            currentIndex: isSessionComplete ? cardCount : nextProgressIndex,
             isComplete: isSessionComplete,
             lastOpenedAt: new Date().toISOString(),
           });
   
           // Update local state to trigger completion screen or advance to next card
-          const newIndex = isSessionComplete ? session.cards.length : Math.min(nextProgressIndex, maxIndex);
+          const newIndex = isSessionComplete
+            ? cardCount
+            : Math.min(nextProgressIndex, Math.max(cardCount - 1, 0));
           setCurrentIndex(newIndex);
           currentIndexRef.current = newIndex;
   
@@ -412,7 +471,7 @@ type FlashcardPlayerModalProps = {
         card,
         finalizeSession,
         isComplete,
-        maxIndex,
+        requeueCard,
         session.cards.length,
         session.sessionId,
         setProgress,
@@ -425,6 +484,31 @@ type FlashcardPlayerModalProps = {
       recordSwipeRef.current = recordSwipe;
     }, [recordSwipe]);
   
+    const handleGrade = useCallback(
+      (grade: FlashcardGrade) => {
+        handleSwipe(grade === 'again' ? 'left' : 'right', grade);
+      },
+      [handleSwipe],
+    );
+
+    // Next interval each grade would schedule, shown on the grade buttons
+    const gradePreviews = useMemo(() => {
+      if (gradingMode !== 'grades' || !card?.vocabId) {
+        return null;
+      }
+      const vocab = bankItems.find(item => item.id === card.vocabId);
+      if (!vocab) {
+        return null;
+      }
+      return formatGradePreviews(
+        previewGradeIntervals(vocab.srsData, {
+          ...resolveSrsUpdateOptions(activeProfile),
+          dueLoad: buildDueLoad(bankItems.filter(item => item.id !== vocab.id)),
+          creditOverdue: session.catchUp,
+        }),
+      );
+    }, [activeProfile, bankItems, card?.vocabId, gradingMode, session.catchUp]);
+
     const handleToggleFlag = async () => {
       if (!card) {
         return;
@@ -442,6 +526,9 @@ type FlashcardPlayerModalProps = {
       }
       try {
         await popHistory({ sessionId: session.sessionId, cardId: entry.cardId }).catch(() => undefined);
+        if (entry.requeuedCardId) {
+          await removeCard(session.sessionId, entry.requeuedCardId).catch(() => undefined);
+        }
         if (entry.vocabId) {
           try {
             if (entry.previousSrs) {
@@ -454,6 +541,21 @@ type FlashcardPlayerModalProps = {
             if (entry.previousPerformance) {
               await updatePerformanceData(entry.vocabId, entry.previousPerformance);
             }
+            const current = useBankStore.getState().items.find(item => item.id === entry.vocabId);
+            if (
+              current &&
+              entry.previousFolders &&
+              hasLeechTag(current) &&
+              !hasLeechTag({ tags: entry.previousFolders })
+            ) {
+              await updateFolders(entry.vocabId, entry.previousFolders);
+            }
+            if (current && Boolean(current.suspended) !== entry.previousSuspended) {
+              await setSuspended(entry.vocabId, entry.previousSuspended);
+            }
+            if (entry.reviewId) {
+              await removeReview(entry.reviewId);
+            }
           } catch (error) {
             console.warn('Failed to revert SRS metadata', error);
           }
@@ -479,7 +581,7 @@ type FlashcardPlayerModalProps = {
     const canUndo = undoCount > 0;
   
     const handleReviewMissed = async () => {
-      const missedCards = cards.filter(candidate => {
+      const missedCards = collapseRequeuedCards(cards).filter(candidate => {
         const lastEntry = candidate.history[candidate.history.length - 1];
         return lastEntry?.outcome === 'incorrect';
       });
@@ -493,7 +595,7 @@ type FlashcardPlayerModalProps = {
     };
   
     const handleReviewAll = async () => {
-      await restartSessionWithCards(cards);
+      await restartSessionWithCards(collapseRequeuedCards(cards));
     };
   
     const handleExitActivity = () => {
@@ -603,6 +705,9 @@ type FlashcardPlayerModalProps = {
                   </Pressable>
                 </Animated.View>
               </View>
+              {gradingMode === 'grades' && isFlipped ? (
+                <GradeButtons previews={gradePreviews} disabled={!card} onGrade={handleGrade} />
+              ) : null}
             </View>
           ) : null}
           <View style={styles.undoRow}>
@@ -0,0 +1,84 @@
+import React, { useMemo } from 'react';
+import { Pressable, StyleSheet, Text, View } from 'react-native';
+import { useTheme, type ThemeColors } from '@/shared/theme/theme';
+import { spacing, radii, typography } from '@/shared/theme/tokens';
+import { FLASHCARD_GRADES } from '@/domain/srs/grade-preview';
+import type { FlashcardGrade } from '@/contracts/models';
+
+const GRADE_LABELS: Record<FlashcardGrade, string> = {
+  again: 'Again',
+  hard: 'Hard',
+  good: 'Good',
+  easy: 'Easy',
+};
+
+type Props = {
+  /** Formatted next interval per grade; omitted for cards without a bank item. */
+  previews: Record<FlashcardGrade, string> | null;
+  disabled?: boolean;
+  onGrade: (grade: FlashcardGrade) => void;
+};
+
+const GradeButtons: React.FC<Props> = ({ previews, disabled = false, onGrade }) => {
+  const { colors } = useTheme();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+  const accents: Record<FlashcardGrade, string> = {
+    again: colors.error,
+    hard: colors.warning,
+    good: colors.success,
+    easy: colors.accent,
+  };
+
+  return (
+    <View style={styles.row}>
+      {FLASHCARD_GRADES.map(grade => (
+        <Pressable
+          key={grade}
+          onPress={() => onGrade(grade)}
+          disabled={disabled}
+          accessibilityRole="button"
+          accessibilityLabel={
+            previews ? `${GRADE_LABELS[grade]}, next review in ${previews[grade]}` : GRADE_LABELS[grade]
+          }
+          style={[
+            styles.button,
+            { borderColor: accents[grade] },
+            disabled && styles.buttonDisabled,
+          ]}
+        >
+          <Text style={[styles.label, { color: accents[grade] }]}>{GRADE_LABELS[grade]}</Text>
+          {previews ? <Text style={styles.preview}>{previews[grade]}</Text> : null}
+        </Pressable>
+      ))}
+    </View>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    row: {
+      flexDirection: 'row',
+      gap: spacing.base * 0.5,
+      marginTop: spacing.base,
+    },
+    button: {
+      flex: 1,
+      alignItems: 'center',
+      paddingVertical: spacing.base * 0.5,
+      borderRadius: radii.control,
+      borderWidth: 1,
+      backgroundColor: colors.surface,
+    },
+    buttonDisabled: {
+      opacity: 0.4,
+    },
+    label: {
+      ...typography.captionStrong,
+    },
+    preview: {
+      ...typography.caption,
+      color: colors.textSecondary,
+    },
+  });
+
+export default GradeButtons;
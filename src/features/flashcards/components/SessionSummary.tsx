@@ -1,10 +1,14 @@
 import React from 'react';
 import { Pressable, Text, View } from 'react-native';
+import SpeedRoundBoard from '@/shared/components/SpeedRoundBoard';
+import type { SpeedRoundStanding } from '@/domain/practice/speed-round';
 
 type Props = {
   completedCorrect: number;
   completedIncorrect: number;
   summaryTotal: number;
+  /** Points and leaderboard placing when the session was a speed round. */
+  speedRound?: SpeedRoundStanding | null;
   styles: {
     summaryTitle: object;
     summarySubtitle: object;
@@ -34,6 +38,7 @@ const SessionSummary: React.FC<Props> = ({
   completedCorrect,
   completedIncorrect,
   summaryTotal,
+  speedRound,
   styles,
   dynamicStyles,
   colors,
@@ -46,6 +51,13 @@ const SessionSummary: React.FC<Props> = ({
     <Text style={styles.summarySubtitle}>
       Score {completedCorrect}/{summaryTotal} · Missed {completedIncorrect}
     </Text>
+    {speedRound ? (
+      <SpeedRoundBoard
+        entries={speedRound.leaderboard}
+        latest={speedRound.result}
+        rank={speedRound.rank}
+      />
+    ) : null}
     <View style={styles.summaryActions}>
       <Pressable
         style={[
@@ -2,3 +2,4 @@ export * from './DiscreteSlider';
 export * from './FlashcardPlayer';
 export * from './SessionSummary';
 export * from './SessionSetup';
+export * from './GradeButtons';
@@ -1,24 +1,41 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { Animated, PanResponder, useWindowDimensions, Alert } from 'react-native';
 import { useBankStore } from '@/state/bank.store';
+import { useLanguageProfileStore } from '@/state/language-profile.store';
 import {
   useFlashcardSessionStore,
   type FlashcardSessionState,
 } from '../stores/flashcard-session.store';
 import { ttsService } from '@/services/container';
-import { buildRecap, computeOutcomes } from '@/features/flashcards/utils/session-metrics';
+import {
+  buildRecap,
+  collapseRequeuedCards,
+  computeOutcomes,
+} from '@/features/flashcards/utils/session-metrics';
+import { shouldRequeueInSession } from '@/domain/srs/learning-steps';
+import { hasLeechTag } from '@/domain/srs/leech';
+import { formatGradePreviews, previewGradeIntervals } from '@/domain/srs/grade-preview';
+import { buildDueLoad } from '@/domain/srs/due-forecast';
 import type {
+  FlashcardGrade,
+  FlashcardGradingMode,
   FlashcardOutcome,
   FtxCard,
   FtxSession,
   SrsData,
   VocabItem,
 } from '@/contracts/models';
-import type { ActivityOutcome } from '@/domain/srs/unified-srs-service';
+import {
+  gradeToOutcome,
+  resolveSrsUpdateOptions,
+  type ActivityOutcome,
+} from '@/domain/srs/unified-srs-service';
 
 type useFlashcardPlayerProps = {
   session: FtxSession;
   onClose: () => void;
+  /** Overrides the active profile's grading mode; swipe when neither is set. */
+  gradingMode?: FlashcardGradingMode;
 };
 
 type UndoEntry = {
@@ -28,21 +45,40 @@ type UndoEntry = {
   vocabId: string | null;
   previousSrs: SrsData | null;
   previousPerformance: VocabItem['performanceData'] | null;
+  /** Folders and suspension before the answer, which may have tagged the item as a leech. */
+  previousFolders: string[] | null;
+  previousSuspended: boolean;
+  requeuedCardId: string | null;
+  /** Logged review to remove so replays and parameter fitting skip the undone answer. */
+  reviewId: string | null;
 };
 
-export const useFlashcardPlayer = ({ session: initialSession, onClose }: useFlashcardPlayerProps) => {
+export const useFlashcardPlayer = ({
+  session: initialSession,
+  onClose,
+  gradingMode: gradingModeOverride,
+}: useFlashcardPlayerProps) => {
   const { width: contentWidth } = useWindowDimensions();
+  const activeProfile = useLanguageProfileStore(state =>
+    state.activeProfileId ? state.profiles[state.activeProfileId] : undefined,
+  );
+  const gradingMode = gradingModeOverride ?? activeProfile?.flashcardGradingMode ?? 'swipe';
 
   const appendHistory = useFlashcardSessionStore(state => state.appendHistory);
   const setProgress = useFlashcardSessionStore(state => state.setProgress);
   const setRecap = useFlashcardSessionStore(state => state.setRecap);
   const toggleFlagged = useFlashcardSessionStore(state => state.toggleFlagged);
   const popHistory = useFlashcardSessionStore(state => state.popHistory);
+  const requeueCard = useFlashcardSessionStore(state => state.requeueCard);
+  const removeCard = useFlashcardSessionStore(state => state.removeCard);
   const saveSession = useFlashcardSessionStore(state => state.saveSession);
   const bankItems = useBankStore(state => state.items);
   const recordActivityOutcome = useBankStore(state => state.recordActivityOutcome);
+  const removeReview = useBankStore(state => state.removeReview);
   const updateSrsData = useBankStore(state => state.updateSrsData);
   const updatePerformanceData = useBankStore(state => state.updatePerformanceData);
+  const updateFolders = useBankStore(state => state.updateFolders);
+  const setSuspended = useBankStore(state => state.setSuspended);
   const clearSrsData = useBankStore(state => state.clearSrsData);
 
   const session = useFlashcardSessionStore(state =>
@@ -63,7 +99,9 @@ export const useFlashcardPlayer = ({ session: initialSession, onClose }: useFlas
   const isAnimatingRef = useRef(false);
   const srsDueRef = useRef(new Map<string, string>());
   const undoStackRef = useRef<UndoEntry[]>([]);
-  const recordSwipeRef = useRef<(direction: 'left' | 'right') => Promise<void>>(async () => {});
+  const recordSwipeRef = useRef<
+    (direction: 'left' | 'right', grade?: FlashcardGrade) => Promise<void>
+  >(async () => {});
 
   const isComplete = currentIndex >= session.cards.length;
   const safeIndex = isComplete ? maxIndex : Math.min(currentIndex, maxIndex);
@@ -114,7 +152,7 @@ export const useFlashcardPlayer = ({ session: initialSession, onClose }: useFlas
   const backText = presentationSide === 'term' ? card?.definition : card?.term;
 
   const handleSwipe = useCallback(
-    (direction: 'left' | 'right') => {
+    (direction: 'left' | 'right', grade?: FlashcardGrade) => {
       if (isAnimatingRef.current) {
         return;
       }
@@ -124,7 +162,7 @@ export const useFlashcardPlayer = ({ session: initialSession, onClose }: useFlas
         duration: 200,
         useNativeDriver: true,
       }).start(() => {
-        recordSwipeRef.current(direction).catch(() => undefined);
+        recordSwipeRef.current(direction, grade).catch(() => undefined);
       });
     },
     [contentWidth, translateX],
@@ -199,29 +237,32 @@ export const useFlashcardPlayer = ({ session: initialSession, onClose }: useFlas
   };
 
   const applySrsUpdate = useCallback(
-    async (currentCard: FtxCard, outcome: FlashcardOutcome) => {
+    async (currentCard: FtxCard, outcome: FlashcardOutcome, grade?: FlashcardGrade) => {
       if (!currentCard.vocabId) {
-        return;
+        return null;
       }
       const vocab = bankItems.find(item => item.id === currentCard.vocabId);
       if (!vocab) {
-        return;
+        return null;
       }
 
       const activityOutcome: ActivityOutcome = {
         activityType: 'recognition',
         wasCorrect: outcome === 'correct',
+        grade,
+        catchUp: session.catchUp,
         attemptedAt: new Date(),
       };
 
-      await recordActivityOutcome(vocab.id, activityOutcome);
+      const reviewId = await recordActivityOutcome(vocab.id, activityOutcome);
 
       const updatedVocab = useBankStore.getState().items.find(item => item.id === vocab.id);
       if (updatedVocab?.srsData?.dueAt) {
         srsDueRef.current.set(vocab.id, updatedVocab.srsData.dueAt);
       }
+      return { srsData: updatedVocab?.srsData ?? null, reviewId };
     },
-    [bankItems, recordActivityOutcome],
+    [bankItems, recordActivityOutcome, session.catchUp],
   );
 
   const resetForReplay = () => {
@@ -245,7 +286,12 @@ export const useFlashcardPlayer = ({ session: initialSession, onClose }: useFlas
   };
 
   const restartSessionWithCards = async (cardsToUse: FtxCard[]) => {
-    const resetCards = cardsToUse.map(cardItem => ({ ...cardItem, history: [] }));
+    const resetCards = cardsToUse.map(cardItem => ({
+      ...cardItem,
+      cardId: cardItem.requeuedFromCardId ?? cardItem.cardId,
+      requeuedFromCardId: null,
+      history: [],
+    }));
     const nextSession: FtxSession = {
       ...session,
       cards: resetCards,
@@ -266,7 +312,7 @@ export const useFlashcardPlayer = ({ session: initialSession, onClose }: useFlas
   }, [cards, session.sessionId, setRecap]);
 
   const recordSwipe = useCallback(
-    async (direction: 'left' | 'right') => {
+    async (direction: 'left' | 'right', grade?: FlashcardGrade) => {
       if (!card || isAnimatingRef.current) {
         return;
       }
@@ -282,7 +328,14 @@ export const useFlashcardPlayer = ({ session: initialSession, onClose }: useFlas
           card.vocabId && bankItems.length > 0
             ? bankItems.find(item => item.id === card.vocabId)?.performanceData ?? null
             : null;
-        const outcome: FlashcardOutcome = direction === 'right' ? 'correct' : 'incorrect';
+        const previousItem = card.vocabId
+          ? bankItems.find(item => item.id === card.vocabId)
+          : undefined;
+        const outcome: FlashcardOutcome = grade
+          ? gradeToOutcome(grade)
+          : direction === 'right'
+            ? 'correct'
+            : 'incorrect';
         const undoEntry: UndoEntry = {
           cardId: card.cardId,
           previousProgress,
@@ -290,25 +343,39 @@ export const useFlashcardPlayer = ({ session: initialSession, onClose }: useFlas
           vocabId: card.vocabId ?? null,
           previousSrs,
           previousPerformance,
+          previousFolders: previousItem?.folders ?? null,
+          previousSuspended: Boolean(previousItem?.suspended),
+          requeuedCardId: null,
+          reviewId: null,
         };
 
         await appendHistory({
           sessionId: session.sessionId,
           cardId: card.cardId,
           outcome,
+          grade,
         });
-        await applySrsUpdate(card, outcome).catch(error => {
+        const update = await applySrsUpdate(card, outcome, grade).catch(error => {
           console.warn('Failed to update SRS for flashcard', error);
+          return null;
         });
+        undoEntry.reviewId = update?.reviewId ?? null;
+        // Cards left in a short learning step come back at the end of this session
+        if (update?.srsData && shouldRequeueInSession(update.srsData, new Date())) {
+          undoEntry.requeuedCardId = await requeueCard(session.sessionId, card.cardId);
+        }
+        const cardCount = session.cards.length + (undoEntry.requeuedCardId ? 1 : 0);
         const nextProgressIndex = currentIndexRef.current + 1;
-        const isSessionComplete = nextProgressIndex >= session.cards.length;
+        const isSessionComplete = nextProgressIndex >= cardCount;
         await setProgress(session.sessionId, {
-          currentIndex: isSessionComplete ? session.cards.length : nextProgressIndex,
+          currentIndex: isSessionComplete ? cardCount : nextProgressIndex,
           isComplete: isSessionComplete,
           lastOpenedAt: new Date().toISOString(),
         });
 
-        const newIndex = isSessionComplete ? session.cards.length : Math.min(nextProgressIndex, maxIndex);
+        const newIndex = isSessionComplete
+          ? cardCount
+          : Math.min(nextProgressIndex, Math.max(cardCount - 1, 0));
         setCurrentIndex(newIndex);
         currentIndexRef.current = newIndex;
 
@@ -338,7 +405,7 @@ export const useFlashcardPlayer = ({ session: initialSession, onClose }: useFlas
       card,
       finalizeSession,
       isComplete,
-      maxIndex,
+      requeueCard,
       session.cards.length,
       session.sessionId,
       setProgress,
@@ -350,6 +417,31 @@ export const useFlashcardPlayer = ({ session: initialSession, onClose }: useFlas
     recordSwipeRef.current = recordSwipe;
   }, [recordSwipe]);
 
+  const handleGrade = useCallback(
+    (grade: FlashcardGrade) => {
+      handleSwipe(grade === 'again' ? 'left' : 'right', grade);
+    },
+    [handleSwipe],
+  );
+
+  // Next interval each grade would schedule, shown on the grade buttons
+  const gradePreviews = useMemo(() => {
+    if (gradingMode !== 'grades' || !card?.vocabId) {
+      return null;
+    }
+    const vocab = bankItems.find(item => item.id === card.vocabId);
+    if (!vocab) {
+      return null;
+    }
+    return formatGradePreviews(
+      previewGradeIntervals(vocab.srsData, {
+        ...resolveSrsUpdateOptions(activeProfile),
+        dueLoad: buildDueLoad(bankItems.filter(item => item.id !== vocab.id)),
+        creditOverdue: session.catchUp,
+      }),
+    );
+  }, [activeProfile, bankItems, card?.vocabId, gradingMode, session.catchUp]);
+
   const handleToggleFlag = async () => {
     if (!card) {
       return;
@@ -367,6 +459,9 @@ export const useFlashcardPlayer = ({ session: initialSession, onClose }: useFlas
     }
     try {
       await popHistory({ sessionId: session.sessionId, cardId: entry.cardId }).catch(() => undefined);
+      if (entry.requeuedCardId) {
+        await removeCard(session.sessionId, entry.requeuedCardId).catch(() => undefined);
+      }
       if (entry.vocabId) {
         try {
           if (entry.previousSrs) {
@@ -379,6 +474,21 @@ export const useFlashcardPlayer = ({ session: initialSession, onClose }: useFlas
           if (entry.previousPerformance) {
             await updatePerformanceData(entry.vocabId, entry.previousPerformance);
           }
+          const current = useBankStore.getState().items.find(item => item.id === entry.vocabId);
+          if (
+            current &&
+            entry.previousFolders &&
+            hasLeechTag(current) &&
+            !hasLeechTag({ tags: entry.previousFolders })
+          ) {
+            await updateFolders(entry.vocabId, entry.previousFolders);
+          }
+          if (current && Boolean(current.suspended) !== entry.previousSuspended) {
+            await setSuspended(entry.vocabId, entry.previousSuspended);
+          }
+          if (entry.reviewId) {
+            await removeReview(entry.reviewId);
+          }
         } catch (error) {
           console.warn('Failed to revert SRS metadata', error);
         }
@@ -411,7 +521,7 @@ export const useFlashcardPlayer = ({ session: initialSession, onClose }: useFlas
   const completedIncorrect = tallyIncorrect;
 
   const handleReviewMissed = async () => {
-    const missedCards = cards.filter(candidate => {
+    const missedCards = collapseRequeuedCards(cards).filter(candidate => {
       const lastEntry = candidate.history[candidate.history.length - 1];
       return lastEntry?.outcome === 'incorrect';
     });
@@ -425,7 +535,7 @@ export const useFlashcardPlayer = ({ session: initialSession, onClose }: useFlas
   };
 
   const handleReviewAll = async () => {
-    await restartSessionWithCards(cards);
+    await restartSessionWithCards(collapseRequeuedCards(cards));
   };
 
   const handleExitActivity = () => {
@@ -438,6 +548,9 @@ export const useFlashcardPlayer = ({ session: initialSession, onClose }: useFlas
     frontRotation,
     backRotation,
     handleFlip,
+    gradingMode,
+    gradePreviews,
+    handleGrade,
     handlePlayAudio,
     isSpeaking,
     handleToggleFlag,
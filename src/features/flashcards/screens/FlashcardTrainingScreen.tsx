@@ -14,10 +14,12 @@ import {
   View,
   useWindowDimensions,
 } from 'react-native';
-import { useNavigation } from '@react-navigation/native';
+import { useNavigation, useRoute, type RouteProp } from '@react-navigation/native';
 import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import ScreenContainer from '@/shared/components/ScreenContainer';
 import LanguageSwitcherModal from '@/shared/components/LanguageSwitcherModal';
+import SpeedRoundBoard from '@/shared/components/SpeedRoundBoard';
+import { useCountdown } from '@/shared/hooks/useCountdown';
 import { useTheme, type ThemeMode } from '@/shared/theme/theme';
 import { spacing, radii, typography, fontFamilies } from '@/shared/theme/tokens';
 import { useLanguageProfileStore } from '@/state/language-profile.store';
@@ -29,31 +31,60 @@ import { useBankStore } from '@/state/bank.store';
 import { resolveFlagGlyph } from '@/data/language-library';
 import { type StylePresetKey } from '@/domain/translation/style-presets';
 import {
+  generateCatchUpSession,
   generateFlashcardSession,
   type FlashcardPresentationSide,
 } from '@/domain/flashcards/session-generator';
 import type {
+  FlashcardGrade,
   FlashcardOutcome,
   FtxCard,
   FtxSession,
   LanguageProfile,
   PerformanceData,
   ReviewMode,
+  SpeedRoundTimer,
   SrsData,
   VocabItem,
 } from '@/contracts/models';
 import type { RootStackParamList } from '@/navigation/types';
 import { DEFAULT_USER_ID } from '@/domain/user/constants';
-import { calculateMasteryLevel, type ActivityOutcome } from '@/domain/srs/unified-srs-service';
-import { ttsService } from '@/services/container';
+import {
+  calculateMasteryLevel,
+  gradeToOutcome,
+  resolveSrsUpdateOptions,
+  type ActivityOutcome,
+} from '@/domain/srs/unified-srs-service';
+import { reviewLogRepository, ttsService } from '@/services/container';
 import { useVocabActivityStore } from '@/state/vocab-activity.store';
-import { buildRecap, computeOutcomes } from '@/features/flashcards/utils/session-metrics';
+import {
+  buildRecap,
+  collapseRequeuedCards,
+  computeOutcomes,
+} from '@/features/flashcards/utils/session-metrics';
+import { shouldRequeueInSession } from '@/domain/srs/learning-steps';
+import { hasLeechTag } from '@/domain/srs/leech';
 import SessionSummary from '@/features/flashcards/components/SessionSummary';
+import GradeButtons from '@/features/flashcards/components/GradeButtons';
+import { formatGradePreviews, previewGradeIntervals } from '@/domain/srs/grade-preview';
+import { buildDueLoad } from '@/domain/srs/due-forecast';
+import {
+  createSpeedRound,
+  describeSpeedRound,
+  getSpeedRoundLeaderboard,
+  isSlowAnswer,
+  speedRoundTimeLeft,
+  summariseSpeedRound,
+  type SpeedRoundAnswer,
+  type SpeedRoundStanding,
+} from '@/domain/practice/speed-round';
 
 type FlashcardNavigation = NativeStackNavigationProp<RootStackParamList>;
+type FlashcardRoute = RouteProp<RootStackParamList, 'FlashcardTraining'>;
 
 const QUESTION_MIN = 5;
 const QUESTION_MAX = 25;
+const CATCH_UP_SESSION_SIZE = 20;
 
 const FORMALITY_OPTIONS: Array<{ key: StylePresetKey; label: string }> = [
   { key: 'formal', label: 'Formal' },
@@ -72,8 +103,16 @@ const PRESENTATION_OPTIONS: Array<{ label: string; value: FlashcardPresentationS
   { label: 'Definition first', value: 'definition' },
 ];
 
+const SPEED_ROUND_OPTIONS: Array<{ value: SpeedRoundTimer | 'off'; label: string }> = [
+  { value: 'off', label: 'Off' },
+  { value: 'per_item', label: 'Per card' },
+  { value: 'per_session', label: 'Whole session' },
+];
+
 const FlashcardTrainingScreen: React.FC = () => {
   const navigation = useNavigation<FlashcardNavigation>();
+  const route = useRoute<FlashcardRoute>();
+  const catchUpRequested = route.params?.catchUp ?? false;
   const { colors, mode } = useTheme();
   const styles = useMemo(() => createStyles(colors, mode), [colors, mode]);
   const { width } = useWindowDimensions();
@@ -95,12 +134,17 @@ const FlashcardTrainingScreen: React.FC = () => {
   const toggleFlagged = useFlashcardSessionStore(state => state.toggleFlagged);
   const markSessionOpened = useFlashcardSessionStore(state => state.markSessionOpened);
   const popHistory = useFlashcardSessionStore(state => state.popHistory);
+  const requeueCard = useFlashcardSessionStore(state => state.requeueCard);
+  const removeCard = useFlashcardSessionStore(state => state.removeCard);
   const bankItems = useBankStore(state => state.items);
   const loadBank = useBankStore(state => state.loadBank);
   const bankLoading = useBankStore(state => state.isLoading);
   const recordActivityOutcome = useBankStore(state => state.recordActivityOutcome);
+  const removeReview = useBankStore(state => state.removeReview);
   const updateSrsData = useBankStore(state => state.updateSrsData);
   const updatePerformanceData = useBankStore(state => state.updatePerformanceData);
+  const updateFolders = useBankStore(state => state.updateFolders);
+  const setSuspended = useBankStore(state => state.setSuspended);
   const clearSrsData = useBankStore(state => state.clearSrsData);
   const addBankItem = useBankStore(state => state.addBankItem);
   const activityRecords = useVocabActivityStore(state => state.records);
@@ -112,6 +156,7 @@ const FlashcardTrainingScreen: React.FC = () => {
   const [questionCount, setQuestionCount] = useState(10);
   const [topicInput, setTopicInput] = useState('');
   const [presentationSide, setPresentationSide] = useState<FlashcardPresentationSide>('term');
+  const [speedRoundTimer, setSpeedRoundTimer] = useState<SpeedRoundTimer | 'off'>('off');
   const [isSwitcherVisible, setIsSwitcherVisible] = useState(false);
   const [sessionModalVisible, setSessionModalVisible] = useState(false);
   const [modalSessionId, setModalSessionId] = useState<string | null>(null);
@@ -177,6 +222,52 @@ const FlashcardTrainingScreen: React.FC = () => {
     [sessionsForProfile],
   );
 
+  // Catch-up mode launched from Home skips setup and goes straight to the triaged backlog
+  useEffect(() => {
+    if (!catchUpRequested || !activeProfile || bankLoading || bankItems.length === 0) {
+      return;
+    }
+    navigation.setParams({ catchUp: undefined });
+    setResumePromptShown(true);
+
+    const startCatchUp = async () => {
+      const result = generateCatchUpSession({
+        profile: activeProfile,
+        bankItems,
+        questionCount: CATCH_UP_SESSION_SIZE,
+        reviewLog: await reviewLogRepository.listAllReviews(),
+        presentationSide,
+      });
+      if (result.type !== 'ok') {
+        Alert.alert('Catch-up', result.message);
+        return;
+      }
+
+      await saveSession(result.session);
+      const vocabIds = result.session.cards
+        .map(card => card.vocabId)
+        .filter((id): id is string => Boolean(id));
+      await appendActivityRecords(vocabIds, result.session.sessionId, 'flashcard');
+      setModalSessionId(result.session.sessionId);
+      setSessionModalVisible(true);
+    };
+    startCatchUp().catch(error => {
+      Alert.alert(
+        'Catch-up',
+        error instanceof Error ? error.message : 'Unable to start a catch-up session.',
+      );
+    });
+  }, [
+    catchUpRequested,
+    activeProfile,
+    bankLoading,
+    bankItems,
+    navigation,
+    presentationSide,
+    saveSession,
+    appendActivityRecords,
+  ]);
+
   useEffect(() => {
     if (!unfinishedSession || sessionModalVisible || resumePromptShown) {
       return;
@@ -211,6 +302,11 @@ const FlashcardTrainingScreen: React.FC = () => {
     );
   }
 
+  const speedRound =
+    speedRoundTimer === 'off'
+      ? undefined
+      : createSpeedRound('flashcards', speedRoundTimer, questionCount);
+
   const handleGenerateSession = async () => {
     const topicTags = topicInput
       .split(',')
@@ -264,6 +360,7 @@ const FlashcardTrainingScreen: React.FC = () => {
     const sessionWithBankedCards = {
       ...result.session,
       cards: normalisedCards,
+      speedRound,
     };
 
     await saveSession(sessionWithBankedCards);
@@ -398,6 +495,32 @@ const FlashcardTrainingScreen: React.FC = () => {
             styles={styles}
           />
 
+          <Text style={styles.sectionLabel}>Speed round</Text>
+          <DiscreteSlider
+            min={0}
+            max={SPEED_ROUND_OPTIONS.length - 1}
+            step={1}
+            value={SPEED_ROUND_OPTIONS.findIndex(option => option.value === speedRoundTimer)}
+            onChange={index => {
+              setSpeedRoundTimer(SPEED_ROUND_OPTIONS[index]?.value ?? 'off');
+            }}
+            markers={SPEED_ROUND_OPTIONS.map((option, idx) => ({
+              value: idx,
+              label: option.label,
+            }))}
+            styles={styles}
+          />
+          <Text style={[styles.chipSubtext, { color: colors.textSecondary }]}>
+            {speedRound
+              ? `${describeSpeedRound(speedRound, 'card')} · fast, correct answers score most`
+              : 'Untimed practice.'}
+          </Text>
+          {speedRound ? (
+            <SpeedRoundBoard
+              entries={getSpeedRoundLeaderboard(activeProfile.speedRoundBests, 'flashcards')}
+            />
+          ) : null}
+
           <Text style={styles.sectionLabel}>Optional topics</Text>
           <TextInput
             value={topicInput}
@@ -459,11 +582,16 @@ const FlashcardTrainingScreen: React.FC = () => {
         setRecap={setRecap}
         toggleFlagged={toggleFlagged}
         popHistory={popHistory}
+        requeueCard={requeueCard}
+        removeCard={removeCard}
         saveSession={saveSession}
         bankItems={bankItems}
         recordActivityOutcome={recordActivityOutcome}
+        removeReview={removeReview}
         updateSrsData={updateSrsData}
         updatePerformanceData={updatePerformanceData}
+        updateFolders={updateFolders}
+        setSuspended={setSuspended}
         clearSrsData={clearSrsData}
         styles={styles}
       />
@@ -481,11 +609,16 @@ type FlashcardPlayerModalProps = {
   setRecap: FlashcardSessionState['setRecap'];
   toggleFlagged: FlashcardSessionState['toggleFlagged'];
   popHistory: FlashcardSessionState['popHistory'];
+  requeueCard: FlashcardSessionState['requeueCard'];
+  removeCard: FlashcardSessionState['removeCard'];
   saveSession: FlashcardSessionState['saveSession'];
   bankItems: VocabItem[];
-  recordActivityOutcome: (itemId: string, outcome: ActivityOutcome) => Promise<void>;
+  recordActivityOutcome: (itemId: string, outcome: ActivityOutcome) => Promise<string | null>;
+  removeReview: (reviewId: string) => Promise<void>;
   updateSrsData: (itemId: string, data: SrsData) => Promise<void>;
   updatePerformanceData: (itemId: string, data: PerformanceData) => Promise<void>;
+  updateFolders: (itemId: string, folders: string[]) => Promise<void>;
+  setSuspended: (itemId: string, suspended: boolean) => Promise<void>;
   clearSrsData: (itemId: string) => Promise<void>;
   styles: ReturnType<typeof createStyles>;
 };
@@ -511,6 +644,14 @@ type UndoEntry = {
   vocabId: string | null;
   previousSrs: SrsData | null;
   previousPerformance: VocabItem['performanceData'] | null;
+  /** Folders and suspension before the answer, which may have tagged the item as a leech. */
+  previousFolders: string[] | null;
+  previousSuspended: boolean;
+  requeuedCardId: string | null;
+  /** Logged review to remove so replays and parameter fitting skip the undone answer. */
+  reviewId: string | null;
+  /** Whether the answer was added to the speed-round tally. */
+  countedInSpeedRound: boolean;
 };
 
 const FlashcardPlayerBody: React.FC<FlashcardPlayerBodyProps> = ({
@@ -522,11 +663,16 @@ const FlashcardPlayerBody: React.FC<FlashcardPlayerBodyProps> = ({
   setRecap,
   toggleFlagged,
   popHistory,
+  requeueCard,
+  removeCard,
   saveSession,
   bankItems,
   recordActivityOutcome,
+  removeReview,
   updateSrsData,
   updatePerformanceData,
+  updateFolders,
+  setSuspended,
   clearSrsData,
   styles,
   session: initialSession,
@@ -552,6 +698,12 @@ const FlashcardPlayerBody: React.FC<FlashcardPlayerBodyProps> = ({
   const session = useFlashcardSessionStore(state =>
     state.sessions[initialSession.sessionId]
   ) ?? initialSession;
+  const activeProfile = useLanguageProfileStore(state =>
+    state.activeProfileId ? state.profiles[state.activeProfileId] : undefined,
+  );
+  const gradingMode = activeProfile?.flashcardGradingMode ?? 'swipe';
+  const recordSpeedRound = useLanguageProfileStore(state => state.recordSpeedRound);
+  const speedRound = session.speedRound;
 
   const maxIndex = Math.max(session.cards.length - 1, 0);
   const [currentIndex, setCurrentIndex] = useState(() =>
@@ -567,6 +719,12 @@ const FlashcardPlayerBody: React.FC<FlashcardPlayerBodyProps> = ({
   const isAnimatingRef = useRef(false);
   const srsDueRef = useRef(new Map<string, string>());
   const undoStackRef = useRef<UndoEntry[]>([]);
+  const cardShownAtRef = useRef(Date.now());
+  const speedAnswersRef = useRef<SpeedRoundAnswer[]>([]);
+  // Set when a session-wide speed-round clock runs out; the next answer ends the session
+  const timeUpRef = useRef(false);
+  const [deadline, setDeadline] = useState<number | null>(null);
+  const [speedRoundStanding, setSpeedRoundStanding] = useState<SpeedRoundStanding | null>(null);
 
   const isComplete = currentIndex >= session.cards.length;
   const safeIndex = isComplete ? maxIndex : Math.min(currentIndex, maxIndex);
@@ -600,6 +758,7 @@ const FlashcardPlayerBody: React.FC<FlashcardPlayerBodyProps> = ({
     translateX.setValue(0);
     flipAnim.setValue(0);
     setIsFlipped(false);
+    cardShownAtRef.current = Date.now();
   }, [visible, session.sessionId, safeIndex, translateX, flipAnim]);
 
   const cards = session.cards;
@@ -616,8 +775,20 @@ const FlashcardPlayerBody: React.FC<FlashcardPlayerBodyProps> = ({
     }
     undoStackRef.current = [];
     setUndoCount(0);
+    speedAnswersRef.current = [];
+    timeUpRef.current = false;
+    setSpeedRoundStanding(null);
   }, [visible, session.sessionId]);
 
+  useEffect(() => {
+    if (!visible || !speedRound || isComplete) {
+      setDeadline(null);
+      return;
+    }
+    const spentSeconds = speedAnswersRef.current.reduce((sum, answer) => sum + answer.seconds, 0);
+    setDeadline(cardShownAtRef.current + speedRoundTimeLeft(speedRound, 0, spentSeconds) * 1000);
+  }, [visible, speedRound, isComplete, safeIndex]);
+
   const outcomes = useMemo(() => computeOutcomes(cards), [cards]);
 
   const progressLabel = isComplete
@@ -629,7 +800,7 @@ const FlashcardPlayerBody: React.FC<FlashcardPlayerBodyProps> = ({
   const backText = presentationSide === 'term' ? card?.definition : card?.term;
 
   const handleSwipe = useCallback(
-    (direction: 'left' | 'right') => {
+    (direction: 'left' | 'right', grade?: FlashcardGrade, timedOut = false) => {
       if (isAnimatingRef.current) {
         return;
       }
@@ -639,7 +810,7 @@ const FlashcardPlayerBody: React.FC<FlashcardPlayerBodyProps> = ({
         duration: 200,
         useNativeDriver: true,
       }).start(() => {
-        recordSwipe(direction).catch(() => undefined);
+        recordSwipe(direction, grade, timedOut).catch(() => undefined);
       });
     },
     [contentWidth, recordSwipe, translateX],
@@ -714,32 +885,41 @@ const FlashcardPlayerBody: React.FC<FlashcardPlayerBodyProps> = ({
   };
 
   const applySrsUpdate = useCallback(
-    async (currentCard: FtxCard, outcome: FlashcardOutcome) => {
+    async (
+      currentCard: FtxCard,
+      outcome: FlashcardOutcome,
+      grade?: FlashcardGrade,
+      slow?: boolean,
+    ) => {
       if (!currentCard.vocabId) {
-        return;
+        return null;
       }
       const vocab = bankItems.find(item => item.id === currentCard.vocabId);
       if (!vocab) {
-        return;
+        return null;
       }
 
       // Create activity outcome for unified SRS tracking
       const activityOutcome: ActivityOutcome = {
         activityType: 'recognition',
         wasCorrect: outcome === 'correct',
+        grade,
+        catchUp: session.catchUp,
+        slow,
         attemptedAt: new Date(),
       };
 
       // Use unified SRS service to update both SRS and performance data
-      await recordActivityOutcome(vocab.id, activityOutcome);
+      const reviewId = await recordActivityOutcome(vocab.id, activityOutcome);
 
       // Store due date for recap
       const updatedVocab = useBankStore.getState().items.find(item => item.id === vocab.id);
       if (updatedVocab?.srsData?.dueAt) {
         srsDueRef.current.set(vocab.id, updatedVocab.srsData.dueAt);
       }
+      return { srsData: updatedVocab?.srsData ?? null, reviewId };
     },
-    [bankItems, recordActivityOutcome],
+    [bankItems, recordActivityOutcome, session.catchUp],
   );
 
   const resetForReplay = () => {
@@ -751,6 +931,10 @@ const FlashcardPlayerBody: React.FC<FlashcardPlayerBodyProps> = ({
     srsDueRef.current.clear();
     setCurrentIndex(0);
     currentIndexRef.current = 0;
+    cardShownAtRef.current = Date.now();
+    speedAnswersRef.current = [];
+    timeUpRef.current = false;
+    setSpeedRoundStanding(null);
   };
 
   const shuffleCards = (items: FtxCard[]) => {
@@ -763,7 +947,12 @@ const FlashcardPlayerBody: React.FC<FlashcardPlayerBodyProps> = ({
   };
 
   const restartSessionWithCards = async (cardsToUse: FtxCard[]) => {
-    const resetCards = cardsToUse.map(cardItem => ({ ...cardItem, history: [] }));
+    const resetCards = cardsToUse.map(cardItem => ({
+      ...cardItem,
+      cardId: cardItem.requeuedFromCardId ?? cardItem.cardId,
+      requeuedFromCardId: null,
+      history: [],
+    }));
     const nextSession: FtxSession = {
       ...session,
       cards: resetCards,
@@ -781,10 +970,28 @@ const FlashcardPlayerBody: React.FC<FlashcardPlayerBodyProps> = ({
   const finalizeSession = useCallback(async () => {
     const recap = buildRecap(cards, srsDueRef.current);
     await setRecap(session.sessionId, recap);
-  }, [cards, session.sessionId, setRecap]);
+    if (!speedRound) {
+      return;
+    }
+    const result = summariseSpeedRound({
+      sessionId: session.sessionId,
+      activity: 'flashcards',
+      round: speedRound,
+      itemCount: collapseRequeuedCards(cards).length,
+      answers: speedAnswersRef.current,
+      completedAt: new Date(),
+    });
+    const rank = await recordSpeedRound(session.profileId, result).catch(() => null);
+    const profile = useLanguageProfileStore.getState().profiles[session.profileId];
+    setSpeedRoundStanding({
+      result,
+      rank,
+      leaderboard: getSpeedRoundLeaderboard(profile?.speedRoundBests, 'flashcards'),
+    });
+  }, [cards, recordSpeedRound, session.profileId, session.sessionId, setRecap, speedRound]);
 
   const recordSwipe = useCallback(
-    async (direction: 'left' | 'right') => {
+    async (direction: 'left' | 'right', grade?: FlashcardGrade, timedOut = false) => {
       if (isAnimatingRef.current) {
         return;
       }
@@ -801,6 +1008,7 @@ const FlashcardPlayerBody: React.FC<FlashcardPlayerBodyProps> = ({
       }
 
       isAnimatingRef.current = true;
+      const answerSeconds = (Date.now() - cardShownAtRef.current) / 1000;
       try {
         const previousProgress = currentIdx;
         const previousCompletion = currentIdx >= currentSession.cards.length;
@@ -812,7 +1020,14 @@ const FlashcardPlayerBody: React.FC<FlashcardPlayerBodyProps> = ({
           currentCard.vocabId && bankItems.length > 0
             ? bankItems.find(item => item.id === currentCard.vocabId)?.performanceData ?? null
             : null;
-        const outcome: FlashcardOutcome = direction === 'right' ? 'correct' : 'incorrect';
+        const previousItem = currentCard.vocabId
+          ? bankItems.find(item => item.id === currentCard.vocabId)
+          : undefined;
+        const outcome: FlashcardOutcome = grade
+          ? gradeToOutcome(grade)
+          : direction === 'right'
+            ? 'correct'
+            : 'incorrect';
         const undoEntry: UndoEntry = {
           cardId: currentCard.cardId,
           previousProgress,
@@ -820,26 +1035,58 @@ const FlashcardPlayerBody: React.FC<FlashcardPlayerBodyProps> = ({
           vocabId: currentCard.vocabId ?? null,
           previousSrs,
           previousPerformance,
+          previousFolders: previousItem?.folders ?? null,
+          previousSuspended: Boolean(previousItem?.suspended),
+          requeuedCardId: null,
+          reviewId: null,
+          countedInSpeedRound: Boolean(speedRound),
         };
 
         await appendHistory({
           sessionId: session.sessionId,
           cardId: currentCard.cardId,
           outcome,
+          grade,
         });
-        await applySrsUpdate(currentCard, outcome).catch(error => {
-          console.warn('Failed to update SRS for flashcard', error);
-        });
+        const slow = speedRound
+          ? isSlowAnswer(speedRound, currentSession.cards.length, answerSeconds)
+          : undefined;
+        if (speedRound) {
+          speedAnswersRef.current.push({
+            score: outcome === 'correct' ? 1 : 0,
+            seconds: answerSeconds,
+          });
+        }
+        // Running out of time is not a review: the card keeps its schedule and stays due
+        const update = timedOut
+          ? null
+          : await applySrsUpdate(currentCard, outcome, grade, slow).catch(error => {
+              console.warn('Failed to update SRS for flashcard', error);
+              return null;
+            });
+        undoEntry.reviewId = update?.reviewId ?? null;
+        // Cards left in a short learning step come back at the end of this session, except in
+        // speed rounds, which keep a fixed deck
+        if (
+          !speedRound &&
+          update?.srsData &&
+          shouldRequeueInSession(update.srsData, new Date())
+        ) {
+          undoEntry.requeuedCardId = await requeueCard(session.sessionId, currentCard.cardId);
+        }
+        const cardCount = currentSession.cards.length + (undoEntry.requeuedCardId ? 1 : 0);
         const nextProgressIndex = currentIdx + 1;
-        const isSessionComplete = nextProgressIndex >= currentSession.cards.length;
+        const isSessionComplete = nextProgressIndex >= cardCount || timeUpRef.current;
         await setProgress(session.sessionId, {
-          currentIndex: isSessionComplete ? currentSession.cards.length : nextProgressIndex,
+          currentIndex: isSessionComplete ? cardCount : nextProgressIndex,
           isComplete: isSessionComplete,
           lastOpenedAt: new Date().toISOString(),
         });
 
         // Update local state to trigger completion screen or advance to next card
-        const newIndex = isSessionComplete ? currentSession.cards.length : Math.min(nextProgressIndex, maxIndex);
+        const newIndex = isSessionComplete
+          ? cardCount
+          : Math.min(nextProgressIndex, Math.max(cardCount - 1, 0));
         setCurrentIndex(newIndex);
         currentIndexRef.current = newIndex;
 
@@ -869,13 +1116,47 @@ const FlashcardPlayerBody: React.FC<FlashcardPlayerBodyProps> = ({
       applySrsUpdate,
       bankItems,
       finalizeSession,
-      maxIndex,
+      requeueCard,
       session.sessionId,
       setProgress,
+      speedRound,
       translateX,
     ],
   );
 
+  // Running out of time counts the card on screen as missed in the round, not in its schedule
+  const secondsLeft = useCountdown(deadline, () => {
+    if (speedRound?.timer === 'per_session') {
+      timeUpRef.current = true;
+    }
+    handleSwipe('left', undefined, true);
+  });
+
+  const handleGrade = useCallback(
+    (grade: FlashcardGrade) => {
+      handleSwipe(grade === 'again' ? 'left' : 'right', grade);
+    },
+    [handleSwipe],
+  );
+
+  // Next interval each grade would schedule, shown on the grade buttons
+  const gradePreviews = useMemo(() => {
+    if (gradingMode !== 'grades' || !card?.vocabId) {
+      return null;
+    }
+    const vocab = bankItems.find(item => item.id === card.vocabId);
+    if (!vocab) {
+      return null;
+    }
+    return formatGradePreviews(
+      previewGradeIntervals(vocab.srsData, {
+        ...resolveSrsUpdateOptions(activeProfile),
+        dueLoad: buildDueLoad(bankItems.filter(item => item.id !== vocab.id)),
+        creditOverdue: session.catchUp,
+      }),
+    );
+  }, [activeProfile, bankItems, card?.vocabId, gradingMode, session.catchUp]);
+
   const handleToggleFlag = async () => {
     if (!card) {
       return;
@@ -893,6 +1174,12 @@ const FlashcardPlayerBody: React.FC<FlashcardPlayerBodyProps> = ({
     }
     try {
       await popHistory({ sessionId: session.sessionId, cardId: entry.cardId }).catch(() => undefined);
+      if (entry.countedInSpeedRound) {
+        speedAnswersRef.current.pop();
+      }
+      if (entry.requeuedCardId) {
+        await removeCard(session.sessionId, entry.requeuedCardId).catch(() => undefined);
+      }
       if (entry.vocabId) {
         try {
           if (entry.previousSrs) {
@@ -905,6 +1192,21 @@ const FlashcardPlayerBody: React.FC<FlashcardPlayerBodyProps> = ({
           if (entry.previousPerformance) {
             await updatePerformanceData(entry.vocabId, entry.previousPerformance);
           }
+          const current = useBankStore.getState().items.find(item => item.id === entry.vocabId);
+          if (
+            current &&
+            entry.previousFolders &&
+            hasLeechTag(current) &&
+            !hasLeechTag({ tags: entry.previousFolders })
+          ) {
+            await updateFolders(entry.vocabId, entry.previousFolders);
+          }
+          if (current && Boolean(current.suspended) !== entry.previousSuspended) {
+            await setSuspended(entry.vocabId, entry.previousSuspended);
+          }
+          if (entry.reviewId) {
+            await removeReview(entry.reviewId);
+          }
         } catch (error) {
           console.warn('Failed to revert SRS metadata', error);
         }
@@ -927,7 +1229,8 @@ const FlashcardPlayerBody: React.FC<FlashcardPlayerBodyProps> = ({
     }
   };
 
-  const canUndo = undoCount > 0;
+  // No take-backs against the clock
+  const canUndo = undoCount > 0 && !speedRound;
 
   // Use tallies derived from history so they always match the rendered session state
   const tallyCorrect = outcomes.correct;
@@ -940,7 +1243,7 @@ const FlashcardPlayerBody: React.FC<FlashcardPlayerBodyProps> = ({
   const handleReviewMissed = async () => {
     // Use the component's session.cards directly (same data source as displayed counts)
     // to ensure consistency between what's shown and what's filtered
-    const missedCards = cards.filter(candidate => {
+    const missedCards = collapseRequeuedCards(cards).filter(candidate => {
       const lastEntry = candidate.history[candidate.history.length - 1];
       return lastEntry?.outcome === 'incorrect';
     });
@@ -954,7 +1257,7 @@ const FlashcardPlayerBody: React.FC<FlashcardPlayerBodyProps> = ({
   };
 
   const handleReviewAll = async () => {
-    await restartSessionWithCards(cards);
+    await restartSessionWithCards(collapseRequeuedCards(cards));
   };
 
   const handleExitActivity = () => {
@@ -973,7 +1276,10 @@ const FlashcardPlayerBody: React.FC<FlashcardPlayerBodyProps> = ({
         </View>
         <View style={styles.modalCountersRow}>
           <Text style={[styles.counterLabel, styles.counterLabelDanger]}>{tallyIncorrect}</Text>
-          <Text style={styles.counterLabel}>{progressLabel}</Text>
+          <Text style={styles.counterLabel}>
+            {progressLabel}
+            {secondsLeft !== null ? ` · ${secondsLeft}s` : ''}
+          </Text>
           <Text style={[styles.counterLabel, styles.counterLabelSuccess]}>{tallyCorrect}</Text>
         </View>
 
@@ -985,6 +1291,7 @@ const FlashcardPlayerBody: React.FC<FlashcardPlayerBodyProps> = ({
             styles={styles}
             dynamicStyles={dynamicStyles}
             colors={colors}
+            speedRound={speedRoundStanding}
             onReviewMissed={handleReviewMissed}
             onReviewAll={handleReviewAll}
             onExitActivity={handleExitActivity}
@@ -1067,6 +1374,9 @@ const FlashcardPlayerBody: React.FC<FlashcardPlayerBodyProps> = ({
                 </Pressable>
               </Animated.View>
             </View>
+            {gradingMode === 'grades' && isFlipped ? (
+              <GradeButtons previews={gradePreviews} disabled={!card} onGrade={handleGrade} />
+            ) : null}
           </View>
         ) : null}
         <View style={styles.undoRow}>
@@ -6,6 +6,7 @@ import {
   FtxSession,
   FtxSessionSchema,
   FlashcardHistorySchema,
+  type FlashcardGrade,
   type FlashcardHistory,
 } from '@/contracts/models';
 import { storageService } from '@/services/storage-service';
@@ -25,9 +26,13 @@ export interface FlashcardSessionState {
     sessionId: string;
     cardId: string;
     outcome: 'correct' | 'incorrect';
+    grade?: FlashcardGrade;
   }) => Promise<void>;
   popHistory: (params: { sessionId: string; cardId: string }) => Promise<FlashcardHistory | null>;
   toggleFlagged: (sessionId: string, cardId: string, flagged: boolean) => Promise<void>;
+  /** Appends a fresh copy of a card to the end of the session; resolves to the copy's id. */
+  requeueCard: (sessionId: string, cardId: string) => Promise<string | null>;
+  removeCard: (sessionId: string, cardId: string) => Promise<void>;
   setProgress: (sessionId: string, progress: FtxSession['progress']) => Promise<void>;
   setRecap: (sessionId: string, recap: FtxRecap | null) => Promise<void>;
   markSessionOpened: (sessionId: string) => Promise<void>;
@@ -41,6 +46,8 @@ const DEFAULT_STATE: Omit<
   | 'saveSession'
   | 'appendHistory'
   | 'toggleFlagged'
+  | 'requeueCard'
+  | 'removeCard'
   | 'popHistory'
   | 'setProgress'
   | 'setRecap'
@@ -101,7 +108,7 @@ export const useFlashcardSessionStore = create<FlashcardSessionState>((set, get)
     await persistSessions(snapshot);
     set({ sessions: snapshot });
   },
-  appendHistory: async ({ sessionId, cardId, outcome }) => {
+  appendHistory: async ({ sessionId, cardId, outcome, grade }) => {
     const session = get().sessions[sessionId];
     if (!session) {
       throw new Error(`Session ${sessionId} does not exist.`);
@@ -113,6 +120,7 @@ export const useFlashcardSessionStore = create<FlashcardSessionState>((set, get)
       const historyEntry = FlashcardHistorySchema.parse({
         attemptId: `${card.cardId}-${Date.now()}`,
         outcome,
+        grade,
         timestamp: new Date().toISOString(),
       });
       return {
@@ -140,6 +148,41 @@ export const useFlashcardSessionStore = create<FlashcardSessionState>((set, get)
     await persistSessions(snapshot);
     set({ sessions: snapshot });
   },
+  requeueCard: async (sessionId, cardId) => {
+    const session = get().sessions[sessionId];
+    if (!session) {
+      throw new Error(`Session ${sessionId} does not exist.`);
+    }
+    const source = session.cards.find(card => card.cardId === cardId);
+    if (!source) {
+      return null;
+    }
+    const rootId = source.requeuedFromCardId ?? source.cardId;
+    const repeatCount = session.cards.filter(card => card.requeuedFromCardId === rootId).length;
+    const copy: FtxCard = {
+      ...source,
+      cardId: `${rootId}:r${repeatCount + 1}`,
+      history: [],
+      requeuedFromCardId: rootId,
+    };
+    const snapshot = {
+      ...get().sessions,
+      [sessionId]: { ...session, cards: [...session.cards, copy] },
+    };
+    await persistSessions(snapshot);
+    set({ sessions: snapshot });
+    return copy.cardId;
+  },
+  removeCard: async (sessionId, cardId) => {
+    const session = get().sessions[sessionId];
+    if (!session) {
+      throw new Error(`Session ${sessionId} does not exist.`);
+    }
+    const cards = session.cards.filter(card => card.cardId !== cardId);
+    const snapshot = { ...get().sessions, [sessionId]: { ...session, cards } };
+    await persistSessions(snapshot);
+    set({ sessions: snapshot });
+  },
   setProgress: async (sessionId, progress) => {
     const session = get().sessions[sessionId];
     if (!session) {
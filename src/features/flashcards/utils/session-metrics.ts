@@ -21,8 +21,21 @@ export const computeOutcomes = (cards: FtxCard[]): OutcomeCounts =>
     { correct: 0, incorrect: 0 },
   );
 
+/**
+ * Keeps the last copy of every card, so a word re-queued by a learning step
+ * is scored once, on its final attempt.
+ */
+export const collapseRequeuedCards = (cards: FtxCard[]): FtxCard[] => {
+  const lastByRoot = new Map<string, FtxCard>();
+  cards.forEach(item => {
+    lastByRoot.set(item.requeuedFromCardId ?? item.cardId, item);
+  });
+  return Array.from(lastByRoot.values());
+};
+
 /** Build a recap payload from completed cards with flagged/id metadata. */
-export const buildRecap = (cards: FtxCard[], srsDue: Map<string, string>) => {
+export const buildRecap = (allCards: FtxCard[], srsDue: Map<string, string>) => {
+  const cards = collapseRequeuedCards(allCards);
   const latest = cards
     .map(item => item.history[item.history.length - 1])
     .filter((entry): entry is NonNullable<(typeof item.history)[number]> => Boolean(entry));
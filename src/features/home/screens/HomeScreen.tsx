@@ -33,6 +33,11 @@ import LanguageSwitcherModal from '@/shared/components/LanguageSwitcherModal';
 import { useLanguageProfileStore } from '@/state/language-profile.store';
 import { resolveFlagGlyph } from '@/data/language-library';
 import { DEFAULT_USER_ID } from '@/domain/user/constants';
+import {
+  DEFAULT_CATCH_UP_DAILY_LIMIT,
+  DEFAULT_CATCH_UP_THRESHOLD,
+  countBacklog,
+} from '@/domain/srs/catch-up';
 
 type HomeNavigation = CompositeNavigationProp<
   BottomTabNavigationProp<MainTabsParamList, 'Home'>,
@@ -174,6 +179,8 @@ const HomeScreen: React.FC = () => {
     return bankItems.filter(item => item.createdAt.startsWith(todayKey)).length;
   }, [bankItems]);
 
+  const backlogCount = useMemo(() => countBacklog(bankItems), [bankItems]);
+
   const streakValue = useMemo(() => {
     if (!stats) {
       return '0 days';
@@ -331,6 +338,20 @@ const HomeScreen: React.FC = () => {
           </Pressable>
         </View>
 
+        {backlogCount >= DEFAULT_CATCH_UP_THRESHOLD ? (
+          <Pressable
+            onPress={() => navigation.navigate('FlashcardTraining', { catchUp: true })}
+            style={({ pressed }) => [styles.catchUpCard, pressed && styles.catchUpCardPressed]}
+            accessibilityRole="button"
+            accessibilityLabel={`Catch up on ${backlogCount} overdue reviews`}
+          >
+            <Text style={styles.catchUpTitle}>{`Catch up on ${backlogCount} overdue reviews`}</Text>
+            <Text style={styles.catchUpDescription}>
+              {`Starts with the words you are most likely to still remember, up to ${DEFAULT_CATCH_UP_DAILY_LIMIT} a day.`}
+            </Text>
+          </Pressable>
+        ) : null}
+
         <View style={styles.quickAccessRow}>
           <QuickAccessCard
             title="Word Bank"
@@ -613,6 +634,26 @@ const createStyles = (colors: ThemeColors) =>
       height: 22,
       resizeMode: 'contain',
     },
+    catchUpCard: {
+      borderRadius: radii.surface,
+      padding: spacing.base * 2,
+      gap: 6,
+      backgroundColor: colors.accentSoft,
+      borderWidth: StyleSheet.hairlineWidth,
+      borderColor: colors.accent,
+      ...shadows.card,
+    },
+    catchUpCardPressed: {
+      opacity: 0.85,
+    },
+    catchUpTitle: {
+      ...typography.bodyStrong,
+      color: colors.textPrimary,
+    },
+    catchUpDescription: {
+      ...typography.caption,
+      color: colors.textSecondary,
+    },
     quickAccessRow: {
       flexDirection: 'row',
       gap: spacing.base,
@@ -13,6 +13,10 @@ import type { BottomTabNavigationProp } from '@react-navigation/bottom-tabs';
 import type { MainTabsParamList, RootStackParamList } from '@/navigation/types';
 import { useNotesStore } from '@/state/notes.store';
 import { useBankStore } from '@/state/bank.store';
+import { useSettingsStore } from '@/state/settings.store';
+import { shouldQueueAiRequests, useAiOutboxStore } from '@/state/ai-outbox.store';
+import { aiTutorBackend } from '@/services/container';
+import type { TutorChatParams } from '@/contracts/services';
 import { colors, spacing, radii, typography, shadows, fontFamilies } from '@/shared/theme/tokens';
 import ScreenContainer from '@/shared/components/ScreenContainer';
 
@@ -24,12 +28,19 @@ const NoteDetailScreen: React.FC<Props> = ({ route, navigation }) => {
   const [titleDraft, setTitleDraft] = useState('');
   const [contentDraft, setContentDraft] = useState('');
   const [statusUpdating, setStatusUpdating] = useState(false);
+  const [isAskingTutor, setIsAskingTutor] = useState(false);
 
   const note = useNotesStore(state => state.findNote(noteId));
   const updateNoteContent = useNotesStore(state => state.updateNoteContent);
   const setNoteAnswered = useNotesStore(state => state.setNoteAnswered);
   const deleteNote = useNotesStore(state => state.deleteNote);
   const loadNotes = useNotesStore(state => state.loadNotes);
+  const saveNoteAnswer = useNotesStore(state => state.saveNoteAnswer);
+  const hasTutorEndpoint = useSettingsStore(state => state.aiTutorApiKey.trim().length > 0);
+  const enqueueAiRequest = useAiOutboxStore(state => state.enqueue);
+  const isTutorQueued = useAiOutboxStore(state =>
+    state.entries.some(entry => entry.target.type === 'note' && entry.target.noteId === noteId),
+  );
 
   const { items, loadBank } = useBankStore();
 
@@ -117,6 +128,40 @@ const NoteDetailScreen: React.FC<Props> = ({ route, navigation }) => {
     }
   };
 
+  /**
+   * Asks the configured tutor endpoint to answer the note. The echo backend is never used, as
+   * its placeholder would be saved as the answer; offline, the question waits in the outbox.
+   */
+  const handleAskTutor = async () => {
+    if (isAskingTutor) {
+      return;
+    }
+    const params: TutorChatParams = {
+      turns: [{ role: 'learner', content: `${note.title}\n\n${note.content}` }],
+      context: `A learner's note in ${note.sourceLanguage}; answer it as a native mentor would.`,
+    };
+    setIsAskingTutor(true);
+    try {
+      if (shouldQueueAiRequests()) {
+        await enqueueAiRequest({ kind: 'chat', params }, { type: 'note', noteId: note.id });
+        return;
+      }
+      const tutor = aiTutorBackend.getRemoteBackend();
+      if (!tutor) {
+        throw new Error('Add an AI tutor API key in Settings first.');
+      }
+      const answer = await tutor.streamChat(params, { onDelta: () => undefined });
+      await saveNoteAnswer(note.id, answer);
+    } catch (error) {
+      Alert.alert(
+        'Unable to ask the tutor',
+        error instanceof Error ? error.message : 'Please try again in a moment.',
+      );
+    } finally {
+      setIsAskingTutor(false);
+    }
+  };
+
   const isAnswered = Boolean(note.answeredAt);
   const statusLabel = isAnswered ? 'Answered' : 'Unanswered';
   const statusTimestamp = isAnswered && note.answeredAt
@@ -235,6 +280,22 @@ const NoteDetailScreen: React.FC<Props> = ({ route, navigation }) => {
           ) : (
             <Text style={styles.placeholder}>Awaiting reply from your native mentor.</Text>
           )}
+          {!note.answer && isTutorQueued ? (
+            <Text style={styles.placeholder}>
+              Your question is queued; the AI tutor will answer when you reconnect.
+            </Text>
+          ) : null}
+          {!note.answer && !isTutorQueued && hasTutorEndpoint ? (
+            <Pressable
+              onPress={handleAskTutor}
+              disabled={isAskingTutor}
+              style={[styles.secondaryButton, styles.askTutorButton]}
+            >
+              <Text style={styles.secondaryLabel}>
+                {isAskingTutor ? 'Asking the AI tutor…' : 'Ask the AI tutor'}
+              </Text>
+            </Pressable>
+          ) : null}
         </View>
 
       <View style={styles.actionsRow}>
@@ -474,6 +535,9 @@ const styles = StyleSheet.create({
     paddingHorizontal: 16,
     paddingVertical: 12,
   },
+  askTutorButton: {
+    alignSelf: 'flex-start',
+  },
   secondaryLabel: {
     ...typography.caption,
     color: colors.textSecondary,
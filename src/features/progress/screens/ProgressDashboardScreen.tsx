@@ -1,23 +1,41 @@
-import React, { useEffect } from 'react';
-import { useFocusEffect } from '@react-navigation/native';
+import React, { useEffect, useMemo } from 'react';
+import { useFocusEffect, useNavigation } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { useCallback } from 'react';
 import {
   ActivityIndicator,
+  Pressable,
   ScrollView,
   StyleSheet,
   Text,
   View,
 } from 'react-native';
 import { useProgressDashboardStore } from '@/state/progress.store';
+import { useLanguageProfileStore } from '@/state/language-profile.store';
+import { useBankStore } from '@/state/bank.store';
+import { findRecurringMistakes, PITFALL_LABELS } from '@/domain/translation/remediation';
+import type { RootStackParamList } from '@/navigation/types';
 import { colors, spacing, radii, typography, shadows } from '@/shared/theme/tokens';
 import ScreenContainer from '@/shared/components/ScreenContainer';
+import DueForecastChart from '@/shared/components/DueForecastChart';
+
+/** Affected words listed per recurring mistake. */
+const MISTAKE_WORD_PREVIEW = 3;
 
 const ProgressDashboardScreen: React.FC = () => {
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+  const activeProfile = useLanguageProfileStore(state =>
+    state.activeProfileId ? state.profiles[state.activeProfileId] : undefined,
+  );
+  const loadProfiles = useLanguageProfileStore(state => state.loadProfiles);
+  const bankItems = useBankStore(state => state.items);
+  const loadBank = useBankStore(state => state.loadBank);
   const {
     stats,
     weakWords,
     weeklyActivity,
     weeklyMinutes,
+    dueForecast,
     recentSessions,
     isLoading,
     error,
@@ -26,7 +44,19 @@ const ProgressDashboardScreen: React.FC = () => {
 
   useEffect(() => {
     load().catch(() => undefined);
-  }, [load]);
+    loadProfiles().catch(() => undefined);
+    loadBank().catch(() => undefined);
+  }, [load, loadProfiles, loadBank]);
+
+  const recurringMistakes = useMemo(() => {
+    const terms = new Map(bankItems.map(item => [item.id, item.term]));
+    return findRecurringMistakes(activeProfile?.errorLedger ?? []).map(mistake => ({
+      ...mistake,
+      terms: mistake.vocabIds
+        .map(vocabId => terms.get(vocabId))
+        .filter((term): term is string => Boolean(term)),
+    }));
+  }, [activeProfile, bankItems]);
 
   useFocusEffect(
     useCallback(() => {
@@ -98,6 +128,14 @@ const ProgressDashboardScreen: React.FC = () => {
         </View>
       </View>
 
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Review forecast</Text>
+        <Text style={styles.sectionSubtitle}>Reviews due over the next 30 days</Text>
+        <View style={styles.chartCard}>
+          <DueForecastChart data={dueForecast} />
+        </View>
+      </View>
+
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>New vs. reviewed words</Text>
         <View style={styles.chartCard}>
@@ -169,6 +207,44 @@ const ProgressDashboardScreen: React.FC = () => {
         </View>
       </View>
 
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Your recurring mistakes</Text>
+        <Text style={styles.sectionSubtitle}>Pitfalls that keep coming up in translations</Text>
+        <View style={styles.chartCard}>
+          {recurringMistakes.length === 0 ? (
+            <Text style={styles.blankText}>
+              No recurring mistakes yet. Translation practice tracks them here.
+            </Text>
+          ) : (
+            <>
+              {recurringMistakes.map(mistake => (
+                <View key={mistake.pitfall} style={styles.wordRow}>
+                  <Text style={styles.wordTerm}>
+                    {`${PITFALL_LABELS[mistake.pitfall]} · ${mistake.count}×`}
+                  </Text>
+                  {mistake.terms.length > 0 ? (
+                    <Text style={styles.wordMeta}>
+                      {mistake.terms.slice(0, MISTAKE_WORD_PREVIEW).join(', ')}
+                      {mistake.terms.length > MISTAKE_WORD_PREVIEW
+                        ? ` +${mistake.terms.length - MISTAKE_WORD_PREVIEW} more`
+                        : ''}
+                    </Text>
+                  ) : null}
+                </View>
+              ))}
+              <Pressable
+                style={styles.practiceButton}
+                accessibilityRole="button"
+                accessibilityLabel="Practice your recurring mistakes"
+                onPress={() => navigation.navigate('TranslationPractice', { remediation: true })}
+              >
+                <Text style={styles.practiceButtonLabel}>Practice these</Text>
+              </Pressable>
+            </>
+          )}
+        </View>
+      </View>
+
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>Weak words</Text>
         <View style={styles.chartCard}>
@@ -368,6 +444,16 @@ const styles = StyleSheet.create({
     ...typography.caption,
     color: colors.textSecondary,
   },
+  practiceButton: {
+    borderRadius: radii.control,
+    backgroundColor: colors.accent,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  practiceButtonLabel: {
+    ...typography.bodyStrong,
+    color: colors.surface,
+  },
   errorText: {
     ...typography.caption,
     color: colors.error,
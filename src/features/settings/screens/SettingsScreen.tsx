@@ -9,14 +9,83 @@ import {
   View,
 } from 'react-native';
 import { useSettingsStore } from '@/state/settings.store';
-import { youTubeService, aiTutorService } from '@/services/container';
+import {
+  youTubeService,
+  aiTutorService,
+  dictionaryService,
+  reviewLogRepository,
+} from '@/services/container';
+import {
+  DEFAULT_AI_TUTOR_BASE_URL,
+  DEFAULT_AI_TUTOR_MODEL,
+  HttpAiTutorBackend,
+} from '@/services/http-ai-tutor-backend';
 import { useOfflineStore } from '@/state/offline.store';
+import { useLanguageProfileStore } from '@/state/language-profile.store';
+import { useBankStore } from '@/state/bank.store';
+import type { FlashcardGradingMode, LeechAction, SrsAlgorithm } from '@/contracts/models';
+import { resolveLeechPolicy } from '@/domain/srs/leech';
+import { resolveDailyNewCardLimit } from '@/domain/selectors/session-priority';
+import { DEFAULT_SM2_PARAMETERS } from '@/domain/srs/sm2-engine';
+import { optimiseSm2Parameters } from '@/domain/srs/parameter-optimiser';
 import ScreenContainer from '@/shared/components/ScreenContainer';
 import { typography } from '@/shared/theme/tokens';
 import { useTheme } from '@/shared/theme/theme';
 import { useThemeStyles } from '@/shared/theme/useThemeStyles';
 import type { ThemeColors } from '@/shared/theme/theme';
 
+const SCHEDULER_OPTIONS: Array<{ value: SrsAlgorithm; label: string; description: string }> = [
+  {
+    value: 'sm2',
+    label: 'SM-2',
+    description: 'Classic fixed ladder: 1 day, 6 days, then ease-based growth.',
+  },
+  {
+    value: 'fsrs',
+    label: 'FSRS',
+    description: 'Adapts intervals to each word’s stability and difficulty. Fewer reviews for easy words.',
+  },
+];
+
+const GRADING_OPTIONS: Array<{ value: FlashcardGradingMode; label: string; description: string }> = [
+  {
+    value: 'swipe',
+    label: 'Swipe',
+    description: 'Swipe right if you knew it, left if you missed it.',
+  },
+  {
+    value: 'grades',
+    label: 'Again / Hard / Good / Easy',
+    description: 'Grade each card after flipping it. Each button shows when the card would return.',
+  },
+];
+
+const NEW_CARD_LIMIT_OPTIONS = [5, 10, 20, 40];
+
+const LEECH_THRESHOLD_OPTIONS = [4, 6, 8, 12];
+
+const TARGET_RETENTION_OPTIONS = [0.85, 0.9, 0.95];
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+const LEECH_ACTION_OPTIONS: Array<{ value: LeechAction; label: string; description: string }> = [
+  {
+    value: 'suspend',
+    label: 'Tag & suspend',
+    description: 'Leeches are tagged and pulled from sessions until you rewrite them in the word bank.',
+  },
+  {
+    value: 'tag',
+    label: 'Tag only',
+    description: 'Leeches are tagged but keep appearing in sessions.',
+  },
+];
+
+const formatBytes = (bytes: number): string =>
+  bytes < 1024 * 1024
+    ? `${Math.round(bytes / 1024)} KB`
+    : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
 const SettingsScreen: React.FC = () => {
   const {
     dailyGoalMinutes,
@@ -26,6 +95,8 @@ const SettingsScreen: React.FC = () => {
     loadSettings,
     updateYoutubeApiKey,
     updateAiTutorApiKey,
+    updateAiTutorBaseUrl,
+    updateAiTutorModel,
     updateDailyGoalMinutes,
     updateTheme,
     updatePreferredVoice,
@@ -33,9 +104,38 @@ const SettingsScreen: React.FC = () => {
   } = useSettingsStore();
 
   const isOffline = useOfflineStore(state => state.isOffline);
+  const activeProfile = useLanguageProfileStore(state =>
+    state.activeProfileId ? state.profiles[state.activeProfileId] : undefined,
+  );
+  const loadProfiles = useLanguageProfileStore(state => state.loadProfiles);
+  const updateSrsAlgorithm = useLanguageProfileStore(state => state.updateSrsAlgorithm);
+  const updateFlashcardGradingMode = useLanguageProfileStore(
+    state => state.updateFlashcardGradingMode,
+  );
+  const activeAlgorithm: SrsAlgorithm = activeProfile?.srsAlgorithm ?? 'sm2';
+  const activeGradingMode: FlashcardGradingMode = activeProfile?.flashcardGradingMode ?? 'swipe';
+  const updateLeechSettings = useLanguageProfileStore(state => state.updateLeechSettings);
+  const leechPolicy = resolveLeechPolicy(activeProfile);
+  const updateDailyNewCardLimit = useLanguageProfileStore(state => state.updateDailyNewCardLimit);
+  const dailyNewCardLimit = resolveDailyNewCardLimit(activeProfile);
+  const updateSm2Parameters = useLanguageProfileStore(state => state.updateSm2Parameters);
+  const sm2Parameters = activeProfile?.sm2Parameters ?? DEFAULT_SM2_PARAMETERS;
+  const sm2Summary =
+    `starting ease ${sm2Parameters.initialEaseFactor}, ` +
+    `second step ${sm2Parameters.secondIntervalDays} days, ` +
+    `intervals ×${sm2Parameters.intervalModifier}`;
+  const bankItems = useBankStore(state => state.items);
   const [youtubeDraft, setYoutubeDraft] = useState('');
   const [aiDraft, setAiDraft] = useState('');
+  const [aiBaseUrlDraft, setAiBaseUrlDraft] = useState(DEFAULT_AI_TUTOR_BASE_URL);
+  const [aiModelDraft, setAiModelDraft] = useState(DEFAULT_AI_TUTOR_MODEL);
+  const [aiCacheUsage, setAiCacheUsage] = useState(() =>
+    aiTutorService.getTranslationCacheUsage(),
+  );
   const [goalDraft, setGoalDraft] = useState(String(dailyGoalMinutes));
+  const [dictionaryPacks, setDictionaryPacks] = useState(() => dictionaryService.listPacks());
+  const [dictionaryUrlDraft, setDictionaryUrlDraft] = useState('');
+  const [isImportingDictionary, setIsImportingDictionary] = useState(false);
 
   useEffect(() => {
     const hydrate = async () => {
@@ -43,18 +143,153 @@ const SettingsScreen: React.FC = () => {
       const state = useSettingsStore.getState();
       setYoutubeDraft(state.youtubeApiKey);
       setAiDraft(state.aiTutorApiKey);
+      setAiBaseUrlDraft(state.aiTutorBaseUrl);
+      setAiModelDraft(state.aiTutorModel);
       setGoalDraft(String(state.dailyGoalMinutes));
       await refreshVoices();
     };
 
     hydrate().catch(() => undefined);
-  }, [loadSettings, refreshVoices]);
+    loadProfiles().catch(() => undefined);
+  }, [loadSettings, refreshVoices, loadProfiles]);
+
+  const handleSelectAlgorithm = async (algorithm: SrsAlgorithm) => {
+    if (!activeProfile || algorithm === activeAlgorithm) {
+      return;
+    }
+    try {
+      await updateSrsAlgorithm(activeProfile.profileId, algorithm);
+    } catch (error) {
+      Alert.alert(
+        'Error',
+        error instanceof Error ? error.message : 'Unable to update the review scheduler.',
+      );
+    }
+  };
+
+  const handleSelectGradingMode = async (mode: FlashcardGradingMode) => {
+    if (!activeProfile || mode === activeGradingMode) {
+      return;
+    }
+    try {
+      await updateFlashcardGradingMode(activeProfile.profileId, mode);
+    } catch (error) {
+      Alert.alert(
+        'Error',
+        error instanceof Error ? error.message : 'Unable to update flashcard grading.',
+      );
+    }
+  };
+
+  const handleSelectNewCardLimit = async (limit: number) => {
+    if (!activeProfile || limit === dailyNewCardLimit) {
+      return;
+    }
+    try {
+      await updateDailyNewCardLimit(activeProfile.profileId, limit);
+    } catch (error) {
+      Alert.alert(
+        'Error',
+        error instanceof Error ? error.message : 'Unable to update the new word limit.',
+      );
+    }
+  };
+
+  const handleUpdateLeechSettings = async (
+    settings: Parameters<typeof updateLeechSettings>[1],
+  ) => {
+    if (!activeProfile) {
+      return;
+    }
+    try {
+      await updateLeechSettings(activeProfile.profileId, settings);
+    } catch (error) {
+      Alert.alert(
+        'Error',
+        error instanceof Error ? error.message : 'Unable to update leech handling.',
+      );
+    }
+  };
+
+  const handleOptimiseSm2 = async (targetRetention: number) => {
+    if (!activeProfile) {
+      return;
+    }
+    try {
+      const profileItems = bankItems.filter(item => {
+        const owner = item.metadata?.profileId;
+        return !owner || owner === activeProfile.profileId;
+      });
+      const itemIds = new Set(profileItems.map(item => item.id));
+      const entries = (await reviewLogRepository.listAllReviews()).filter(entry =>
+        itemIds.has(entry.vocabItemId),
+      );
+      const result = optimiseSm2Parameters(entries, {
+        now: new Date(),
+        targetRetention,
+        current: activeProfile.sm2Parameters,
+        items: profileItems,
+      });
+
+      if (result.type === 'insufficient') {
+        Alert.alert(
+          'Not enough history',
+          `Fitting needs ${result.required} reviews of words past their first day; ` +
+            `you have ${result.reviewCount}.`,
+        );
+        return;
+      }
+
+      const { before, after, parameters } = result;
+      Alert.alert(
+        'Apply fitted parameters?',
+        `Predicted workload: ${before.reviewsPerDay} reviews/day at ` +
+          `${formatPercent(before.retention)} recall now, ${after.reviewsPerDay} reviews/day ` +
+          `at ${formatPercent(after.retention)} with the fitted parameters.`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          {
+            text: 'Apply',
+            onPress: () => {
+              updateSm2Parameters(activeProfile.profileId, parameters).catch(error =>
+                Alert.alert(
+                  'Error',
+                  error instanceof Error ? error.message : 'Unable to save the parameters.',
+                ),
+              );
+            },
+          },
+        ],
+      );
+    } catch (error) {
+      Alert.alert(
+        'Error',
+        error instanceof Error ? error.message : 'Unable to fit scheduler parameters.',
+      );
+    }
+  };
+
+  const handleResetSm2 = async () => {
+    if (!activeProfile?.sm2Parameters) {
+      return;
+    }
+    try {
+      await updateSm2Parameters(activeProfile.profileId, undefined);
+    } catch (error) {
+      Alert.alert(
+        'Error',
+        error instanceof Error ? error.message : 'Unable to reset the parameters.',
+      );
+    }
+  };
 
   const handleSave = async () => {
     try {
       await Promise.all([
         updateYoutubeApiKey(youtubeDraft.trim()),
         updateAiTutorApiKey(aiDraft.trim()),
+        updateAiTutorBaseUrl(aiBaseUrlDraft.trim() || DEFAULT_AI_TUTOR_BASE_URL),
+        updateAiTutorModel(aiModelDraft.trim() || DEFAULT_AI_TUTOR_MODEL),
         updateDailyGoalMinutes(Math.max(5, Number(goalDraft) || dailyGoalMinutes)),
       ]);
       Alert.alert('Settings saved');
@@ -85,14 +320,27 @@ const SettingsScreen: React.FC = () => {
   };
 
   const handleTestAiKey = async () => {
+    if (isOffline) {
+      Alert.alert('Offline', 'Connect to the internet to test the AI tutor key.');
+      return;
+    }
+
+    const apiKey = aiDraft.trim();
+    const baseUrl = aiBaseUrlDraft.trim() || DEFAULT_AI_TUTOR_BASE_URL;
+    const model = aiModelDraft.trim() || DEFAULT_AI_TUTOR_MODEL;
     try {
-      await updateAiTutorApiKey(aiDraft.trim());
-      await aiTutorService.translate({
+      await Promise.all([
+        updateAiTutorApiKey(apiKey),
+        updateAiTutorBaseUrl(baseUrl),
+        updateAiTutorModel(model),
+      ]);
+      // No fallback here: the test should fail loudly rather than echo the text back.
+      await new HttpAiTutorBackend({ baseUrl, apiKey, model, maxRetries: 0 }).translate({
         text: 'test',
         sourceLanguage: 'en',
         targetLanguage: 'ja',
       });
-      Alert.alert('Success', 'AI tutor key saved.');
+      Alert.alert('Success', 'AI tutor key appears to be valid.');
     } catch (error) {
       Alert.alert(
         'Test failed',
@@ -101,6 +349,50 @@ const SettingsScreen: React.FC = () => {
     }
   };
 
+  const handleClearAiCache = () => {
+    Alert.alert('Clear AI cache?', 'Saved translations will be fetched again when needed.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Clear',
+        style: 'destructive',
+        onPress: () => {
+          aiTutorService.clearTranslationCache();
+          setAiCacheUsage(aiTutorService.getTranslationCacheUsage());
+        },
+      },
+    ]);
+  };
+
+  const handleImportDictionary = async () => {
+    const url = dictionaryUrlDraft.trim();
+    if (!url || isImportingDictionary) {
+      return;
+    }
+    setIsImportingDictionary(true);
+    try {
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new Error(`The download failed with status ${response.status}.`);
+      }
+      const pack = dictionaryService.importPack(await response.json());
+      setDictionaryPacks(dictionaryService.listPacks());
+      setDictionaryUrlDraft('');
+      Alert.alert('Dictionary imported', `${pack.name}: ${pack.entryCount} headwords.`);
+    } catch (error) {
+      Alert.alert(
+        'Import failed',
+        error instanceof Error ? error.message : 'Unable to import the dictionary.',
+      );
+    } finally {
+      setIsImportingDictionary(false);
+    }
+  };
+
+  const handleRemoveDictionary = (sourceLanguage: string, targetLanguage: string) => {
+    dictionaryService.removePack(sourceLanguage, targetLanguage);
+    setDictionaryPacks(dictionaryService.listPacks());
+  };
+
   const handleRefreshVoices = async () => {
     try {
       await refreshVoices();
@@ -142,9 +434,78 @@ const SettingsScreen: React.FC = () => {
           placeholder="Enter AI Tutor API key"
           placeholderTextColor={colors.textSecondary}
         />
+        <Text style={styles.label}>AI Tutor endpoint</Text>
+        <TextInput
+          style={styles.input}
+          value={aiBaseUrlDraft}
+          autoCapitalize="none"
+          autoCorrect={false}
+          keyboardType="url"
+          onChangeText={setAiBaseUrlDraft}
+          placeholder={DEFAULT_AI_TUTOR_BASE_URL}
+          placeholderTextColor={colors.textSecondary}
+        />
+        <Text style={styles.label}>AI Tutor model</Text>
+        <TextInput
+          style={styles.input}
+          value={aiModelDraft}
+          autoCapitalize="none"
+          autoCorrect={false}
+          onChangeText={setAiModelDraft}
+          placeholder={DEFAULT_AI_TUTOR_MODEL}
+          placeholderTextColor={colors.textSecondary}
+        />
         <TouchableOpacity style={styles.button} onPress={handleTestAiKey}>
           <Text style={styles.buttonLabel}>Test AI Tutor Key</Text>
         </TouchableOpacity>
+        <Text style={styles.label}>
+          AI cache: {aiCacheUsage.entries} of {aiCacheUsage.maxEntries} translations ·{' '}
+          {formatBytes(aiCacheUsage.bytes)} of {formatBytes(aiCacheUsage.maxBytes)}
+        </Text>
+        <TouchableOpacity style={styles.button} onPress={handleClearAiCache}>
+          <Text style={styles.buttonLabel}>Clear AI Cache</Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Offline dictionaries</Text>
+        {dictionaryPacks.map(pack => (
+          <View key={`${pack.sourceLanguage}-${pack.targetLanguage}-${pack.bundled}`}>
+            <Text style={styles.label}>
+              {pack.name} · {pack.sourceLanguage.toUpperCase()}→
+              {pack.targetLanguage.toUpperCase()} · {pack.entryCount} headwords
+              {pack.bundled ? ' · built in' : ''}
+            </Text>
+            {pack.bundled ? null : (
+              <TouchableOpacity
+                style={styles.button}
+                onPress={() => handleRemoveDictionary(pack.sourceLanguage, pack.targetLanguage)}
+              >
+                <Text style={styles.buttonLabel}>Remove</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        ))}
+        <Text style={styles.label}>Import a dictionary pack (JSON URL)</Text>
+        <TextInput
+          style={styles.input}
+          value={dictionaryUrlDraft}
+          autoCapitalize="none"
+          autoCorrect={false}
+          keyboardType="url"
+          onChangeText={setDictionaryUrlDraft}
+          placeholder="https://example.com/es-en.json"
+          placeholderTextColor={colors.textSecondary}
+        />
+        <TouchableOpacity
+          style={styles.button}
+          onPress={handleImportDictionary}
+          disabled={isImportingDictionary}
+        >
+          <Text style={styles.buttonLabel}>
+            {isImportingDictionary ? 'Importing…' : 'Import Dictionary'}
+          </Text>
+        </TouchableOpacity>
       </View>
 
       <View style={styles.section}>
@@ -159,6 +520,165 @@ const SettingsScreen: React.FC = () => {
         />
       </View>
 
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Review scheduler</Text>
+        {activeProfile ? (
+          <>
+            <Text style={styles.label}>
+              Applies to {activeProfile.targetLanguage.toUpperCase()} reviews. Existing words keep
+              their current due dates and move over on their next review.
+            </Text>
+            <View style={styles.themeRow}>
+              {SCHEDULER_OPTIONS.map(option => (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[styles.themeChip, activeAlgorithm === option.value && styles.themeChipActive]}
+                  onPress={() => handleSelectAlgorithm(option.value)}
+                >
+                  <Text
+                    style={[
+                      styles.themeLabel,
+                      activeAlgorithm === option.value && styles.themeLabelActive,
+                    ]}
+                  >
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <Text style={styles.placeholder}>
+              {SCHEDULER_OPTIONS.find(option => option.value === activeAlgorithm)?.description}
+            </Text>
+            {activeAlgorithm === 'sm2' && (
+              <>
+                <Text style={styles.label}>Fit SM-2 to your reviews</Text>
+                <View style={styles.themeRow}>
+                  {TARGET_RETENTION_OPTIONS.map(target => {
+                    const isActive = activeProfile.sm2Parameters?.targetRetention === target;
+                    return (
+                      <TouchableOpacity
+                        key={target}
+                        style={[styles.themeChip, isActive && styles.themeChipActive]}
+                        onPress={() => handleOptimiseSm2(target)}
+                      >
+                        <Text style={[styles.themeLabel, isActive && styles.themeLabelActive]}>
+                          {formatPercent(target)} recall
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                  {activeProfile.sm2Parameters && (
+                    <TouchableOpacity style={styles.themeChip} onPress={handleResetSm2}>
+                      <Text style={styles.themeLabel}>Use defaults</Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+                <Text style={styles.placeholder}>
+                  {activeProfile.sm2Parameters ? 'Fitted' : 'Default'} parameters: {sm2Summary}.
+                  Fitting uses this profile’s review history and runs on this device.
+                </Text>
+              </>
+            )}
+            <Text style={styles.label}>Flashcard grading</Text>
+            <View style={styles.themeRow}>
+              {GRADING_OPTIONS.map(option => (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[
+                    styles.themeChip,
+                    activeGradingMode === option.value && styles.themeChipActive,
+                  ]}
+                  onPress={() => handleSelectGradingMode(option.value)}
+                >
+                  <Text
+                    style={[
+                      styles.themeLabel,
+                      activeGradingMode === option.value && styles.themeLabelActive,
+                    ]}
+                  >
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <Text style={styles.placeholder}>
+              {GRADING_OPTIONS.find(option => option.value === activeGradingMode)?.description}
+            </Text>
+            <Text style={styles.label}>New words per day</Text>
+            <View style={styles.themeRow}>
+              {NEW_CARD_LIMIT_OPTIONS.map(limit => (
+                <TouchableOpacity
+                  key={limit}
+                  style={[styles.themeChip, dailyNewCardLimit === limit && styles.themeChipActive]}
+                  onPress={() => handleSelectNewCardLimit(limit)}
+                >
+                  <Text
+                    style={[
+                      styles.themeLabel,
+                      dailyNewCardLimit === limit && styles.themeLabelActive,
+                    ]}
+                  >
+                    {limit}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <Text style={styles.placeholder}>
+              Sessions start with due reviews. Unseen words fill in up to this many per day, counted
+              separately for flashcards and translation.
+            </Text>
+            <Text style={styles.label}>Leech threshold (lapses)</Text>
+            <View style={styles.themeRow}>
+              {LEECH_THRESHOLD_OPTIONS.map(threshold => (
+                <TouchableOpacity
+                  key={threshold}
+                  style={[
+                    styles.themeChip,
+                    leechPolicy.threshold === threshold && styles.themeChipActive,
+                  ]}
+                  onPress={() => handleUpdateLeechSettings({ leechThreshold: threshold })}
+                >
+                  <Text
+                    style={[
+                      styles.themeLabel,
+                      leechPolicy.threshold === threshold && styles.themeLabelActive,
+                    ]}
+                  >
+                    {threshold}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <View style={styles.themeRow}>
+              {LEECH_ACTION_OPTIONS.map(option => (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[
+                    styles.themeChip,
+                    leechPolicy.action === option.value && styles.themeChipActive,
+                  ]}
+                  onPress={() => handleUpdateLeechSettings({ leechAction: option.value })}
+                >
+                  <Text
+                    style={[
+                      styles.themeLabel,
+                      leechPolicy.action === option.value && styles.themeLabelActive,
+                    ]}
+                  >
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <Text style={styles.placeholder}>
+              {LEECH_ACTION_OPTIONS.find(option => option.value === leechPolicy.action)?.description}
+            </Text>
+          </>
+        ) : (
+          <Text style={styles.placeholder}>Choose a study language to configure reviews.</Text>
+        )}
+      </View>
+
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>Appearance</Text>
         <View style={styles.themeRow}>
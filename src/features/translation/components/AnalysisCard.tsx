@@ -1,6 +1,8 @@
 import React from 'react';
 import { Pressable, Text, View } from 'react-native';
 import MiniChat from '@/features/translation/components/MiniChat';
+import AnswerDiff, { hasAnswerDiff } from '@/features/translation/components/AnswerDiff';
+import { GRADER_LABELS } from '@/features/translation/utils/grading';
 import type { AnalysisState } from '@/features/translation/types';
 import type { MiniChatController } from '@/features/translation/hooks/useMiniChat';
 
@@ -38,9 +40,26 @@ const AnalysisCard: React.FC<Props> = ({
   return (
     <View style={[styles.analysisCard, { backgroundColor: colors.background }]}>
       <Text style={styles.analysisHeadline}>Feedback</Text>
+      <Text style={styles.analysisGrader}>{GRADER_LABELS[analysis.evaluation.grader]}</Text>
       <Text style={styles.analysisPrompt}>{analysis.item.nativeText}</Text>
       <Text style={[styles.analysisLabel, { color: colors.textSecondary }]}>Your answer</Text>
-      <Text style={styles.analysisAnswer}>{analysis.learnerAnswer}</Text>
+      {hasAnswerDiff(analysis.evaluation.alignment) ? (
+        <>
+          <AnswerDiff alignment={analysis.evaluation.alignment} />
+          <Text style={[styles.analysisLabel, { color: colors.textSecondary }]}>
+            Closest translation
+          </Text>
+          <Text style={styles.analysisAnswer}>{analysis.evaluation.closestTranslation}</Text>
+        </>
+      ) : (
+        <Text style={styles.analysisAnswer}>{analysis.learnerAnswer}</Text>
+      )}
+      {analysis.evaluation.correctedSentence ? (
+        <>
+          <Text style={[styles.analysisLabel, { color: colors.textSecondary }]}>Corrected</Text>
+          <Text style={styles.analysisAnswer}>{analysis.evaluation.correctedSentence}</Text>
+        </>
+      ) : null}
       <Text style={[styles.analysisLabel, { color: colors.textSecondary }]}>Tutor insight</Text>
       <Text style={styles.analysisFeedback}>{analysis.evaluation.feedback}</Text>
       <View style={styles.analysisActions}>
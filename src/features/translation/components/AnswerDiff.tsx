@@ -0,0 +1,97 @@
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import { useTheme } from '@/shared/theme/theme';
+import { spacing, typography } from '@/shared/theme/tokens';
+import type { AlignedToken } from '@/domain/translation/evaluator';
+
+type Props = {
+  alignment: AlignedToken[];
+  /** Smaller type for summary lists. */
+  compact?: boolean;
+};
+
+/** Reports whether an alignment has anything worth highlighting. */
+export const hasAnswerDiff = (alignment?: AlignedToken[]): alignment is AlignedToken[] =>
+  Boolean(alignment?.some(token => token.status !== 'matched'));
+
+const ACCESSIBILITY_NOTES: Record<AlignedToken['status'], (token: AlignedToken) => string> = {
+  matched: token => token.text,
+  accent: token => `${token.text}, accent: ${token.expected}`,
+  misspelled: token => `${token.text}, spelled ${token.expected}`,
+  missing: token => `missing ${token.text}`,
+  extra: token => `extra ${token.text}`,
+};
+
+/** Renders the learner's answer word by word with mistakes highlighted inline. */
+const AnswerDiff: React.FC<Props> = ({ alignment, compact = false }) => {
+  const { colors } = useTheme();
+
+  const styleFor = (token: AlignedToken) => {
+    switch (token.status) {
+      case 'accent':
+        return { backgroundColor: colors.warningSoft };
+      case 'misspelled':
+        return { backgroundColor: colors.errorSoft };
+      case 'missing':
+        return [styles.missing, { color: colors.success }];
+      case 'extra':
+        return [styles.extra, { color: colors.error }];
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <View>
+      <Text
+        style={[compact ? styles.compact : styles.line, { color: colors.textPrimary }]}
+        accessibilityLabel={alignment
+          .map(token => ACCESSIBILITY_NOTES[token.status](token))
+          .join(', ')}
+      >
+        {alignment.map((token, index) => (
+          <Text key={`${token.status}-${index}`}>
+            {index > 0 ? ' ' : ''}
+            <Text style={styleFor(token)}>{token.text}</Text>
+            {token.expected ? (
+              <Text style={[styles.correction, { color: colors.textSecondary }]}>
+                {` (${token.expected})`}
+              </Text>
+            ) : null}
+          </Text>
+        ))}
+      </Text>
+      {!compact ? (
+        <Text style={[styles.legend, { color: colors.textSecondary }]}>
+          Highlighted: accents in amber, spelling in red. Underlined words are missing; struck-out
+          words are not needed.
+        </Text>
+      ) : null}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  line: {
+    ...typography.body,
+  },
+  compact: {
+    ...typography.caption,
+  },
+  missing: {
+    textDecorationLine: 'underline',
+    fontFamily: typography.bodyStrong.fontFamily,
+  },
+  extra: {
+    textDecorationLine: 'line-through',
+  },
+  correction: {
+    ...typography.caption,
+  },
+  legend: {
+    ...typography.caption,
+    marginTop: spacing.base * 0.5,
+  },
+});
+
+export default AnswerDiff;
@@ -54,7 +54,7 @@ const MiniChat: React.FC<Props> = ({
             message.role === 'user' ? styles.miniChatBubbleUser : styles.miniChatBubbleAssistant,
           ]}
         >
-          <Text style={styles.miniChatText}>{message.text}</Text>
+          <Text style={styles.miniChatText}>{message.text || '…'}</Text>
         </View>
       ))}
     </ScrollView>
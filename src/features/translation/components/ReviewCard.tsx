@@ -1,11 +1,23 @@
 import React from 'react';
 import { Pressable, ScrollView, Text, View } from 'react-native';
+import AnswerDiff, { hasAnswerDiff } from '@/features/translation/components/AnswerDiff';
+import SpeedRoundBoard from '@/shared/components/SpeedRoundBoard';
+import type { AlignedToken } from '@/domain/translation/evaluator';
+import type { SpeedRoundStanding } from '@/domain/practice/speed-round';
+
+type ReviewSummaryViewEntry = {
+  prompt: string;
+  insight: string;
+  score: number;
+  alignment?: AlignedToken[];
+};
 
 export type ReviewSummaryView = {
   accuracy: number;
   avgTimeSeconds: number;
-  strengths: Array<{ prompt: string; insight: string; score: number }>;
-  focusAreas: Array<{ prompt: string; insight: string; score: number }>;
+  strengths: ReviewSummaryViewEntry[];
+  focusAreas: ReviewSummaryViewEntry[];
+  speedRound?: SpeedRoundStanding;
 };
 
 type ReviewCardProps = {
@@ -71,6 +83,16 @@ const ReviewCard: React.FC<ReviewCardProps> = ({
             <Text style={styles.reviewMetricValue}>{formatTime(summary.avgTimeSeconds)}</Text>
           </View>
         </View>
+        {summary.speedRound ? (
+          <View style={styles.reviewSection}>
+            <Text style={styles.reviewSectionTitle}>Speed round</Text>
+            <SpeedRoundBoard
+              entries={summary.speedRound.leaderboard}
+              latest={summary.speedRound.result}
+              rank={summary.speedRound.rank}
+            />
+          </View>
+        ) : null}
         {summary.strengths.length > 0 ? (
           <View style={styles.reviewSection}>
             <Text style={styles.reviewSectionTitle}>Strengths</Text>
@@ -88,6 +110,9 @@ const ReviewCard: React.FC<ReviewCardProps> = ({
             {summary.focusAreas.map(item => (
               <View key={`${item.prompt}-focus`} style={styles.reviewListItem}>
                 <Text style={styles.reviewListPrompt}>{item.prompt}</Text>
+                {hasAnswerDiff(item.alignment) ? (
+                  <AnswerDiff alignment={item.alignment} compact />
+                ) : null}
                 <Text style={[styles.reviewListInsight, { color: colors.textSecondary }]}>{item.insight}</Text>
               </View>
             ))}
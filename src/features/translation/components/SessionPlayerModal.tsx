@@ -12,8 +12,10 @@ import {
   View,
 } from 'react-native';
 import { useTheme, type ThemeMode } from '@/shared/theme/theme';
+import { useCountdown } from '@/shared/hooks/useCountdown';
 import { spacing } from '@/shared/theme/tokens';
-import { evaluateTranslationAnswer } from '@/domain/translation/evaluator';
+import type { AlignedToken } from '@/domain/translation/evaluator';
+import { gradeTranslationAnswer, ledgerErrorTags } from '@/features/translation/utils/grading';
 import ReviewCard from '@/features/translation/components/ReviewCard';
 import PromptCard from '@/features/translation/components/PromptCard';
 import AnalysisCard from '@/features/translation/components/AnalysisCard';
@@ -21,10 +23,20 @@ import useMiniChat from '@/features/translation/hooks/useMiniChat';
 import type { AnalysisState, ReviewSummary } from '@/features/translation/types';
 import { useTranslationSessionStore, type TranslationSessionState } from '@/state/translation-session.store';
 import type { CreateNoteInput } from '@/state/notes.store';
-import type { NativeNote, VocabItem } from '@/contracts/models';
+import type { NativeNote, TranslationPitfallType, VocabItem } from '@/contracts/models';
 import type { ActivityOutcome } from '@/domain/srs/unified-srs-service';
+import {
+  getSpeedRoundLeaderboard,
+  isSlowAnswer,
+  speedRoundTimeLeft,
+  summariseSpeedRound,
+  type SpeedRoundAnswer,
+  type SpeedRoundStanding,
+} from '@/domain/practice/speed-round';
 import type { TtxSession } from '@/contracts/models';
 import { useBankStore } from '@/state/bank.store';
+import { useLanguageProfileStore } from '@/state/language-profile.store';
+import { aiTutorService } from '@/services/container';
 
 type Props = {
   visible: boolean;
@@ -37,7 +49,7 @@ type Props = {
   toggleFlagged: TranslationSessionState['toggleFlagged'];
   createNote: (input: CreateNoteInput) => Promise<NativeNote>;
   bankItems: VocabItem[];
-  recordActivityOutcome: (itemId: string, outcome: ActivityOutcome) => Promise<void>;
+  recordActivityOutcome: (itemId: string, outcome: ActivityOutcome) => Promise<string | null>;
   styles: any;
   mode: ThemeMode;
   onRequestNewSession: () => void;
@@ -65,6 +77,8 @@ const SessionPlayerModal: React.FC<Props> = ({
     sessionId ? state.sessions[sessionId] : undefined,
   );
   const { colors } = useTheme();
+  const recordError = useLanguageProfileStore(state => state.recordError);
+  const recordSpeedRound = useLanguageProfileStore(state => state.recordSpeedRound);
   const [answer, setAnswer] = useState('');
   const [analysis, setAnalysis] = useState<AnalysisState | null>(null);
   const [reviewSummary, setReviewSummary] = useState<ReviewSummary | null>(null);
@@ -72,10 +86,12 @@ const SessionPlayerModal: React.FC<Props> = ({
   const [isGrading, setIsGrading] = useState(false);
   const [isMiniChatExpanded, setIsMiniChatExpanded] = useState(false);
   const [currentIndex, setCurrentIndex] = useState(0);
+  const [deadline, setDeadline] = useState<number | null>(null);
   const slideAnim = useRef(new Animated.Value(0)).current;
   const chatOverlayAnim = useRef(new Animated.Value(0)).current;
   const durationsRef = useRef<number[]>([]);
   const scoresRef = useRef<number[]>([]);
+  const alignmentsRef = useRef<AlignedToken[][]>([]);
   const attemptTimerRef = useRef<number>(Date.now());
   const resetMiniChat = miniChat.reset;
 
@@ -85,6 +101,7 @@ const SessionPlayerModal: React.FC<Props> = ({
       setCurrentIndex(startIndex);
       durationsRef.current = [];
       scoresRef.current = [];
+      alignmentsRef.current = [];
       attemptTimerRef.current = Date.now();
       setAnswer('');
       setAnalysis(null);
@@ -108,20 +125,52 @@ const SessionPlayerModal: React.FC<Props> = ({
     const firstId = item.focusVocabIds[0];
     return bankItems.find(entry => entry.id === firstId) ?? null;
   }, [item, bankItems]);
+  const isReverse = item?.direction === 'target_to_native';
   const highlightTerm = useMemo(() => {
     if (!focusVocab) {
       return null;
     }
+    if (isReverse) {
+      // Reverse prompts are written in the target language, around the term itself
+      return focusVocab.term;
+    }
     const baseMeaning = focusVocab.meaning?.split(/[.;]/)[0]?.trim();
     return baseMeaning && baseMeaning.length > 0 ? baseMeaning : focusVocab.term;
-  }, [focusVocab]);
+  }, [focusVocab, isReverse]);
+
+  const speedRound = session?.speedRound;
+
+  // The speed-round clock only runs while a prompt is waiting for an answer
+  useEffect(() => {
+    if (!visible || !speedRound || !item || analysis || reviewSummary || isGrading) {
+      setDeadline(null);
+      return;
+    }
+    const spentSeconds = durationsRef.current.reduce((sum, value) => sum + (value ?? 0), 0);
+    const secondsLeft = speedRoundTimeLeft(
+      speedRound,
+      (Date.now() - attemptTimerRef.current) / 1000,
+      spentSeconds,
+    );
+    setDeadline(Date.now() + secondsLeft * 1000);
+  }, [visible, speedRound, item, analysis, reviewSummary, isGrading]);
 
-  const handleSubmit = async () => {
-    if (!session || !item || answer.trim().length === 0) {
+  const secondsLeft = useCountdown(deadline, () => {
+    handleSubmit(true).catch(() => undefined);
+  });
+
+  const handleSubmit = async (timedOut = false) => {
+    if (!session || !item || isGrading || (!timedOut && answer.trim().length === 0)) {
       return;
     }
     setIsGrading(true);
-    const evaluation = evaluateTranslationAnswer(item, answer);
+    const answerSeconds = (Date.now() - attemptTimerRef.current) / 1000;
+    const evaluation = await gradeTranslationAnswer(
+      aiTutorService,
+      item,
+      answer,
+      isReverse ? session.nativeLanguage : session.targetLanguage,
+    );
     const attempt = {
       attemptId: `${item.itemId}-attempt-${Date.now()}`,
       answer: answer.trim(),
@@ -137,21 +186,35 @@ const SessionPlayerModal: React.FC<Props> = ({
     });
 
     const attemptDate = new Date();
-    for (const vocabId of item.focusVocabIds) {
+    // An answer cut off by the clock says little about recall, so it leaves the schedule alone
+    for (const vocabId of timedOut ? [] : item.focusVocabIds) {
       const vocab = bankItems.find(v => v.id === vocabId);
       if (vocab) {
         const activityOutcome: ActivityOutcome = {
-          activityType: 'production',
+          // Reading the target language back into the native one only shows recognition
+          activityType: isReverse ? 'recognition' : 'production',
           wasCorrect: evaluation.score >= 0.5,
           score: evaluation.score,
+          slow: speedRound
+            ? isSlowAnswer(speedRound, session.items.length, answerSeconds)
+            : undefined,
           attemptedAt: attemptDate,
         };
         recordActivityOutcome(vocabId, activityOutcome).catch(() => undefined);
       }
     }
 
-    durationsRef.current[currentIndex] = (Date.now() - attemptTimerRef.current) / 1000;
+    // Feed the error ledger that remediation sessions are built from
+    const mistakes = ledgerErrorTags(evaluation, answer, timedOut);
+    if (mistakes.length > 0) {
+      recordMistakes(recordError, session.profileId, item.focusVocabIds, mistakes).catch(
+        () => undefined,
+      );
+    }
+
+    durationsRef.current[currentIndex] = answerSeconds;
     scoresRef.current[currentIndex] = evaluation.score;
+    alignmentsRef.current[currentIndex] = evaluation.alignment;
     setAnalysis({
       evaluation,
       learnerAnswer: answer.trim(),
@@ -162,8 +225,26 @@ const SessionPlayerModal: React.FC<Props> = ({
     setAnswer('');
     setIsGrading(false);
 
-    if (isFinalQuestion) {
-      const summary = await finalizeRecap(session, scoresRef.current, durationsRef.current, setRecap);
+    const spentSeconds = durationsRef.current.reduce((sum, value) => sum + (value ?? 0), 0);
+    const outOfTime =
+      speedRound?.timer === 'per_session' && speedRoundTimeLeft(speedRound, 0, spentSeconds) <= 0;
+
+    if (isFinalQuestion || outOfTime) {
+      const summary = await finalizeRecap(
+        session,
+        scoresRef.current,
+        durationsRef.current,
+        alignmentsRef.current,
+        setRecap,
+      );
+      if (speedRound) {
+        summary.speedRound = await finalizeSpeedRound(
+          session,
+          scoresRef.current,
+          durationsRef.current,
+          recordSpeedRound,
+        );
+      }
       await setProgress(session.sessionId, {
         currentIndex,
         isComplete: true,
@@ -248,11 +329,20 @@ const SessionPlayerModal: React.FC<Props> = ({
     if (!analysis || miniChat.input.trim().length === 0) {
       return;
     }
-    miniChat.appendUserMessage(miniChat.input);
-    miniChat.setInput('');
-    miniChat.appendAssistantMessage(
-      `Tutor insight: ${analysis.item.insightHook}\n\n${analysis.evaluation.feedback}`,
-    );
+    miniChat.sendMessage({
+      context: [
+        `Prompt: ${analysis.item.nativeText}`,
+        `Expected: ${analysis.item.expectedTranslations.map(entry => entry.text).join(' / ')}`,
+        `Learner's answer: ${analysis.learnerAnswer}`,
+        `Feedback: ${analysis.evaluation.feedback}`,
+        `Insight: ${analysis.item.insightHook}`,
+      ].join('\n'),
+      offlineReply:
+        `Tutor insight: ${analysis.item.insightHook}\n\n${analysis.evaluation.feedback}`,
+      source: session
+        ? { sessionId: session.sessionId, itemId: analysis.item.itemId }
+        : undefined,
+    });
     openMiniChatOverlay();
   };
 
@@ -281,6 +371,7 @@ const SessionPlayerModal: React.FC<Props> = ({
   };
 
   const dismiss = () => {
+    miniChat.cancelReply();
     onClose();
   };
 
@@ -318,6 +409,7 @@ const SessionPlayerModal: React.FC<Props> = ({
             <>
               <Text style={[styles.progressLabel, { color: colors.textSecondary }]}>
                 {totalQuestions > 0 ? totalQuestions - remaining + 1 : 0}/{totalQuestions}
+                {secondsLeft !== null ? ` · ${secondsLeft}s left` : ''}
               </Text>
               <View style={styles.sliderViewport}>
                 <Animated.View
@@ -338,7 +430,7 @@ const SessionPlayerModal: React.FC<Props> = ({
                       highlightTerm={highlightTerm}
                       onChangeAnswer={setAnswer}
                       disabled={isGrading}
-                      onSubmit={handleSubmit}
+                      onSubmit={() => handleSubmit()}
                       styles={styles}
                     />
                   </View>
@@ -399,7 +491,7 @@ const SessionPlayerModal: React.FC<Props> = ({
                         : styles.miniChatBubbleAssistant,
                     ]}
                   >
-                    <Text style={styles.miniChatText}>{message.text}</Text>
+                    <Text style={styles.miniChatText}>{message.text || '…'}</Text>
                   </View>
                 ))}
               </ScrollView>
@@ -427,10 +519,63 @@ const SessionPlayerModal: React.FC<Props> = ({
   );
 };
 
+/** Records each pitfall against each vocab item, one at a time so no update is lost. */
+const recordMistakes = async (
+  recordError: (
+    profileId: string,
+    payload: { vocabId: string; errorTag: TranslationPitfallType },
+  ) => Promise<void>,
+  profileId: string,
+  vocabIds: string[],
+  errorTags: TranslationPitfallType[],
+) => {
+  for (const vocabId of vocabIds) {
+    for (const errorTag of errorTags) {
+      await recordError(profileId, { vocabId, errorTag });
+    }
+  }
+};
+
+/** Scores a finished speed round and adds it to the profile's leaderboard. */
+const finalizeSpeedRound = async (
+  session: TtxSession,
+  scores: number[],
+  durations: number[],
+  recordSpeedRound: (
+    profileId: string,
+    result: SpeedRoundStanding['result'],
+  ) => Promise<number | null>,
+): Promise<SpeedRoundStanding | undefined> => {
+  if (!session.speedRound) {
+    return undefined;
+  }
+  const answers: SpeedRoundAnswer[] = [];
+  // Sparse when the session was resumed; only items answered this sitting count
+  durations.forEach((seconds, idx) => {
+    answers.push({ seconds, score: scores[idx] ?? 0 });
+  });
+  const result = summariseSpeedRound({
+    sessionId: session.sessionId,
+    activity: 'translation',
+    round: session.speedRound,
+    itemCount: session.items.length,
+    answers,
+    completedAt: new Date(),
+  });
+  const rank = await recordSpeedRound(session.profileId, result).catch(() => null);
+  const profile = useLanguageProfileStore.getState().profiles[session.profileId];
+  return {
+    result,
+    rank,
+    leaderboard: getSpeedRoundLeaderboard(profile?.speedRoundBests, 'translation'),
+  };
+};
+
 const finalizeRecap = async (
   session: TtxSession,
   scores: number[],
   durations: number[],
+  alignments: AlignedToken[][],
   setRecap: TranslationSessionState['setRecap'],
 ): Promise<ReviewSummary> => {
   const normalizedScores = session.items.map((_, idx) => {
@@ -462,19 +607,21 @@ const finalizeRecap = async (
     srsQueue: [],
   });
 
-  return buildReviewSummary(session, normalizedScores, normalizedDurations, accuracy);
+  return buildReviewSummary(session, normalizedScores, normalizedDurations, alignments, accuracy);
 };
 
 const buildReviewSummary = (
   session: TtxSession,
   scores: number[],
   durations: number[],
+  alignments: AlignedToken[][],
   accuracy: number,
 ): ReviewSummary => {
   const enriched = session.items.map((item, idx) => ({
     prompt: item.nativeText,
     insight: item.insightHook,
     score: scores[idx] ?? 0,
+    alignment: alignments[idx],
   }));
 
   const strengths = enriched
@@ -505,9 +652,9 @@ const updatePrioritySrs = (bankItems: VocabItem[], vocabIds: string[], flagged:
   targetItems.forEach(item => {
     const dueAt = new Date(Date.now() + 2 * 3600 * 1000).toISOString();
     const srsData = {
-      id: item.srsData?.id ?? `srs-${item.id}`,
+      id: item.productionSrsData?.id ?? `srs-${item.id}`,
       algorithm: 'priority',
-      streak: item.srsData?.streak ?? 0,
+      streak: item.productionSrsData?.streak ?? 0,
       intervalHours: 2,
       easeFactor: 2.3,
       dueAt,
@@ -515,7 +662,7 @@ const updatePrioritySrs = (bankItems: VocabItem[], vocabIds: string[], flagged:
     };
     useBankStore
       .getState()
-      .updateSrsData(item.id, srsData)
+      .updateSrsData(item.id, srsData, 'production')
       .catch(() => undefined);
   });
 };
@@ -2,6 +2,7 @@ export * from './SessionSetup';
 export * from './TranslationPractice';
 export * from './SessionPlayerModal';
 export * from './AnalysisCard';
+export * from './AnswerDiff';
 export * from './MiniChat';
 export * from './PromptCard';
 export * from './ReviewCard';
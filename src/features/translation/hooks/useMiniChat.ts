@@ -1,23 +1,51 @@
-import { useCallback, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { AiTutorService, TutorChatParams } from '@/contracts/services';
+import { aiTutorService } from '@/services/container';
+import { shouldQueueAiRequests, useAiOutboxStore } from '@/state/ai-outbox.store';
+import { useTranslationSessionStore } from '@/state/translation-session.store';
 
 export type MiniChatMessage = {
   id: string;
   role: 'user' | 'assistant';
   text: string;
+  /** Set while the reply is still arriving. */
+  isStreaming?: boolean;
 };
 
+/** What the mini chat is about: background for the tutor and a reply for when it is offline. */
+export type MiniChatTopic = Pick<TutorChatParams, 'context' | 'offlineReply'> & {
+  /** Session item the questions are about; answers are saved to it. */
+  source?: { sessionId: string; itemId: string };
+};
+
+const QUEUED_REPLY = "You're offline. The tutor will answer when you reconnect.";
+
 export type MiniChatController = {
   messages: MiniChatMessage[];
   input: string;
   setInput: (value: string) => void;
+  /** Whether a tutor reply is still streaming in. */
+  isReplying: boolean;
   appendUserMessage: (text: string) => void;
   appendAssistantMessage: (text: string) => void;
+  /** Sends the current input and streams the tutor's reply, cancelling any reply in progress. */
+  sendMessage: (topic: MiniChatTopic) => void;
+  cancelReply: () => void;
   reset: () => void;
 };
 
-export const useMiniChat = (): MiniChatController => {
+export const useMiniChat = (
+  tutor: Pick<AiTutorService, 'streamChat'> = aiTutorService,
+): MiniChatController => {
   const [messages, setMessages] = useState<MiniChatMessage[]>([]);
   const [input, setInput] = useState('');
+  const [isReplying, setIsReplying] = useState(false);
+  const replyRef = useRef<AbortController | null>(null);
+  /** Outbox entry ids of questions asked while offline, mapped to their reply bubbles. */
+  const queuedRepliesRef = useRef(new Map<string, string>());
+  const deliveries = useAiOutboxStore(state => state.deliveries);
+  const enqueue = useAiOutboxStore(state => state.enqueue);
+  const acknowledgeDelivery = useAiOutboxStore(state => state.acknowledgeDelivery);
 
   const appendUserMessage = useCallback((text: string) => {
     const payload = text.trim();
@@ -33,17 +61,137 @@ export const useMiniChat = (): MiniChatController => {
     setMessages(prev => [...prev, { id, role: 'assistant', text }]);
   }, []);
 
+  const cancelReply = useCallback(() => {
+    replyRef.current?.abort();
+    replyRef.current = null;
+    setIsReplying(false);
+  }, []);
+
+  useEffect(() => cancelReply, [cancelReply]);
+
+  // Answers to queued questions are already saved to their session item by the outbox.
+  useEffect(() => {
+    deliveries.forEach(({ entry, result, error }) => {
+      if (entry.target.type !== 'session_item') {
+        return;
+      }
+      const replyId = queuedRepliesRef.current.get(entry.id);
+      if (replyId) {
+        queuedRepliesRef.current.delete(entry.id);
+        const text = result ?? error ?? 'Unable to reach the tutor.';
+        setMessages(prev =>
+          prev.map(message => (message.id === replyId ? { ...message, text } : message)),
+        );
+      }
+      acknowledgeDelivery(entry.id);
+    });
+  }, [deliveries, acknowledgeDelivery]);
+
+  const sendMessage = useCallback(
+    (topic: MiniChatTopic) => {
+      const question = input.trim();
+      if (!question) {
+        return;
+      }
+      cancelReply();
+      const controller = new AbortController();
+      replyRef.current = controller;
+
+      const now = Date.now();
+      const replyId = `mini-assistant-${now}`;
+      const updateReply = (update: (message: MiniChatMessage) => MiniChatMessage | null) =>
+        setMessages(prev =>
+          prev.flatMap(message => {
+            if (message.id !== replyId) {
+              return [message];
+            }
+            const updated = update(message);
+            return updated ? [updated] : [];
+          }),
+        );
+
+      const turns = [...messages, { role: 'user', text: question }]
+        .filter(message => message.text.trim().length > 0)
+        .map(message => ({
+          role: message.role === 'user' ? ('learner' as const) : ('tutor' as const),
+          content: message.text,
+        }));
+      setMessages(prev => [
+        ...prev,
+        { id: `mini-user-${now}`, role: 'user', text: question },
+        { id: replyId, role: 'assistant', text: '', isStreaming: true },
+      ]);
+      setInput('');
+
+      const { source, ...params } = topic;
+      if (source && shouldQueueAiRequests()) {
+        updateReply(message => ({ ...message, text: QUEUED_REPLY, isStreaming: false }));
+        enqueue(
+          { kind: 'chat', params: { context: params.context, turns } },
+          { type: 'session_item', ...source, question },
+        )
+          .then(entry => {
+            queuedRepliesRef.current.set(entry.id, replyId);
+          })
+          .catch(() => undefined);
+        return;
+      }
+
+      setIsReplying(true);
+      let failure: string | null = null;
+      tutor
+        .streamChat(
+          { ...params, turns },
+          {
+            signal: controller.signal,
+            onDelta: (_delta, text) => updateReply(message => ({ ...message, text })),
+          },
+        )
+        .then(answer => {
+          // The offline reply is a stand-in, not an answer worth keeping.
+          if (source && answer && answer !== params.offlineReply) {
+            const exchange = { question, answer, answeredAt: new Date().toISOString() };
+            useTranslationSessionStore
+              .getState()
+              .addTutorExchange(source.sessionId, source.itemId, exchange)
+              .catch(() => undefined);
+          }
+        })
+        .catch(error => {
+          if (!controller.signal.aborted) {
+            failure = error instanceof Error ? error.message : 'Unable to reach the tutor.';
+          }
+        })
+        .finally(() => {
+          if (replyRef.current === controller) {
+            replyRef.current = null;
+            setIsReplying(false);
+          }
+          updateReply(message => {
+            const text = message.text || failure;
+            return text ? { ...message, text, isStreaming: false } : null;
+          });
+        });
+    },
+    [cancelReply, enqueue, input, messages, tutor],
+  );
+
   const reset = useCallback(() => {
+    cancelReply();
+    queuedRepliesRef.current.clear();
     setMessages([]);
     setInput('');
-  }, []);
+  }, [cancelReply]);
 
   return {
     messages,
     input,
     setInput,
+    isReplying,
     appendUserMessage,
     appendAssistantMessage,
+    sendMessage,
+    cancelReply,
     reset,
   };
 };
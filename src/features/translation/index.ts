@@ -2,9 +2,11 @@ export * from './components/ReviewCard';
 export * from './components/MiniChat';
 export * from './components/PromptCard';
 export * from './components/AnalysisCard';
+export * from './components/AnswerDiff';
 export * from './components/SessionPlayerModal';
 export * from './utils/session-stats';
 export * from './utils/session-builder';
+export * from './utils/grading';
 export * from './hooks/useMiniChat';
 export * from './types';
 export * from './screens/TranslationPracticeScreen';
@@ -10,12 +10,13 @@ import {
   View,
   useWindowDimensions,
 } from 'react-native';
-import { useNavigation } from '@react-navigation/native';
+import { useNavigation, useRoute, type RouteProp } from '@react-navigation/native';
 import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import ScreenContainer from '@/shared/components/ScreenContainer';
 import { spacing, radii, typography, fontFamilies } from '@/shared/theme/tokens';
 import { useTheme } from '@/shared/theme/theme';
 import LanguageSwitcherModal from '@/shared/components/LanguageSwitcherModal';
+import SpeedRoundBoard from '@/shared/components/SpeedRoundBoard';
 import { useLanguageProfileStore } from '@/state/language-profile.store';
 import { useTranslationSessionStore } from '@/state/translation-session.store';
 import SessionPlayerModal from '@/features/translation/components/SessionPlayerModal';
@@ -24,12 +25,25 @@ import { useNotesStore } from '@/state/notes.store';
 import { resolveFlagGlyph } from '@/data/language-library';
 import { STYLE_PRESETS, type StylePresetKey } from '@/domain/translation/style-presets';
 import { generateMockTranslationSession } from '@/domain/translation/mock-generator';
-import type { ReviewMode, TtxSession } from '@/contracts/models';
+import { generateRemediationSession } from '@/domain/translation/remediation';
+import type {
+  ReviewMode,
+  SpeedRoundTimer,
+  TranslationDifficulty,
+  TranslationDirectionMode,
+  TtxSession,
+} from '@/contracts/models';
 import type { RootStackParamList } from '@/navigation/types';
 import { DEFAULT_USER_ID } from '@/domain/user/constants';
 import { calculateMasteryLevel } from '@/domain/srs/unified-srs-service';
+import { resolveDailyNewCardLimit } from '@/domain/selectors/session-priority';
 import { useVocabActivityStore } from '@/state/vocab-activity.store';
-import { ensureUuid, buildVocabPool } from '@/features/translation/utils/session-builder';
+import { buildVocabPool, withUuidSrsIds } from '@/features/translation/utils/session-builder';
+import {
+  createSpeedRound,
+  describeSpeedRound,
+  getSpeedRoundLeaderboard,
+} from '@/domain/practice/speed-round';
 
 const QUESTION_MIN = 5;
 const QUESTION_MAX = 25;
@@ -46,10 +60,32 @@ const FORMALITY_OPTIONS: Array<{ key: StylePresetKey; label: string }> = [
   { key: 'informal', label: 'Informal' },
 ];
 
+const DIFFICULTY_OPTIONS: Array<{ value: TranslationDifficulty; label: string }> = [
+  { value: 'intro', label: 'Intro' },
+  { value: 'intermediate', label: 'Intermediate' },
+  { value: 'advanced', label: 'Advanced' },
+  { value: 'expert', label: 'Expert' },
+];
+
+const DIRECTION_OPTIONS: Array<{ value: TranslationDirectionMode; label: string }> = [
+  { value: 'native_to_target', label: 'Native → target' },
+  { value: 'target_to_native', label: 'Target → native' },
+  { value: 'alternating', label: 'Alternating' },
+];
+
+const SPEED_ROUND_OPTIONS: Array<{ value: SpeedRoundTimer | 'off'; label: string }> = [
+  { value: 'off', label: 'Off' },
+  { value: 'per_item', label: 'Per prompt' },
+  { value: 'per_session', label: 'Whole session' },
+];
+
 type TranslationNavigation = NativeStackNavigationProp<RootStackParamList>;
+type TranslationRoute = RouteProp<RootStackParamList, 'TranslationPractice'>;
 
 const TranslationPracticeScreen: React.FC = () => {
   const navigation = useNavigation<TranslationNavigation>();
+  const route = useRoute<TranslationRoute>();
+  const remediationRequested = route.params?.remediation ?? false;
   const { colors, mode } = useTheme();
   const styles = useMemo(() => createStyles(colors), [colors]);
   const { width } = useWindowDimensions();
@@ -85,6 +121,10 @@ const TranslationPracticeScreen: React.FC = () => {
   const [reviewMode, setReviewMode] = useState<ReviewMode>('mixed');
   const [questionCount, setQuestionCount] = useState(10);
   const [topicInput, setTopicInput] = useState('');
+  // Follows the profile's preferred difficulty until the learner picks one for this screen
+  const [difficultyChoice, setDifficultyChoice] = useState<TranslationDifficulty | null>(null);
+  const [direction, setDirection] = useState<TranslationDirectionMode>('native_to_target');
+  const [speedRoundTimer, setSpeedRoundTimer] = useState<SpeedRoundTimer | 'off'>('off');
   const [isSwitcherVisible, setIsSwitcherVisible] = useState(false);
   const [sessionModalVisible, setSessionModalVisible] = useState(false);
   const [modalSessionId, setModalSessionId] = useState<string | null>(null);
@@ -111,6 +151,12 @@ const TranslationPracticeScreen: React.FC = () => {
   }, [loadProfiles, loadSessions, loadBank, loadActivityRecords]);
 
   const activeProfile = activeProfileId ? profiles[activeProfileId] : undefined;
+  const difficulty = difficultyChoice ?? activeProfile?.preferredDifficulty ?? 'intro';
+  const difficultyIndex = DIFFICULTY_OPTIONS.findIndex(option => option.value === difficulty);
+  const speedRound =
+    speedRoundTimer === 'off'
+      ? undefined
+      : createSpeedRound('translation', speedRoundTimer, questionCount);
   const activeLanguageLabel = useMemo(() => {
     if (!activeProfile) {
       return '';
@@ -149,7 +195,7 @@ const TranslationPracticeScreen: React.FC = () => {
   );
 
   useEffect(() => {
-    if (!unfinishedSession || sessionModalVisible || resumePromptShown) {
+    if (remediationRequested || !unfinishedSession || sessionModalVisible || resumePromptShown) {
       return;
     }
     Alert.alert(
@@ -171,7 +217,59 @@ const TranslationPracticeScreen: React.FC = () => {
       ],
     );
     setResumePromptShown(true);
-  }, [unfinishedSession, sessionModalVisible, resumePromptShown, markSessionOpened]);
+  }, [
+    remediationRequested,
+    unfinishedSession,
+    sessionModalVisible,
+    resumePromptShown,
+    markSessionOpened,
+  ]);
+
+  // Remediation launched from the progress dashboard skips setup and drills recurring mistakes
+  useEffect(() => {
+    if (!remediationRequested || !activeProfile || bankLoading || bankItems.length === 0) {
+      return;
+    }
+    navigation.setParams({ remediation: undefined });
+    setResumePromptShown(true);
+
+    const result = generateRemediationSession({
+      profile: activeProfile,
+      bankItems: bankItems.map(withUuidSrsIds),
+    });
+    if (result.type !== 'ok') {
+      Alert.alert('Recurring mistakes', result.message);
+      return;
+    }
+
+    const startRemediation = async () => {
+      const { session } = result;
+      await saveSession(session);
+      await appendActivityRecords(
+        session.vocabPool.map(item => item.id),
+        session.sessionId,
+        'translation',
+      );
+      await appendSavedSession(activeProfile.profileId, session.sessionId).catch(() => undefined);
+      setModalSessionId(session.sessionId);
+      setSessionModalVisible(true);
+    };
+    startRemediation().catch(error => {
+      Alert.alert(
+        'Recurring mistakes',
+        error instanceof Error ? error.message : 'Unable to start a remediation session.',
+      );
+    });
+  }, [
+    remediationRequested,
+    activeProfile,
+    bankLoading,
+    bankItems,
+    navigation,
+    saveSession,
+    appendActivityRecords,
+    appendSavedSession,
+  ]);
 
   if (!activeProfile) {
     return (
@@ -188,8 +286,11 @@ const TranslationPracticeScreen: React.FC = () => {
       questionCount,
       savedVocab: eligibleBankItems,
       targetLanguage: activeProfile.targetLanguage,
-      difficulty: activeProfile.preferredDifficulty,
+      difficulty,
       topics: topicInput,
+      // Reading the target language back only exercises recognition
+      track: direction === 'target_to_native' ? 'recognition' : 'production',
+      dailyNewCardLimit: resolveDailyNewCardLimit(activeProfile),
     });
 
     if (vocabPool.type === 'empty') {
@@ -229,27 +330,21 @@ const TranslationPracticeScreen: React.FC = () => {
     );
 
     // Ensure any existing SRS metadata has a UUID id to satisfy session schema
-    const sanitizedPool = normalisedPool.map(item => {
-      if (!item.srsData) {
-        return item;
-      }
-      return {
-        ...item,
-        srsData: {
-          ...item.srsData,
-          id: ensureUuid(item.srsData.id),
-        },
-      };
-    });
+    const sanitizedPool = normalisedPool.map(withUuidSrsIds);
 
-    const session = generateMockTranslationSession({
-      profile: activeProfile,
-      vocabPool: sanitizedPool,
-      styleMix: STYLE_PRESETS[stylePreset].values,
-      topicTags,
-      reviewMode,
-      questionCount,
-    });
+    const session = {
+      ...generateMockTranslationSession({
+        profile: activeProfile,
+        vocabPool: sanitizedPool,
+        styleMix: STYLE_PRESETS[stylePreset].values,
+        topicTags,
+        reviewMode,
+        questionCount,
+        difficulty,
+        direction,
+      }),
+      speedRound,
+    };
 
     await appendActivityRecords(
       sanitizedPool.map(item => item.id),
@@ -327,6 +422,32 @@ const TranslationPracticeScreen: React.FC = () => {
             styles={styles}
           />
 
+          <Text style={styles.sectionLabel}>Difficulty</Text>
+          <DiscreteSlider
+            min={0}
+            max={DIFFICULTY_OPTIONS.length - 1}
+            step={1}
+            value={difficultyIndex < 0 ? 0 : difficultyIndex}
+            onChange={index => {
+              setDifficultyChoice(DIFFICULTY_OPTIONS[index]?.value ?? 'intro');
+            }}
+            markers={DIFFICULTY_OPTIONS.map((option, idx) => ({ value: idx, label: option.label }))}
+            styles={styles}
+          />
+
+          <Text style={styles.sectionLabel}>Direction</Text>
+          <DiscreteSlider
+            min={0}
+            max={DIRECTION_OPTIONS.length - 1}
+            step={1}
+            value={DIRECTION_OPTIONS.findIndex(option => option.value === direction)}
+            onChange={index => {
+              setDirection(DIRECTION_OPTIONS[index]?.value ?? 'native_to_target');
+            }}
+            markers={DIRECTION_OPTIONS.map((option, idx) => ({ value: idx, label: option.label }))}
+            styles={styles}
+          />
+
           <Text style={styles.sectionLabel}>Vocabulary mix</Text>
           <DiscreteSlider
             min={0}
@@ -362,6 +483,32 @@ const TranslationPracticeScreen: React.FC = () => {
             styles={styles}
           />
 
+          <Text style={styles.sectionLabel}>Speed round</Text>
+          <DiscreteSlider
+            min={0}
+            max={SPEED_ROUND_OPTIONS.length - 1}
+            step={1}
+            value={SPEED_ROUND_OPTIONS.findIndex(option => option.value === speedRoundTimer)}
+            onChange={index => {
+              setSpeedRoundTimer(SPEED_ROUND_OPTIONS[index]?.value ?? 'off');
+            }}
+            markers={SPEED_ROUND_OPTIONS.map((option, idx) => ({
+              value: idx,
+              label: option.label,
+            }))}
+            styles={styles}
+          />
+          <Text style={[styles.sliderDescription, { color: colors.textSecondary }]}>
+            {speedRound
+              ? `${describeSpeedRound(speedRound, 'prompt')} · fast, correct answers score most`
+              : 'Untimed practice.'}
+          </Text>
+          {speedRound ? (
+            <SpeedRoundBoard
+              entries={getSpeedRoundLeaderboard(activeProfile.speedRoundBests, 'translation')}
+            />
+          ) : null}
+
           <Text style={styles.sectionLabel}>Optional topics</Text>
           <TextInput
             value={topicInput}
@@ -770,6 +917,10 @@ const createStyles = (colors: ReturnType<typeof useTheme>['colors']) =>
       fontFamily: fontFamilies.sans.semibold,
       color: colors.textPrimary,
     },
+    analysisGrader: {
+      ...typography.caption,
+      color: colors.textSecondary,
+    },
     analysisPrompt: {
       ...typography.bodyStrong,
       color: colors.textPrimary,
@@ -1,16 +1,28 @@
 import type { TtxItem, TtxItemHistory } from '@/contracts/models';
-import type { EvaluationResult } from '@/domain/translation/evaluator';
+import type { SpeedRoundStanding } from '@/domain/practice/speed-round';
+import type { AlignedToken } from '@/domain/translation/evaluator';
+import type { GradedTranslation } from '@/features/translation/utils/grading';
 
 export type AnalysisState = {
   item: TtxItem;
   learnerAnswer: string;
-  evaluation: EvaluationResult;
+  evaluation: GradedTranslation;
   attempt: TtxItemHistory;
 };
 
+type ReviewSummaryEntry = {
+  prompt: string;
+  insight: string;
+  score: number;
+  /** Learner's answer compared with the closest expected translation, when graded this session. */
+  alignment?: AlignedToken[];
+};
+
 export type ReviewSummary = {
   accuracy: number;
   avgTimeSeconds: number;
-  strengths: Array<{ prompt: string; insight: string; score: number }>;
-  focusAreas: Array<{ prompt: string; insight: string; score: number }>;
+  strengths: ReviewSummaryEntry[];
+  focusAreas: ReviewSummaryEntry[];
+  /** Points and leaderboard placing when the session was a speed round. */
+  speedRound?: SpeedRoundStanding;
 };
@@ -0,0 +1,60 @@
+import type { AiTutorService } from '@/contracts/services';
+import type { TranslationPitfallType, TtxItem } from '@/contracts/models';
+import { evaluateTranslationAnswer, type EvaluationResult } from '@/domain/translation/evaluator';
+
+/** Which grader produced a result: the AI tutor, or the offline rule-based evaluator. */
+export type TranslationGraderKind = 'ai' | 'rules';
+
+export type GradedTranslation = EvaluationResult & {
+  grader: TranslationGraderKind;
+  /** The learner's sentence with its mistakes fixed, when the AI tutor graded it. */
+  correctedSentence?: string;
+};
+
+/**
+ * Grades an answer with the AI tutor, falling back to the rule-based evaluator when the tutor
+ * has no grader or the request fails. The word-level diff always comes from the evaluator.
+ */
+export const gradeTranslationAnswer = async (
+  tutor: Pick<AiTutorService, 'gradeTranslation'>,
+  item: TtxItem,
+  answer: string,
+  targetLanguage?: string,
+): Promise<GradedTranslation> => {
+  const evaluation = evaluateTranslationAnswer(item, answer);
+  if (answer.trim().length === 0) {
+    // Nothing for the tutor to grade when a speed round timed out before an answer
+    return { ...evaluation, grader: 'rules' };
+  }
+  try {
+    const grade = await tutor.gradeTranslation({ item, answer, targetLanguage });
+    return {
+      ...evaluation,
+      score: grade.score,
+      errorTags: grade.errorTags,
+      feedback: grade.explanation,
+      correctedSentence: grade.correctedSentence,
+      grader: 'ai',
+    };
+  } catch {
+    return { ...evaluation, grader: 'rules' };
+  }
+};
+
+/**
+ * Pitfalls worth adding to the error ledger. The rule-based evaluator only echoes the item's
+ * listed pitfalls, so only the AI tutor's diagnosis of a real, in-time answer counts.
+ */
+export const ledgerErrorTags = (
+  graded: GradedTranslation,
+  answer: string,
+  timedOut = false,
+): TranslationPitfallType[] =>
+  graded.grader === 'ai' && graded.score < 1 && !timedOut && answer.trim().length > 0
+    ? graded.errorTags
+    : [];
+
+export const GRADER_LABELS: Record<TranslationGraderKind, string> = {
+  ai: 'Graded by AI tutor',
+  rules: 'Graded offline by rules',
+};
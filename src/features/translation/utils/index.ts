@@ -1,2 +1,3 @@
 export * from './session-stats';
 export * from './session-builder';
+export * from './grading';
@@ -1,5 +1,9 @@
 import { nanoid } from 'nanoid/non-secure';
-import type { ReviewMode, VocabItem } from '@/contracts/models';
+import type { ReviewMode, SrsTrack, VocabItem } from '@/contracts/models';
+import {
+  describeShortReviewPool,
+  prioritiseSessionItems,
+} from '@/domain/selectors/session-priority';
 
 /** Generate a uuid, preserving an existing valid UUID when provided. */
 export const ensureUuid = (value?: string | null): string => {
@@ -11,6 +15,15 @@ export const ensureUuid = (value?: string | null): string => {
   return randomUuid?.() ?? nanoid();
 };
 
+/** Gives an item's SRS records UUID ids, as the translation session schema requires. */
+export const withUuidSrsIds = (item: VocabItem): VocabItem => ({
+  ...item,
+  srsData: item.srsData ? { ...item.srsData, id: ensureUuid(item.srsData.id) } : undefined,
+  productionSrsData: item.productionSrsData
+    ? { ...item.productionSrsData, id: ensureUuid(item.productionSrsData.id) }
+    : undefined,
+});
+
 export type BuildVocabPoolArgs = {
   reviewMode: ReviewMode;
   questionCount: number;
@@ -18,6 +31,14 @@ export type BuildVocabPoolArgs = {
   targetLanguage: string;
   difficulty: string;
   topics: string;
+  /** Scheduling track the session trains; translation practises production. */
+  track?: SrsTrack;
+  /** Current moment; buried items stay out until their bury expires. */
+  now?: Date;
+  /** Maximum new items introduced per day on the track; defaults apply when unset. */
+  dailyNewCardLimit?: number;
+  /** Random source used to weight overdue items; injectable for tests. */
+  random?: () => number;
 };
 
 export type BuildVocabPoolResult =
@@ -51,12 +72,20 @@ export const buildVocabPool = ({
   targetLanguage,
   difficulty,
   topics,
+  track = 'production',
+  now = new Date(),
+  dailyNewCardLimit,
+  random,
 }: BuildVocabPoolArgs): BuildVocabPoolResult => {
   const topic = topics.split(',')[0]?.trim();
-  const shuffledSaved = [...savedVocab];
-  shuffledSaved.sort(() => Math.random() - 0.5);
-  const unseen = shuffledSaved.filter(item => !item.srsData || !item.srsData.lastReviewedAt);
-  const seen = shuffledSaved.filter(item => item.srsData?.lastReviewedAt);
+  const { due, upcoming, newItems, heldBackNewCount, later } = prioritiseSessionItems(savedVocab, {
+    now,
+    track,
+    dailyNewCardLimit,
+    random,
+  });
+  // Due work first, then upcoming, then today's new items, then everything else
+  const priorityPool = [...due, ...upcoming, ...newItems, ...later];
 
   const pullFromBank = (source: VocabItem[], count: number, exclude: Set<string>) => {
     const picked: VocabItem[] = [];
@@ -80,20 +109,18 @@ export const buildVocabPool = ({
         message: 'No saved vocabulary yet. Add words to your bank or switch to new vocabulary.',
       };
     }
-    const ordered = [...unseen, ...seen];
-    if (ordered.length < questionCount) {
+    if (priorityPool.length < questionCount) {
       return {
         type: 'insufficient',
-        message: `Only ${ordered.length} saved items available. Reduce question count or add more words.`,
+        message: describeShortReviewPool(priorityPool.length, heldBackNewCount),
       };
     }
-    return { type: 'ok', items: ordered.slice(0, questionCount) };
+    return { type: 'ok', items: priorityPool.slice(0, questionCount) };
   }
 
   if (reviewMode === 'mixed') {
     const half = Math.max(1, Math.floor(questionCount / 2));
     const used = new Set<string>();
-    const priorityPool = [...unseen, ...seen];
     const reviewItems = pullFromBank(priorityPool, half, used);
     const remaining = Math.max(questionCount - reviewItems.length, 0);
     const syntheticNeeded = Math.max(remaining - (priorityPool.length - reviewItems.length), 0);
@@ -105,11 +132,11 @@ export const buildVocabPool = ({
   }
 
   const used = new Set<string>();
-  const newItems = pullFromBank(unseen, questionCount, used);
-  if (newItems.length === questionCount) {
-    return { type: 'ok', items: newItems };
+  const pickedNew = pullFromBank(newItems, questionCount, used);
+  if (pickedNew.length === questionCount) {
+    return { type: 'ok', items: pickedNew };
   }
-  const remainder = questionCount - newItems.length;
+  const remainder = questionCount - pickedNew.length;
   const synthetic = createSyntheticVocab(remainder, targetLanguage, difficulty, topic);
-  return { type: 'ok', items: [...newItems, ...synthetic] };
+  return { type: 'ok', items: [...pickedNew, ...synthetic] };
 };
@@ -0,0 +1,162 @@
+import React, { useEffect, useState } from 'react';
+import { Modal, Pressable, StyleSheet, Text, TextInput, View } from 'react-native';
+import { useTheme } from '@/shared/theme/theme';
+import { spacing, radii, typography, fontFamilies } from '@/shared/theme/tokens';
+import type { VocabItem } from '@/contracts/models';
+
+type Props = {
+  item: VocabItem | null;
+  onClose: () => void;
+  onSubmit: (item: VocabItem, rewrite: { term: string; meaning: string }) => Promise<void>;
+};
+
+/** Lets the learner rephrase a leech before its schedule starts over. */
+const LeechRewriteSheet: React.FC<Props> = ({ item, onClose, onSubmit }) => {
+  const { colors } = useTheme();
+  const [term, setTerm] = useState(item?.term ?? '');
+  const [meaning, setMeaning] = useState(item?.meaning ?? '');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setTerm(item?.term ?? '');
+    setMeaning(item?.meaning ?? '');
+    setError(null);
+  }, [item]);
+
+  if (!item) {
+    return null;
+  }
+
+  const handleSubmit = async () => {
+    if (!term.trim() || !meaning.trim()) {
+      setError('Enter both the word and its meaning.');
+      return;
+    }
+    try {
+      await onSubmit(item, { term, meaning });
+    } catch (submitError) {
+      setError(submitError instanceof Error ? submitError.message : 'Unable to reset this word.');
+    }
+  };
+
+  return (
+    <Modal transparent visible animationType="slide" onRequestClose={onClose}>
+      <Pressable style={styles.overlay} onPress={onClose}>
+        <Pressable
+          style={[styles.sheet, { backgroundColor: colors.surface }]}
+          onPress={event => event.stopPropagation()}
+        >
+          <Text style={[styles.title, { color: colors.textPrimary }]}>Rewrite and reset</Text>
+          <Text style={[styles.hint, { color: colors.textSecondary }]}>
+            Rephrase the card so it sticks. Its review history starts over and it returns to your
+            sessions.
+          </Text>
+          <View style={styles.fields}>
+            <TextInput
+              value={term}
+              onChangeText={text => {
+                setTerm(text);
+                setError(null);
+              }}
+              placeholder="Word"
+              placeholderTextColor={colors.textSecondary}
+              style={[styles.input, { color: colors.textPrimary, borderColor: colors.border }]}
+            />
+            <TextInput
+              value={meaning}
+              onChangeText={text => {
+                setMeaning(text);
+                setError(null);
+              }}
+              placeholder="Meaning"
+              placeholderTextColor={colors.textSecondary}
+              style={[styles.input, { color: colors.textPrimary, borderColor: colors.border }]}
+              multiline
+            />
+          </View>
+          {error && <Text style={[styles.error, { color: colors.error }]}>{error}</Text>}
+          <View style={[styles.actions, { borderTopColor: colors.border }]}>
+            <Pressable onPress={onClose} style={styles.actionButton}>
+              <Text style={[styles.actionLabel, { color: colors.textSecondary }]}>Cancel</Text>
+            </Pressable>
+            <Pressable
+              onPress={handleSubmit}
+              style={[styles.actionButton, { backgroundColor: colors.accent }]}
+            >
+              <Text style={[styles.actionPrimaryLabel, { color: colors.textOnAccent }]}>
+                Reset
+              </Text>
+            </Pressable>
+          </View>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    borderTopLeftRadius: radii.surface,
+    borderTopRightRadius: radii.surface,
+    maxHeight: '70%',
+  },
+  title: {
+    fontFamily: fontFamilies.sans.medium,
+    fontSize: typography.subhead.fontSize,
+    textAlign: 'center',
+    paddingTop: spacing.base * 1.5,
+  },
+  hint: {
+    fontFamily: fontFamilies.sans.regular,
+    fontSize: typography.caption.fontSize,
+    textAlign: 'center',
+    paddingHorizontal: spacing.base * 1.5,
+    paddingVertical: spacing.base,
+  },
+  fields: {
+    paddingHorizontal: spacing.base * 1.5,
+    gap: spacing.base,
+  },
+  input: {
+    borderWidth: StyleSheet.hairlineWidth,
+    borderRadius: radii.control,
+    paddingHorizontal: spacing.base,
+    paddingVertical: spacing.base * 0.5,
+    fontFamily: fontFamilies.sans.regular,
+    fontSize: typography.body.fontSize,
+  },
+  error: {
+    fontFamily: fontFamilies.sans.regular,
+    fontSize: typography.caption.fontSize,
+    paddingHorizontal: spacing.base * 1.5,
+    marginTop: spacing.base * 0.5,
+  },
+  actions: {
+    flexDirection: 'row',
+    padding: spacing.base * 1.5,
+    gap: spacing.base,
+    borderTopWidth: StyleSheet.hairlineWidth,
+    marginTop: spacing.base,
+  },
+  actionButton: {
+    flex: 1,
+    paddingVertical: spacing.base,
+    alignItems: 'center',
+    borderRadius: radii.control,
+  },
+  actionLabel: {
+    fontFamily: fontFamilies.sans.regular,
+    fontSize: typography.body.fontSize,
+  },
+  actionPrimaryLabel: {
+    fontFamily: fontFamilies.sans.medium,
+    fontSize: typography.body.fontSize,
+  },
+});
+
+export default LeechRewriteSheet;
@@ -5,3 +5,4 @@ export { default as WordListItem } from './WordListItem';
 export { default as SortSheet } from './SortSheet';
 export { default as FolderFilterSheet } from './FolderFilterSheet';
 export { default as FolderAssignmentSheet } from './FolderAssignmentSheet';
+export { default as LeechRewriteSheet } from './LeechRewriteSheet';
@@ -28,6 +28,8 @@ import { useBankStore } from '@/state/bank.store';
 import { useFolderStore, normaliseFolderName } from '@/state/folder.store';
 import type { MainTabsParamList, RootStackParamList } from '@/navigation/types';
 import type { VocabItem } from '@/contracts/models';
+import { hasLeechTag, isItemReviewable } from '@/domain/srs/leech';
+import LeechRewriteSheet from '@/features/word-bank/components/LeechRewriteSheet';
 
 if (Platform.OS === 'android' && UIManager.setLayoutAnimationEnabledExperimental) {
   UIManager.setLayoutAnimationEnabledExperimental(true);
@@ -105,6 +107,9 @@ const WordBankScreen: React.FC = () => {
   const isLoading = useBankStore(state => state.isLoading);
   const updateFolders = useBankStore(state => state.updateFolders);
   const removeBankItem = useBankStore(state => state.removeBankItem);
+  const setSuspended = useBankStore(state => state.setSuspended);
+  const buryItem = useBankStore(state => state.buryItem);
+  const rewriteAndReset = useBankStore(state => state.rewriteAndReset);
 
   const loadFolders = useFolderStore(state => state.loadFolders);
   const folderOptions = useFolderStore(state => state.folders);
@@ -119,6 +124,8 @@ const WordBankScreen: React.FC = () => {
   const [selectedFoldersFilter, setSelectedFoldersFilter] = useState<string[]>([]);
   const [folderFilterVisible, setFolderFilterVisible] = useState(false);
   const [folderEditorItem, setFolderEditorItem] = useState<VocabItem | null>(null);
+  const [showSuspendedOnly, setShowSuspendedOnly] = useState(false);
+  const [rewriteItem, setRewriteItem] = useState<VocabItem | null>(null);
   const [expandedWordId, setExpandedWordId] = useState<string | null>(null);
   const [isWordSelectMode, setIsWordSelectMode] = useState(false);
   const [selectedWordIds, setSelectedWordIds] = useState<string[]>([]);
@@ -160,6 +167,10 @@ const WordBankScreen: React.FC = () => {
     );
 
     const base = items.filter(item => {
+      if (showSuspendedOnly && !item.suspended) {
+        return false;
+      }
+
       if (folderSet.length > 0) {
         const itemFolders = item.folders.map(folder => folder.toLowerCase());
         const hasAllFolders = folderSet.every(folder => itemFolders.includes(folder));
@@ -196,7 +207,9 @@ const WordBankScreen: React.FC = () => {
 
     const sorted = base.slice().sort(sorter[sortMode]);
     return sorted;
-  }, [items, searchQuery, selectedFoldersFilter, sortMode]);
+  }, [items, searchQuery, selectedFoldersFilter, showSuspendedOnly, sortMode]);
+
+  const suspendedCount = useMemo(() => items.filter(item => item.suspended).length, [items]);
 
   const activeSortLabel = useMemo(() => {
     const option = sortOptions.find(candidate => candidate.id === sortMode);
@@ -300,6 +313,33 @@ const WordBankScreen: React.FC = () => {
     [expandedWordId, removeBankItem],
   );
 
+  const handleToggleSuspend = useCallback(
+    async (item: VocabItem) => {
+      const next = !item.suspended;
+      await setSuspended(item.id, next);
+      setUndoState({
+        message: next ? `Suspended “${item.term}”` : `Resumed “${item.term}”`,
+        actionLabel: 'Undo',
+        onUndo: () => setSuspended(item.id, !next),
+      });
+    },
+    [setSuspended],
+  );
+
+  const handleBury = useCallback(
+    async (item: VocabItem) => {
+      const previous = item.buriedUntil ?? null;
+      const isBuried = !item.suspended && !isItemReviewable(item);
+      await buryItem(item.id, isBuried ? null : undefined);
+      setUndoState({
+        message: isBuried ? `Unburied “${item.term}”` : `Buried “${item.term}” until tomorrow`,
+        actionLabel: 'Undo',
+        onUndo: () => buryItem(item.id, previous),
+      });
+    },
+    [buryItem],
+  );
+
   const handleDeleteSelectedWords = useCallback(async () => {
     if (selectedWordIds.length === 0) {
       return;
@@ -636,6 +676,23 @@ const WordBankScreen: React.FC = () => {
                   : ''}
               </Text>
             </Pressable>
+            {suspendedCount > 0 || showSuspendedOnly ? (
+              <Pressable
+                onPress={() => setShowSuspendedOnly(prev => !prev)}
+                style={[styles.filterButton, showSuspendedOnly && styles.filterButtonActive]}
+                accessibilityRole="button"
+                accessibilityState={{ selected: showSuspendedOnly }}
+              >
+                <Text
+                  style={[
+                    styles.filterButtonLabel,
+                    showSuspendedOnly && styles.filterButtonLabelActive,
+                  ]}
+                >
+                  {`Suspended (${suspendedCount})`}
+                </Text>
+              </Pressable>
+            ) : null}
             <Pressable
               onPress={() => {
                 if (isWordSelectMode) {
@@ -704,6 +761,9 @@ const WordBankScreen: React.FC = () => {
                   onEditFolders={() => openFolderEditor(item)}
                   onDelete={() => handleDeleteWord(item.id)}
                   onOpenDetail={() => navigation.navigate('WordDetail', { itemId: item.id })}
+                  onToggleSuspend={() => handleToggleSuspend(item)}
+                  onBury={() => handleBury(item)}
+                  onRewriteReset={showSuspendedOnly ? () => setRewriteItem(item) : undefined}
                 />
               );
             }}
@@ -957,6 +1017,8 @@ const WordBankScreen: React.FC = () => {
                       onEditFolders={() => openFolderEditor(word)}
                       onDelete={() => handleDeleteWord(word.id)}
                       onOpenDetail={() => navigation.navigate('WordDetail', { itemId: word.id })}
+                      onToggleSuspend={() => handleToggleSuspend(word)}
+                      onBury={() => handleBury(word)}
                     />
                   );
                 })
@@ -1015,6 +1077,15 @@ const WordBankScreen: React.FC = () => {
         }}
       />
 
+      <LeechRewriteSheet
+        item={rewriteItem}
+        onClose={() => setRewriteItem(null)}
+        onSubmit={async (item, rewrite) => {
+          await rewriteAndReset(item.id, rewrite);
+          setRewriteItem(null);
+        }}
+      />
+
       <UndoToast visible={!!undoState} message={undoState?.message ?? ''} onUndo={handleUndo} />
     </ScreenContainer>
   );
@@ -1023,22 +1094,35 @@ const WordBankScreen: React.FC = () => {
 const SWIPE_OPEN_VALUE = -84;
 const SWIPE_THRESHOLD = -50;
 
+type SwipeRowAction = {
+  key: string;
+  label: string;
+  accessibilityLabel: string;
+  tone?: 'accent' | 'warning';
+  onPress: () => void;
+};
+
+const NO_SWIPE_ACTIONS: SwipeRowAction[] = [];
+
 const SwipeableRow: React.FC<{
   onDelete: () => void;
+  /** Extra actions revealed to the left of delete. */
+  actions?: SwipeRowAction[];
   disabled?: boolean;
   children: React.ReactNode;
-}> = ({ onDelete, disabled = false, children }) => {
+}> = ({ onDelete, actions = NO_SWIPE_ACTIONS, disabled = false, children }) => {
   const styles = useThemeStyles(createStyles);
   const translateX = useMemo(() => new Animated.Value(0), []);
   const [isOpen, setIsOpen] = useState(false);
+  const openValue = SWIPE_OPEN_VALUE * (actions.length + 1);
 
   const open = useCallback(() => {
     Animated.timing(translateX, {
-      toValue: SWIPE_OPEN_VALUE,
+      toValue: openValue,
       duration: 160,
       useNativeDriver: true,
     }).start(() => setIsOpen(true));
-  }, [translateX]);
+  }, [openValue, translateX]);
 
   const close = useCallback(() => {
     Animated.timing(translateX, {
@@ -1067,15 +1151,15 @@ const SwipeableRow: React.FC<{
           if (disabled) {
             return;
           }
-          const offset = isOpen ? SWIPE_OPEN_VALUE : 0;
-          const nextValue = Math.max(SWIPE_OPEN_VALUE - 20, Math.min(0, gesture.dx + offset));
+          const offset = isOpen ? openValue : 0;
+          const nextValue = Math.max(openValue - 20, Math.min(0, gesture.dx + offset));
           translateX.setValue(nextValue);
         },
         onPanResponderRelease: (_, gesture) => {
           if (disabled) {
             return;
           }
-          const offset = isOpen ? SWIPE_OPEN_VALUE : 0;
+          const offset = isOpen ? openValue : 0;
           const finalX = gesture.dx + offset;
           if (finalX < SWIPE_THRESHOLD) {
             open();
@@ -1089,12 +1173,29 @@ const SwipeableRow: React.FC<{
           }
         },
       }),
-    [close, disabled, isOpen, open, translateX],
+    [close, disabled, isOpen, open, openValue, translateX],
   );
 
   return (
     <View style={styles.swipeContainer}>
-      <View style={styles.deleteRail}>
+      <View style={[styles.deleteRail, { width: Math.abs(openValue) }]}>
+        {actions.map(action => (
+          <Pressable
+            key={action.key}
+            onPress={() => {
+              action.onPress();
+              close();
+            }}
+            style={[
+              styles.swipeActionButton,
+              action.tone === 'warning' && styles.swipeActionButtonWarning,
+            ]}
+            accessibilityRole="button"
+            accessibilityLabel={action.accessibilityLabel}
+          >
+            <Text style={styles.swipeActionLabel}>{action.label}</Text>
+          </Pressable>
+        ))}
         <Pressable
           onPress={() => {
             onDelete();
@@ -1128,6 +1229,10 @@ const WordListItem: React.FC<{
   onEditFolders: () => void;
   onDelete: () => void;
   onOpenDetail: () => void;
+  onToggleSuspend: () => void;
+  onBury: () => void;
+  /** Shown as a direct action when listing suspended words. */
+  onRewriteReset?: () => void;
 }> = ({
   item,
   expanded,
@@ -1139,16 +1244,37 @@ const WordListItem: React.FC<{
   onEditFolders,
   onDelete,
   onOpenDetail,
+  onToggleSuspend,
+  onBury,
+  onRewriteReset,
 }) => {
   const styles = useThemeStyles(createStyles);
   const lastReviewed = item.srsData?.lastReviewedAt ?? null;
   const dueAt = item.srsData?.dueAt ?? null;
+  const isBuried = !item.suspended && !isItemReviewable(item);
+  const isLeech = hasLeechTag(item);
 
   const formattedDate = (iso: string | null) =>
     iso ? new Date(iso).toLocaleDateString() : 'Not reviewed';
 
+  const swipeActions: SwipeRowAction[] = [
+    {
+      key: 'suspend',
+      label: item.suspended ? 'Resume' : 'Suspend',
+      accessibilityLabel: item.suspended ? `Unsuspend ${item.term}` : `Suspend ${item.term}`,
+      tone: 'warning',
+      onPress: onToggleSuspend,
+    },
+    {
+      key: 'bury',
+      label: isBuried ? 'Unbury' : 'Bury',
+      accessibilityLabel: isBuried ? `Unbury ${item.term}` : `Bury ${item.term} until tomorrow`,
+      onPress: onBury,
+    },
+  ];
+
   return (
-    <SwipeableRow onDelete={onDelete} disabled={selectMode}>
+    <SwipeableRow onDelete={onDelete} actions={swipeActions} disabled={selectMode}>
       <Pressable
         onPress={selectMode ? onToggleSelect : onPress}
         onLongPress={onLongPress}
@@ -1181,6 +1307,25 @@ const WordListItem: React.FC<{
               <Text style={styles.wordReading}>{item.reading}</Text>
             ) : null}
           </View>
+          {!selectMode && (item.suspended || isBuried || isLeech) ? (
+            <View style={styles.wordStatusGroup}>
+              {isLeech ? (
+                <View style={styles.wordStatusChip}>
+                  <Text style={styles.wordStatusChipLabel}>Leech</Text>
+                </View>
+              ) : null}
+              {item.suspended ? (
+                <View style={styles.wordStatusChip}>
+                  <Text style={styles.wordStatusChipLabel}>Suspended</Text>
+                </View>
+              ) : null}
+              {isBuried ? (
+                <View style={styles.wordStatusChip}>
+                  <Text style={styles.wordStatusChipLabel}>Buried</Text>
+                </View>
+              ) : null}
+            </View>
+          ) : null}
         </View>
         <Text style={styles.wordMeaning} numberOfLines={1}>
           {item.meaning}
@@ -1198,6 +1343,18 @@ const WordListItem: React.FC<{
             ))
           )}
         </View>
+        {onRewriteReset && !selectMode ? (
+          <View style={styles.wordExpandedActions}>
+            <Pressable
+              onPress={onRewriteReset}
+              style={styles.wordExpandedActionButton}
+              accessibilityRole="button"
+              accessibilityLabel={`Rewrite and reset ${item.term}`}
+            >
+              <Text style={styles.wordExpandedActionLabel}>Rewrite & reset</Text>
+            </Pressable>
+          </View>
+        ) : null}
         {expanded ? (
           <View style={styles.wordExpandedSection}>
             <View style={styles.wordExpandedRow}>
@@ -1630,8 +1787,9 @@ const createStyles = (colors: ThemeColors) =>
       right: 0,
       bottom: 0,
       width: Math.abs(SWIPE_OPEN_VALUE),
-      justifyContent: 'center',
-      alignItems: 'flex-end',
+      flexDirection: 'row',
+      justifyContent: 'flex-end',
+      alignItems: 'center',
       backgroundColor: colors.background,
     },
     deleteRailButton: {
@@ -1647,6 +1805,22 @@ const createStyles = (colors: ThemeColors) =>
       ...typography.headline,
       color: colors.textOnAccent,
     },
+    swipeActionButton: {
+      width: Math.abs(SWIPE_OPEN_VALUE) - 8,
+      height: '100%',
+      justifyContent: 'center',
+      alignItems: 'center',
+      backgroundColor: colors.accent,
+      borderRadius: radii.surface,
+      marginLeft: 8,
+    },
+    swipeActionButtonWarning: {
+      backgroundColor: colors.warning,
+    },
+    swipeActionLabel: {
+      ...typography.captionStrong,
+      color: colors.textOnAccent,
+    },
     swipeContent: {
       borderRadius: radii.surface,
     },
@@ -1701,6 +1875,22 @@ const createStyles = (colors: ThemeColors) =>
     wordTitleGroup: {
       flexShrink: 1,
     },
+    wordStatusGroup: {
+      flexDirection: 'row',
+      gap: 4,
+    },
+    wordStatusChip: {
+      borderRadius: radii.control,
+      paddingHorizontal: 8,
+      paddingVertical: 2,
+      backgroundColor: colors.surfaceMuted,
+      borderWidth: StyleSheet.hairlineWidth,
+      borderColor: colors.warning,
+    },
+    wordStatusChipLabel: {
+      ...typography.caption,
+      color: colors.warning,
+    },
     wordTerm: {
       fontSize: 18,
       lineHeight: 22,
@@ -13,6 +13,12 @@ import ScreenContainer from '@/shared/components/ScreenContainer';
 import type { MainTabsParamList, RootStackParamList } from '@/navigation/types';
 import { useBankStore } from '@/state/bank.store';
 import { useNotesStore } from '@/state/notes.store';
+import {
+  SRS_TRACKS,
+  calculateTrackMastery,
+  getTrackSrsData,
+} from '@/domain/srs/unified-srs-service';
+import type { SrsTrack } from '@/contracts/models';
 
 type Props = NativeStackScreenProps<RootStackParamList, 'WordDetail'>;
 
@@ -24,6 +30,14 @@ const tabLabels: Record<TabKey, string> = {
   review: 'Review History',
 };
 
+const trackLabels: Record<SrsTrack, string> = {
+  recognition: 'Recognition · flashcards',
+  production: 'Production · translation',
+};
+
+const formatAccuracy = (value: number | null) =>
+  value === null ? '—' : `${Math.round(value * 100)}%`;
+
 const WordDetailScreen: React.FC<Props> = ({ route, navigation }) => {
   const { itemId } = route.params;
   const [tab, setTab] = useState<TabKey>('overview');
@@ -56,6 +70,8 @@ const WordDetailScreen: React.FC<Props> = ({ route, navigation }) => {
     );
   }
 
+  const trackMastery = calculateTrackMastery(item);
+
   return (
     <ScreenContainer style={styles.safeArea}>
       <ScrollView
@@ -187,25 +203,38 @@ const WordDetailScreen: React.FC<Props> = ({ route, navigation }) => {
       {tab === 'review' ? (
         <View style={styles.tabCard}>
           <Text style={styles.sectionTitle}>Spaced repetition</Text>
-          {item.srsData ? (
-            <View style={styles.reviewRows}>
-              <Text style={styles.sectionItem}>Interval: {item.srsData.intervalHours}h</Text>
-              <Text style={styles.sectionItem}>Ease factor: {item.srsData.easeFactor.toFixed(2)}</Text>
-              <Text style={styles.sectionItem}>Streak: {item.srsData.streak}</Text>
-              <Text style={styles.sectionItem}>
-                Next due: {new Date(item.srsData.dueAt).toLocaleString()}
-              </Text>
-              <Text style={styles.sectionItem}>
-                Last reviewed: {item.srsData.lastReviewedAt
-                  ? new Date(item.srsData.lastReviewedAt).toLocaleString()
-                  : '—'}
-              </Text>
-            </View>
-          ) : (
-            <Text style={styles.sectionPlaceholder}>
-              No reviews logged yet. Complete an adaptive session to schedule it.
-            </Text>
-          )}
+          {SRS_TRACKS.map(track => {
+            const srsData = getTrackSrsData(item, track);
+            return (
+              <View key={track} style={styles.reviewRows}>
+                <Text style={styles.trackHeading}>{trackLabels[track]}</Text>
+                <Text style={styles.sectionItem}>
+                  Accuracy: {formatAccuracy(trackMastery[track])}
+                </Text>
+                {srsData ? (
+                  <>
+                    <Text style={styles.sectionItem}>Interval: {srsData.intervalHours}h</Text>
+                    <Text style={styles.sectionItem}>
+                      Ease factor: {srsData.easeFactor.toFixed(2)}
+                    </Text>
+                    <Text style={styles.sectionItem}>Streak: {srsData.streak}</Text>
+                    <Text style={styles.sectionItem}>
+                      Next due: {new Date(srsData.dueAt).toLocaleString()}
+                    </Text>
+                    <Text style={styles.sectionItem}>
+                      Last reviewed: {srsData.lastReviewedAt
+                        ? new Date(srsData.lastReviewedAt).toLocaleString()
+                        : '—'}
+                    </Text>
+                  </>
+                ) : (
+                  <Text style={styles.sectionPlaceholder}>
+                    No reviews logged yet. Complete an adaptive session to schedule it.
+                  </Text>
+                )}
+              </View>
+            );
+          })}
         </View>
       ) : null}
     </ScrollView>
@@ -377,4 +406,9 @@ const styles = StyleSheet.create({
   reviewRows: {
     gap: 8,
   },
+  trackHeading: {
+    ...typography.body,
+    fontFamily: fontFamilies.serif.semibold,
+    color: colors.textPrimaryLight,
+  },
 });
@@ -1,13 +1,14 @@
 export type RootStackParamList = {
   MainTabs: undefined;
   ProgressDashboard: undefined;
+  MemoryGraph: undefined;
   WordDetail: { itemId: string };
   FolderDetail: { folderName: string };
   NoteDetail: { noteId: string };
   CreateNote: { vocabItemId?: string; seedContent?: string; source?: string };
   Settings: undefined;
-  TranslationPractice: undefined;
-  FlashcardTraining: undefined;
+  TranslationPractice: { remediation?: boolean } | undefined;
+  FlashcardTraining: { catchUp?: boolean } | undefined;
 };
 
 export type MainTabsParamList = {
@@ -2,12 +2,21 @@ import { createMMKV } from 'react-native-mmkv';
 import type { MMKV } from 'react-native-mmkv';
 import type {
   AiTutorService,
+  GradeTranslationParams,
   TranslateTextParams,
+  TranslationCacheUsage,
+  TranslationGrade,
+  TutorChatParams,
+  TutorChatStreamOptions,
 } from '../contracts/services';
 import type { DrillSession, ProgressStats, VocabItem } from '../contracts/models';
+import { AiTutorRequestError } from './http-ai-tutor-backend';
+import { TranslationCache, type TranslationCacheOptions } from './translation-cache';
 
 /** Storage namespace used for caching translated text. */
 const TRANSLATION_CACHE_NAMESPACE = 'ai_tutor_translation_cache_v1';
+/** Model identity of the echo backend. */
+const ECHO_MODEL_ID = 'echo';
 
 /** Contract for the underlying AI tutor backend implementation. */
 export interface AiTutorBackend {
@@ -21,14 +30,20 @@ export interface AiTutorBackend {
   /** Produces drill session feedback from the upstream provider. */
   generateSessionFeedback(session: DrillSession): Promise<string>;
   /** Creates a study plan recommendation from the upstream provider. */
-  createStudyPlan(stats: ProgressStats): Promise<string>;
+  createStudyPlan(stats: ProgressStats, context?: string): Promise<string>;
+  /** Grades a translation attempt; rejects when no grader is available. */
+  gradeTranslation(params: GradeTranslationParams): Promise<TranslationGrade>;
+  /** Streams a chat reply from the upstream provider. */
+  streamChat(params: TutorChatParams, options: TutorChatStreamOptions): Promise<string>;
+  /** Identifies the provider and model answering requests, so cached output stays with them. */
+  getModelId(): string;
 }
 
-/** Generates a cache key for translation results. */
-const buildTranslationCacheKey = (params: TranslateTextParams): string => {
+/** Generates a cache key for translation results from the given model. */
+const buildTranslationCacheKey = (modelId: string, params: TranslateTextParams): string => {
   const { sourceLanguage, targetLanguage, text, context } = params;
   return [
-    TRANSLATION_CACHE_NAMESPACE,
+    modelId,
     sourceLanguage.toLowerCase(),
     targetLanguage.toLowerCase(),
     text.trim(),
@@ -36,26 +51,37 @@ const buildTranslationCacheKey = (params: TranslateTextParams): string => {
   ].join('|');
 };
 
-/** AI tutor service that caches translation responses using MMKV. */
+/** Placeholder translation returned while no AI tutor is reachable. */
+const formatEchoTranslation = (params: TranslateTextParams): string =>
+  `[${params.targetLanguage}] ${params.text}`;
+
+/** AI tutor service that caches translation responses in a bounded, expiring MMKV cache. */
 export class CachedAiTutorService implements AiTutorService {
-  private readonly storage: MMKV;
+  private readonly cache: TranslationCache;
 
   constructor(
     private readonly backend: AiTutorBackend,
     storage?: MMKV,
+    cacheOptions?: TranslationCacheOptions,
   ) {
-    this.storage = storage ?? createMMKV({ id: TRANSLATION_CACHE_NAMESPACE });
+    this.cache = new TranslationCache(
+      storage ?? createMMKV({ id: TRANSLATION_CACHE_NAMESPACE }),
+      cacheOptions,
+    );
   }
 
   async translate(params: TranslateTextParams): Promise<string> {
-    const cacheKey = buildTranslationCacheKey(params);
-    const cached = this.storage.getString(cacheKey);
+    const cacheKey = buildTranslationCacheKey(this.backend.getModelId(), params);
+    const cached = this.cache.get(cacheKey);
     if (cached) {
       return cached;
     }
 
     const translated = await this.backend.translate(params);
-    this.storage.set(cacheKey, translated);
+    // Echoed placeholders are not cached so real translations replace them once back online.
+    if (translated !== formatEchoTranslation(params)) {
+      this.cache.set(cacheKey, translated);
+    }
     return translated;
   }
 
@@ -67,16 +93,34 @@ export class CachedAiTutorService implements AiTutorService {
     return this.backend.generateSessionFeedback(session);
   }
 
-  createStudyPlan(stats: ProgressStats): Promise<string> {
-    return this.backend.createStudyPlan(stats);
+  createStudyPlan(stats: ProgressStats, context?: string): Promise<string> {
+    return this.backend.createStudyPlan(stats, context);
+  }
+
+  gradeTranslation(params: GradeTranslationParams): Promise<TranslationGrade> {
+    return this.backend.gradeTranslation(params);
+  }
+
+  streamChat(params: TutorChatParams, options: TutorChatStreamOptions): Promise<string> {
+    return this.backend.streamChat(params, options);
+  }
+
+  getTranslationCacheUsage(): TranslationCacheUsage {
+    return this.cache.getUsage();
+  }
+
+  clearTranslationCache(): void {
+    this.cache.clear();
   }
 }
 
-/** Simple backend implementation that mirrors text for offline usage. */
+/**
+ * Simple backend implementation that mirrors text for offline usage. Grading rejects so callers
+ * use the rule-based evaluator.
+ */
 export class EchoAiTutorBackend implements AiTutorBackend {
   async translate(params: TranslateTextParams): Promise<string> {
-    const { text, targetLanguage } = params;
-    return `[${targetLanguage}] ${text}`;
+    return formatEchoTranslation(params);
   }
 
   async generateHint(): Promise<string> {
@@ -90,4 +134,30 @@ export class EchoAiTutorBackend implements AiTutorBackend {
   async createStudyPlan(): Promise<string> {
     return 'A study plan will be available when connected.';
   }
+
+  async gradeTranslation(): Promise<TranslationGrade> {
+    throw new Error('Translation grading is unavailable offline.');
+  }
+
+  getModelId(): string {
+    return ECHO_MODEL_ID;
+  }
+
+  /** Replies with the caller's offline reply, or study prompts about the learner's question. */
+  async streamChat(params: TutorChatParams, options: TutorChatStreamOptions): Promise<string> {
+    if (options.signal?.aborted) {
+      throw new AiTutorRequestError('cancelled');
+    }
+    const question = [...params.turns].reverse().find(turn => turn.role === 'learner');
+    const reply =
+      params.offlineReply ??
+      [
+        `Let's explore "${question?.content ?? ''}".`,
+        '• Form: highlight tense and grammar usage.',
+        '• Compare with a related structure.',
+        '• Try saying it in a different context.',
+      ].join('\n');
+    options.onDelta(reply, reply);
+    return reply;
+  }
 }
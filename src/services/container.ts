@@ -1,29 +1,51 @@
+import { createMMKV } from 'react-native-mmkv';
 import { CachedAiTutorService, EchoAiTutorBackend } from './ai-tutor-service';
+import { SettingsAiTutorBackend } from './http-ai-tutor-backend';
 import { offlineController } from './offline-controller';
 import { bankRepository } from '@/data/repositories/bank-repository';
 import { notesRepository } from '@/data/repositories/notes-repository';
 import { videoRepository } from '@/data/repositories/video-repository';
+import { reviewLogRepository } from '@/data/repositories/review-log-repository';
 import { MmkvProgressRepository } from '@/data/repositories/progress-repository';
+import { MmkvChatThreadRepository } from '@/data/repositories/chat-thread-repository';
+import { BUNDLED_DICTIONARY_PACKS } from '@/data/dictionaries';
+import { OfflineDictionaryService } from './offline-dictionary';
 import { storageService } from './storage-service';
 import { youTubeService } from './youtube-service';
 import { audioRecorderService } from './audio-recorder-service';
 import { ttsService } from './tts-service';
+import { useSettingsStore } from '@/state/settings.store';
+import { useOfflineStore } from '@/state/offline.store';
 
-const aiTutorBackend = new EchoAiTutorBackend();
+/** Talks to the configured AI tutor endpoint once an API key is set, echoing text until then. */
+export const aiTutorBackend = new SettingsAiTutorBackend(
+  () => useSettingsStore.getState(),
+  new EchoAiTutorBackend(),
+  () => useOfflineStore.getState().isOffline,
+);
 
 /** Singleton instance of the AI tutor service with translation caching. */
 export const aiTutorService = new CachedAiTutorService(aiTutorBackend);
 
+/** Offline bilingual dictionary with the bundled packs and any the learner imported. */
+export const dictionaryService = new OfflineDictionaryService(
+  createMMKV({ id: 'offline-dictionary' }),
+  BUNDLED_DICTIONARY_PACKS,
+);
+
 const progressRepository = new MmkvProgressRepository(bankRepository);
+const chatThreadRepository = new MmkvChatThreadRepository();
 
 export {
   offlineController,
   bankRepository,
   notesRepository,
   videoRepository,
+  reviewLogRepository,
   storageService,
   youTubeService,
   audioRecorderService,
   ttsService,
   progressRepository,
+  chatThreadRepository,
 };
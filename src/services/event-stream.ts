@@ -0,0 +1,127 @@
+/** A POST request whose response body is read as it arrives. */
+export interface StreamingRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: string;
+  signal: AbortSignal;
+  /** Receives successful response bodies piece by piece. Error bodies are not delivered. */
+  onText: (text: string) => void;
+}
+
+/** Status line of a streamed response, available once the body has been read. */
+export interface StreamingResponse {
+  status: number;
+  getHeader: (name: string) => string | null;
+}
+
+const createAbortError = () => {
+  const error = new Error('The request was aborted.');
+  error.name = 'AbortError';
+  return error;
+};
+
+/**
+ * React Native's fetch buffers the whole body, but its XMLHttpRequest reports progress as
+ * chunks arrive, so it is preferred wherever it exists.
+ */
+const postWithXhr = ({ url, headers, body, signal, onText }: StreamingRequest) =>
+  new Promise<StreamingResponse>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    let delivered = 0;
+    const deliver = () => {
+      if (xhr.status >= 200 && xhr.status < 300 && xhr.responseText.length > delivered) {
+        onText(xhr.responseText.slice(delivered));
+        delivered = xhr.responseText.length;
+      }
+    };
+    const onAbort = () => xhr.abort();
+
+    xhr.open('POST', url);
+    Object.entries(headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+    xhr.onprogress = deliver;
+    xhr.onload = () => {
+      signal.removeEventListener('abort', onAbort);
+      deliver();
+      resolve({ status: xhr.status, getHeader: name => xhr.getResponseHeader(name) });
+    };
+    xhr.onerror = () => {
+      signal.removeEventListener('abort', onAbort);
+      reject(new TypeError('Network request failed'));
+    };
+    xhr.onabort = () => reject(createAbortError());
+
+    if (signal.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    signal.addEventListener('abort', onAbort);
+    xhr.send(body);
+  });
+
+const postWithFetch = async ({ url, headers, body, signal, onText }: StreamingRequest) => {
+  const response = await fetch(url, { method: 'POST', headers, body, signal });
+  const result: StreamingResponse = {
+    status: response.status,
+    getHeader: name => response.headers.get(name),
+  };
+  if (!response.ok) {
+    return result;
+  }
+
+  const reader = response.body?.getReader();
+  if (!reader) {
+    onText(await response.text());
+    return result;
+  }
+  const decoder = new TextDecoder();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    onText(decoder.decode(value, { stream: true }));
+  }
+  onText(decoder.decode());
+  return result;
+};
+
+/**
+ * Sends a POST request and hands the response body to `onText` while it downloads. Rejects with
+ * a `TypeError` when the network fails and an `AbortError` when the signal aborts.
+ */
+export const postStreaming = (request: StreamingRequest): Promise<StreamingResponse> =>
+  typeof XMLHttpRequest === 'undefined' ? postWithFetch(request) : postWithXhr(request);
+
+/**
+ * Splits a server-sent event stream into the payloads of its `data:` lines. Text that never
+ * contained an event is kept, so replies sent as a single JSON document can still be read.
+ */
+export const createEventStreamParser = (onData: (data: string) => void) => {
+  let pending = '';
+  let sawEvent = false;
+  let raw = '';
+
+  const readLine = (line: string) => {
+    if (line.startsWith('data:')) {
+      sawEvent = true;
+      onData(line.slice(5).trim());
+    }
+  };
+
+  return {
+    push(text: string) {
+      if (!sawEvent) {
+        raw += text;
+      }
+      const lines = (pending + text).split(/\r?\n/);
+      pending = lines.pop() ?? '';
+      lines.forEach(readLine);
+    },
+    /** Flushes the last line and returns the body when it held no events at all. */
+    end(): string | null {
+      readLine(pending);
+      pending = '';
+      return sawEvent ? null : raw;
+    },
+  };
+};
@@ -0,0 +1,557 @@
+import { z } from 'zod';
+import type {
+  GradeTranslationParams,
+  TranslateTextParams,
+  TranslationGrade,
+  TutorChatParams,
+  TutorChatStreamOptions,
+} from '../contracts/services';
+import type { DrillSession, ProgressStats, VocabItem } from '../contracts/models';
+import type { AiTutorBackend } from './ai-tutor-service';
+import { createEventStreamParser, postStreaming } from './event-stream';
+import { buildGradingMessages, parseTranslationGrade } from './translation-grader';
+
+export interface HttpAiTutorBackendConfig {
+  /** Base URL of an OpenAI-compatible API, e.g. `https://api.openai.com/v1`. */
+  baseUrl: string;
+  apiKey: string;
+  model?: string;
+  /** Per-attempt timeout; for streamed replies, the longest silence between chunks. */
+  timeoutMs?: number;
+  /** Extra attempts after a timeout, network failure, rate limit or server error. */
+  maxRetries?: number;
+  /** Delay before the first retry; doubles on every further retry. */
+  retryDelayMs?: number;
+  /** Serves requests while offline, and when the endpoint cannot be reached at all. */
+  fallback?: AiTutorBackend;
+  /** Reports whether the device is offline; requests go straight to the fallback when it is. */
+  isOffline?: () => boolean;
+}
+
+export const DEFAULT_AI_TUTOR_BASE_URL = 'https://api.openai.com/v1';
+export const DEFAULT_AI_TUTOR_MODEL = 'gpt-4o-mini';
+const DEFAULT_TIMEOUT_MS = 20_000;
+const DEFAULT_MAX_RETRIES = 2;
+const DEFAULT_RETRY_DELAY_MS = 500;
+/** Longest wait honoured from a Retry-After header. */
+const MAX_RETRY_DELAY_MS = 10_000;
+
+/** Why a request to the AI tutor failed. */
+export type AiTutorErrorKind =
+  | 'auth'
+  | 'rate_limited'
+  | 'bad_request'
+  | 'server'
+  | 'timeout'
+  | 'network'
+  | 'invalid_response'
+  | 'cancelled';
+
+const RETRYABLE_KINDS: readonly AiTutorErrorKind[] = [
+  'rate_limited',
+  'server',
+  'timeout',
+  'network',
+];
+/** Failures that mean the endpoint is unreachable rather than unhappy with the request. */
+const UNREACHABLE_KINDS: readonly AiTutorErrorKind[] = ['timeout', 'network'];
+
+const ERROR_MESSAGES: Record<AiTutorErrorKind, string> = {
+  auth: 'The AI tutor rejected the API key. Check it in Settings.',
+  rate_limited: 'The AI tutor is receiving too many requests. Try again shortly.',
+  bad_request: 'The AI tutor could not handle the request. Check the endpoint and model.',
+  server: 'The AI tutor is having problems. Try again later.',
+  timeout: 'The AI tutor took too long to respond.',
+  network: 'Could not reach the AI tutor.',
+  invalid_response: 'The AI tutor sent a response the app could not read.',
+  cancelled: 'The AI tutor request was cancelled.',
+};
+
+/** Raised when a request to the AI tutor endpoint fails. */
+export class AiTutorRequestError extends Error {
+  constructor(
+    readonly kind: AiTutorErrorKind,
+    readonly status?: number,
+    /** Server-requested wait before retrying, from a Retry-After header. */
+    readonly retryAfterMs?: number,
+  ) {
+    super(ERROR_MESSAGES[kind]);
+    this.name = 'AiTutorRequestError';
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_KINDS.includes(this.kind);
+  }
+}
+
+/** Maps an HTTP error status onto an error kind. */
+export const classifyStatus = (status: number): AiTutorErrorKind => {
+  if (status === 401 || status === 403) {
+    return 'auth';
+  }
+  if (status === 429) {
+    return 'rate_limited';
+  }
+  return status >= 500 ? 'server' : 'bad_request';
+};
+
+const parseRetryAfter = (header: string | null): number | undefined => {
+  const seconds = header ? Number(header) : NaN;
+  return Number.isFinite(seconds) && seconds >= 0
+    ? Math.min(seconds * 1000, MAX_RETRY_DELAY_MS)
+    : undefined;
+};
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+const ChatCompletionSchema = z.object({
+  choices: z
+    .array(z.object({ message: z.object({ content: z.string().nullable() }) }))
+    .min(1),
+});
+
+const ChatCompletionChunkSchema = z.object({
+  choices: z.array(
+    z.object({ delta: z.object({ content: z.string().nullish() }).optional() }),
+  ),
+});
+
+const safeJsonParse = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+};
+
+/** Text carried by one streamed completion chunk, if any. */
+const parseStreamChunk = (data: string): string | null => {
+  const chunk = ChatCompletionChunkSchema.safeParse(safeJsonParse(data));
+  return chunk.success ? chunk.data.choices[0]?.delta?.content ?? null : null;
+};
+
+type ChatMessage = { role: 'system' | 'user' | 'assistant'; content: string };
+
+type ChatRequest = {
+  messages: ChatMessage[];
+  temperature?: number;
+  json?: boolean;
+};
+
+const TUTOR_PERSONA =
+  'You are a patient language tutor. Keep replies short, concrete and addressed to the learner.';
+
+/** AI tutor backend for any OpenAI-compatible chat completions API. */
+export class HttpAiTutorBackend implements AiTutorBackend {
+  private readonly endpoint: string;
+  private readonly model: string;
+  private readonly timeoutMs: number;
+  private readonly maxRetries: number;
+  private readonly retryDelayMs: number;
+
+  constructor(private readonly config: HttpAiTutorBackendConfig) {
+    this.endpoint = `${config.baseUrl.trim().replace(/\/+$/, '')}/chat/completions`;
+    this.model = config.model?.trim() || DEFAULT_AI_TUTOR_MODEL;
+    this.timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.maxRetries = config.maxRetries ?? DEFAULT_MAX_RETRIES;
+    this.retryDelayMs = config.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+  }
+
+  translate(params: TranslateTextParams): Promise<string> {
+    const { text, sourceLanguage, targetLanguage, context } = params;
+    return this.withFallback(
+      () =>
+        this.complete({
+          temperature: 0,
+          messages: [
+            {
+              role: 'system',
+              content:
+                `Translate the user's text from ${sourceLanguage} into ${targetLanguage}. ` +
+                'Reply with the translation only.',
+            },
+            { role: 'user', content: context ? `${text}\n\nContext: ${context}` : text },
+          ],
+        }),
+      fallback => fallback.translate(params),
+    );
+  }
+
+  generateHint(params: { item: VocabItem; learnerAnswer: string }): Promise<string> {
+    const { item, learnerAnswer } = params;
+    return this.withFallback(
+      () =>
+        this.complete({
+          messages: [
+            {
+              role: 'system',
+              content: `${TUTOR_PERSONA} Give one hint without revealing the answer.`,
+            },
+            {
+              role: 'user',
+              content: [
+                `Word: ${item.term}`,
+                `Meaning: ${item.meaning}`,
+                item.examples[0] ? `Example: ${item.examples[0]}` : null,
+                `Learner's attempt: ${learnerAnswer || '(no answer)'}`,
+              ]
+                .filter(Boolean)
+                .join('\n'),
+            },
+          ],
+        }),
+      fallback => fallback.generateHint(params),
+    );
+  }
+
+  generateSessionFeedback(session: DrillSession): Promise<string> {
+    return this.withFallback(
+      () =>
+        this.complete({
+          messages: [
+            {
+              role: 'system',
+              content: `${TUTOR_PERSONA} Comment on the drill session in two sentences.`,
+            },
+            {
+              role: 'user',
+              content:
+                `Words practised: ${session.vocabItemIds.length}. ` +
+                `Correct: ${session.correctCount}. Incorrect: ${session.incorrectCount}. ` +
+                `Score: ${Math.round(session.score * 100)}%.`,
+            },
+          ],
+        }),
+      fallback => fallback.generateSessionFeedback(session),
+    );
+  }
+
+  createStudyPlan(stats: ProgressStats, context?: string): Promise<string> {
+    const progress =
+      `Vocabulary: ${stats.totalVocabCount} words, ${stats.learnedVocabCount} learned. ` +
+      `Reviews due: ${stats.reviewDueCount}. Streak: ${stats.streakDays} days.`;
+    return this.withFallback(
+      () =>
+        this.complete({
+          messages: [
+            {
+              role: 'system',
+              content: `${TUTOR_PERSONA} Suggest a study plan for the next week in three steps.`,
+            },
+            {
+              role: 'user',
+              content: context ? `${progress}\n\n${context}` : progress,
+            },
+          ],
+        }),
+      fallback => fallback.createStudyPlan(stats, context),
+    );
+  }
+
+  getModelId(): string {
+    return `${this.endpoint}#${this.model}`;
+  }
+
+  async gradeTranslation(params: GradeTranslationParams): Promise<TranslationGrade> {
+    const content = await this.withFallback(
+      () => this.complete({ temperature: 0, json: true, messages: buildGradingMessages(params) }),
+      async fallback => JSON.stringify(await fallback.gradeTranslation(params)),
+    );
+    return parseTranslationGrade(content);
+  }
+
+  async streamChat(params: TutorChatParams, options: TutorChatStreamOptions): Promise<string> {
+    const messages: ChatMessage[] = [
+      {
+        role: 'system',
+        content: params.context
+          ? `${TUTOR_PERSONA}\n\nContext:\n${params.context}`
+          : TUTOR_PERSONA,
+      },
+      ...params.turns.map(
+        (turn): ChatMessage => ({
+          role: turn.role === 'learner' ? 'user' : 'assistant',
+          content: turn.content,
+        }),
+      ),
+    ];
+
+    let text = '';
+    const onDelta = (delta: string) => {
+      text += delta;
+      options.onDelta(delta, text);
+    };
+    // Once part of the reply is on screen, neither a retry nor the fallback may add to it.
+    const hasStarted = () => text.length > 0;
+    return this.withFallback(
+      () =>
+        this.withRetries(() => this.sendStreaming(messages, onDelta, options.signal), hasStarted),
+      fallback => fallback.streamChat(params, options),
+      hasStarted,
+    );
+  }
+
+  /**
+   * Runs `request`, or the fallback backend when the device is offline or the endpoint cannot be
+   * reached. Errors the endpoint answered with are passed on, since the fallback cannot fix them.
+   */
+  private async withFallback<T>(
+    request: () => Promise<T>,
+    viaFallback: (fallback: AiTutorBackend) => Promise<T>,
+    isCommitted: () => boolean = () => false,
+  ): Promise<T> {
+    const { fallback, isOffline } = this.config;
+    if (fallback && isOffline?.()) {
+      return viaFallback(fallback);
+    }
+    try {
+      return await request();
+    } catch (error) {
+      if (
+        fallback &&
+        error instanceof AiTutorRequestError &&
+        UNREACHABLE_KINDS.includes(error.kind) &&
+        !isCommitted()
+      ) {
+        return viaFallback(fallback);
+      }
+      throw error;
+    }
+  }
+
+  /** Sends a chat completion, retrying transient failures. */
+  private complete(request: ChatRequest): Promise<string> {
+    return this.withRetries(() => this.send(request));
+  }
+
+  /** Retries transient failures with exponential backoff until `isCommitted` reports output. */
+  private async withRetries<T>(
+    attempt: () => Promise<T>,
+    isCommitted: () => boolean = () => false,
+  ): Promise<T> {
+    for (let retry = 0; ; retry += 1) {
+      try {
+        return await attempt();
+      } catch (error) {
+        if (
+          !(error instanceof AiTutorRequestError) ||
+          !error.retryable ||
+          retry >= this.maxRetries ||
+          isCommitted()
+        ) {
+          throw error;
+        }
+        await sleep(error.retryAfterMs ?? this.retryDelayMs * 2 ** retry);
+      }
+    }
+  }
+
+  private get headers() {
+    return {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${this.config.apiKey}`,
+    };
+  }
+
+  private async send({ messages, temperature = 0.7, json = false }: ChatRequest) {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    let response: Response;
+    try {
+      response = await fetch(this.endpoint, {
+        method: 'POST',
+        headers: this.headers,
+        body: JSON.stringify({
+          model: this.model,
+          temperature,
+          messages,
+          ...(json ? { response_format: { type: 'json_object' } } : {}),
+        }),
+        signal: controller.signal,
+      });
+    } catch {
+      throw new AiTutorRequestError(controller.signal.aborted ? 'timeout' : 'network');
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (!response.ok) {
+      throw new AiTutorRequestError(
+        classifyStatus(response.status),
+        response.status,
+        parseRetryAfter(response.headers.get('retry-after')),
+      );
+    }
+
+    const completion = ChatCompletionSchema.safeParse(await response.json().catch(() => null));
+    const content = completion.success ? completion.data.choices[0].message.content?.trim() : null;
+    if (!content) {
+      throw new AiTutorRequestError('invalid_response', response.status);
+    }
+    return content;
+  }
+
+  /**
+   * Streams one chat completion, passing text to `onDelta` as it arrives. The timeout restarts
+   * with every chunk, so long replies are not cut off while they are still flowing.
+   */
+  private async sendStreaming(
+    messages: ChatMessage[],
+    onDelta: (delta: string) => void,
+    signal?: AbortSignal,
+  ): Promise<string> {
+    if (signal?.aborted) {
+      throw new AiTutorRequestError('cancelled');
+    }
+    const controller = new AbortController();
+    let timer = setTimeout(() => controller.abort(), this.timeoutMs);
+    const restartTimer = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => controller.abort(), this.timeoutMs);
+    };
+    const cancel = () => controller.abort();
+    signal?.addEventListener('abort', cancel);
+
+    let streamed = '';
+    const parser = createEventStreamParser(data => {
+      const chunk = data === '[DONE]' ? null : parseStreamChunk(data);
+      if (chunk) {
+        streamed += chunk;
+        onDelta(chunk);
+      }
+    });
+
+    let response: { status: number; getHeader: (name: string) => string | null };
+    try {
+      response = await postStreaming({
+        url: this.endpoint,
+        headers: this.headers,
+        body: JSON.stringify({ model: this.model, temperature: 0.7, stream: true, messages }),
+        signal: controller.signal,
+        onText: text => {
+          restartTimer();
+          parser.push(text);
+        },
+      });
+    } catch {
+      if (signal?.aborted) {
+        throw new AiTutorRequestError('cancelled');
+      }
+      throw new AiTutorRequestError(controller.signal.aborted ? 'timeout' : 'network');
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', cancel);
+    }
+
+    if (response.status < 200 || response.status >= 300) {
+      throw new AiTutorRequestError(
+        classifyStatus(response.status),
+        response.status,
+        parseRetryAfter(response.getHeader('retry-after')),
+      );
+    }
+
+    // Endpoints that ignore `stream` answer with a single completion instead.
+    const unstreamed = parser.end();
+    if (unstreamed !== null) {
+      const completion = ChatCompletionSchema.safeParse(safeJsonParse(unstreamed));
+      const content = completion.success ? completion.data.choices[0].message.content : null;
+      if (content) {
+        streamed = content;
+        onDelta(content);
+      }
+    }
+    if (!streamed.trim()) {
+      throw new AiTutorRequestError('invalid_response', response.status);
+    }
+    return streamed;
+  }
+}
+
+export type AiTutorSettings = {
+  aiTutorApiKey: string;
+  aiTutorBaseUrl: string;
+  aiTutorModel: string;
+};
+
+/**
+ * Backend that follows the AI tutor settings: the HTTP backend while an API key is configured,
+ * the fallback otherwise. Settings are read on every call, so edits apply straight away.
+ */
+export class SettingsAiTutorBackend implements AiTutorBackend {
+  private current?: {
+    signature: string;
+    backend: HttpAiTutorBackend;
+    remote: HttpAiTutorBackend;
+  };
+
+  constructor(
+    private readonly readSettings: () => AiTutorSettings,
+    private readonly fallback: AiTutorBackend,
+    private readonly isOffline?: () => boolean,
+  ) {}
+
+  translate(params: TranslateTextParams): Promise<string> {
+    return this.resolve().translate(params);
+  }
+
+  generateHint(params: { item: VocabItem; learnerAnswer: string }): Promise<string> {
+    return this.resolve().generateHint(params);
+  }
+
+  generateSessionFeedback(session: DrillSession): Promise<string> {
+    return this.resolve().generateSessionFeedback(session);
+  }
+
+  createStudyPlan(stats: ProgressStats, context?: string): Promise<string> {
+    return this.resolve().createStudyPlan(stats, context);
+  }
+
+  gradeTranslation(params: GradeTranslationParams): Promise<TranslationGrade> {
+    return this.resolve().gradeTranslation(params);
+  }
+
+  streamChat(params: TutorChatParams, options: TutorChatStreamOptions): Promise<string> {
+    return this.resolve().streamChat(params, options);
+  }
+
+  getModelId(): string {
+    return this.resolve().getModelId();
+  }
+
+  /**
+   * The configured endpoint without the offline fallback, for replaying requests that must reach
+   * the real tutor; null while no API key is set.
+   */
+  getRemoteBackend(): AiTutorBackend | null {
+    return this.resolveConfigured()?.remote ?? null;
+  }
+
+  private resolve(): AiTutorBackend {
+    return this.resolveConfigured()?.backend ?? this.fallback;
+  }
+
+  private resolveConfigured() {
+    const { aiTutorApiKey, aiTutorBaseUrl, aiTutorModel } = this.readSettings();
+    const apiKey = aiTutorApiKey.trim();
+    if (!apiKey) {
+      return null;
+    }
+    const baseUrl = aiTutorBaseUrl.trim() || DEFAULT_AI_TUTOR_BASE_URL;
+    const signature = [baseUrl, aiTutorModel, apiKey].join('|');
+    if (this.current?.signature !== signature) {
+      const config = { baseUrl, apiKey, model: aiTutorModel };
+      this.current = {
+        signature,
+        backend: new HttpAiTutorBackend({
+          ...config,
+          fallback: this.fallback,
+          isOffline: this.isOffline,
+        }),
+        remote: new HttpAiTutorBackend(config),
+      };
+    }
+    return this.current;
+  }
+}
@@ -1,7 +1,11 @@
 export * from './ai-tutor-service';
 export * from './audio-recorder-service';
 export * from './container';
+export * from './http-ai-tutor-backend';
 export * from './offline-controller';
+export * from './offline-dictionary';
 export * from './storage-service';
+export * from './translation-cache';
+export * from './translation-grader';
 export * from './tts-service';
 export * from './youtube-service';
@@ -6,6 +6,21 @@ import { setOfflineState } from '../state/offline.store';
 const isOfflineState = (isConnected: boolean | null, isInternetReachable: boolean | null) =>
   !isConnected || isInternetReachable === false;
 
+type SyncTask = () => Promise<void>;
+
+/** Runs sync tasks one after another; a failing task does not hold back the rest. */
+const runSyncTasks = async (tasks: Iterable<SyncTask>) => {
+  for (const task of tasks) {
+    try {
+      await task();
+    } catch (error) {
+      if (__DEV__) {
+        console.warn('Offline sync task failed.', error);
+      }
+    }
+  }
+};
+
 type NetInfoModule = {
   addEventListener: (listener: (state: NetInfoState) => void) => () => void;
   fetch: () => Promise<NetInfoState>;
@@ -56,6 +71,7 @@ const resolveNetInfoModule = (): NetInfoModule | undefined => {
 /** Offline controller backed by @react-native-community/netinfo. */
 export class NetInfoOfflineController implements OfflineController {
   private readonly listeners = new Set<(isOffline: boolean) => void>();
+  private readonly syncTasks = new Set<SyncTask>();
   private unsubscribeNetInfo?: () => void;
 
   constructor(private readonly netInfo: NetInfoModule) {
@@ -67,7 +83,15 @@ export class NetInfoOfflineController implements OfflineController {
   }
 
   async syncPendingChanges(): Promise<void> {
-    // Synchronisation is handled elsewhere in the application.
+    await runSyncTasks([...this.syncTasks]);
+  }
+
+  addSyncTask(task: SyncTask): () => void {
+    this.syncTasks.add(task);
+
+    return () => {
+      this.syncTasks.delete(task);
+    };
   }
 
   onConnectivityChange(callback: (isOffline: boolean) => void): () => void {
@@ -94,6 +118,7 @@ export class NetInfoOfflineController implements OfflineController {
 
 class NoopOfflineController implements OfflineController {
   private readonly listeners = new Set<(isOffline: boolean) => void>();
+  private readonly syncTasks = new Set<SyncTask>();
 
   constructor() {
     setOfflineState(false);
@@ -104,7 +129,16 @@ class NoopOfflineController implements OfflineController {
   }
 
   async syncPendingChanges(): Promise<void> {
-    // Synchronisation is a no-op without connectivity monitoring.
+    // Without connectivity monitoring the app is assumed online, so tasks simply run.
+    await runSyncTasks([...this.syncTasks]);
+  }
+
+  addSyncTask(task: SyncTask): () => void {
+    this.syncTasks.add(task);
+
+    return () => {
+      this.syncTasks.delete(task);
+    };
   }
 
   onConnectivityChange(callback: (isOffline: boolean) => void): () => void {
@@ -0,0 +1,397 @@
+import type { MMKV } from 'react-native-mmkv';
+import {
+  COMPACT_GENDER,
+  COMPACT_PART_OF_SPEECH,
+  type CompactDictionaryPack,
+  CompactDictionaryPackSchema,
+  type DictionaryEntry,
+} from '../contracts/models';
+import type {
+  DictionaryLookupParams,
+  DictionaryLookupResult,
+  DictionaryMatchType,
+  DictionaryPackInfo,
+  DictionaryService,
+} from '../contracts/services';
+
+/** Prefix of the storage keys holding imported packs, followed by `source:target`. */
+const PACK_KEY_PREFIX = 'pack:';
+/** Shortest text that is matched against the start of headwords. */
+const MIN_PREFIX_LENGTH = 3;
+const MAX_PREFIX_MATCHES = 5;
+
+/** Ending swaps, longest first, that turn common inflections back into a dictionary form. */
+const LEMMA_RULES: Record<string, Array<[string, string]>> = {
+  en: [
+    ['ies', 'y'],
+    ['ing', ''],
+    ['ing', 'e'],
+    ['ied', 'y'],
+    ['es', ''],
+    ['ed', ''],
+    ['ed', 'e'],
+    ['s', ''],
+  ],
+  es: [
+    ['ces', 'z'],
+    ['es', ''],
+    ['as', 'o'],
+    ['os', 'o'],
+    ['a', 'o'],
+    ['s', ''],
+  ],
+  pt: [
+    ['ões', 'ão'],
+    ['ães', 'ão'],
+    ['ns', 'm'],
+    ['as', 'o'],
+    ['os', 'o'],
+    ['a', 'o'],
+    ['s', ''],
+  ],
+  fr: [
+    ['aux', 'al'],
+    ['euses', 'eux'],
+    ['euse', 'eux'],
+    ['es', ''],
+    ['s', ''],
+    ['x', ''],
+    ['e', ''],
+  ],
+  it: [
+    ['he', 'a'],
+    ['hi', 'o'],
+    ['e', 'a'],
+    ['i', 'o'],
+    ['i', 'e'],
+  ],
+  de: [
+    ['en', ''],
+    ['er', ''],
+    ['n', ''],
+    ['e', ''],
+    ['s', ''],
+  ],
+};
+
+/** Articles and particles dropped from glosses, so "to speak" and "the house" match "speak". */
+const GLOSS_PARTICLES: Record<string, string[]> = {
+  en: ['to', 'a', 'an', 'the'],
+  es: ['el', 'la', 'los', 'las', 'un', 'una'],
+  pt: ['o', 'a', 'os', 'as', 'um', 'uma'],
+  fr: ['le', 'la', 'les', "l'", 'un', 'une'],
+  it: ['il', 'lo', 'la', 'i', 'gli', 'le', "l'", 'un', 'una'],
+  de: ['der', 'die', 'das', 'ein', 'eine', 'zu'],
+};
+
+/** Lower-cases, strips accents and collapses whitespace, so lookups ignore diacritics. */
+const foldText = (text: string): string =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+
+/** Lower-cases without touching accents, to prefer "año" over "ano" when both are folded. */
+const normaliseText = (text: string): string =>
+  text.normalize('NFC').toLowerCase().replace(/\s+/g, ' ').trim();
+
+const languageBase = (language: string) => language.toLowerCase().split(/[-_]/)[0];
+
+/** Possible dictionary forms of an inflected word, most likely first. */
+const lemmaCandidates = (word: string, language: string): string[] => {
+  const rules = LEMMA_RULES[languageBase(language)] ?? [['s', '']];
+  const candidates: string[] = [];
+  rules.forEach(([suffix, replacement]) => {
+    if (word.length - suffix.length < 2 || !word.endsWith(suffix)) {
+      return;
+    }
+    const candidate = `${word.slice(0, word.length - suffix.length)}${replacement}`;
+    if (!candidates.includes(candidate)) {
+      candidates.push(candidate);
+    }
+  });
+  return candidates;
+};
+
+/** Splits a gloss such as "to speak, to talk (formal)" into bare alternatives. */
+const glossKeys = (gloss: string, language: string): string[] => {
+  const particles = GLOSS_PARTICLES[languageBase(language)] ?? [];
+  return gloss
+    .replace(/\([^)]*\)/g, '')
+    .split(/[,;/]/)
+    .map(part => {
+      let key = normaliseText(part);
+      const particle = particles.find(
+        word => key.startsWith(word.endsWith("'") ? word : `${word} `) && key.length > word.length,
+      );
+      if (particle) {
+        key = key.slice(particle.length).trim();
+      }
+      return key;
+    })
+    .filter(key => key.length > 0);
+};
+
+/** Expands the compact tuples of a pack into full dictionary entries. */
+export const decodeDictionaryPack = (pack: CompactDictionaryPack): DictionaryEntry[] =>
+  pack.entries.map(([headword, partOfSpeech, gender, senses, forms]) => ({
+    headword,
+    partOfSpeech: COMPACT_PART_OF_SPEECH[partOfSpeech],
+    gender: gender ? COMPACT_GENDER[gender] : undefined,
+    forms,
+    senses: senses.map(([gloss, examples]) => ({
+      gloss,
+      examples: examples.map(([source, target]) => ({ source, target })),
+    })),
+  }));
+
+/** Validates a pack in the compact format, describing the first problem when it is invalid. */
+export const parseDictionaryPack = (pack: unknown): CompactDictionaryPack => {
+  const parsed = CompactDictionaryPackSchema.safeParse(pack);
+  if (!parsed.success) {
+    const [issue] = parsed.error.issues;
+    const path = issue.path.length > 0 ? ` at ${issue.path.join('.')}` : '';
+    throw new Error(`Invalid dictionary pack${path}: ${issue.message}`);
+  }
+  return parsed.data;
+};
+
+const addToIndex = (index: Map<string, number[]>, key: string, position: number) => {
+  const positions = index.get(key);
+  if (!positions) {
+    index.set(key, [position]);
+  } else if (!positions.includes(position)) {
+    positions.push(position);
+  }
+};
+
+const packKey = (sourceLanguage: string, targetLanguage: string) =>
+  `${PACK_KEY_PREFIX}${languageBase(sourceLanguage)}:${languageBase(targetLanguage)}`;
+
+/** Drops entries repeated across packs, keeping the first. */
+const dedupeEntries = (entries: DictionaryEntry[]): DictionaryEntry[] => {
+  const seen = new Set<string>();
+  return entries.filter(entry => {
+    const key = `${normaliseText(entry.headword)}|${entry.partOfSpeech}`;
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+};
+
+/** Lookup tables for one pack, keyed by folded text. */
+class DictionaryPackIndex {
+  readonly info: DictionaryPackInfo;
+  private readonly entries: DictionaryEntry[];
+  private readonly headwords = new Map<string, number[]>();
+  private readonly forms = new Map<string, number[]>();
+  private readonly glosses = new Map<string, number[]>();
+  /** Folded headwords in sort order, for prefix searches. */
+  private readonly sortedHeadwords: string[];
+
+  constructor(pack: CompactDictionaryPack, bundled: boolean) {
+    this.entries = decodeDictionaryPack(pack);
+    this.info = {
+      name: pack.name,
+      sourceLanguage: pack.sourceLanguage,
+      targetLanguage: pack.targetLanguage,
+      entryCount: this.entries.length,
+      bundled,
+    };
+    this.entries.forEach((entry, position) => {
+      addToIndex(this.headwords, foldText(entry.headword), position);
+      entry.forms.forEach(form => addToIndex(this.forms, foldText(form), position));
+      entry.senses.forEach(sense =>
+        glossKeys(sense.gloss, pack.targetLanguage).forEach(key =>
+          addToIndex(this.glosses, foldText(key), position),
+        ),
+      );
+    });
+    this.sortedHeadwords = [...this.headwords.keys()].sort();
+  }
+
+  /** Headwords equal to the text, or reached from it as a listed or guessed inflection. */
+  findHeadword(text: string, match: Exclude<DictionaryMatchType, 'prefix'>): DictionaryEntry[] {
+    const key = foldText(text);
+    if (match === 'exact') {
+      return this.pick(this.headwords.get(key), text);
+    }
+    const fromForms = this.pick(this.forms.get(key), text);
+    if (fromForms.length > 0) {
+      return fromForms;
+    }
+    for (const candidate of lemmaCandidates(key, this.info.sourceLanguage)) {
+      const found = this.pick(this.headwords.get(candidate) ?? this.forms.get(candidate), text);
+      if (found.length > 0) {
+        return found;
+      }
+    }
+    return [];
+  }
+
+  /** Entries whose glosses contain the text, for lookups in the opposite direction. */
+  findGloss(text: string, match: Exclude<DictionaryMatchType, 'prefix'>): DictionaryEntry[] {
+    const [key] = glossKeys(text, this.info.targetLanguage).map(foldText);
+    if (!key) {
+      return [];
+    }
+    if (match === 'exact') {
+      return this.pick(this.glosses.get(key));
+    }
+    for (const candidate of lemmaCandidates(key, this.info.targetLanguage)) {
+      const found = this.pick(this.glosses.get(candidate));
+      if (found.length > 0) {
+        return found;
+      }
+    }
+    return [];
+  }
+
+  /** Shortest headwords starting with the text. */
+  findPrefix(text: string): DictionaryEntry[] {
+    const key = foldText(text);
+    if (key.length < MIN_PREFIX_LENGTH) {
+      return [];
+    }
+    let low = 0;
+    let high = this.sortedHeadwords.length;
+    while (low < high) {
+      const middle = Math.floor((low + high) / 2);
+      if (this.sortedHeadwords[middle] < key) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    const keys: string[] = [];
+    for (let i = low; i < this.sortedHeadwords.length; i += 1) {
+      if (!this.sortedHeadwords[i].startsWith(key)) {
+        break;
+      }
+      keys.push(this.sortedHeadwords[i]);
+    }
+    return keys
+      .sort((a, b) => a.length - b.length || a.localeCompare(b))
+      .slice(0, MAX_PREFIX_MATCHES)
+      .flatMap(headword => this.pick(this.headwords.get(headword)));
+  }
+
+  /**
+   * Resolves positions to entries. When the text is given, entries spelled exactly like it win
+   * over those that only match once accents are ignored.
+   */
+  private pick(positions: number[] | undefined, text?: string): DictionaryEntry[] {
+    const entries = (positions ?? []).map(position => this.entries[position]);
+    if (!text) {
+      return entries;
+    }
+    const exact = normaliseText(text);
+    const spelled = entries.filter(
+      entry =>
+        normaliseText(entry.headword) === exact ||
+        entry.forms.some(form => normaliseText(form) === exact),
+    );
+    return spelled.length > 0 ? spelled : entries;
+  }
+}
+
+/**
+ * Offline bilingual dictionary built from compact packs, one per language pair. Bundled packs
+ * ship with the app; imported packs are kept in MMKV and consulted first. A pack also answers
+ * lookups in the opposite direction by searching its glosses.
+ */
+export class OfflineDictionaryService implements DictionaryService {
+  private indexes?: DictionaryPackIndex[];
+
+  /**
+   * @param storage MMKV instance holding imported packs.
+   * @param bundledPacks Packs shipped with the app, in the compact format.
+   */
+  constructor(
+    private readonly storage: MMKV,
+    private readonly bundledPacks: unknown[] = [],
+  ) {}
+
+  lookup(params: DictionaryLookupParams): DictionaryLookupResult | null {
+    const text = params.text.trim();
+    if (!text) {
+      return null;
+    }
+    const source = languageBase(params.sourceLanguage);
+    const target = languageBase(params.targetLanguage);
+    const indexes = this.loadIndexes();
+    const forward = indexes.filter(
+      index =>
+        languageBase(index.info.sourceLanguage) === source &&
+        languageBase(index.info.targetLanguage) === target,
+    );
+    const reverse = indexes.filter(
+      index =>
+        languageBase(index.info.sourceLanguage) === target &&
+        languageBase(index.info.targetLanguage) === source,
+    );
+
+    const matches: Array<Exclude<DictionaryMatchType, 'prefix'>> = ['exact', 'lemma'];
+    for (const match of matches) {
+      const entries = forward.flatMap(index => index.findHeadword(text, match));
+      if (entries.length > 0) {
+        return { match, entries: dedupeEntries(entries), reversed: false };
+      }
+      const glossed = reverse.flatMap(index => index.findGloss(text, match));
+      if (glossed.length > 0) {
+        return { match, entries: dedupeEntries(glossed), reversed: true };
+      }
+    }
+    const prefixed = forward.flatMap(index => index.findPrefix(text));
+    if (prefixed.length > 0) {
+      return { match: 'prefix', entries: dedupeEntries(prefixed), reversed: false };
+    }
+    return null;
+  }
+
+  importPack(pack: unknown): DictionaryPackInfo {
+    const parsed = parseDictionaryPack(pack);
+    const index = new DictionaryPackIndex(parsed, false);
+    this.storage.set(packKey(parsed.sourceLanguage, parsed.targetLanguage), JSON.stringify(parsed));
+    this.indexes = undefined;
+    return index.info;
+  }
+
+  listPacks(): DictionaryPackInfo[] {
+    const packs = this.loadIndexes().map(index => index.info);
+    return [...packs.filter(pack => pack.bundled), ...packs.filter(pack => !pack.bundled)];
+  }
+
+  removePack(sourceLanguage: string, targetLanguage: string): void {
+    this.storage.remove(packKey(sourceLanguage, targetLanguage));
+    this.indexes = undefined;
+  }
+
+  /** Imported packs first, so they take precedence over the bundled ones. */
+  private loadIndexes(): DictionaryPackIndex[] {
+    if (this.indexes) {
+      return this.indexes;
+    }
+    const imported = this.storage
+      .getAllKeys()
+      .filter(key => key.startsWith(PACK_KEY_PREFIX))
+      .flatMap(key => {
+        try {
+          const raw = this.storage.getString(key);
+          return raw ? [new DictionaryPackIndex(parseDictionaryPack(JSON.parse(raw)), false)] : [];
+        } catch {
+          // A pack that no longer parses is skipped rather than breaking every lookup.
+          return [];
+        }
+      });
+    const bundled = this.bundledPacks.map(
+      pack => new DictionaryPackIndex(parseDictionaryPack(pack), true),
+    );
+    this.indexes = [...imported, ...bundled];
+    return this.indexes;
+  }
+}
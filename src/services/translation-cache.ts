@@ -0,0 +1,158 @@
+import type { MMKV } from 'react-native-mmkv';
+import type { TranslationCacheUsage } from '../contracts/services';
+
+export interface TranslationCacheOptions {
+  /** Most entries kept before the least recently used are evicted. */
+  maxEntries?: number;
+  /** Most bytes of keys and values kept before the least recently used are evicted. */
+  maxBytes?: number;
+  /** How long an entry stays valid after it was stored. */
+  ttlMs?: number;
+  /** Clock used for expiry; defaults to `Date.now`. */
+  now?: () => number;
+}
+
+type IndexEntry = { key: string; bytes: number; storedAt: number };
+
+export const DEFAULT_TRANSLATION_CACHE_MAX_ENTRIES = 500;
+export const DEFAULT_TRANSLATION_CACHE_MAX_BYTES = 1024 * 1024;
+export const DEFAULT_TRANSLATION_CACHE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+/** Storage key of the entry index; the leading underscores keep it clear of cache keys. */
+const INDEX_KEY = '__translation_cache_index_v1';
+
+/** Bytes a string takes up once encoded as UTF-8. */
+const utf8Length = (text: string): number => {
+  let bytes = 0;
+  for (const char of text) {
+    const code = char.codePointAt(0) ?? 0;
+    if (code < 0x80) {
+      bytes += 1;
+    } else if (code < 0x800) {
+      bytes += 2;
+    } else if (code < 0x10000) {
+      bytes += 3;
+    } else {
+      bytes += 4;
+    }
+  }
+  return bytes;
+};
+
+/**
+ * Least-recently-used cache of strings in MMKV, bounded by entry count and bytes, with entries
+ * expiring a fixed time after they were stored. An index of keys in use order, oldest first, is
+ * stored alongside the entries.
+ */
+export class TranslationCache {
+  private readonly maxEntries: number;
+  private readonly maxBytes: number;
+  private readonly ttlMs: number;
+  private readonly now: () => number;
+  private index?: IndexEntry[];
+
+  constructor(
+    private readonly storage: MMKV,
+    options: TranslationCacheOptions = {},
+  ) {
+    this.maxEntries = options.maxEntries ?? DEFAULT_TRANSLATION_CACHE_MAX_ENTRIES;
+    this.maxBytes = options.maxBytes ?? DEFAULT_TRANSLATION_CACHE_MAX_BYTES;
+    this.ttlMs = options.ttlMs ?? DEFAULT_TRANSLATION_CACHE_TTL_MS;
+    this.now = options.now ?? Date.now;
+  }
+
+  get(key: string): string | null {
+    const index = this.loadIndex();
+    const position = index.findIndex(entry => entry.key === key);
+    if (position < 0) {
+      return null;
+    }
+    const entry = index[position];
+    const value = this.storage.getString(key);
+    if (value == null || this.now() - entry.storedAt >= this.ttlMs) {
+      index.splice(position, 1);
+      this.storage.remove(key);
+      this.saveIndex();
+      return null;
+    }
+    if (position < index.length - 1) {
+      index.splice(position, 1);
+      index.push(entry);
+      this.saveIndex();
+    }
+    return value;
+  }
+
+  set(key: string, value: string): void {
+    const bytes = utf8Length(key) + utf8Length(value);
+    if (bytes > this.maxBytes) {
+      return;
+    }
+    const index = this.loadIndex().filter(entry => entry.key !== key);
+    index.push({ key, bytes, storedAt: this.now() });
+    this.storage.set(key, value);
+    this.index = index;
+    this.evict();
+    this.saveIndex();
+  }
+
+  /** Removes every entry, including any written before the index existed. */
+  clear(): void {
+    this.storage.clearAll();
+    this.index = [];
+    this.saveIndex();
+  }
+
+  getUsage(): TranslationCacheUsage {
+    const index = this.loadIndex();
+    return {
+      entries: index.length,
+      bytes: index.reduce((sum, entry) => sum + entry.bytes, 0),
+      maxEntries: this.maxEntries,
+      maxBytes: this.maxBytes,
+    };
+  }
+
+  /** Drops expired entries, then the least recently used until the cache is within budget. */
+  private evict() {
+    const index = this.loadIndex();
+    const cutoff = this.now() - this.ttlMs;
+    let bytes = 0;
+    const kept = index.filter(entry => {
+      if (entry.storedAt > cutoff) {
+        bytes += entry.bytes;
+        return true;
+      }
+      this.storage.remove(entry.key);
+      return false;
+    });
+    while (kept.length > this.maxEntries || bytes > this.maxBytes) {
+      const oldest = kept.shift()!;
+      bytes -= oldest.bytes;
+      this.storage.remove(oldest.key);
+    }
+    this.index = kept;
+  }
+
+  private loadIndex(): IndexEntry[] {
+    if (this.index) {
+      return this.index;
+    }
+    const raw = this.storage.getString(INDEX_KEY);
+    if (raw) {
+      try {
+        this.index = JSON.parse(raw) as IndexEntry[];
+        return this.index;
+      } catch {
+        // A corrupt index cannot say which entries to evict, so start over below.
+      }
+    }
+    // Entries written before the index existed would never be evicted, so they are dropped.
+    this.storage.clearAll();
+    this.index = [];
+    return this.index;
+  }
+
+  private saveIndex() {
+    this.storage.set(INDEX_KEY, JSON.stringify(this.index ?? []));
+  }
+}
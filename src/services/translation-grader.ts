@@ -0,0 +1,96 @@
+import { z } from 'zod';
+import type { GradeTranslationParams, TranslationGrade } from '../contracts/services';
+import { TranslationPitfallTypeSchema, type TranslationPitfallType } from '../contracts/models';
+
+/** Raised when the grader answers with something that is not a grade. */
+export class TranslationGradingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TranslationGradingError';
+  }
+}
+
+const GradeResponseSchema = z.object({
+  score: z.number(),
+  errorTags: z.array(z.string()).default([]),
+  correctedSentence: z.string(),
+  explanation: z.string().min(1),
+});
+
+type ChatMessage = { role: 'system' | 'user'; content: string };
+
+/** Builds the chat prompt asking the model for a JSON grade of one attempt. */
+export const buildGradingMessages = ({
+  item,
+  answer,
+  targetLanguage,
+}: GradeTranslationParams): ChatMessage[] => {
+  const pitfallTypes = TranslationPitfallTypeSchema.options.join(', ');
+  const system = [
+    'You grade language learners\' translations.',
+    'Reply with JSON only: {"score": number from 0 to 1, "errorTags": string[], ' +
+      '"correctedSentence": string, "explanation": string}.',
+    `errorTags may only contain: ${pitfallTypes}.`,
+    'correctedSentence is the learner\'s sentence with the fewest changes that make it right.',
+    'Keep the explanation to two sentences addressed to the learner.',
+  ].join('\n');
+
+  const rubric = item.gradingRubric;
+  const user = [
+    `Prompt: ${item.nativeText}`,
+    item.context ? `Context: ${item.context}` : null,
+    targetLanguage ? `Target language: ${targetLanguage}` : null,
+    `Accepted translations:\n${item.expectedTranslations
+      .map(expected => `- ${expected.text} (${expected.register}; ${expected.notes})`)
+      .join('\n')}`,
+    rubric.mustInclude.length > 0 ? `Must include: ${rubric.mustInclude.join(', ')}` : null,
+    rubric.tolerate.length > 0 ? `Tolerate: ${rubric.tolerate.join(', ')}` : null,
+    rubric.reject.length > 0 ? `Reject (score 0): ${rubric.reject.join(', ')}` : null,
+    item.commonPitfalls.length > 0
+      ? `Known pitfalls:\n${item.commonPitfalls
+          .map(pitfall => `- ${pitfall.type}: ${pitfall.explanation}`)
+          .join('\n')}`
+      : null,
+    `Learner answer: ${answer}`,
+  ]
+    .filter((line): line is string => line !== null)
+    .join('\n');
+
+  return [
+    { role: 'system', content: system },
+    { role: 'user', content: user },
+  ];
+};
+
+/**
+ * Parses the model's reply into a grade. Tolerates code fences around the JSON, clamps the
+ * score to 0–1 and drops pitfall tags the app does not know.
+ */
+export const parseTranslationGrade = (content: string): TranslationGrade => {
+  const json = content
+    .trim()
+    .replace(/^```(?:json)?\s*/i, '')
+    .replace(/\s*```$/, '');
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new TranslationGradingError('Grader reply was not valid JSON.');
+  }
+
+  const parsed = GradeResponseSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new TranslationGradingError('Grader reply did not match the expected shape.');
+  }
+
+  const { score, errorTags, correctedSentence, explanation } = parsed.data;
+  return {
+    score: Number(Math.min(1, Math.max(0, score)).toFixed(2)),
+    errorTags: errorTags.filter((tag): tag is TranslationPitfallType =>
+      TranslationPitfallTypeSchema.safeParse(tag).success,
+    ),
+    correctedSentence: correctedSentence.trim(),
+    explanation: explanation.trim(),
+  };
+};
@@ -0,0 +1,86 @@
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+
+interface DueForecastChartProps {
+  /** Reviews due per day, starting today. */
+  data: Array<{ date: Date; count: number }>;
+}
+
+const LABEL_EVERY_DAYS = 7;
+
+const formatOffsetLabel = (index: number) => (index === 0 ? 'Today' : `+${index}d`);
+
+const DueForecastChart: React.FC<DueForecastChartProps> = ({ data }) => {
+  const peak = Math.max(0, ...data.map(point => point.count));
+  const maxCount = Math.max(peak, 1);
+  const total = data.reduce((sum, point) => sum + point.count, 0);
+  const average = data.length === 0 ? 0 : Math.round((total / data.length) * 10) / 10;
+
+  return (
+    <View style={styles.wrapper}>
+      <View style={styles.container}>
+        {data.map((point, index) => (
+          <View
+            key={point.date.toISOString()}
+            style={styles.barGroup}
+            accessibilityLabel={`${formatOffsetLabel(index)}: ${point.count} reviews`}
+          >
+            <View style={[styles.bar, { height: Math.max((point.count / maxCount) * 120, 2) }]} />
+          </View>
+        ))}
+      </View>
+      <View style={styles.labels}>
+        {data.map((point, index) =>
+          index % LABEL_EVERY_DAYS === 0 ? (
+            <Text
+              key={point.date.toISOString()}
+              style={[styles.label, { left: `${(index / data.length) * 100}%` }]}
+              numberOfLines={1}
+            >
+              {formatOffsetLabel(index)}
+            </Text>
+          ) : null,
+        )}
+      </View>
+      <Text style={styles.summary}>{`Peak ${peak} · Avg ${average} per day`}</Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  wrapper: {
+    gap: 8,
+  },
+  container: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    height: 120,
+    gap: 2,
+  },
+  barGroup: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+  },
+  bar: {
+    width: '100%',
+    borderRadius: 2,
+    backgroundColor: '#2563eb',
+  },
+  labels: {
+    position: 'relative',
+    height: 14,
+  },
+  label: {
+    position: 'absolute',
+    top: 0,
+    fontSize: 10,
+    color: '#6b7280',
+  },
+  summary: {
+    fontSize: 12,
+    color: '#6b7280',
+  },
+});
+
+export default DueForecastChart;
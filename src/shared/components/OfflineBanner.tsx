@@ -1,19 +1,33 @@
 import React from 'react';
 import { StyleSheet, Text, View } from 'react-native';
+import { useAiOutboxStore } from '../../state/ai-outbox.store';
 import { useOfflineStore } from '../../state/offline.store';
 import { fontFamilies } from '../theme/tokens';
 
-/** Displays a persistent banner when the application is offline. */
+const formatPendingCount = (count: number) =>
+  count === 1 ? '1 AI request will send' : `${count} AI requests will send`;
+
+/**
+ * Displays a persistent banner when the application is offline, along with how many queued AI
+ * requests are still waiting to be sent.
+ */
 export const OfflineBanner: React.FC = () => {
   const isOffline = useOfflineStore(state => state.isOffline);
+  const pendingCount = useAiOutboxStore(state => state.entries.length);
 
-  if (!isOffline) {
+  if (!isOffline && pendingCount === 0) {
     return null;
   }
 
+  const label = isOffline
+    ? pendingCount > 0
+      ? `You are currently offline. ${formatPendingCount(pendingCount)} when you reconnect.`
+      : 'You are currently offline.'
+    : `${formatPendingCount(pendingCount)} shortly.`;
+
   return (
-    <View style={styles.container}>
-      <Text style={styles.label}>You are currently offline.</Text>
+    <View style={[styles.container, !isOffline && styles.pending]}>
+      <Text style={styles.label}>{label}</Text>
     </View>
   );
 };
@@ -24,6 +38,9 @@ const styles = StyleSheet.create({
     paddingVertical: 8,
     paddingHorizontal: 16,
   },
+  pending: {
+    backgroundColor: '#b45309',
+  },
   label: {
     color: '#ffffff',
     fontFamily: fontFamilies.sans.semibold,
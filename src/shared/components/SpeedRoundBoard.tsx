@@ -0,0 +1,120 @@
+import React, { useMemo } from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import type { SpeedRoundResult } from '../../contracts/models';
+import { useTheme, type ThemeColors } from '../theme/theme';
+import { radii, spacing, typography } from '../theme/tokens';
+
+interface SpeedRoundBoardProps {
+  /** Leaderboard entries, best first. */
+  entries: SpeedRoundResult[];
+  /** The round just played, when showing a result. */
+  latest?: SpeedRoundResult | null;
+  /** Place of `latest` on the leaderboard, or null when it did not make it. */
+  rank?: number | null;
+}
+
+const TIMER_LABELS: Record<SpeedRoundResult['timer'], string> = {
+  per_item: 'per item',
+  per_session: 'whole session',
+};
+
+const describeRank = (rank: number | null | undefined) => {
+  if (rank === 1) {
+    return 'New personal best!';
+  }
+  return rank ? `#${rank} on your leaderboard` : 'Not on your leaderboard this time';
+};
+
+const SpeedRoundBoard: React.FC<SpeedRoundBoardProps> = ({ entries, latest, rank }) => {
+  const { colors } = useTheme();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+
+  return (
+    <View style={styles.container}>
+      {latest ? (
+        <View style={styles.headline}>
+          <Text style={styles.points}>{latest.points} pts</Text>
+          <Text style={styles.rank}>{describeRank(rank)}</Text>
+        </View>
+      ) : null}
+      <Text style={styles.title}>Personal bests</Text>
+      {entries.length === 0 ? (
+        <Text style={styles.meta}>Finish a speed round to set your first score.</Text>
+      ) : (
+        entries.map((entry, index) => {
+          const isLatest =
+            latest?.sessionId === entry.sessionId && latest.completedAt === entry.completedAt;
+          return (
+            <View
+              key={`${entry.sessionId}-${entry.completedAt}`}
+              style={[styles.row, isLatest && styles.rowHighlight]}
+            >
+              <Text style={styles.position}>{index + 1}</Text>
+              <View style={styles.content}>
+                <Text style={styles.entryPoints}>{entry.points} pts</Text>
+                <Text style={styles.meta}>
+                  {Math.round(entry.accuracy * 100)}% · {entry.averageSeconds}s avg ·{' '}
+                  {TIMER_LABELS[entry.timer]} · {new Date(entry.completedAt).toLocaleDateString()}
+                </Text>
+              </View>
+            </View>
+          );
+        })
+      )}
+    </View>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      gap: spacing.base,
+    },
+    headline: {
+      alignItems: 'center',
+      gap: spacing.base / 2,
+    },
+    points: {
+      ...typography.headline,
+      color: colors.accent,
+    },
+    rank: {
+      ...typography.captionStrong,
+      color: colors.textPrimary,
+    },
+    title: {
+      ...typography.bodyStrong,
+      color: colors.textPrimary,
+    },
+    row: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: spacing.base * 1.5,
+      paddingVertical: spacing.base,
+      paddingHorizontal: spacing.base,
+      borderRadius: radii.control,
+    },
+    rowHighlight: {
+      backgroundColor: colors.accentSoft,
+    },
+    position: {
+      ...typography.bodyStrong,
+      width: 24,
+      textAlign: 'center',
+      color: colors.textSecondary,
+    },
+    content: {
+      flex: 1,
+      gap: 2,
+    },
+    entryPoints: {
+      ...typography.bodyStrong,
+      color: colors.textPrimary,
+    },
+    meta: {
+      ...typography.caption,
+      color: colors.textSecondary,
+    },
+  });
+
+export default SpeedRoundBoard;
@@ -1,8 +1,10 @@
+export * from './DueForecastChart';
 export * from './LanguageFlagButton';
 export * from './LanguageSwitcherModal';
 export * from './OfflineBanner';
 export * from './ScreenContainer';
 export * from './ScreenHeader';
+export * from './SpeedRoundBoard';
 export * from './StatCards';
 export * from './WeakWordsList';
 export * from './WeeklyBarChart';
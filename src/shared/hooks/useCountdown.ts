@@ -0,0 +1,34 @@
+import { useEffect, useRef, useState } from 'react';
+
+const TICK_MS = 250;
+
+/**
+ * Whole seconds left until `deadline` (epoch milliseconds), or null while no deadline is set.
+ * `onExpire` runs once per deadline when it passes.
+ */
+export const useCountdown = (deadline: number | null, onExpire: () => void): number | null => {
+  const [now, setNow] = useState(() => Date.now());
+  const onExpireRef = useRef(onExpire);
+  onExpireRef.current = onExpire;
+
+  useEffect(() => {
+    if (deadline === null) {
+      return;
+    }
+    let expired = false;
+    const tick = () => {
+      const current = Date.now();
+      setNow(current);
+      if (!expired && current >= deadline) {
+        expired = true;
+        clearInterval(timer);
+        onExpireRef.current();
+      }
+    };
+    const timer = setInterval(tick, TICK_MS);
+    tick();
+    return () => clearInterval(timer);
+  }, [deadline]);
+
+  return deadline === null ? null : Math.max(0, Math.ceil((deadline - now) / 1000));
+};
@@ -0,0 +1,225 @@
+import { nanoid } from 'nanoid/non-secure';
+import { create } from 'zustand';
+import type {
+  AiOutboxDelivery,
+  AiOutboxEntry,
+  AiOutboxRequest,
+  AiOutboxTarget,
+} from '../contracts/services';
+import { buildQueuedReply } from '../domain/chat/threads';
+import type { AiTutorBackend } from '../services/ai-tutor-service';
+import { aiTutorBackend } from '../services/container';
+import { AiTutorRequestError } from '../services/http-ai-tutor-backend';
+import { storageService } from '../services/storage-service';
+import { useChatThreadStore } from './chat-thread.store';
+import { getActiveLanguageProfile } from './language-profile.store';
+import { useNotesStore } from './notes.store';
+import { useOfflineStore } from './offline.store';
+import { useTranslationSessionStore } from './translation-session.store';
+
+const STORAGE_KEYS = {
+  entries: 'aiOutbox.entries.v1',
+};
+
+const REPLAY_RETRY_DELAY_MS = 5_000;
+const MAX_REPLAY_RETRY_DELAY_MS = 5 * 60_000;
+const NO_TUTOR_MESSAGE = 'Add an AI tutor API key in Settings to send this request.';
+
+interface AiOutboxState {
+  /** Requests waiting to be replayed, oldest first. */
+  entries: AiOutboxEntry[];
+  /** Replayed chat and session requests whose results have not been shown yet. */
+  deliveries: AiOutboxDelivery[];
+  isLoaded: boolean;
+  isReplaying: boolean;
+  loadOutbox: () => Promise<void>;
+  enqueue: (request: AiOutboxRequest, target: AiOutboxTarget) => Promise<AiOutboxEntry>;
+  /**
+   * Replays queued requests in order, stopping at the first one the tutor still cannot be
+   * reached for and trying again after a backoff while online. Results go to their note, session
+   * item or chat thread; chat and session results also wait in `deliveries` for a screen that is
+   * still open.
+   */
+  replay: () => Promise<void>;
+  acknowledgeDelivery: (entryId: string) => void;
+}
+
+const DEFAULT_STATE: Omit<
+  AiOutboxState,
+  'loadOutbox' | 'enqueue' | 'replay' | 'acknowledgeDelivery'
+> = {
+  entries: [],
+  deliveries: [],
+  isLoaded: false,
+  isReplaying: false,
+};
+
+const generateId = () => `outbox-${nanoid(10)}`;
+
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let retryAttempt = 0;
+
+/** A replay started elsewhere, such as by a reconnect, starts the backoff over. */
+const cancelRetry = () => {
+  if (retryTimer) {
+    clearTimeout(retryTimer);
+    retryTimer = null;
+    retryAttempt = 0;
+  }
+};
+
+/** Replays again after a backoff; while offline the next reconnect replays instead. */
+const scheduleRetry = (retryAfterMs?: number) => {
+  if (useOfflineStore.getState().isOffline) {
+    retryAttempt = 0;
+    return;
+  }
+  const delay =
+    retryAfterMs ??
+    Math.min(REPLAY_RETRY_DELAY_MS * 2 ** retryAttempt, MAX_REPLAY_RETRY_DELAY_MS);
+  retryAttempt += 1;
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    useAiOutboxStore
+      .getState()
+      .replay()
+      .catch(err => console.warn('[aiOutbox] Replay retry failed', err));
+  }, delay);
+};
+
+const isOutboxEntry = (value: unknown): value is AiOutboxEntry => {
+  const entry = value as Partial<AiOutboxEntry> | null;
+  return (
+    typeof entry?.id === 'string' &&
+    typeof entry.request?.kind === 'string' &&
+    typeof entry.target?.type === 'string'
+  );
+};
+
+const persistEntries = async (entries: AiOutboxEntry[]) => {
+  await storageService.setItem(STORAGE_KEYS.entries, entries);
+};
+
+const executeRequest = (tutor: AiTutorBackend, request: AiOutboxRequest): Promise<string> => {
+  switch (request.kind) {
+    case 'translate':
+      return tutor.translate(request.params);
+    case 'hint':
+      return tutor.generateHint(request.params);
+    case 'chat':
+      return tutor.streamChat(request.params, { onDelta: () => undefined });
+  }
+};
+
+/** Stores results whose destination outlives the screen that asked for them. */
+const persistDelivery = async (delivery: AiOutboxDelivery) => {
+  const { entry, result } = delivery;
+  const { target } = entry;
+  if (target.type === 'chat_message') {
+    // The chat screen relinks lookups to saved bank items if it is open for the delivery.
+    const threads = useChatThreadStore.getState();
+    await threads.loadThreads();
+    await threads.replaceMessage(
+      target.messageId,
+      buildQueuedReply(delivery, target.messageId, getActiveLanguageProfile()),
+    );
+    return;
+  }
+  if (!result) {
+    return;
+  }
+  if (target.type === 'note') {
+    await useNotesStore.getState().saveNoteAnswer(target.noteId, result);
+  } else if (target.type === 'session_item') {
+    await useTranslationSessionStore.getState().addTutorExchange(target.sessionId, target.itemId, {
+      question: target.question,
+      answer: result,
+      answeredAt: new Date().toISOString(),
+    });
+  }
+};
+
+/**
+ * Whether new AI requests should be queued rather than sent: only while offline, and only when
+ * a tutor endpoint is configured, since the echo backend answers the same either way.
+ */
+export const shouldQueueAiRequests = (): boolean =>
+  useOfflineStore.getState().isOffline && aiTutorBackend.getRemoteBackend() !== null;
+
+export const useAiOutboxStore = create<AiOutboxState>((set, get) => ({
+  ...DEFAULT_STATE,
+  loadOutbox: async () => {
+    if (get().isLoaded) {
+      return;
+    }
+    const stored = await storageService.getItem<unknown[]>(STORAGE_KEYS.entries);
+    const entries = Array.isArray(stored) ? stored.filter(isOutboxEntry) : [];
+    // Requests queued since startup stay after the ones from earlier runs.
+    set(state => ({ entries: [...entries, ...state.entries], isLoaded: true }));
+  },
+  enqueue: async (request, target) => {
+    // Persisting before the stored queue is in would overwrite it.
+    await get().loadOutbox();
+    const entry: AiOutboxEntry = {
+      id: generateId(),
+      request,
+      target,
+      createdAt: new Date().toISOString(),
+    };
+    const entries = [...get().entries, entry];
+    set({ entries });
+    await persistEntries(entries);
+    return entry;
+  },
+  replay: async () => {
+    if (get().isReplaying) {
+      return;
+    }
+    set({ isReplaying: true });
+    cancelRetry();
+    try {
+      await get().loadOutbox();
+      for (;;) {
+        const [entry] = get().entries;
+        if (!entry) {
+          break;
+        }
+        // Without an API key only the echo backend is left, whose output is no answer.
+        const tutor = aiTutorBackend.getRemoteBackend();
+        let delivery: AiOutboxDelivery;
+        try {
+          if (!tutor) {
+            throw new Error(NO_TUTOR_MESSAGE);
+          }
+          delivery = { entry, result: await executeRequest(tutor, entry.request) };
+        } catch (error) {
+          if (error instanceof AiTutorRequestError && error.retryable) {
+            scheduleRetry(error.retryAfterMs);
+            break;
+          }
+          delivery = {
+            entry,
+            error: error instanceof Error ? error.message : 'The AI tutor request failed.',
+          };
+        }
+        retryAttempt = 0;
+
+        await persistDelivery(delivery).catch(() => undefined);
+        const entries = get().entries.filter(item => item.id !== entry.id);
+        set(state => ({
+          entries,
+          deliveries:
+            entry.target.type === 'note' ? state.deliveries : [...state.deliveries, delivery],
+        }));
+        await persistEntries(entries);
+      }
+    } finally {
+      set({ isReplaying: false });
+    }
+  },
+  acknowledgeDelivery: entryId => {
+    set(state => ({
+      deliveries: state.deliveries.filter(delivery => delivery.entry.id !== entryId),
+    }));
+  },
+}));
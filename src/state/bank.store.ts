@@ -2,12 +2,29 @@ import { nanoid } from 'nanoid/non-secure';
 import { create } from 'zustand';
 import type {
   SrsData,
+  SrsTrack,
   VocabItem,
   PerformanceData,
   VocabMetadata,
 } from '../contracts/models';
-import { bankRepository } from '../services/container';
-import { updateVocabSrs, type ActivityOutcome } from '../domain/srs/unified-srs-service';
+import { bankRepository, reviewLogRepository } from '../services/container';
+import {
+  updateVocabSrs,
+  getTrackSrsData,
+  resolveSrsUpdateOptions,
+  withTrackSrsData,
+  type ActivityOutcome,
+} from '../domain/srs/unified-srs-service';
+import { buildReviewLogEntry } from '../domain/srs/review-log';
+import { buildDueLoad } from '../domain/srs/due-forecast';
+import {
+  applyLeechPolicy,
+  resolveBuryUntil,
+  resolveLeechPolicy,
+  rewriteAndResetItem,
+  type LeechRewrite,
+} from '../domain/srs/leech';
+import { getActiveLanguageProfile } from './language-profile.store';
 
 /** Represents a newly created vocabulary bank entry. */
 export interface CreateBankItemInput {
@@ -52,16 +69,27 @@ interface BankState {
   /** Returns bank items filtered by the current query. */
   getFilteredItems: () => VocabItem[];
   /** Applies SRS metadata updates to a specific bank item. */
-  updateSrsData: (itemId: string, data: SrsData) => Promise<void>;
+  updateSrsData: (itemId: string, data: SrsData, track?: SrsTrack) => Promise<void>;
   /** Clears the SRS metadata for the specified bank item. */
-  clearSrsData: (itemId: string) => Promise<void>;
+  clearSrsData: (itemId: string, track?: SrsTrack) => Promise<void>;
   /** Updates performance data for a specific bank item. */
   updatePerformanceData: (itemId: string, data: PerformanceData) => Promise<void>;
   /**
    * Updates both SRS and performance data based on an activity outcome.
    * This is the recommended method for tracking learning progress.
+   * Resolves with the id of the logged review, or null when it could not be logged.
    */
-  recordActivityOutcome: (itemId: string, outcome: ActivityOutcome) => Promise<void>;
+  recordActivityOutcome: (itemId: string, outcome: ActivityOutcome) => Promise<string | null>;
+  /** Drops a logged review the learner took back with undo. */
+  removeReview: (reviewId: string) => Promise<void>;
+  /** Tags (and possibly suspends) the item if it has reached the profile's leech threshold. */
+  flagLeechIfNeeded: (itemId: string) => Promise<void>;
+  /** Suspends or unsuspends a bank item; suspended items are skipped by every review queue. */
+  setSuspended: (itemId: string, suspended: boolean) => Promise<void>;
+  /** Hides a bank item from review queues until the given time (next day by default); null unburies. */
+  buryItem: (itemId: string, until?: string | null) => Promise<void>;
+  /** Rewrites a leech's text and restarts its schedule from scratch. */
+  rewriteAndReset: (itemId: string, rewrite: LeechRewrite) => Promise<void>;
   /** Replaces the tag list associated with a bank item. */
   updateTags: (itemId: string, tags: string[]) => Promise<void>;
   /** Replaces the folder list associated with a bank item. */
@@ -234,15 +262,14 @@ export const useBankStore = create<BankState>((set, get) => ({
       })
       .sort((a, b) => a.term.localeCompare(b.term));
   },
-  updateSrsData: async (itemId, data) => {
+  updateSrsData: async (itemId, data, track = 'recognition') => {
     try {
-      await bankRepository.updateSrsData(itemId, data);
+      await bankRepository.updateSrsData(itemId, data, track);
       set({
         items: get().items.map(item =>
           item.id === itemId
             ? {
-                ...item,
-                srsData: data,
+                ...withTrackSrsData(item, track, data),
                 updatedAt: data.lastReviewedAt ?? nowIso(),
               }
             : item,
@@ -256,15 +283,14 @@ export const useBankStore = create<BankState>((set, get) => ({
       throw error;
     }
   },
-  clearSrsData: async itemId => {
+  clearSrsData: async (itemId, track = 'recognition') => {
     try {
-      await bankRepository.clearSrsData(itemId);
+      await bankRepository.clearSrsData(itemId, track);
       set({
         items: get().items.map(item =>
           item.id === itemId
             ? {
-                ...item,
-                srsData: undefined,
+                ...withTrackSrsData(item, track, undefined),
                 updatedAt: nowIso(),
               }
             : item,
@@ -311,13 +337,117 @@ export const useBankStore = create<BankState>((set, get) => ({
       throw new Error('Item not found');
     }
 
-    // Use unified SRS service to calculate updates
-    const { srsData, performanceData } = updateVocabSrs(target, outcome);
+    // Use unified SRS service to calculate updates with the profile's scheduler,
+    // spreading the new due date away from already busy days
+    const { track, quality, srsData, performanceData } = updateVocabSrs(target, outcome, {
+      ...resolveSrsUpdateOptions(getActiveLanguageProfile()),
+      dueLoad: buildDueLoad(get().items.filter(item => item.id !== itemId)),
+    });
+
+    // Items that keep lapsing are tagged as leeches (and suspended, by default)
+    const updated = applyLeechPolicy(
+      {
+        ...withTrackSrsData(target, track, srsData),
+        performanceData,
+        updatedAt: nowIso(),
+      },
+      resolveLeechPolicy(getActiveLanguageProfile()),
+    );
+
+    try {
+      await bankRepository.saveVocabItem(updated);
+      set({
+        items: get().items.map(item => (item.id === itemId ? updated : item)),
+        error: undefined,
+      });
+      // The log is an audit trail; a failed append must not fail the review itself.
+      const entry = buildReviewLogEntry({
+        vocabItemId: itemId,
+        track,
+        quality,
+        score: outcome.score,
+        reviewedAt: outcome.attemptedAt,
+        previous: getTrackSrsData(target, track),
+        next: srsData,
+        catchUp: outcome.catchUp,
+      });
+      return await reviewLogRepository
+        .appendReview(entry)
+        .then(() => entry.id)
+        .catch(logError => {
+          console.warn('[bank.store] Failed to append review log.', logError);
+          return null;
+        });
+    } catch (error) {
+      set({
+        error: error instanceof Error ? error.message : 'Failed to record activity outcome.',
+      });
+      throw error;
+    }
+  },
+  removeReview: async reviewId => {
+    await reviewLogRepository
+      .removeReview(reviewId)
+      .catch(error => console.warn('[bank.store] Failed to remove review log entry.', error));
+  },
+  flagLeechIfNeeded: async itemId => {
+    const target = get().items.find(item => item.id === itemId);
+    if (!target) {
+      set({ error: 'Vocabulary item not found.' });
+      throw new Error('Item not found');
+    }
+
+    const flagged = applyLeechPolicy(target, resolveLeechPolicy(getActiveLanguageProfile()));
+    if (flagged === target) {
+      return;
+    }
+    const updated: VocabItem = { ...flagged, updatedAt: nowIso() };
+
+    try {
+      await bankRepository.saveVocabItem(updated);
+      set({
+        items: get().items.map(item => (item.id === itemId ? updated : item)),
+        error: undefined,
+      });
+    } catch (error) {
+      set({
+        error: error instanceof Error ? error.message : 'Failed to flag leech.',
+      });
+      throw error;
+    }
+  },
+  setSuspended: async (itemId, suspended) => {
+    const target = get().items.find(item => item.id === itemId);
+    if (!target) {
+      set({ error: 'Vocabulary item not found.' });
+      throw new Error('Item not found');
+    }
+
+    const updated: VocabItem = { ...target, suspended, updatedAt: nowIso() };
+
+    try {
+      await bankRepository.saveVocabItem(updated);
+      set({
+        items: get().items.map(item => (item.id === itemId ? updated : item)),
+        error: undefined,
+      });
+    } catch (error) {
+      set({
+        error: error instanceof Error ? error.message : 'Failed to update suspension.',
+      });
+      throw error;
+    }
+  },
+  buryItem: async (itemId, until) => {
+    const target = get().items.find(item => item.id === itemId);
+    if (!target) {
+      set({ error: 'Vocabulary item not found.' });
+      throw new Error('Item not found');
+    }
 
     const updated: VocabItem = {
       ...target,
-      srsData,
-      performanceData,
+      buriedUntil: until === undefined ? resolveBuryUntil() : until,
       updatedAt: nowIso(),
     };
 
@@ -329,7 +459,29 @@ export const useBankStore = create<BankState>((set, get) => ({
       });
     } catch (error) {
       set({
-        error: error instanceof Error ? error.message : 'Failed to record activity outcome.',
+        error: error instanceof Error ? error.message : 'Failed to bury item.',
+      });
+      throw error;
+    }
+  },
+  rewriteAndReset: async (itemId, rewrite) => {
+    const target = get().items.find(item => item.id === itemId);
+    if (!target) {
+      set({ error: 'Vocabulary item not found.' });
+      throw new Error('Item not found');
+    }
+
+    const updated: VocabItem = { ...rewriteAndResetItem(target, rewrite), updatedAt: nowIso() };
+
+    try {
+      await bankRepository.saveVocabItem(updated);
+      set({
+        items: get().items.map(item => (item.id === itemId ? updated : item)),
+        error: undefined,
+      });
+    } catch (error) {
+      set({
+        error: error instanceof Error ? error.message : 'Failed to reset item.',
       });
       throw error;
     }
@@ -0,0 +1,198 @@
+import { create } from 'zustand';
+import type { ChatMessage, ChatMode, ChatThread } from '../contracts/models';
+import { chatThreadRepository } from '../services/container';
+
+interface ChatThreadState {
+  /** Threads across all profiles, most recently updated first. */
+  threads: ChatThread[];
+  /** Thread open in the chat screen. */
+  activeThreadId: string | null;
+  isLoaded: boolean;
+  error?: string;
+  loadThreads: () => Promise<void>;
+  /** Starts an empty thread and opens it. Threads are only saved once they have a message. */
+  startThread: (profileId?: string, mode?: ChatMode) => ChatThread;
+  selectThread: (threadId: string) => void;
+  /**
+   * Keeps the open thread when it belongs to the profile, otherwise opens the profile's most
+   * recent thread, starting one when it has none.
+   */
+  openProfileThread: (profileId?: string) => void;
+  renameThread: (threadId: string, title: string) => Promise<void>;
+  setThreadMode: (threadId: string, mode: ChatMode) => Promise<void>;
+  /**
+   * Replaces a thread's messages with the updater's result. Changes are saved once no reply is
+   * still streaming into the thread.
+   */
+  updateMessages: (
+    threadId: string,
+    updater: (messages: ChatMessage[]) => ChatMessage[],
+  ) => Promise<void>;
+  /** Replaces a message in whichever thread holds it, such as a queued request's placeholder. */
+  replaceMessage: (messageId: string, message: ChatMessage) => Promise<void>;
+  deleteThread: (threadId: string) => Promise<void>;
+  /** Threads for a profile, including those started before profiles were recorded. */
+  getProfileThreads: (profileId?: string) => ChatThread[];
+}
+
+const DEFAULT_STATE: Omit<
+  ChatThreadState,
+  | 'loadThreads'
+  | 'startThread'
+  | 'selectThread'
+  | 'openProfileThread'
+  | 'renameThread'
+  | 'setThreadMode'
+  | 'updateMessages'
+  | 'replaceMessage'
+  | 'deleteThread'
+  | 'getProfileThreads'
+> = {
+  threads: [],
+  activeThreadId: null,
+  isLoaded: false,
+  error: undefined,
+};
+
+const generateId = () => `thread-${Math.random().toString(36).slice(2, 10)}`;
+
+const belongsToProfile = (thread: ChatThread, profileId?: string) =>
+  !thread.profileId || thread.profileId === profileId;
+
+const byUpdatedAtDesc = (a: ChatThread, b: ChatThread) => b.updatedAt.localeCompare(a.updatedAt);
+
+const isStreamingMessage = (message: ChatMessage) =>
+  message.role === 'assistant' && message.mode === 'tutor' && Boolean(message.isStreaming);
+
+const sameMessages = (a: ChatMessage[], b: ChatMessage[]) =>
+  a.length === b.length && a.every((message, index) => message === b[index]);
+
+const withThread = (threads: ChatThread[], updated: ChatThread) =>
+  threads.map(thread => (thread.id === updated.id ? updated : thread)).sort(byUpdatedAtDesc);
+
+const persistThread = async (thread: ChatThread) => {
+  if (thread.messages.length === 0 || thread.messages.some(isStreamingMessage)) {
+    return;
+  }
+  await chatThreadRepository.saveThread(thread);
+};
+
+export const useChatThreadStore = create<ChatThreadState>((set, get) => ({
+  ...DEFAULT_STATE,
+  loadThreads: async () => {
+    if (get().isLoaded) {
+      return;
+    }
+    try {
+      const stored = await chatThreadRepository.listAllThreads();
+      set(state => {
+        // Threads started before loading finished stay in place of any stored copy.
+        const started = new Set(state.threads.map(thread => thread.id));
+        return {
+          threads: [...state.threads, ...stored.filter(thread => !started.has(thread.id))].sort(
+            byUpdatedAtDesc,
+          ),
+          isLoaded: true,
+          error: undefined,
+        };
+      });
+    } catch (error) {
+      set({
+        isLoaded: true,
+        error: error instanceof Error ? error.message : 'Failed to load conversations.',
+      });
+    }
+  },
+  startThread: (profileId, mode = 'dictionary') => {
+    // A profile keeps at most one empty thread; starting another reopens it.
+    const empty = get().threads.find(
+      thread => thread.messages.length === 0 && thread.profileId === profileId,
+    );
+    if (empty) {
+      const reopened = { ...empty, mode };
+      set({ threads: withThread(get().threads, reopened), activeThreadId: empty.id });
+      return reopened;
+    }
+    const now = new Date().toISOString();
+    const thread: ChatThread = {
+      id: generateId(),
+      profileId,
+      title: '',
+      mode,
+      messages: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+    set(state => ({ threads: [thread, ...state.threads], activeThreadId: thread.id }));
+    return thread;
+  },
+  selectThread: threadId => {
+    if (get().threads.some(thread => thread.id === threadId)) {
+      set({ activeThreadId: threadId });
+    }
+  },
+  openProfileThread: profileId => {
+    const { activeThreadId, threads } = get();
+    const active = threads.find(thread => thread.id === activeThreadId);
+    if (active && belongsToProfile(active, profileId)) {
+      return;
+    }
+    const [latest] = get().getProfileThreads(profileId);
+    if (latest) {
+      set({ activeThreadId: latest.id });
+    } else {
+      get().startThread(profileId, active?.mode);
+    }
+  },
+  renameThread: async (threadId, title) => {
+    const thread = get().threads.find(entry => entry.id === threadId);
+    if (!thread) {
+      return;
+    }
+    const updated = { ...thread, title: title.trim(), updatedAt: new Date().toISOString() };
+    set({ threads: withThread(get().threads, updated) });
+    await persistThread(updated);
+  },
+  setThreadMode: async (threadId, mode) => {
+    const thread = get().threads.find(entry => entry.id === threadId);
+    if (!thread || thread.mode === mode) {
+      return;
+    }
+    const updated = { ...thread, mode };
+    set({ threads: withThread(get().threads, updated) });
+    await persistThread(updated);
+  },
+  updateMessages: async (threadId, updater) => {
+    const thread = get().threads.find(entry => entry.id === threadId);
+    if (!thread) {
+      return;
+    }
+    const messages = updater(thread.messages);
+    if (sameMessages(messages, thread.messages)) {
+      return;
+    }
+    const updated = { ...thread, messages, updatedAt: new Date().toISOString() };
+    set({ threads: withThread(get().threads, updated) });
+    await persistThread(updated);
+  },
+  replaceMessage: async (messageId, message) => {
+    const owner = get().threads.find(thread =>
+      thread.messages.some(entry => entry.id === messageId),
+    );
+    if (!owner) {
+      return;
+    }
+    await get().updateMessages(owner.id, messages =>
+      messages.map(entry => (entry.id === messageId ? message : entry)),
+    );
+  },
+  deleteThread: async threadId => {
+    set(state => ({
+      threads: state.threads.filter(thread => thread.id !== threadId),
+      activeThreadId: state.activeThreadId === threadId ? null : state.activeThreadId,
+    }));
+    await chatThreadRepository.deleteThread(threadId);
+  },
+  getProfileThreads: profileId =>
+    get().threads.filter(thread => belongsToProfile(thread, profileId)),
+}));
@@ -1,4 +1,6 @@
+export * from './ai-outbox.store';
 export * from './bank.store';
+export * from './chat-thread.store';
 export * from '@/features/flashcards/stores/flashcard-session.store';
 export * from './folder.store';
 export * from './language-profile.store';
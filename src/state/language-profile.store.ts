@@ -1,13 +1,19 @@
 import { create } from 'zustand';
 import {
   LanguageProfileSchema,
+  type FittedSm2Parameters,
+  type FlashcardGradingMode,
   type LanguageProfile,
+  type SpeedRoundResult,
+  type SrsAlgorithm,
   type SrsData,
   type TranslationPitfallType,
   TranslationDifficultySchema,
 } from '../contracts/models';
 import { storageService } from '../services/storage-service';
 import { resolveFlagGlyph } from '../data/language-library';
+import { ledgerTagCounts } from '../domain/translation/remediation';
+import { addSpeedRoundBest } from '../domain/practice/speed-round';
 
 const STORAGE_KEYS = {
   profiles: 'languageProfiles.records.v1',
@@ -45,7 +51,20 @@ interface LanguageProfileState {
   ensureProfile: (params: EnsureProfileParams) => Promise<LanguageProfile>;
   appendSavedSession: (profileId: string, sessionId: string) => Promise<void>;
   recordError: (profileId: string, payload: { vocabId: string; errorTag: TranslationPitfallType }) => Promise<void>;
+  /** Adds a finished speed round to the profile's bests; resolves to its rank, or null. */
+  recordSpeedRound: (profileId: string, result: SpeedRoundResult) => Promise<number | null>;
   updateSrsState: (profileId: string, srsState: SrsData[]) => Promise<void>;
+  updateSrsAlgorithm: (profileId: string, algorithm: SrsAlgorithm) => Promise<void>;
+  updateFlashcardGradingMode: (profileId: string, mode: FlashcardGradingMode) => Promise<void>;
+  updateDailyNewCardLimit: (profileId: string, limit: number) => Promise<void>;
+  updateSm2Parameters: (
+    profileId: string,
+    parameters: FittedSm2Parameters | undefined,
+  ) => Promise<void>;
+  updateLeechSettings: (
+    profileId: string,
+    settings: Partial<Pick<LanguageProfile, 'leechThreshold' | 'leechAction'>>,
+  ) => Promise<void>;
   updateStylePreferences: (
     profileId: string,
     prefs: Partial<LanguageProfile['stylePreferences']>,
@@ -53,7 +72,7 @@ interface LanguageProfileState {
   reset: () => Promise<void>;
 }
 
-const DEFAULT_STATE: Omit<LanguageProfileState, 'loadProfiles' | 'selectProfile' | 'upsertProfile' | 'ensureProfile' | 'appendSavedSession' | 'recordError' | 'updateSrsState' | 'updateStylePreferences' | 'reset'> =
+const DEFAULT_STATE: Omit<LanguageProfileState, 'loadProfiles' | 'selectProfile' | 'upsertProfile' | 'ensureProfile' | 'appendSavedSession' | 'recordError' | 'recordSpeedRound' | 'updateSrsState' | 'updateSrsAlgorithm' | 'updateFlashcardGradingMode' | 'updateDailyNewCardLimit' | 'updateSm2Parameters' | 'updateLeechSettings' | 'updateStylePreferences' | 'reset'> =
   {
     profiles: {},
     activeProfileId: undefined,
@@ -244,6 +263,7 @@ export const useLanguageProfileStore = create<LanguageProfileState>((set, get) =
     const entryIndex = ledger.findIndex(item => item.vocabId === vocabId);
     if (entryIndex >= 0) {
       const entry = ledger[entryIndex];
+      const tagCounts = ledgerTagCounts(entry);
       const errorTags = entry.errorTags.includes(errorTag)
         ? entry.errorTags
         : [...entry.errorTags, errorTag];
@@ -251,12 +271,17 @@ export const useLanguageProfileStore = create<LanguageProfileState>((set, get) =
         vocabId,
         errorTags,
         count: entry.count + 1,
+        tagCounts: {
+          ...tagCounts,
+          [errorTag]: (tagCounts[errorTag] ?? 0) + 1,
+        },
       };
     } else {
       ledger.unshift({
         vocabId,
         errorTags: [errorTag],
         count: 1,
+        tagCounts: { [errorTag]: 1 },
       });
     }
 
@@ -265,6 +290,19 @@ export const useLanguageProfileStore = create<LanguageProfileState>((set, get) =
       errorLedger: ledger,
     });
   },
+  recordSpeedRound: async (profileId, result) => {
+    const profile = get().profiles[profileId];
+    if (!profile) {
+      throw new Error(`Profile ${profileId} does not exist.`);
+    }
+
+    const { bests, rank } = addSpeedRoundBest(profile.speedRoundBests, result);
+    await get().upsertProfile({
+      ...profile,
+      speedRoundBests: bests,
+    });
+    return rank;
+  },
   updateSrsState: async (profileId, srsState) => {
     const profile = get().profiles[profileId];
     if (!profile) {
@@ -276,6 +314,61 @@ export const useLanguageProfileStore = create<LanguageProfileState>((set, get) =
       srsState,
     });
   },
+  updateSrsAlgorithm: async (profileId, algorithm) => {
+    const profile = get().profiles[profileId];
+    if (!profile) {
+      throw new Error(`Profile ${profileId} does not exist.`);
+    }
+
+    await get().upsertProfile({
+      ...profile,
+      srsAlgorithm: algorithm,
+    });
+  },
+  updateFlashcardGradingMode: async (profileId, mode) => {
+    const profile = get().profiles[profileId];
+    if (!profile) {
+      throw new Error(`Profile ${profileId} does not exist.`);
+    }
+
+    await get().upsertProfile({
+      ...profile,
+      flashcardGradingMode: mode,
+    });
+  },
+  updateDailyNewCardLimit: async (profileId, limit) => {
+    const profile = get().profiles[profileId];
+    if (!profile) {
+      throw new Error(`Profile ${profileId} does not exist.`);
+    }
+
+    await get().upsertProfile({
+      ...profile,
+      dailyNewCardLimit: Math.max(0, Math.round(limit)),
+    });
+  },
+  updateSm2Parameters: async (profileId, parameters) => {
+    const profile = get().profiles[profileId];
+    if (!profile) {
+      throw new Error(`Profile ${profileId} does not exist.`);
+    }
+
+    await get().upsertProfile({
+      ...profile,
+      sm2Parameters: parameters,
+    });
+  },
+  updateLeechSettings: async (profileId, settings) => {
+    const profile = get().profiles[profileId];
+    if (!profile) {
+      throw new Error(`Profile ${profileId} does not exist.`);
+    }
+
+    await get().upsertProfile({
+      ...profile,
+      ...settings,
+    });
+  },
   updateStylePreferences: async (profileId, prefs) => {
     const profile = get().profiles[profileId];
     if (!profile) {
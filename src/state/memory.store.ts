@@ -1,35 +1,94 @@
+import { nanoid } from 'nanoid/non-secure';
 import { create } from 'zustand';
+import type { MemoryEntry } from '../contracts/models';
+import { MemoryEntrySchema } from '../contracts/models';
+import {
+  formatMemoryContext,
+  linkMemoryEntry,
+  selectMemoryContext,
+} from '../domain/memory/memory-graph';
+import { storageService } from '../services/storage-service';
+import { useBankStore } from './bank.store';
 
-export interface MemoryEntry {
-  id: string;
-  prompt: string;
-  response: string;
-  summary: string;
-  createdAt: string;
-  profileId?: string;
-}
+export type { MemoryEntry } from '../contracts/models';
+
+const STORAGE_KEYS = {
+  entries: 'memory.entries.v1',
+};
 
 interface MemoryState {
+  /** Understood explanations across all profiles, newest first. */
   entries: MemoryEntry[];
+  isLoaded: boolean;
+  loadMemory: () => Promise<void>;
+  /** Records an explanation the learner understood, linked to the bank items it mentions. */
   logUnderstanding: (
-    payload: Omit<MemoryEntry, 'id' | 'createdAt'>,
-  ) => MemoryEntry;
+    payload: Pick<MemoryEntry, 'prompt' | 'response' | 'summary' | 'profileId'>,
+  ) => Promise<MemoryEntry>;
+  removeEntries: (entryIds: string[]) => Promise<void>;
+  /** Entries for a profile, including those logged before profiles were recorded. */
+  getProfileEntries: (profileId?: string) => MemoryEntry[];
+  /**
+   * Tutor context listing the profile's entries closest to a question, such as for chat replies
+   * or `createStudyPlan`. Empty when nothing has been understood yet.
+   */
+  getMemoryContext: (profileId?: string, question?: string) => string;
 }
 
-const generateId = () => `memory-${Math.random().toString(36).slice(2, 10)}`;
+const DEFAULT_STATE: Omit<
+  MemoryState,
+  'loadMemory' | 'logUnderstanding' | 'removeEntries' | 'getProfileEntries' | 'getMemoryContext'
+> = {
+  entries: [],
+  isLoaded: false,
+};
+
+const generateId = () => `memory-${nanoid(10)}`;
+
+const persistEntries = async (entries: MemoryEntry[]) => {
+  await storageService.setItem(STORAGE_KEYS.entries, entries);
+};
 
 export const useMemoryStore = create<MemoryState>((set, get) => ({
-  entries: [],
-  logUnderstanding: ({ prompt, response, summary, profileId }) => {
-    const entry = {
+  ...DEFAULT_STATE,
+  loadMemory: async () => {
+    if (get().isLoaded) {
+      return;
+    }
+    const stored = await storageService.getItem<unknown[]>(STORAGE_KEYS.entries);
+    const entries = (Array.isArray(stored) ? stored : []).flatMap(value => {
+      const parsed = MemoryEntrySchema.safeParse(value);
+      return parsed.success ? [parsed.data] : [];
+    });
+    // Entries logged before the stored ones finished loading stay in front.
+    set(state => ({ entries: [...state.entries, ...entries], isLoaded: true }));
+  },
+  logUnderstanding: async ({ prompt, response, summary, profileId }) => {
+    // Persisting before the stored entries are in would overwrite them.
+    await get().loadMemory();
+    const entry: MemoryEntry = {
       id: generateId(),
+      profileId,
       prompt,
       response,
       summary,
       createdAt: new Date().toISOString(),
-      profileId,
+      ...linkMemoryEntry({ prompt, response }, useBankStore.getState().items),
     };
-    set({ entries: [entry, ...get().entries] });
+    const entries = [entry, ...get().entries];
+    set({ entries });
+    await persistEntries(entries);
     return entry;
   },
+  removeEntries: async entryIds => {
+    await get().loadMemory();
+    const removed = new Set(entryIds);
+    const entries = get().entries.filter(entry => !removed.has(entry.id));
+    set({ entries });
+    await persistEntries(entries);
+  },
+  getProfileEntries: profileId =>
+    get().entries.filter(entry => !entry.profileId || entry.profileId === profileId),
+  getMemoryContext: (profileId, question) =>
+    formatMemoryContext(selectMemoryContext(get().getProfileEntries(profileId), question)),
 }));
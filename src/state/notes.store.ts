@@ -59,6 +59,8 @@ interface NotesState {
   updateNoteContent: (noteId: string, payload: UpdateNotePayload) => Promise<void>;
   /** Updates the answered status metadata for a note. */
   setNoteAnswered: (noteId: string, answered: boolean) => Promise<void>;
+  /** Stores an answer for a note, such as the AI tutor's reply, and marks it answered. */
+  saveNoteAnswer: (noteId: string, answer: string) => Promise<void>;
   /** Removes a note from persistence and local state. */
   deleteNote: (noteId: string) => Promise<void>;
   /** Returns notes filtered by the current query and filters. */
@@ -253,6 +255,41 @@ export const useNotesStore = create<NotesState>((set, get) => ({
       throw error;
     }
   },
+  saveNoteAnswer: async (noteId, answer) => {
+    set({ isLoading: true, error: undefined });
+    const timestamp = new Date().toISOString();
+
+    try {
+      await notesRepository.updateNoteAnswer(noteId, answer, timestamp);
+      set(state => {
+        const updated = state.notes.map(note =>
+          note.id === noteId
+            ? {
+                ...note,
+                answer,
+                answeredAt: timestamp,
+                updatedAt: timestamp,
+              }
+            : note,
+        );
+
+        const normalised = updated.map((entry, index) =>
+          normaliseNote(entry, updated.slice(0, index)),
+        );
+
+        return {
+          notes: normalised,
+          isLoading: false,
+        };
+      });
+    } catch (error) {
+      set({
+        error: error instanceof Error ? error.message : 'Failed to save the answer.',
+        isLoading: false,
+      });
+      throw error;
+    }
+  },
   deleteNote: async noteId => {
     set({ isLoading: true, error: undefined });
     try {
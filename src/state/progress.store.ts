@@ -3,6 +3,7 @@ import { format, startOfDay, subDays, isSameDay } from 'date-fns';
 import type { DrillSession, ProgressStats, VocabItem } from '../contracts/models';
 import { bankRepository, progressRepository } from '../services/container';
 import { DEFAULT_USER_ID } from '../domain/user/constants';
+import { forecastDueCounts, type DueForecastDay } from '../domain/srs/due-forecast';
 
 interface WeeklyActivityPoint {
   label: string;
@@ -14,6 +15,8 @@ interface ProgressDashboardState {
   weakWords: VocabItem[];
   weeklyActivity: WeeklyActivityPoint[];
   weeklyMinutes: number;
+  /** Reviews due per day over the next 30 days. */
+  dueForecast: DueForecastDay[];
   recentSessions: DrillSession[];
   isLoading: boolean;
   error?: string;
@@ -79,6 +82,7 @@ export const useProgressDashboardStore = create<ProgressDashboardState>(
     weakWords: [],
     weeklyActivity: [],
     weeklyMinutes: 0,
+    dueForecast: [],
     recentSessions: [],
     isLoading: false,
     load: async () => {
@@ -94,12 +98,14 @@ export const useProgressDashboardStore = create<ProgressDashboardState>(
         const weakWords = determineWeakWords(vocabItems);
         const { points, totalMinutes } = buildWeeklySeries(allSessions);
         const recentSessions = allSessions.slice(0, 5);
+        const dueForecast = forecastDueCounts(vocabItems, { days: 30 });
 
         set({
           stats: stats ?? null,
           weakWords,
           weeklyActivity: points,
           weeklyMinutes: totalMinutes,
+          dueForecast,
           recentSessions,
           isLoading: false,
         });
@@ -1,12 +1,18 @@
 import { create } from 'zustand';
 import { storageService } from '../services/storage-service';
 import { ttsService } from '../services/tts-service';
+import {
+  DEFAULT_AI_TUTOR_BASE_URL,
+  DEFAULT_AI_TUTOR_MODEL,
+} from '../services/http-ai-tutor-backend';
 
 type ThemePreference = 'system' | 'light' | 'dark';
 
 interface SettingsState {
   youtubeApiKey: string;
   aiTutorApiKey: string;
+  aiTutorBaseUrl: string;
+  aiTutorModel: string;
   dailyGoalMinutes: number;
   theme: ThemePreference;
   preferredVoiceId?: string;
@@ -17,6 +23,8 @@ interface SettingsState {
   loadSettings: () => Promise<void>;
   updateYoutubeApiKey: (value: string) => Promise<void>;
   updateAiTutorApiKey: (value: string) => Promise<void>;
+  updateAiTutorBaseUrl: (value: string) => Promise<void>;
+  updateAiTutorModel: (value: string) => Promise<void>;
   updateDailyGoalMinutes: (value: number) => Promise<void>;
   updateTheme: (value: ThemePreference) => Promise<void>;
   updatePreferredVoice: (value?: string) => Promise<void>;
@@ -26,6 +34,8 @@ interface SettingsState {
 const STORAGE_KEYS = {
   youtubeApiKey: 'settings.youtubeApiKey',
   aiTutorApiKey: 'settings.aiTutorApiKey',
+  aiTutorBaseUrl: 'settings.aiTutorBaseUrl',
+  aiTutorModel: 'settings.aiTutorModel',
   dailyGoalMinutes: 'settings.dailyGoalMinutes',
   theme: 'settings.theme',
   preferredVoiceId: 'settings.preferredVoiceId',
@@ -34,6 +44,8 @@ const STORAGE_KEYS = {
 const DEFAULT_STATE = {
   youtubeApiKey: '',
   aiTutorApiKey: '',
+  aiTutorBaseUrl: DEFAULT_AI_TUTOR_BASE_URL,
+  aiTutorModel: DEFAULT_AI_TUTOR_MODEL,
   dailyGoalMinutes: 20,
   theme: 'system' as ThemePreference,
   preferredVoiceId: undefined,
@@ -56,12 +68,16 @@ export const useSettingsStore = create<SettingsState>((set, get) => ({
       const [
         youtubeApiKey,
         aiTutorApiKey,
+        aiTutorBaseUrl,
+        aiTutorModel,
         dailyGoalMinutes,
         theme,
         preferredVoiceId,
       ] = await Promise.all([
         storageService.getItem<string>(STORAGE_KEYS.youtubeApiKey),
         storageService.getItem<string>(STORAGE_KEYS.aiTutorApiKey),
+        storageService.getItem<string>(STORAGE_KEYS.aiTutorBaseUrl),
+        storageService.getItem<string>(STORAGE_KEYS.aiTutorModel),
         storageService.getItem<number>(STORAGE_KEYS.dailyGoalMinutes),
         storageService.getItem<ThemePreference>(STORAGE_KEYS.theme),
         storageService.getItem<string>(STORAGE_KEYS.preferredVoiceId),
@@ -70,6 +86,8 @@ export const useSettingsStore = create<SettingsState>((set, get) => ({
       set({
         youtubeApiKey: youtubeApiKey ?? '',
         aiTutorApiKey: aiTutorApiKey ?? '',
+        aiTutorBaseUrl: aiTutorBaseUrl || DEFAULT_STATE.aiTutorBaseUrl,
+        aiTutorModel: aiTutorModel || DEFAULT_STATE.aiTutorModel,
         dailyGoalMinutes: dailyGoalMinutes ?? DEFAULT_STATE.dailyGoalMinutes,
         theme: theme ?? DEFAULT_STATE.theme,
         preferredVoiceId: preferredVoiceId ?? undefined,
@@ -91,6 +109,14 @@ export const useSettingsStore = create<SettingsState>((set, get) => ({
     await storageService.setItem(STORAGE_KEYS.aiTutorApiKey, value);
     set({ aiTutorApiKey: value });
   },
+  updateAiTutorBaseUrl: async value => {
+    await storageService.setItem(STORAGE_KEYS.aiTutorBaseUrl, value);
+    set({ aiTutorBaseUrl: value });
+  },
+  updateAiTutorModel: async value => {
+    await storageService.setItem(STORAGE_KEYS.aiTutorModel, value);
+    set({ aiTutorModel: value });
+  },
   updateDailyGoalMinutes: async value => {
     await storageService.setItem(STORAGE_KEYS.dailyGoalMinutes, value);
     set({ dailyGoalMinutes: value });
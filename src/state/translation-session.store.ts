@@ -6,6 +6,7 @@ import {
   TtxRecapSchema,
   type TtxSession,
   TtxSessionSchema,
+  type TtxTutorExchange,
 } from '../contracts/models';
 import { storageService } from '../services/storage-service';
 
@@ -28,6 +29,11 @@ export interface TranslationSessionState {
   setRecap: (sessionId: string, recap: TtxRecap) => Promise<void>;
   setProgress: (sessionId: string, progress: TtxSession['progress']) => Promise<void>;
   toggleFlagged: (sessionId: string, itemId: string, flagged: boolean) => Promise<void>;
+  addTutorExchange: (
+    sessionId: string,
+    itemId: string,
+    exchange: TtxTutorExchange,
+  ) => Promise<void>;
   markSessionOpened: (sessionId: string) => Promise<void>;
   removeSession: (sessionId: string) => Promise<void>;
   clearAll: () => Promise<void>;
@@ -43,6 +49,7 @@ const DEFAULT_STATE: Omit<
   | 'clearAll'
   | 'setProgress'
   | 'toggleFlagged'
+  | 'addTutorExchange'
   | 'markSessionOpened'
 > = {
   sessions: {},
@@ -207,6 +214,24 @@ export const useTranslationSessionStore = create<TranslationSessionState>((set,
     await persistSessions(snapshot);
     set({ sessions: snapshot });
   },
+  addTutorExchange: async (sessionId, itemId, exchange) => {
+    const session = get().sessions[sessionId];
+    if (!session) {
+      throw new Error(`Session ${sessionId} does not exist.`);
+    }
+    const items = session.items.map(item =>
+      item.itemId === itemId
+        ? { ...item, tutorExchanges: [...(item.tutorExchanges ?? []), exchange] }
+        : item,
+    );
+    const updatedSession: TtxSession = {
+      ...session,
+      items,
+    };
+    const snapshot = { ...get().sessions, [sessionId]: updatedSession };
+    await persistSessions(snapshot);
+    set({ sessions: snapshot });
+  },
   markSessionOpened: async sessionId => {
     const session = get().sessions[sessionId];
     if (!session) {
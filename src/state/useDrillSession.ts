@@ -1,14 +1,33 @@
-import { useEffect, useMemo, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import { nanoid } from 'nanoid/non-secure';
-import { calculateSm2Review } from '../domain/srs/sm2-engine';
+import {
+  buildTrackSrsData,
+  calculateSrsReview,
+  getTrackSrsData,
+  resolveSrsAlgorithm,
+  resolveSrsUpdateOptions,
+  withTrackSrsData,
+} from '../domain/srs/unified-srs-service';
+import { shouldRequeueInSession } from '../domain/srs/learning-steps';
+import { buildReviewLogEntry } from '../domain/srs/review-log';
+import { buildDueLoad } from '../domain/srs/due-forecast';
 import { selectDrillQueue } from '../domain/selectors/drill-selector';
-import type { DrillSession, SrsData, VocabItem } from '../contracts/models';
+import type { DrillSession, SrsData, SrsTrack, VocabItem } from '../contracts/models';
 import { useBankStore } from './bank.store';
-import { progressRepository } from '../services/container';
+import { getActiveLanguageProfile } from './language-profile.store';
+import { progressRepository, reviewLogRepository } from '../services/container';
 
 /** Supported drill practice modes. */
 export type DrillMode = 'recall' | 'recognition' | 'cloze' | 'listen';
 
+/** Scheduling track trained by each drill mode. */
+const DRILL_MODE_TRACKS: Record<DrillMode, SrsTrack> = {
+  recall: 'production',
+  cloze: 'production',
+  recognition: 'recognition',
+  listen: 'recognition',
+};
+
 /** Configuration values supplied to the drill session hook. */
 export interface DrillSessionConfig {
   /** Drill mode executed for the session. */
@@ -49,10 +68,11 @@ interface DrillResponse {
 
 /** Exposes the state and actions for running a drill session. */
 export const useDrillSession = (config: DrillSessionConfig) => {
-  const { items, loadBank, updateSrsData } = useBankStore(state => ({
+  const { items, loadBank, updateSrsData, flagLeechIfNeeded } = useBankStore(state => ({
     items: state.items,
     loadBank: state.loadBank,
     updateSrsData: state.updateSrsData,
+    flagLeechIfNeeded: state.flagLeechIfNeeded,
   }));
 
   const [queue, setQueue] = useState<VocabItem[]>([]);
@@ -61,6 +81,8 @@ export const useDrillSession = (config: DrillSessionConfig) => {
   const [startedAt, setStartedAt] = useState<Date | null>(null);
   const [endedAt, setEndedAt] = useState<Date | null>(null);
   const [isComplete, setIsComplete] = useState(false);
+  // Set on the first answer; from then on the queue is the session's own snapshot.
+  const sessionStartedRef = useRef(false);
 
   useEffect(() => {
     if (items.length === 0) {
@@ -68,15 +90,23 @@ export const useDrillSession = (config: DrillSessionConfig) => {
     }
   }, [items.length, loadBank]);
 
+  const track = DRILL_MODE_TRACKS[config.mode];
+
   const orderedQueue = useMemo(() => {
     const selection = selectDrillQueue(items, {
       now: new Date(),
       limit: config.limit ?? items.length,
+      track,
     });
     return selection.queue;
-  }, [items, config.limit]);
+  }, [items, config.limit, track]);
 
+  // Answers rewrite bank items, which recomputes `orderedQueue`; resetting here mid-session would
+  // drop re-queued items and send the learner back to the start.
   useEffect(() => {
+    if (sessionStartedRef.current) {
+      return;
+    }
     setQueue(orderedQueue);
     setCurrentIndex(0);
     setResponses([]);
@@ -95,19 +125,16 @@ export const useDrillSession = (config: DrillSessionConfig) => {
   }, [responses]);
 
   const logSessionIfComplete = async (nextResponses: DrillResponse[]) => {
-    if (nextResponses.length !== queue.length) {
-      return;
-    }
-
     const start = startedAt ?? new Date();
     const end = new Date();
 
     const session: DrillSession = {
       id: nanoid(),
-      vocabItemIds: queue.map(item => item.id),
+      // Items re-queued by learning steps appear once in the log.
+      vocabItemIds: Array.from(new Set(queue.map(item => item.id))),
       startedAt: start.toISOString(),
       endedAt: end.toISOString(),
-      score: nextResponses.filter(r => r.wasCorrect).length / queue.length,
+      score: nextResponses.filter(r => r.wasCorrect).length / nextResponses.length,
       correctCount: nextResponses.filter(r => r.wasCorrect).length,
       incorrectCount: nextResponses.filter(r => !r.wasCorrect).length,
     };
@@ -124,27 +151,40 @@ export const useDrillSession = (config: DrillSessionConfig) => {
     }
 
     const reviewDate = new Date();
+    sessionStartedRef.current = true;
     if (!startedAt) {
       setStartedAt(reviewDate);
     }
 
-    const review = calculateSm2Review({
+    const previous = getTrackSrsData(item, track);
+    const schedulerOptions = resolveSrsUpdateOptions(getActiveLanguageProfile());
+    const review = calculateSrsReview({
+      algorithm: schedulerOptions.algorithm ?? resolveSrsAlgorithm(previous?.algorithm),
       quality: submission.quality,
       reviewDate,
-      previous: item.srsData ?? undefined,
+      previous,
+      learningStepsMinutes: schedulerOptions.learningStepsMinutes,
+      relearningStepsMinutes: schedulerOptions.relearningStepsMinutes,
+      sm2Parameters: schedulerOptions.sm2Parameters,
+      dueLoad: buildDueLoad(items.filter(candidate => candidate.id !== item.id)),
     });
 
-    const srsData: SrsData = {
-      id: item.srsData?.id ?? nanoid(),
-      algorithm: review.algorithm,
-      easeFactor: review.easeFactor,
-      intervalHours: review.intervalHours,
-      streak: review.streak,
-      dueAt: review.dueAt,
-      lastReviewedAt: review.lastReviewedAt,
-    };
-
-    await updateSrsData(item.id, srsData);
+    const srsData = buildTrackSrsData(previous, review);
+
+    await updateSrsData(item.id, srsData, track);
+    await flagLeechIfNeeded(item.id);
+    await reviewLogRepository
+      .appendReview(
+        buildReviewLogEntry({
+          vocabItemId: item.id,
+          track,
+          quality: submission.quality,
+          reviewedAt: reviewDate,
+          previous,
+          next: srsData,
+        }),
+      )
+      .catch(error => console.warn('[useDrillSession] Failed to append review log.', error));
 
     const wasCorrect = submission.quality >= 3;
     const nextResponses = [
@@ -159,7 +199,15 @@ export const useDrillSession = (config: DrillSessionConfig) => {
 
     setResponses(nextResponses);
 
-    if (currentIndex + 1 >= queue.length) {
+    // Items still in a sub-day learning step come back before the session ends.
+    const nextQueue = shouldRequeueInSession(srsData, reviewDate)
+      ? [...queue, withTrackSrsData(item, track, srsData)]
+      : queue;
+    if (nextQueue !== queue) {
+      setQueue(nextQueue);
+    }
+
+    if (currentIndex + 1 >= nextQueue.length) {
       await logSessionIfComplete(nextResponses);
     } else {
       setCurrentIndex(currentIndex + 1);
@@ -172,11 +220,13 @@ export const useDrillSession = (config: DrillSessionConfig) => {
   };
 
   const resetSession = () => {
+    sessionStartedRef.current = false;
+    setQueue(orderedQueue);
     setCurrentIndex(0);
     setResponses([]);
     setStartedAt(null);
     setEndedAt(null);
-    setIsComplete(queue.length === 0);
+    setIsComplete(orderedQueue.length === 0);
   };
 
   return {
@@ -0,0 +1,251 @@
+import { AiTutorRequestError } from '@/services/http-ai-tutor-backend';
+import { storageService } from '@/services/storage-service';
+import { useAiOutboxStore } from '@/state/ai-outbox.store';
+import { useChatThreadStore } from '@/state/chat-thread.store';
+import { useNotesStore } from '@/state/notes.store';
+import { useOfflineStore } from '@/state/offline.store';
+import { useTranslationSessionStore } from '@/state/translation-session.store';
+
+const mockRemote = {
+  translate: jest.fn(),
+  generateHint: jest.fn(),
+  streamChat: jest.fn(),
+};
+let mockRemoteConfigured = true;
+
+jest.mock('@/services/container', () => ({
+  aiTutorBackend: { getRemoteBackend: () => (mockRemoteConfigured ? mockRemote : null) },
+  chatThreadRepository: {
+    listAllThreads: jest.fn().mockResolvedValue([]),
+    saveThread: jest.fn().mockResolvedValue(undefined),
+  },
+}));
+
+jest.mock('@/services/storage-service', () => ({
+  storageService: {
+    getItem: jest.fn().mockResolvedValue(null),
+    setItem: jest.fn().mockResolvedValue(undefined),
+    removeItem: jest.fn().mockResolvedValue(undefined),
+  },
+}));
+
+const translateRequest = (text: string) => ({
+  kind: 'translate' as const,
+  params: { text, sourceLanguage: 'en', targetLanguage: 'es' },
+});
+
+const chatRequest = {
+  kind: 'chat' as const,
+  params: { turns: [{ role: 'learner' as const, content: 'Why "ser" here?' }] },
+};
+
+describe('AI outbox', () => {
+  const saveNoteAnswer = jest.fn().mockResolvedValue(undefined);
+  const addTutorExchange = jest.fn().mockResolvedValue(undefined);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+    mockRemoteConfigured = true;
+    useOfflineStore.setState({ isOffline: false });
+    useAiOutboxStore.setState({ entries: [], deliveries: [], isLoaded: true, isReplaying: false });
+    useNotesStore.setState({ saveNoteAnswer });
+    useTranslationSessionStore.setState({ addTutorExchange });
+  });
+
+  afterEach(() => {
+    jest.clearAllTimers();
+    jest.useRealTimers();
+  });
+
+  it('replays queued requests in the order they were made', async () => {
+    mockRemote.translate.mockImplementation(async ({ text }) => `es: ${text}`);
+    const { enqueue, replay } = useAiOutboxStore.getState();
+    const first = await enqueue(translateRequest('one'), { type: 'chat_message', messageId: 'a' });
+    const second = await enqueue(translateRequest('two'), { type: 'chat_message', messageId: 'b' });
+
+    await replay();
+
+    expect(mockRemote.translate.mock.calls.map(([params]) => params.text)).toEqual(['one', 'two']);
+    expect(useAiOutboxStore.getState().entries).toEqual([]);
+    expect(useAiOutboxStore.getState().deliveries).toEqual([
+      { entry: first, result: 'es: one' },
+      { entry: second, result: 'es: two' },
+    ]);
+  });
+
+  it('stops at a request the tutor still cannot be reached for', async () => {
+    mockRemote.translate
+      .mockResolvedValueOnce('es: one')
+      .mockRejectedValueOnce(new AiTutorRequestError('network'));
+    const { enqueue, replay } = useAiOutboxStore.getState();
+    await enqueue(translateRequest('one'), { type: 'chat_message', messageId: 'a' });
+    const second = await enqueue(translateRequest('two'), { type: 'chat_message', messageId: 'b' });
+    const third = await enqueue(translateRequest('three'), {
+      type: 'chat_message',
+      messageId: 'c',
+    });
+
+    await replay();
+
+    expect(mockRemote.translate).toHaveBeenCalledTimes(2);
+    expect(useAiOutboxStore.getState().entries).toEqual([second, third]);
+    expect(useAiOutboxStore.getState().deliveries).toHaveLength(1);
+  });
+
+  it('retries after a backoff while still online', async () => {
+    mockRemote.translate
+      .mockRejectedValueOnce(new AiTutorRequestError('network'))
+      .mockRejectedValueOnce(new AiTutorRequestError('rate_limited', 429, 30_000))
+      .mockResolvedValueOnce('es: one');
+    const { enqueue, replay } = useAiOutboxStore.getState();
+    const entry = await enqueue(translateRequest('one'), { type: 'chat_message', messageId: 'a' });
+
+    await replay();
+    await jest.advanceTimersByTimeAsync(5_000);
+    expect(mockRemote.translate).toHaveBeenCalledTimes(2);
+
+    // The server's Retry-After wins over the backoff.
+    await jest.advanceTimersByTimeAsync(29_000);
+    expect(mockRemote.translate).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(1_000);
+
+    expect(mockRemote.translate).toHaveBeenCalledTimes(3);
+    expect(useAiOutboxStore.getState().entries).toEqual([]);
+    expect(useAiOutboxStore.getState().deliveries).toEqual([{ entry, result: 'es: one' }]);
+  });
+
+  it('leaves retrying to the next reconnect while offline', async () => {
+    mockRemote.translate.mockRejectedValueOnce(new AiTutorRequestError('network'));
+    const { enqueue, replay } = useAiOutboxStore.getState();
+    await enqueue(translateRequest('one'), { type: 'chat_message', messageId: 'a' });
+    useOfflineStore.setState({ isOffline: true });
+
+    await replay();
+    await jest.advanceTimersByTimeAsync(10 * 60_000);
+
+    expect(mockRemote.translate).toHaveBeenCalledTimes(1);
+    expect(useAiOutboxStore.getState().entries).toHaveLength(1);
+  });
+
+  it('delivers requests as errors once no tutor endpoint is configured', async () => {
+    mockRemoteConfigured = false;
+    const { enqueue, replay } = useAiOutboxStore.getState();
+    await enqueue(translateRequest('one'), { type: 'chat_message', messageId: 'a' });
+    await enqueue(translateRequest('two'), { type: 'note', noteId: 'note-1' });
+
+    await replay();
+
+    const { entries, deliveries } = useAiOutboxStore.getState();
+    expect(entries).toEqual([]);
+    expect(deliveries).toHaveLength(1);
+    expect(deliveries[0].result).toBeUndefined();
+    expect(deliveries[0].error).toMatch(/API key/);
+    expect(saveNoteAnswer).not.toHaveBeenCalled();
+  });
+
+  it('delivers a request the tutor rejects as an error and moves on', async () => {
+    mockRemote.translate
+      .mockRejectedValueOnce(new AiTutorRequestError('auth', 401))
+      .mockResolvedValueOnce('es: two');
+    const { enqueue, replay } = useAiOutboxStore.getState();
+    await enqueue(translateRequest('one'), { type: 'chat_message', messageId: 'a' });
+    await enqueue(translateRequest('two'), { type: 'chat_message', messageId: 'b' });
+
+    await replay();
+
+    const { entries, deliveries } = useAiOutboxStore.getState();
+    expect(entries).toEqual([]);
+    expect(deliveries[0].result).toBeUndefined();
+    expect(deliveries[0].error).toBe(new AiTutorRequestError('auth').message);
+    expect(deliveries[1].result).toBe('es: two');
+  });
+
+  it('saves answers to their note or session item', async () => {
+    mockRemote.streamChat.mockResolvedValue('Because it describes identity.');
+    const { enqueue, replay } = useAiOutboxStore.getState();
+    await enqueue(chatRequest, { type: 'note', noteId: 'note-1' });
+    await enqueue(chatRequest, {
+      type: 'session_item',
+      sessionId: 'session-1',
+      itemId: 'item-1',
+      question: 'Why "ser" here?',
+    });
+
+    await replay();
+
+    expect(saveNoteAnswer).toHaveBeenCalledWith('note-1', 'Because it describes identity.');
+    expect(addTutorExchange).toHaveBeenCalledWith(
+      'session-1',
+      'item-1',
+      expect.objectContaining({
+        question: 'Why "ser" here?',
+        answer: 'Because it describes identity.',
+      }),
+    );
+    // Notes have no screen waiting on them; the session item's mini chat may still be open.
+    expect(useAiOutboxStore.getState().deliveries.map(({ entry }) => entry.target.type)).toEqual([
+      'session_item',
+    ]);
+  });
+
+  it('writes chat replies into the thread holding the placeholder', async () => {
+    mockRemote.translate.mockResolvedValue('la biblioteca');
+    useChatThreadStore.setState({
+      threads: [
+        {
+          id: 'thread-1',
+          title: '',
+          mode: 'dictionary',
+          messages: [
+            { id: 'user-1', role: 'user', mode: 'dictionary', content: 'library' },
+            {
+              id: 'placeholder-1',
+              role: 'assistant',
+              mode: 'tutor',
+              content: 'You\'re offline.',
+              understood: false,
+              isQueued: true,
+            },
+          ],
+          createdAt: '2025-01-01T00:00:00.000Z',
+          updatedAt: '2025-01-01T00:00:00.000Z',
+        },
+      ],
+      isLoaded: true,
+    });
+    const { enqueue, replay } = useAiOutboxStore.getState();
+    await enqueue(translateRequest('library'), {
+      type: 'chat_message',
+      messageId: 'placeholder-1',
+    });
+
+    await replay();
+
+    const [, reply] = useChatThreadStore.getState().threads[0].messages;
+    expect(reply).toMatchObject({
+      id: 'placeholder-1',
+      mode: 'dictionary',
+      headword: 'library',
+      translation: 'la biblioteca',
+    });
+  });
+
+  it('keeps requests from earlier runs when queueing before the outbox was loaded', async () => {
+    const stored = {
+      id: 'outbox-stored',
+      request: translateRequest('earlier'),
+      target: { type: 'note' as const, noteId: 'note-1' },
+      createdAt: '2025-01-01T00:00:00.000Z',
+    };
+    jest.mocked(storageService.getItem).mockResolvedValueOnce([stored]);
+    useAiOutboxStore.setState({ isLoaded: false });
+
+    const entry = await useAiOutboxStore
+      .getState()
+      .enqueue(translateRequest('later'), { type: 'chat_message', messageId: 'a' });
+
+    expect(useAiOutboxStore.getState().entries).toEqual([stored, entry]);
+    expect(storageService.setItem).toHaveBeenLastCalledWith(expect.any(String), [stored, entry]);
+  });
+});
@@ -0,0 +1,121 @@
+import { createMMKV } from 'react-native-mmkv';
+import type { ChatMessage, ChatThread } from '@/contracts/models';
+import { MmkvChatThreadRepository } from '@/data/mmkv/chat-thread-repository';
+import { useChatThreadStore } from '@/state/chat-thread.store';
+
+const mockSavedThreads = new Map<string, ChatThread>();
+
+jest.mock('@/services/container', () => ({
+  chatThreadRepository: {
+    listAllThreads: jest.fn(async () => Array.from(mockSavedThreads.values())),
+    saveThread: jest.fn(async (thread: ChatThread) => {
+      mockSavedThreads.set(thread.id, thread);
+    }),
+    deleteThread: jest.fn(async (threadId: string) => {
+      mockSavedThreads.delete(threadId);
+    }),
+  },
+}));
+
+const question: ChatMessage = { id: 'q', role: 'user', mode: 'tutor', content: 'Ser o estar?' };
+
+const reply = (overrides: Partial<Extract<ChatMessage, { mode: 'tutor' }>> = {}): ChatMessage => ({
+  id: 'r',
+  role: 'assistant',
+  mode: 'tutor',
+  content: 'Estar is for states.',
+  understood: false,
+  ...overrides,
+});
+
+const restart = async () => {
+  useChatThreadStore.setState({ threads: [], activeThreadId: null, isLoaded: false });
+  await useChatThreadStore.getState().loadThreads();
+};
+
+describe('chat thread store', () => {
+  beforeEach(async () => {
+    mockSavedThreads.clear();
+    await restart();
+  });
+
+  it('keeps threads and their mode across restarts once they have messages', async () => {
+    const { startThread, setThreadMode, updateMessages } = useChatThreadStore.getState();
+    const thread = startThread('profile-es');
+    await setThreadMode(thread.id, 'tutor');
+    expect(mockSavedThreads.size).toBe(0);
+
+    await updateMessages(thread.id, messages => [...messages, question]);
+    await restart();
+
+    expect(useChatThreadStore.getState().threads).toEqual([
+      expect.objectContaining({ id: thread.id, mode: 'tutor', messages: [question] }),
+    ]);
+  });
+
+  it('saves a streaming reply only once it has finished', async () => {
+    const { startThread, updateMessages } = useChatThreadStore.getState();
+    const thread = startThread('profile-es');
+    await updateMessages(thread.id, () => [question, reply({ isStreaming: true })]);
+    expect(mockSavedThreads.get(thread.id)?.messages).toBeUndefined();
+
+    await updateMessages(thread.id, () => [question, reply()]);
+    expect(mockSavedThreads.get(thread.id)?.messages).toEqual([question, reply()]);
+  });
+
+  it('opens the profile’s latest thread and delivers replies where they were asked', async () => {
+    const { startThread, updateMessages, openProfileThread, replaceMessage } =
+      useChatThreadStore.getState();
+    const spanish = startThread('profile-es');
+    await updateMessages(spanish.id, () => [question, reply({ isQueued: true })]);
+    const german = startThread('profile-de');
+    await updateMessages(german.id, () => [{ ...question, id: 'q-de' }]);
+
+    openProfileThread('profile-es');
+    expect(useChatThreadStore.getState().activeThreadId).toBe(spanish.id);
+
+    await replaceMessage('r', reply());
+    const stored = useChatThreadStore.getState().threads.find(thread => thread.id === spanish.id);
+    expect(stored?.messages[1]).toEqual(reply());
+  });
+
+  it('starts a new thread when the open one is deleted', async () => {
+    const { startThread, updateMessages, deleteThread, openProfileThread } =
+      useChatThreadStore.getState();
+    const thread = startThread('profile-es');
+    await updateMessages(thread.id, () => [question]);
+
+    await deleteThread(thread.id);
+    openProfileThread('profile-es');
+
+    const { threads, activeThreadId } = useChatThreadStore.getState();
+    expect(mockSavedThreads.size).toBe(0);
+    expect(threads).toEqual([expect.objectContaining({ id: activeThreadId, messages: [] })]);
+  });
+});
+
+describe('MmkvChatThreadRepository', () => {
+  it('lists valid threads, most recently updated first', async () => {
+    const storage = createMMKV({ id: 'chat-threads' });
+    const repository = new MmkvChatThreadRepository(storage);
+    const thread = (id: string, updatedAt: string): ChatThread => ({
+      id,
+      title: '',
+      mode: 'dictionary',
+      messages: [question],
+      createdAt: '2025-01-01T00:00:00.000Z',
+      updatedAt,
+    });
+    await repository.saveThread(thread('older', '2025-01-01T00:00:00.000Z'));
+    await repository.saveThread(thread('newer', '2025-01-02T00:00:00.000Z'));
+    storage.set('chat_thread:broken', '{"id":');
+
+    expect((await repository.listAllThreads()).map(entry => entry.id)).toEqual([
+      'newer',
+      'older',
+    ]);
+
+    await repository.deleteThread('newer');
+    expect(await repository.getThreadById('newer')).toBeNull();
+  });
+});
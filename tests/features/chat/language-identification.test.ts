@@ -0,0 +1,172 @@
+import { LANGUAGE_LIBRARY } from '@/data/language-library';
+import type { LanguageProfile } from '@/contracts/models';
+import {
+  detectInputLanguage,
+  INPUT_LANGUAGE_CONFIDENCE_THRESHOLD,
+} from '@/features/chat/utils/language-detection';
+import { identifyLanguage } from '@/features/chat/utils/language-identification';
+
+/** Held-out sentences and lookups learners type into chat, none taken from the training samples. */
+const CORPUS: Record<string, string[]> = {
+  en: [
+    'Can you help me find my glasses?',
+    'We are meeting our friends for lunch at noon.',
+    'The dog is sleeping under the table.',
+    'I don’t understand what you mean.',
+    'how do you say butterfly',
+    'Is there a pharmacy open tonight?',
+    'My sister lives in a big city with her husband.',
+    'What did you have for breakfast this morning?',
+    'It was a beautiful day at the lake.',
+    'the kitchen window is broken',
+  ],
+  es: [
+    '¿Puedes ayudarme a encontrar mis gafas?',
+    'Vamos a comer con nuestros amigos al mediodía.',
+    'El perro está durmiendo debajo de la mesa.',
+    'No entiendo lo que quieres decir.',
+    'cómo se dice mariposa',
+    '¿Hay una farmacia abierta esta noche?',
+    'Mi hermana vive en una ciudad grande con su marido.',
+    '¿Qué desayunaste esta mañana?',
+    'Fue un día precioso en el lago.',
+    'la ventana de la cocina está rota',
+  ],
+  pt: [
+    'Você pode me ajudar a encontrar meus óculos?',
+    'Vamos almoçar com nossos amigos ao meio-dia.',
+    'O cachorro está dormindo debaixo da mesa.',
+    'Não entendo o que você quer dizer.',
+    'como se diz borboleta',
+    'Tem alguma farmácia aberta hoje à noite?',
+    'Minha irmã mora numa cidade grande com o marido.',
+    'O que você tomou no café da manhã hoje?',
+    'Foi um dia lindo no lago.',
+    'a janela da cozinha está quebrada',
+  ],
+  fr: [
+    'Peux-tu m’aider à trouver mes lunettes ?',
+    'Nous déjeunons avec nos amis à midi.',
+    'Le chien dort sous la table.',
+    'Je ne comprends pas ce que tu veux dire.',
+    'comment dit-on papillon',
+    'Est-ce qu’il y a une pharmacie ouverte ce soir ?',
+    'Ma sœur habite dans une grande ville avec son mari.',
+    'Qu’est-ce que tu as mangé ce matin ?',
+    'C’était une belle journée au bord du lac.',
+    'la fenêtre de la cuisine est cassée',
+  ],
+  de: [
+    'Kannst du mir helfen, meine Brille zu finden?',
+    'Wir treffen uns mittags mit unseren Freunden zum Essen.',
+    'Der Hund schläft unter dem Tisch.',
+    'Ich verstehe nicht, was du meinst.',
+    'wie sagt man Schmetterling',
+    'Gibt es heute Abend eine Apotheke, die offen hat?',
+    'Meine Schwester wohnt mit ihrem Mann in einer großen Stadt.',
+    'Was hast du heute Morgen gefrühstückt?',
+    'Es war ein wunderschöner Tag am See.',
+    'das Küchenfenster ist kaputt',
+  ],
+};
+
+const createProfile = (
+  nativeLanguage: string,
+  targetLanguage: string,
+): LanguageProfile => ({
+  profileId: `profile-${nativeLanguage}-${targetLanguage}`,
+  userId: 'user-1',
+  nativeLanguage,
+  targetLanguage,
+  preferredDifficulty: 'intermediate',
+  stylePreferences: { slang: 0.4, idioms: 0.5, formal: 0.5 },
+  savedSessions: [],
+  srsState: [],
+  errorLedger: [],
+  lastFlagAsset: 'flag',
+  updatedAt: new Date().toISOString(),
+});
+
+describe('language identification', () => {
+  it('has a corpus for every language in the library', () => {
+    expect(Object.keys(CORPUS).sort()).toEqual(
+      LANGUAGE_LIBRARY.map(option => option.code).sort(),
+    );
+  });
+
+  it.each(Object.keys(CORPUS))('identifies the %s corpus', language => {
+    CORPUS[language].forEach(sentence => {
+      expect([sentence, identifyLanguage(sentence)?.language]).toEqual([
+        sentence,
+        language,
+      ]);
+    });
+  });
+
+  it('is confident about sentences but not about loanwords', () => {
+    const result = identifyLanguage('Der Hund schläft unter dem Tisch.');
+    expect(result?.confidence).toBeGreaterThan(
+      INPUT_LANGUAGE_CONFIDENCE_THRESHOLD,
+    );
+    expect(identifyLanguage('hotel')?.confidence).toBeLessThan(
+      INPUT_LANGUAGE_CONFIDENCE_THRESHOLD,
+    );
+    expect(identifyLanguage('42 ?!')).toBeNull();
+  });
+});
+
+describe('detectInputLanguage', () => {
+  it('picks the translation direction for every profile language', () => {
+    expect(
+      detectInputLanguage(
+        'Ich verstehe nicht, was du meinst.',
+        createProfile('de', 'en'),
+      ),
+    ).toMatchObject({
+      inputLanguage: 'native',
+      language: 'de',
+      isConfident: true,
+    });
+    expect(
+      detectInputLanguage(
+        'Le chien dort sous la table.',
+        createProfile('en', 'fr'),
+      ),
+    ).toMatchObject({
+      inputLanguage: 'target',
+      language: 'fr',
+      isConfident: true,
+    });
+    expect(
+      detectInputLanguage(
+        'Não entendo o que você quer dizer.',
+        createProfile('pt', 'es'),
+      ),
+    ).toMatchObject({
+      inputLanguage: 'native',
+      language: 'pt',
+      isConfident: true,
+    });
+    expect(
+      detectInputLanguage(
+        'the kitchen window is broken',
+        createProfile('de', 'en'),
+      ),
+    ).toMatchObject({
+      inputLanguage: 'target',
+      language: 'en',
+      isConfident: true,
+    });
+  });
+
+  it('flags input in neither profile language as uncertain', () => {
+    const detection = detectInputLanguage(
+      'Meine Schwester wohnt in einer großen Stadt.',
+      createProfile('en', 'es'),
+    );
+    expect(detection.isConfident).toBe(false);
+    expect(detection.confidence).toBeLessThan(
+      INPUT_LANGUAGE_CONFIDENCE_THRESHOLD,
+    );
+  });
+});
@@ -0,0 +1,107 @@
+import type { VocabItem } from '@/contracts/models';
+import { useBankStore } from '@/state/bank.store';
+import { useMemoryStore } from '@/state/memory.store';
+
+const mockStorage = new Map<string, unknown>();
+
+jest.mock('@/services/container', () => ({}));
+
+jest.mock('@/services/storage-service', () => ({
+  storageService: {
+    getItem: jest.fn(async (key: string) => mockStorage.get(key) ?? null),
+    setItem: jest.fn(async (key: string, value: unknown) => {
+      mockStorage.set(key, value);
+    }),
+    removeItem: jest.fn(async (key: string) => {
+      mockStorage.delete(key);
+    }),
+  },
+}));
+
+const mesa: VocabItem = {
+  id: 'vocab-mesa',
+  term: 'mesa',
+  meaning: 'table',
+  examples: [],
+  tags: [],
+  folders: [],
+  level: 'A1',
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+};
+
+const resetMemory = () => useMemoryStore.setState({ entries: [], isLoaded: false });
+
+describe('memory store', () => {
+  beforeEach(() => {
+    mockStorage.clear();
+    resetMemory();
+    useBankStore.setState({ items: [mesa] });
+  });
+
+  it('persists understood explanations with their links across restarts', async () => {
+    const entry = await useMemoryStore.getState().logUnderstanding({
+      prompt: 'Why "la mesa"?',
+      response: 'Mesa is feminine, so it takes "la".',
+      summary: 'Mesa is feminine, so it takes "la".',
+      profileId: 'profile-es',
+    });
+
+    resetMemory();
+    await useMemoryStore.getState().loadMemory();
+
+    expect(useMemoryStore.getState().entries).toEqual([entry]);
+    expect(entry).toMatchObject({ vocabItemIds: ['vocab-mesa'], pitfallTypes: ['gender'] });
+  });
+
+  it('scopes context to the active profile and forgets removed entries', async () => {
+    const { logUnderstanding } = useMemoryStore.getState();
+    const spanish = await logUnderstanding({
+      prompt: 'mesa',
+      response: 'Table.',
+      summary: 'Table.',
+      profileId: 'profile-es',
+    });
+    await logUnderstanding({
+      prompt: 'Tisch',
+      response: 'Table.',
+      summary: 'Table.',
+      profileId: 'profile-de',
+    });
+
+    expect(useMemoryStore.getState().getMemoryContext('profile-es')).toBe(
+      'The learner has already understood these explanations:\n- "mesa": Table.',
+    );
+
+    await useMemoryStore.getState().removeEntries([spanish.id]);
+    resetMemory();
+    await useMemoryStore.getState().loadMemory();
+
+    expect(useMemoryStore.getState().getProfileEntries('profile-es')).toEqual([]);
+    expect(useMemoryStore.getState().entries.map(entry => entry.prompt)).toEqual(['Tisch']);
+  });
+
+  it('keeps stored entries when logging before the memory was loaded', async () => {
+    const earlier = await useMemoryStore.getState().logUnderstanding({
+      prompt: 'mesa',
+      response: 'Table.',
+      summary: 'Table.',
+      profileId: 'profile-es',
+    });
+    resetMemory();
+
+    const later = await useMemoryStore.getState().logUnderstanding({
+      prompt: 'silla',
+      response: 'Chair.',
+      summary: 'Chair.',
+      profileId: 'profile-es',
+    });
+    resetMemory();
+    await useMemoryStore.getState().loadMemory();
+
+    expect(useMemoryStore.getState().entries.map(entry => entry.id)).toEqual([
+      later.id,
+      earlier.id,
+    ]);
+  });
+});
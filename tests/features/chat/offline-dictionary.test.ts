@@ -0,0 +1,114 @@
+import { createMMKV } from 'react-native-mmkv';
+import { BUNDLED_DICTIONARY_PACKS } from '@/data/dictionaries';
+import { OfflineDictionaryService } from '@/services/offline-dictionary';
+
+const pack = {
+  version: 1,
+  name: 'Test Spanish–English',
+  sourceLanguage: 'es',
+  targetLanguage: 'en',
+  entries: [
+    [
+      'hablar',
+      'v',
+      '',
+      [['to speak', [['Hablo español.', 'I speak Spanish.']]], ['to talk']],
+      ['hablo', 'habla'],
+    ],
+    ['casa', 'n', 'f', [['house'], ['home']]],
+    ['casado', 'adj', '', [['married']]],
+    ['año', 'n', 'm', [['year']]],
+    ['ano', 'n', 'm', [['anus']]],
+  ],
+};
+
+const createService = () => {
+  const service = new OfflineDictionaryService(createMMKV({ id: 'test' }));
+  service.importPack(pack);
+  return service;
+};
+
+const lookup = (service: OfflineDictionaryService, text: string, reverse = false) =>
+  service.lookup({
+    text,
+    sourceLanguage: reverse ? 'en' : 'es',
+    targetLanguage: reverse ? 'es' : 'en',
+  });
+
+describe('OfflineDictionaryService', () => {
+  it('expands compact entries into senses, part of speech and gender', () => {
+    const result = lookup(createService(), 'Casa');
+
+    expect(result?.match).toBe('exact');
+    expect(result?.entries[0]).toEqual({
+      headword: 'casa',
+      partOfSpeech: 'noun',
+      gender: 'feminine',
+      forms: [],
+      senses: [
+        { gloss: 'house', examples: [] },
+        { gloss: 'home', examples: [] },
+      ],
+    });
+  });
+
+  it('resolves listed forms and guessed plurals to their lemma', () => {
+    const service = createService();
+
+    expect(lookup(service, 'hablo')).toMatchObject({
+      match: 'lemma',
+      entries: [{ headword: 'hablar' }],
+    });
+    expect(lookup(service, 'casas')).toMatchObject({
+      match: 'lemma',
+      entries: [{ headword: 'casa' }],
+    });
+  });
+
+  it('ignores accents but prefers the exact spelling', () => {
+    const service = createService();
+
+    expect(lookup(service, 'año')?.entries.map(entry => entry.headword)).toEqual(['año']);
+    expect(lookup(service, 'ano')?.entries.map(entry => entry.headword)).toEqual(['ano']);
+    expect(lookup(service, 'anos')?.entries.map(entry => entry.headword)).toEqual(['año', 'ano']);
+  });
+
+  it('completes prefixes with the shortest headwords first', () => {
+    const result = lookup(createService(), 'cas');
+
+    expect(result?.match).toBe('prefix');
+    expect(result?.entries.map(entry => entry.headword)).toEqual(['casa', 'casado']);
+  });
+
+  it('answers the opposite direction from glosses', () => {
+    const service = createService();
+
+    expect(lookup(service, 'to talk', true)).toMatchObject({
+      match: 'exact',
+      reversed: true,
+      entries: [{ headword: 'hablar' }],
+    });
+    expect(lookup(service, 'houses', true)).toMatchObject({
+      match: 'lemma',
+      entries: [{ headword: 'casa' }],
+    });
+    expect(lookup(service, 'sing', true)).toBeNull();
+  });
+
+  it('keeps imported packs in storage and rejects malformed ones', () => {
+    const storage = createMMKV({ id: 'test' });
+    new OfflineDictionaryService(storage).importPack(pack);
+    const service = new OfflineDictionaryService(storage, BUNDLED_DICTIONARY_PACKS);
+
+    expect(service.listPacks().map(info => [info.name, info.bundled])).toEqual([
+      ['Spanish–English starter', true],
+      ['Test Spanish–English', false],
+    ]);
+    expect(() => service.importPack({ ...pack, entries: [['casa', 'noun', 'f', []]] })).toThrow(
+      /Invalid dictionary pack at entries\.0/,
+    );
+
+    service.removePack('es', 'en');
+    expect(service.listPacks().map(info => info.bundled)).toEqual([true]);
+  });
+});
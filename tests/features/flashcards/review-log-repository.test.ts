@@ -0,0 +1,32 @@
+import { createMMKV } from 'react-native-mmkv';
+import type { ReviewLogEntry } from '@/contracts/models';
+import { MmkvReviewLogRepository } from '@/data/mmkv/review-log-repository';
+
+const createEntry = (id: string, reviewedAt: string): ReviewLogEntry => ({
+  id,
+  vocabItemId: 'vocab-1',
+  reviewedAt,
+  activityType: 'recognition',
+  quality: 4,
+  score: null,
+  elapsedHours: null,
+  previousIntervalHours: null,
+  nextIntervalHours: 24,
+  algorithm: 'sm2',
+});
+
+describe('MmkvReviewLogRepository', () => {
+  it('drops an undone review from the log', async () => {
+    const repository = new MmkvReviewLogRepository(createMMKV({ id: 'review-log' }));
+    await repository.appendReview(createEntry('kept', '2025-01-01T00:00:00.000Z'));
+    await repository.appendReview(createEntry('undone', '2025-01-02T00:00:00.000Z'));
+
+    await repository.removeReview('undone');
+    await repository.removeReview('missing');
+
+    expect((await repository.listAllReviews()).map(entry => entry.id)).toEqual(['kept']);
+    expect((await repository.listReviewsForItem('vocab-1')).map(entry => entry.id)).toEqual([
+      'kept',
+    ]);
+  });
+});
@@ -47,4 +47,17 @@ describe('flashcard session metrics', () => {
       { vocabId: '2', dueAt: '2025-01-02T00:00:00.000Z' },
     ]);
   });
+
+  test('buildRecap scores re-queued cards on their final attempt', () => {
+    const cards: FtxCard[] = [
+      makeCard('1', ['incorrect']),
+      makeCard('2', ['correct']),
+      { ...makeCard('1:r1', ['correct']), vocabId: '1', requeuedFromCardId: '1' },
+    ];
+
+    const recap = buildRecap(cards, new Map());
+    expect(recap.correctCount).toBe(2);
+    expect(recap.incorrectCount).toBe(0);
+    expect(recap.accuracy).toBe(1);
+  });
 });
@@ -0,0 +1,251 @@
+import { EchoAiTutorBackend } from '@/services/ai-tutor-service';
+import {
+  AiTutorRequestError,
+  HttpAiTutorBackend,
+  SettingsAiTutorBackend,
+} from '@/services/http-ai-tutor-backend';
+import {
+  chatRequestBody,
+  completion,
+  startChatCompletionsStub,
+} from '../../helpers/chat-completions-stub';
+
+const delta = (content: string) => JSON.stringify({ choices: [{ delta: { content } }] });
+
+const chatParams = { turns: [{ role: 'learner' as const, content: 'Why "ser" here?' }] };
+
+const translateParams = { text: 'Good morning', sourceLanguage: 'en', targetLanguage: 'es' };
+
+describe('HttpAiTutorBackend', () => {
+  it('posts chat completions with the configured key and model', async () => {
+    const stub = await startChatCompletionsStub(() => completion('Buenos días'));
+    try {
+      const backend = new HttpAiTutorBackend({
+        baseUrl: stub.baseUrl,
+        apiKey: 'test-key',
+        model: 'tutor-mini',
+      });
+
+      await expect(backend.translate(translateParams)).resolves.toBe('Buenos días');
+      expect(stub.requests).toHaveLength(1);
+      expect(stub.requests[0].url).toBe('/v1/chat/completions');
+      expect(stub.requests[0].headers.authorization).toBe('Bearer test-key');
+      expect(chatRequestBody(stub.requests[0]).model).toBe('tutor-mini');
+    } finally {
+      await stub.close();
+    }
+  });
+
+  it('retries server errors and rate limits with backoff', async () => {
+    const stub = await startChatCompletionsStub(attempt => {
+      if (attempt === 1) {
+        return { status: 503, body: { error: 'busy' } };
+      }
+      if (attempt === 2) {
+        return { status: 429, body: { error: 'slow down' }, headers: { 'Retry-After': '0' } };
+      }
+      return completion('Buenos días');
+    });
+    try {
+      const backend = new HttpAiTutorBackend({
+        baseUrl: stub.baseUrl,
+        apiKey: 'test-key',
+        retryDelayMs: 1,
+      });
+
+      await expect(backend.translate(translateParams)).resolves.toBe('Buenos días');
+      expect(stub.requests).toHaveLength(3);
+    } finally {
+      await stub.close();
+    }
+  });
+
+  it('maps rejected keys to an auth error without retrying or falling back', async () => {
+    const stub = await startChatCompletionsStub(() => ({
+      status: 401,
+      body: { error: 'bad key' },
+    }));
+    try {
+      const backend = new HttpAiTutorBackend({
+        baseUrl: stub.baseUrl,
+        apiKey: 'wrong-key',
+        retryDelayMs: 1,
+        fallback: new EchoAiTutorBackend(),
+      });
+
+      const error = await backend.translate(translateParams).catch(caught => caught);
+      expect(error).toBeInstanceOf(AiTutorRequestError);
+      expect(error.kind).toBe('auth');
+      expect(error.status).toBe(401);
+      expect(error.retryable).toBe(false);
+      expect(stub.requests).toHaveLength(1);
+    } finally {
+      await stub.close();
+    }
+  });
+
+  it('rejects completions it cannot read', async () => {
+    const stub = await startChatCompletionsStub(() => ({ status: 200, body: { choices: [] } }));
+    try {
+      const backend = new HttpAiTutorBackend({ baseUrl: stub.baseUrl, apiKey: 'test-key' });
+
+      await expect(backend.translate(translateParams)).rejects.toMatchObject({
+        kind: 'invalid_response',
+      });
+    } finally {
+      await stub.close();
+    }
+  });
+
+  it('times out, then falls back to the echo backend', async () => {
+    const stub = await startChatCompletionsStub(() => null);
+    try {
+      const options = { baseUrl: stub.baseUrl, apiKey: 'test-key', timeoutMs: 50, maxRetries: 1 };
+
+      await expect(
+        new HttpAiTutorBackend({ ...options, retryDelayMs: 1 }).translate(translateParams),
+      ).rejects.toMatchObject({ kind: 'timeout' });
+      await expect(
+        new HttpAiTutorBackend({
+          ...options,
+          retryDelayMs: 1,
+          fallback: new EchoAiTutorBackend(),
+        }).translate(translateParams),
+      ).resolves.toBe('[es] Good morning');
+      expect(stub.requests).toHaveLength(4);
+    } finally {
+      await stub.close();
+    }
+  });
+
+  it('skips the network entirely while offline', async () => {
+    const stub = await startChatCompletionsStub(() => completion('Buenos días'));
+    try {
+      const backend = new HttpAiTutorBackend({
+        baseUrl: stub.baseUrl,
+        apiKey: 'test-key',
+        fallback: new EchoAiTutorBackend(),
+        isOffline: () => true,
+      });
+
+      await expect(backend.translate(translateParams)).resolves.toBe('[es] Good morning');
+      expect(stub.requests).toHaveLength(0);
+    } finally {
+      await stub.close();
+    }
+  });
+});
+
+describe('HttpAiTutorBackend chat streaming', () => {
+  it('delivers the reply piece by piece as it streams in', async () => {
+    const stub = await startChatCompletionsStub(() => ({
+      status: 200,
+      events: [delta('Because '), delta('it describes '), delta('identity.'), '[DONE]'],
+    }));
+    try {
+      const backend = new HttpAiTutorBackend({ baseUrl: stub.baseUrl, apiKey: 'test-key' });
+      const partials: string[] = [];
+
+      const reply = await backend.streamChat(
+        { ...chatParams, context: 'Prompt: I am a teacher.' },
+        { onDelta: (_delta, text) => partials.push(text) },
+      );
+
+      expect(reply).toBe('Because it describes identity.');
+      expect(partials).toEqual([
+        'Because ',
+        'Because it describes ',
+        'Because it describes identity.',
+      ]);
+      const { stream, messages } = chatRequestBody(stub.requests[0]);
+      expect(stream).toBe(true);
+      expect(messages[0].content).toContain('Prompt: I am a teacher.');
+      expect(messages[1]).toEqual({
+        role: 'user',
+        content: 'Why "ser" here?',
+      });
+    } finally {
+      await stub.close();
+    }
+  });
+
+  it('reads endpoints that answer with a single completion', async () => {
+    const stub = await startChatCompletionsStub(() => completion('Because it describes identity.'));
+    try {
+      const backend = new HttpAiTutorBackend({ baseUrl: stub.baseUrl, apiKey: 'test-key' });
+      const onDelta = jest.fn();
+
+      await expect(backend.streamChat(chatParams, { onDelta })).resolves.toBe(
+        'Because it describes identity.',
+      );
+      expect(onDelta).toHaveBeenCalledTimes(1);
+    } finally {
+      await stub.close();
+    }
+  });
+
+  it('stops streaming when cancelled and keeps what arrived', async () => {
+    const stub = await startChatCompletionsStub(() => ({
+      status: 200,
+      events: [delta('Because ')],
+      hold: true,
+    }));
+    try {
+      const backend = new HttpAiTutorBackend({
+        baseUrl: stub.baseUrl,
+        apiKey: 'test-key',
+        fallback: new EchoAiTutorBackend(),
+      });
+      const controller = new AbortController();
+      const partials: string[] = [];
+
+      const error = await backend
+        .streamChat(chatParams, {
+          signal: controller.signal,
+          onDelta: (_delta, text) => {
+            partials.push(text);
+            controller.abort();
+          },
+        })
+        .catch(caught => caught);
+
+      expect(error).toMatchObject({ kind: 'cancelled' });
+      expect(partials).toEqual(['Because ']);
+      expect(stub.requests).toHaveLength(1);
+    } finally {
+      await stub.close();
+    }
+  });
+
+  it('uses the offline reply while offline', async () => {
+    const backend = new HttpAiTutorBackend({
+      baseUrl: 'http://127.0.0.1:9/v1',
+      apiKey: 'test-key',
+      fallback: new EchoAiTutorBackend(),
+      isOffline: () => true,
+    });
+    const onDelta = jest.fn();
+
+    await expect(
+      backend.streamChat({ ...chatParams, offlineReply: 'Ser marks identity.' }, { onDelta }),
+    ).resolves.toBe('Ser marks identity.');
+    expect(onDelta).toHaveBeenCalledWith('Ser marks identity.', 'Ser marks identity.');
+  });
+});
+
+describe('SettingsAiTutorBackend', () => {
+  it('uses the HTTP backend only while an API key is configured', async () => {
+    const stub = await startChatCompletionsStub(() => completion('Buenos días'));
+    try {
+      const settings = { aiTutorApiKey: '', aiTutorBaseUrl: stub.baseUrl, aiTutorModel: 'm' };
+      const backend = new SettingsAiTutorBackend(() => settings, new EchoAiTutorBackend());
+
+      await expect(backend.translate(translateParams)).resolves.toBe('[es] Good morning');
+      settings.aiTutorApiKey = 'test-key';
+      await expect(backend.translate(translateParams)).resolves.toBe('Buenos días');
+      expect(stub.requests).toHaveLength(1);
+    } finally {
+      await stub.close();
+    }
+  });
+});
@@ -0,0 +1,92 @@
+import { createMMKV } from 'react-native-mmkv';
+import { CachedAiTutorService, EchoAiTutorBackend } from '@/services/ai-tutor-service';
+import { TranslationCache } from '@/services/translation-cache';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('TranslationCache', () => {
+  it('evicts the least recently used entry once full', () => {
+    const cache = new TranslationCache(createMMKV({ id: 'test' }), { maxEntries: 2 });
+
+    cache.set('a', 'uno');
+    cache.set('b', 'dos');
+    expect(cache.get('a')).toBe('uno');
+    cache.set('c', 'tres');
+
+    expect(cache.get('b')).toBeNull();
+    expect(cache.get('a')).toBe('uno');
+    expect(cache.get('c')).toBe('tres');
+    expect(cache.getUsage().entries).toBe(2);
+  });
+
+  it('stays within its byte budget, counting UTF-8 bytes', () => {
+    const cache = new TranslationCache(createMMKV({ id: 'test' }), { maxBytes: 19 });
+
+    cache.set('k1', 'ñandú');
+    expect(cache.getUsage().bytes).toBe(9);
+    cache.set('k2', 'cigüeña');
+    cache.set('k3', 'x'.repeat(40));
+
+    expect(cache.get('k1')).toBeNull();
+    expect(cache.get('k2')).toBe('cigüeña');
+    expect(cache.get('k3')).toBeNull();
+    expect(cache.getUsage().bytes).toBe(11);
+  });
+
+  it('expires entries after their time to live', () => {
+    let now = 0;
+    const cache = new TranslationCache(createMMKV({ id: 'test' }), {
+      ttlMs: DAY_MS,
+      now: () => now,
+    });
+
+    cache.set('a', 'uno');
+    now = DAY_MS - 1;
+    expect(cache.get('a')).toBe('uno');
+    now = DAY_MS;
+    expect(cache.get('a')).toBeNull();
+    expect(cache.getUsage().entries).toBe(0);
+  });
+
+  it('drops entries written before the index existed', () => {
+    const storage = createMMKV({ id: 'test' });
+    storage.set('legacy|en|es|hello|', 'hola');
+
+    const cache = new TranslationCache(storage);
+
+    expect(cache.getUsage().entries).toBe(0);
+    expect(storage.getString('legacy|en|es|hello|')).toBeNull();
+  });
+});
+
+describe('CachedAiTutorService translation cache', () => {
+  const params = { text: 'Good morning', sourceLanguage: 'en', targetLanguage: 'es' };
+
+  const createBackend = (modelId: string) => {
+    const backend = new EchoAiTutorBackend();
+    jest.spyOn(backend, 'getModelId').mockReturnValue(modelId);
+    const translate = jest.spyOn(backend, 'translate').mockResolvedValue(`${modelId}: hola`);
+    return { backend, translate };
+  };
+
+  it('keys cached translations by model and can be cleared', async () => {
+    const storage = createMMKV({ id: 'test' });
+    const first = createBackend('model-a');
+    const service = new CachedAiTutorService(first.backend, storage);
+
+    await service.translate(params);
+    await expect(service.translate(params)).resolves.toBe('model-a: hola');
+    expect(first.translate).toHaveBeenCalledTimes(1);
+
+    const second = createBackend('model-b');
+    await expect(new CachedAiTutorService(second.backend, storage).translate(params)).resolves.toBe(
+      'model-b: hola',
+    );
+
+    expect(service.getTranslationCacheUsage().entries).toBe(1);
+    service.clearTranslationCache();
+    expect(service.getTranslationCacheUsage()).toMatchObject({ entries: 0, bytes: 0 });
+    await service.translate(params);
+    expect(first.translate).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,121 @@
+import { CachedAiTutorService, EchoAiTutorBackend } from '@/services/ai-tutor-service';
+import { HttpAiTutorBackend } from '@/services/http-ai-tutor-backend';
+import { parseTranslationGrade } from '@/services/translation-grader';
+import { gradeTranslationAnswer, ledgerErrorTags } from '@/features/translation/utils/grading';
+import type { TtxItem } from '@/contracts/models';
+import {
+  chatRequestBody,
+  completion,
+  startChatCompletionsStub,
+} from '../../helpers/chat-completions-stub';
+
+const item: TtxItem = {
+  itemId: 'item-1',
+  nativeText: 'The library is closed today.',
+  styleTags: [],
+  expectedTranslations: [
+    { text: 'La biblioteca está cerrada hoy.', register: 'neutral', notes: 'Use estar.' },
+  ],
+  focusVocabIds: [],
+  commonPitfalls: [{ type: 'false_cognate', explanation: 'Librería is a bookshop.' }],
+  gradingRubric: { mustInclude: [], tolerate: [], reject: [] },
+  insightHook: 'Biblioteca lends books; librería sells them.',
+  history: [],
+  isFlagged: false,
+};
+
+describe('AI translation grader', () => {
+  it('grades through the HTTP backend and keeps the rule-based diff', async () => {
+    const stub = await startChatCompletionsStub(() =>
+      completion(
+        JSON.stringify({
+          score: 0.7,
+          errorTags: ['false_cognate', 'not_a_tag'],
+          correctedSentence: 'La biblioteca está cerrada hoy.',
+          explanation: 'Librería means bookshop; use biblioteca.',
+        }),
+      ),
+    );
+    try {
+      const backend = new HttpAiTutorBackend({ baseUrl: stub.baseUrl, apiKey: 'test-key' });
+      const tutor = new CachedAiTutorService(backend);
+
+      const answer = 'La librería está cerrada hoy.';
+      const result = await gradeTranslationAnswer(tutor, item, answer, 'es');
+
+      expect(result.grader).toBe('ai');
+      expect(result.score).toBe(0.7);
+      expect(result.errorTags).toEqual(['false_cognate']);
+      expect(result.correctedSentence).toBe('La biblioteca está cerrada hoy.');
+      expect(result.feedback).toBe('Librería means bookshop; use biblioteca.');
+      expect(result.alignment).toContainEqual({ status: 'extra', text: 'librería' });
+
+      expect(stub.requests).toHaveLength(1);
+      expect(stub.requests[0].headers.authorization).toBe('Bearer test-key');
+      const prompt = chatRequestBody(stub.requests[0]).messages[1].content;
+      expect(prompt).toContain('Learner answer: La librería está cerrada hoy.');
+      expect(prompt).toContain('Target language: es');
+    } finally {
+      await stub.close();
+    }
+  });
+
+  it('falls back to the rule-based evaluator when the endpoint fails', async () => {
+    const stub = await startChatCompletionsStub(() => ({ status: 500, body: { error: 'boom' } }));
+    try {
+      const backend = new HttpAiTutorBackend({
+        baseUrl: stub.baseUrl,
+        apiKey: 'test-key',
+        retryDelayMs: 1,
+        fallback: new EchoAiTutorBackend(),
+      });
+      const tutor = new CachedAiTutorService(backend);
+
+      const result = await gradeTranslationAnswer(tutor, item, 'La biblioteca está cerrada hoy.');
+
+      expect(result.grader).toBe('rules');
+      expect(result.score).toBe(1);
+      expect(result.correctedSentence).toBeUndefined();
+    } finally {
+      await stub.close();
+    }
+  });
+
+  it('falls back when the backend cannot grade', async () => {
+    const tutor = new CachedAiTutorService(new EchoAiTutorBackend());
+
+    const result = await gradeTranslationAnswer(tutor, item, 'La bibloteca está cerrada hoy.');
+
+    expect(result.grader).toBe('rules');
+    expect(result.score).toBe(0.95);
+  });
+
+  it('only feeds the AI tutor’s diagnosis of real answers to the error ledger', async () => {
+    const rules = await gradeTranslationAnswer(
+      new CachedAiTutorService(new EchoAiTutorBackend()),
+      item,
+      'La librería está cerrada hoy.',
+    );
+    expect(rules.errorTags).toEqual(['false_cognate']);
+    expect(ledgerErrorTags(rules, 'La librería está cerrada hoy.')).toEqual([]);
+
+    const ai = { ...rules, grader: 'ai' as const, score: 0.6, errorTags: ['gender' as const] };
+    expect(ledgerErrorTags(ai, 'La librería está cerrada hoy.')).toEqual(['gender']);
+    expect(ledgerErrorTags(ai, 'La librería', true)).toEqual([]);
+    expect(ledgerErrorTags(ai, '  ')).toEqual([]);
+  });
+
+  it('parses fenced replies and clamps the score', () => {
+    const grade = parseTranslationGrade(
+      '```json\n{"score": 1.4, "correctedSentence": " Hola. ", "explanation": "Fine."}\n```',
+    );
+
+    expect(grade).toEqual({
+      score: 1,
+      errorTags: [],
+      correctedSentence: 'Hola.',
+      explanation: 'Fine.',
+    });
+    expect(() => parseTranslationGrade('not json')).toThrow('not valid JSON');
+  });
+});
@@ -44,4 +44,31 @@ describe('buildVocabPool', () => {
       expect(result.items).toHaveLength(3);
     }
   });
+
+  it('treats items as unseen until their production track is reviewed', () => {
+    const recognised = vocab('recognised', {
+      srsData: {
+        id: 'srs-1',
+        algorithm: 'sm2',
+        streak: 2,
+        intervalHours: 144,
+        easeFactor: 2.5,
+        dueAt: new Date().toISOString(),
+        lastReviewedAt: new Date().toISOString(),
+      },
+    });
+    const result = buildVocabPool({
+      reviewMode: 'new_only',
+      questionCount: 1,
+      savedVocab: [recognised],
+      targetLanguage: 'es',
+      difficulty: 'intermediate',
+      topics: '',
+    });
+
+    expect(result.type).toBe('ok');
+    if (result.type === 'ok') {
+      expect(result.items.map(item => item.id)).toEqual(['recognised']);
+    }
+  });
 });
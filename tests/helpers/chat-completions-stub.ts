@@ -0,0 +1,82 @@
+/// <reference types="node" />
+import http from 'http';
+import type { AddressInfo } from 'net';
+
+export type StubReply = {
+  status: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+  /** Server-sent event payloads written one at a time instead of `body`. */
+  events?: string[];
+  /** Keeps the response open after the last event. */
+  hold?: boolean;
+};
+
+export type StubRequest = { url?: string; headers: http.IncomingHttpHeaders; body: unknown };
+
+/** Fields of a chat-completions request the tests look at. */
+export type ChatCompletionRequestBody = {
+  model?: string;
+  stream?: boolean;
+  messages: Array<{ role: string; content: string }>;
+};
+
+/** Reads a recorded request as the chat-completions payload the client sent. */
+export const chatRequestBody = (request: StubRequest): ChatCompletionRequestBody =>
+  request.body as ChatCompletionRequestBody;
+
+/**
+ * Starts a chat-completions stub that records requests and answers with `reply()`, called with
+ * the 1-based attempt number. Returning null leaves the request hanging so the client times out.
+ */
+export const startChatCompletionsStub = async (
+  reply: (attempt: number) => StubReply | null,
+) => {
+  const requests: StubRequest[] = [];
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => {
+      raw += chunk;
+    });
+    req.on('end', () => {
+      requests.push({ url: req.url, headers: req.headers, body: JSON.parse(raw) as unknown });
+      const answer = reply(requests.length);
+      if (!answer) {
+        return;
+      }
+      const { events } = answer;
+      if (events) {
+        res.writeHead(answer.status, { 'Content-Type': 'text/event-stream' });
+        const write = (index: number) => {
+          if (index < events.length) {
+            res.write(`data: ${events[index]}\n\n`);
+            setTimeout(() => write(index + 1), 5);
+          } else if (!answer.hold) {
+            res.end();
+          }
+        };
+        write(0);
+        return;
+      }
+      res.writeHead(answer.status, { 'Content-Type': 'application/json', ...answer.headers });
+      res.end(JSON.stringify(answer.body));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    baseUrl: `http://127.0.0.1:${port}/v1/`,
+    requests,
+    close: () =>
+      new Promise<void>(resolve => {
+        server.closeAllConnections();
+        server.close(() => resolve());
+      }),
+  };
+};
+
+/** A single, non-streamed completion answering with `content`. */
+export const completion = (content: string): StubReply => ({
+  status: 200,
+  body: { choices: [{ message: { role: 'assistant', content } }] },
+});